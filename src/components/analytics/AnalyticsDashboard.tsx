@@ -0,0 +1,490 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from '@/components/ui/chart';
+import { useToast } from '@/components/ui/use-toast';
+import { Area, AreaChart, Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { BedDouble, CalendarClock, CalendarX, DollarSign, Moon, RefreshCw, TrendingUp } from 'lucide-react';
+import { addDays, endOfMonth, format, parseISO, startOfMonth, startOfYear, subDays } from 'date-fns';
+import {
+  AnalyticsBlock,
+  AnalyticsReservation,
+  AnalyticsRoom,
+  DateRange,
+  Inventory,
+  bookingPace,
+  cancellationStats,
+  cancellationsByChannel,
+  channelMix,
+  leadTimeDistribution,
+  lengthOfStayDistribution,
+  paceFetchRange,
+  performanceSeries,
+  summarize,
+} from '@/lib/analytics';
+import { fetchAllRows } from '@/lib/pagination';
+
+interface Property {
+  id: string;
+  name: string;
+}
+
+const performanceConfig = {
+  occupancy: { label: 'Occupancy %', color: 'hsl(var(--primary))' },
+  adr: { label: 'ADR', color: 'hsl(var(--secondary))' },
+  revpar: { label: 'RevPAR', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const bookingsConfig = {
+  bookings: { label: 'Bookings', color: 'hsl(var(--primary))' },
+} satisfies ChartConfig;
+
+const channelConfig = {
+  roomNights: { label: 'Room nights', color: 'hsl(var(--accent))' },
+} satisfies ChartConfig;
+
+const cancellationConfig = {
+  bookings: { label: 'Bookings', color: 'hsl(var(--primary))' },
+  cancelled: { label: 'Cancelled', color: 'hsl(var(--destructive))' },
+} satisfies ChartConfig;
+
+const paceConfig = {
+  current: { label: 'This year', color: 'hsl(var(--primary))' },
+  lastYear: { label: 'Last year', color: 'hsl(var(--muted-foreground))' },
+} satisfies ChartConfig;
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+// Date inputs are inclusive; the reports take [from, to)
+const RANGE_PRESETS: { value: string; label: string; range: () => { from: string; to: string } }[] = [
+  { value: 'last_30', label: 'Last 30 days', range: () => ({ from: format(subDays(new Date(), 30), 'yyyy-MM-dd'), to: format(subDays(new Date(), 1), 'yyyy-MM-dd') }) },
+  { value: 'month', label: 'This month', range: () => ({ from: format(startOfMonth(new Date()), 'yyyy-MM-dd'), to: format(endOfMonth(new Date()), 'yyyy-MM-dd') }) },
+  { value: 'next_30', label: 'Next 30 days', range: () => ({ from: today(), to: format(addDays(new Date(), 29), 'yyyy-MM-dd') }) },
+  { value: 'ytd', label: 'Year to date', range: () => ({ from: format(startOfYear(new Date()), 'yyyy-MM-dd'), to: today() }) },
+];
+
+const formatMoney = (value: number) =>
+  `$${value.toLocaleString(undefined, { minimumFractionDigits: 0, maximumFractionDigits: 2 })}`;
+
+const AnalyticsDashboard: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [rooms, setRooms] = useState<AnalyticsRoom[]>([]);
+  const [reservations, setReservations] = useState<AnalyticsReservation[]>([]);
+  const [blocks, setBlocks] = useState<AnalyticsBlock[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [propertyFilter, setPropertyFilter] = useState('all');
+  const [roomTypeFilter, setRoomTypeFilter] = useState('all');
+  const [dateFrom, setDateFrom] = useState(RANGE_PRESETS[1].range().from);
+  const [dateTo, setDateTo] = useState(RANGE_PRESETS[1].range().to);
+
+  const range: DateRange = useMemo(
+    () => ({ from: dateFrom, to: format(addDays(parseISO(dateTo), 1), 'yyyy-MM-dd') }),
+    [dateFrom, dateTo]
+  );
+
+  useEffect(() => {
+    if (user && dateFrom && dateTo && dateFrom <= dateTo) {
+      fetchData();
+    }
+  }, [user, dateFrom, dateTo]);
+
+  const fetchData = async () => {
+    try {
+      setRefreshing(true);
+
+      const { data: propertiesData, error: propertiesError } = await supabase
+        .from('properties')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (propertiesError) throw propertiesError;
+      setProperties(propertiesData || []);
+
+      const { data: roomsData, error: roomsError } = await supabase
+        .from('rooms')
+        .select('id, property_id, room_type')
+        .eq('is_active', true);
+
+      if (roomsError) throw roomsError;
+      setRooms(roomsData || []);
+
+      // Pace compares against the same period last year, so fetch from there
+      const fetchRange = paceFetchRange(range);
+      setReservations(await fetchAllRows((from, to) => supabase
+        .from('reservations')
+        .select('id, property_id, room_id, check_in, check_out, total_price, status, source, created_at, cancelled_at, cancellation_penalty')
+        .lt('check_in', fetchRange.to)
+        .gt('check_out', fetchRange.from)
+        .order('id')
+        .range(from, to)));
+
+      setBlocks(await fetchAllRows((from, to) => supabase
+        .from('maintenance_tickets')
+        .select('room_id, out_of_order_from, out_of_order_to, resolved_at')
+        .not('room_id', 'is', null)
+        .lt('out_of_order_from', range.to)
+        .gt('out_of_order_to', range.from)
+        .order('id')
+        .range(from, to)));
+    } catch (error) {
+      console.error('Error fetching analytics:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  };
+
+  const roomTypes = useMemo(
+    () => [...new Set(rooms
+      .filter(room => propertyFilter === 'all' || room.property_id === propertyFilter)
+      .map(room => room.room_type)
+      .filter((type): type is string => !!type))].sort(),
+    [rooms, propertyFilter]
+  );
+
+  const { inventory, filteredReservations } = useMemo(() => {
+    const propertyIds = properties
+      .map(p => p.id)
+      .filter(id => propertyFilter === 'all' || id === propertyFilter);
+    const scopedRooms = rooms.filter(room =>
+      propertyIds.includes(room.property_id) && (roomTypeFilter === 'all' || room.room_type === roomTypeFilter)
+    );
+    const roomIds = new Set(scopedRooms.map(room => room.id));
+
+    // With a room type selected, only stays in those rooms count
+    const scopedReservations = reservations.filter(r =>
+      propertyIds.includes(r.property_id) && (roomTypeFilter === 'all' || (!!r.room_id && roomIds.has(r.room_id)))
+    );
+
+    const scopedInventory: Inventory = {
+      propertyIds: roomTypeFilter === 'all' ? propertyIds : [],
+      rooms: scopedRooms,
+      blocks,
+    };
+
+    return { inventory: scopedInventory, filteredReservations: scopedReservations };
+  }, [properties, rooms, reservations, blocks, propertyFilter, roomTypeFilter]);
+
+  const kpis = useMemo(() => summarize(filteredReservations, inventory, range), [filteredReservations, inventory, range]);
+  const performance = useMemo(() => performanceSeries(filteredReservations, inventory, range), [filteredReservations, inventory, range]);
+  const leadTimes = useMemo(() => leadTimeDistribution(filteredReservations, range), [filteredReservations, range]);
+  const stayLengths = useMemo(() => lengthOfStayDistribution(filteredReservations, range), [filteredReservations, range]);
+  const channels = useMemo(() => channelMix(filteredReservations, range), [filteredReservations, range]);
+  const pace = useMemo(() => bookingPace(filteredReservations, range), [filteredReservations, range]);
+  const cancellations = useMemo(() => cancellationStats(filteredReservations, range), [filteredReservations, range]);
+  const channelCancellations = useMemo(() => cancellationsByChannel(filteredReservations, range), [filteredReservations, range]);
+
+  const applyPreset = (value: string) => {
+    const preset = RANGE_PRESETS.find(p => p.value === value);
+    if (!preset) return;
+    const { from, to } = preset.range();
+    setDateFrom(from);
+    setDateTo(to);
+  };
+
+  const kpiCards = [
+    {
+      title: 'Occupancy',
+      value: `${kpis.occupancy.toFixed(1)}%`,
+      description: `${kpis.roomNightsSold} of ${kpis.roomNightsAvailable} room nights`,
+      icon: BedDouble,
+      color: 'text-primary',
+    },
+    {
+      title: 'ADR',
+      value: formatMoney(kpis.adr),
+      description: 'Revenue per sold room night',
+      icon: DollarSign,
+      color: 'text-secondary',
+    },
+    {
+      title: 'RevPAR',
+      value: formatMoney(kpis.revpar),
+      description: `Room revenue ${formatMoney(kpis.revenue)}`,
+      icon: TrendingUp,
+      color: 'text-accent',
+    },
+    {
+      title: 'Lead Time',
+      value: `${kpis.averageLeadTime.toFixed(0)} days`,
+      description: `${kpis.bookings} arrivals in period`,
+      icon: CalendarClock,
+      color: 'text-muted-foreground',
+    },
+    {
+      title: 'Length of Stay',
+      value: `${kpis.averageLengthOfStay.toFixed(1)} nights`,
+      description: 'Average per arrival',
+      icon: Moon,
+      color: 'text-muted-foreground',
+    },
+    {
+      title: 'Cancellations',
+      value: `${cancellations.rate.toFixed(1)}%`,
+      description: `${cancellations.cancelled} of ${cancellations.bookings} due, ${formatMoney(cancellations.penalties)} in fees`,
+      icon: CalendarX,
+      color: 'text-destructive',
+    },
+  ];
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Analytics</h2>
+          <p className="text-muted-foreground">
+            Occupancy, rates and booking behaviour across your properties
+          </p>
+        </div>
+        <Button variant="outline" onClick={fetchData} disabled={refreshing}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardContent className="pt-6">
+          <div className="grid gap-4 md:grid-cols-5">
+            <div className="space-y-2">
+              <Label>Property</Label>
+              <Select
+                value={propertyFilter}
+                onValueChange={(value) => {
+                  setPropertyFilter(value);
+                  setRoomTypeFilter('all');
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All properties</SelectItem>
+                  {properties.map(property => (
+                    <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Room type</Label>
+              <Select value={roomTypeFilter} onValueChange={setRoomTypeFilter}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All room types</SelectItem>
+                  {roomTypes.map(type => (
+                    <SelectItem key={type} value={type}>{type}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>Period</Label>
+              <Select onValueChange={applyPreset}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Custom" />
+                </SelectTrigger>
+                <SelectContent>
+                  {RANGE_PRESETS.map(preset => (
+                    <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-from">From</Label>
+              <Input id="analytics-from" type="date" value={dateFrom} onChange={(e) => setDateFrom(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-to">To</Label>
+              <Input id="analytics-to" type="date" value={dateTo} min={dateFrom} onChange={(e) => setDateTo(e.target.value)} />
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-3 xl:grid-cols-6">
+        {kpiCards.map((card) => {
+          const Icon = card.icon;
+          return (
+            <Card key={card.title} className="glass-card border-0">
+              <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+                <CardTitle className="text-sm font-medium">{card.title}</CardTitle>
+                <Icon className={`h-4 w-4 ${card.color}`} />
+              </CardHeader>
+              <CardContent>
+                <div className="text-2xl font-bold">{card.value}</div>
+                <p className="text-xs text-muted-foreground">{card.description}</p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <CardTitle>Performance</CardTitle>
+          <CardDescription>Occupancy against ADR and RevPAR over the period</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={performanceConfig} className="h-[300px] w-full">
+            <LineChart data={performance}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis yAxisId="percent" tickLine={false} axisLine={false} domain={[0, 100]} unit="%" />
+              <YAxis yAxisId="money" orientation="right" tickLine={false} axisLine={false} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line yAxisId="percent" dataKey="occupancy" stroke="var(--color-occupancy)" strokeWidth={2} dot={false} />
+              <Line yAxisId="money" dataKey="adr" stroke="var(--color-adr)" strokeWidth={2} dot={false} />
+              <Line yAxisId="money" dataKey="revpar" stroke="var(--color-revpar)" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 md:grid-cols-2">
+        <Card className="glass-card border-0">
+          <CardHeader>
+            <CardTitle>Booking Lead Time</CardTitle>
+            <CardDescription>Days between booking and arrival</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={bookingsConfig} className="h-[240px] w-full">
+              <BarChart data={leadTimes}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="bookings" fill="var(--color-bookings)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-0">
+          <CardHeader>
+            <CardTitle>Length of Stay</CardTitle>
+            <CardDescription>Arrivals by number of nights</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={bookingsConfig} className="h-[240px] w-full">
+              <BarChart data={stayLengths}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="bookings" fill="var(--color-bookings)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-0">
+          <CardHeader>
+            <CardTitle>Channel Mix</CardTitle>
+            <CardDescription>Room nights by booking source</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {channels.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">No stays in this period</p>
+            ) : (
+              <ChartContainer config={channelConfig} className="h-[240px] w-full">
+                <BarChart data={channels} layout="vertical">
+                  <CartesianGrid horizontal={false} />
+                  <XAxis type="number" tickLine={false} axisLine={false} allowDecimals={false} />
+                  <YAxis type="category" dataKey="source" tickLine={false} axisLine={false} width={90} />
+                  <ChartTooltip content={<ChartTooltipContent />} />
+                  <Bar dataKey="roomNights" fill="var(--color-roomNights)" radius={4} />
+                </BarChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className="glass-card border-0">
+          <CardHeader>
+            <CardTitle>Booking Pace</CardTitle>
+            <CardDescription>Room nights on the books by days before the period starts, year over year</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {pace.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">Pace tracking starts 13 weeks before the period</p>
+            ) : (
+              <ChartContainer config={paceConfig} className="h-[240px] w-full">
+                <AreaChart data={pace}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="daysOut" tickLine={false} axisLine={false} tickFormatter={(value) => `${value}d`} />
+                  <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                  <ChartTooltip content={<ChartTooltipContent labelFormatter={(_, payload) => `${payload?.[0]?.payload?.daysOut ?? ''} days out`} />} />
+                  <ChartLegend content={<ChartLegendContent />} />
+                  <Area dataKey="lastYear" stroke="var(--color-lastYear)" fill="var(--color-lastYear)" fillOpacity={0.15} strokeDasharray="4 4" />
+                  <Area dataKey="current" stroke="var(--color-current)" fill="var(--color-current)" fillOpacity={0.3} />
+                </AreaChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <CardTitle>Cancellations by Channel</CardTitle>
+          <CardDescription>
+            Reservations due to arrive in the period and how many were cancelled
+            {cancellations.cancelled > 0 && `, on average ${cancellations.averageNoticeDays.toFixed(0)} days before arrival`}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {channelCancellations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-8">No arrivals in this period</p>
+          ) : (
+            <ChartContainer config={cancellationConfig} className="h-[240px] w-full">
+              <BarChart data={channelCancellations}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="source" tickLine={false} axisLine={false} />
+                <YAxis tickLine={false} axisLine={false} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <ChartLegend content={<ChartLegendContent />} />
+                <Bar dataKey="bookings" fill="var(--color-bookings)" radius={4} />
+                <Bar dataKey="cancelled" fill="var(--color-cancelled)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AnalyticsDashboard;
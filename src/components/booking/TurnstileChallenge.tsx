@@ -0,0 +1,75 @@
+import React, { useEffect, useRef } from 'react';
+
+const SCRIPT_URL = 'https://challenges.cloudflare.com/turnstile/v0/api.js?render=explicit';
+
+interface TurnstileApi {
+  render: (container: HTMLElement, options: Record<string, unknown>) => string;
+  remove: (widgetId: string) => void;
+}
+
+declare global {
+  interface Window {
+    turnstile?: TurnstileApi;
+  }
+}
+
+let turnstileScript: Promise<TurnstileApi> | null = null;
+
+// Cloudflare's script is loaded once, the first time a challenge is shown
+const loadTurnstile = () => {
+  if (!turnstileScript) {
+    turnstileScript = new Promise((resolve, reject) => {
+      const script = document.createElement('script');
+      script.src = SCRIPT_URL;
+      script.async = true;
+      script.onload = () => (window.turnstile ? resolve(window.turnstile) : reject(new Error('Turnstile did not load')));
+      script.onerror = () => {
+        turnstileScript = null;
+        reject(new Error('The verification challenge could not be loaded'));
+      };
+      document.head.appendChild(script);
+    });
+  }
+  return turnstileScript;
+};
+
+interface TurnstileChallengeProps {
+  siteKey: string;
+  // The token to send with the form; '' once it expires or the challenge fails
+  onToken: (token: string) => void;
+  onError: (error: Error) => void;
+}
+
+// A token is only good for one submission. Remount the challenge (change its
+// key) to get a new one after the form was sent.
+const TurnstileChallenge: React.FC<TurnstileChallengeProps> = ({ siteKey, onToken, onError }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const callbacks = useRef({ onToken, onError });
+  callbacks.current = { onToken, onError };
+
+  useEffect(() => {
+    let cancelled = false;
+    let widgetId: string | null = null;
+
+    loadTurnstile()
+      .then(turnstile => {
+        if (cancelled || !containerRef.current) return;
+        widgetId = turnstile.render(containerRef.current, {
+          sitekey: siteKey,
+          callback: (token: string) => callbacks.current.onToken(token),
+          'expired-callback': () => callbacks.current.onToken(''),
+          'error-callback': () => callbacks.current.onToken(''),
+        });
+      })
+      .catch(error => callbacks.current.onError(error));
+
+    return () => {
+      cancelled = true;
+      if (widgetId) window.turnstile?.remove(widgetId);
+    };
+  }, [siteKey]);
+
+  return <div ref={containerRef} />;
+};
+
+export default TurnstileChallenge;
@@ -4,8 +4,12 @@ import { useAuth } from '@/contexts/AuthContext';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import TotemVisualization from './TotemVisualization';
 import TodayOverview from './TodayOverview';
+import { addMonths, format, startOfMonth } from 'date-fns';
+import { summarize } from '@/lib/analytics';
+import { fetchPostedRevenue } from '@/lib/folio';
 import { 
   Building2, 
   Calendar, 
@@ -41,6 +45,8 @@ const DashboardOverview: React.FC = () => {
   });
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [properties, setProperties] = useState<{ id: string; name: string }[]>([]);
+  const [totemPropertyId, setTotemPropertyId] = useState('all');
 
   useEffect(() => {
     if (user) {
@@ -58,28 +64,12 @@ const DashboardOverview: React.FC = () => {
       const { count: propertiesCount } = await supabase
         .from('properties')
         .select('*', { count: 'exact', head: true })
-        .eq('is_active', true)
-        .eq('owner_id', user.id);
+        .eq('is_active', true);
 
-      // Fetch reservations count - get through properties to ensure user owns them
+      // Fetch reservations count - RLS limits it to properties the user can see
       const { count: reservationsCount } = await supabase
         .from('reservations')
-        .select('*, properties!inner(*)', { count: 'exact', head: true })
-        .eq('properties.owner_id', user.id);
-
-      // Fetch this month's revenue
-      const startOfMonth = new Date();
-      startOfMonth.setDate(1);
-      startOfMonth.setHours(0, 0, 0, 0);
-      
-      const { data: reservations } = await supabase
-        .from('reservations')
-        .select('total_price, properties!inner(*)')
-        .eq('properties.owner_id', user.id)
-        .gte('check_in', startOfMonth.toISOString())
-        .eq('status', 'confirmed');
-
-      const monthlyRevenue = reservations?.reduce((sum, r) => sum + Number(r.total_price), 0) || 0;
+        .select('*', { count: 'exact', head: true });
 
       // Fetch upcoming check-ins (next 7 days)
       const today = new Date();
@@ -88,18 +78,43 @@ const DashboardOverview: React.FC = () => {
 
       const { count: upcomingCount } = await supabase
         .from('reservations')
-        .select('*, properties!inner(*)', { count: 'exact', head: true })
-        .eq('properties.owner_id', user.id)
+        .select('*', { count: 'exact', head: true })
         .gte('check_in', today.toISOString().split('T')[0])
         .lte('check_in', nextWeek.toISOString().split('T')[0])
         .eq('status', 'confirmed');
 
-      // Calculate occupancy rate (simplified - current month)
-      const daysInMonth = new Date(today.getFullYear(), today.getMonth() + 1, 0).getDate();
-      const totalPossibleNights = (propertiesCount || 0) * daysInMonth;
-      const occupiedNights = reservations?.length || 0;
-      const occupancyRate = totalPossibleNights > 0 ? (occupiedNights / totalPossibleNights) * 100 : 0;
+      // Occupancy is sold room nights over available room nights this month
+      const month = {
+        from: format(startOfMonth(today), 'yyyy-MM-dd'),
+        to: format(addMonths(startOfMonth(today), 1), 'yyyy-MM-dd'),
+      };
 
+      const [{ data: activeProperties }, { data: rooms }, { data: stays }, { data: blocks }] = await Promise.all([
+        supabase.from('properties').select('id, name').eq('is_active', true).order('name'),
+        supabase.from('rooms').select('id, property_id, room_type').eq('is_active', true),
+        supabase
+          .from('reservations')
+          .select('id, property_id, room_id, check_in, check_out, total_price, status, source, created_at')
+          .lt('check_in', month.to)
+          .gt('check_out', month.from),
+        supabase
+          .from('maintenance_tickets')
+          .select('room_id, out_of_order_from, out_of_order_to, resolved_at')
+          .not('room_id', 'is', null)
+          .lt('out_of_order_from', month.to)
+          .gt('out_of_order_to', month.from),
+      ]);
+
+      // This month's revenue is what has been posted to folios so far
+      const monthlyRevenue = await fetchPostedRevenue(month.from, month.to);
+
+      const { occupancy: occupancyRate } = summarize(stays || [], {
+        propertyIds: (activeProperties || []).map(p => p.id),
+        rooms: rooms || [],
+        blocks: blocks || [],
+      }, month);
+
+      setProperties(activeProperties || []);
       setStats({
         totalProperties: propertiesCount || 0,
         totalReservations: reservationsCount || 0,
@@ -126,7 +141,7 @@ const DashboardOverview: React.FC = () => {
     {
       title: 'Monthly Revenue',
       value: `$${stats.monthlyRevenue.toLocaleString()}`,
-      description: 'This month',
+      description: 'Posted this month',
       icon: DollarSign,
       color: 'text-accent',
     },
@@ -172,7 +187,27 @@ const DashboardOverview: React.FC = () => {
       <TodayOverview />
       
       {/* Totem Visualization */}
-      <TotemVisualization />
+      <div className="space-y-2">
+        {properties.length > 1 && (
+          <div className="flex justify-end">
+            <Select value={totemPropertyId} onValueChange={setTotemPropertyId}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">Všechny nemovitosti</SelectItem>
+                {properties.map(property => (
+                  <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+        <TotemVisualization
+          propertyId={totemPropertyId}
+          propertyName={properties.find(p => p.id === totemPropertyId)?.name}
+        />
+      </div>
       
       <div className="flex justify-between items-center">
         <div>
@@ -11,14 +11,18 @@ import {
   Wrench,
   TrendingUp,
   Lightbulb,
-  Calendar
+  Calendar,
+  ClipboardCheck
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { needsHousekeeping } from '@/lib/housekeeping';
+import { fetchGuestRegistrations } from '@/lib/precheckin';
 
 interface TodayActivity {
   arrivals: number;
+  preCheckedIn: number;
   checkIns: number;
   stayovers: number;
   checkOuts: number;
@@ -26,6 +30,15 @@ interface TodayActivity {
   maintenance: number;
 }
 
+interface Arrival {
+  id: string;
+  guest_name: string;
+  room_number: string | null;
+  status: string | null;
+  pre_checked_in: boolean;
+  arrival_time: string | null;
+}
+
 interface AIRecommendation {
   type: 'pricing' | 'operations' | 'marketing' | 'maintenance';
   title: string;
@@ -38,12 +51,14 @@ const TodayOverview = () => {
   const { toast } = useToast();
   const [activity, setActivity] = useState<TodayActivity>({
     arrivals: 0,
+    preCheckedIn: 0,
     checkIns: 0,
     stayovers: 0,
     checkOuts: 0,
     needsCleaning: 0,
     maintenance: 0
   });
+  const [arrivals, setArrivals] = useState<Arrival[]>([]);
   const [recommendations, setRecommendations] = useState<AIRecommendation[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -58,8 +73,7 @@ const TodayOverview = () => {
         // Fetch properties first
         const { data: properties } = await supabase
           .from('properties')
-          .select('id')
-          .eq('owner_id', user.id);
+          .select('id');
         
         if (!properties || properties.length === 0) {
           setLoading(false);
@@ -71,7 +85,7 @@ const TodayOverview = () => {
         // Fetch today's reservations
         const { data: checkInsData } = await supabase
           .from('reservations')
-          .select('*')
+          .select('*, rooms(room_number)')
           .in('property_id', propertyIds)
           .eq('check_in', today);
         
@@ -91,20 +105,44 @@ const TodayOverview = () => {
         // Fetch rooms for cleaning status
         const { data: roomsData } = await supabase
           .from('rooms')
-          .select('*')
-          .in('property_id', propertyIds);
+          .select('housekeeping_status')
+          .in('property_id', propertyIds)
+          .eq('is_active', true);
         
-        // Simulate room status (since we don't have status field yet)
-        const needsCleaningCount = Math.floor((roomsData?.length || 0) * 0.3);
-        const maintenanceCount = Math.floor((roomsData?.length || 0) * 0.1);
+        const needsCleaningCount = (roomsData || []).filter(room => needsHousekeeping(room.housekeeping_status)).length;
+
+        // Open maintenance tickets
+        const { count: maintenanceCount } = await supabase
+          .from('maintenance_tickets')
+          .select('id', { count: 'exact', head: true })
+          .in('property_id', propertyIds)
+          .not('status', 'in', '(resolved,closed)');
         
+        // Guests who checked in online before arriving
+        const expected = (checkInsData || []).filter(r => r.status !== 'cancelled');
+        const registrations = await fetchGuestRegistrations(
+          expected.filter(r => r.pre_checked_in_at).map(r => r.id)
+        );
+
+        setArrivals(expected
+          .map(r => ({
+            id: r.id,
+            guest_name: r.guest_name,
+            room_number: r.rooms?.room_number ?? null,
+            status: r.status,
+            pre_checked_in: !!r.pre_checked_in_at,
+            arrival_time: registrations.find(reg => reg.reservation_id === r.id)?.arrival_time ?? null,
+          }))
+          .sort((a, b) => (a.arrival_time ?? '99').localeCompare(b.arrival_time ?? '99')));
+
         setActivity({
           arrivals: checkInsData?.length || 0,
+          preCheckedIn: expected.filter(r => r.pre_checked_in_at).length,
           checkIns: checkInsData?.length || 0,
           stayovers: stayoversData?.length || 0,
           checkOuts: checkOutsData?.length || 0,
           needsCleaning: needsCleaningCount,
-          maintenance: maintenanceCount
+          maintenance: maintenanceCount || 0
         });
         
         // Generate AI recommendations
@@ -203,6 +241,9 @@ const TodayOverview = () => {
             </div>
             <div className="text-2xl font-bold text-foreground">{activity.arrivals}</div>
             <div className="text-xs text-muted-foreground">Arrivals</div>
+            {activity.preCheckedIn > 0 && (
+              <div className="text-xs text-primary">{activity.preCheckedIn} pre-checked-in</div>
+            )}
           </CardContent>
         </Card>
 
@@ -257,6 +298,42 @@ const TodayOverview = () => {
         </Card>
       </div>
 
+      {/* Today's Arrivals */}
+      {arrivals.length > 0 && (
+        <Card className="glass-card border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <UserCheck className="w-5 h-5" />
+              Today's Arrivals
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="space-y-2">
+              {arrivals.map(arrival => (
+                <div key={arrival.id} className="flex items-center justify-between p-3 rounded-lg border border-border">
+                  <div>
+                    <div className="font-medium text-sm">{arrival.guest_name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {arrival.room_number ? `Room ${arrival.room_number}` : 'No room assigned'}
+                      {arrival.arrival_time && ` · Arriving around ${arrival.arrival_time.slice(0, 5)}`}
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    {arrival.pre_checked_in && (
+                      <Badge variant="outline" className="text-xs">
+                        <ClipboardCheck className="w-3 h-3 mr-1" />
+                        Pre-checked-in
+                      </Badge>
+                    )}
+                    {arrival.status === 'checked_in' && <Badge className="text-xs">Checked in</Badge>}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* AI Recommendations */}
       <Card className="glass-card border-0">
         <CardHeader>
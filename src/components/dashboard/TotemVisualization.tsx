@@ -2,6 +2,7 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
 import { 
   Trees, 
   Calendar, 
@@ -11,16 +12,10 @@ import {
   DollarSign,
   Download,
   ChevronLeft,
-  ChevronRight
+  ChevronRight,
+  Image
 } from 'lucide-react';
-
-interface TotemMetrics {
-  occupancyRate: number;
-  guestSatisfaction: number;
-  revenuePerRoom: number;
-  overallScore: number;
-  date: string;
-}
+import { TotemMetrics, fetchTotemData, renderTotemPng, totemCsv } from '@/lib/totem';
 
 interface TotemVisualizationProps {
   propertyId?: string;
@@ -36,52 +31,29 @@ const TotemVisualization: React.FC<TotemVisualizationProps> = ({
   const [historicalData, setHistoricalData] = useState<TotemMetrics[]>([]);
   const [selectedDay, setSelectedDay] = useState<TotemMetrics | null>(null);
   const [loading, setLoading] = useState(true);
+  const { toast } = useToast();
 
   useEffect(() => {
-    generateMockData();
+    fetchMetrics();
   }, [propertyId]);
 
-  const generateMockData = () => {
-    setLoading(true);
-    
-    // Současné metriky
-    const today: TotemMetrics = {
-      occupancyRate: Math.floor(Math.random() * 40 + 60), // 60-100%
-      guestSatisfaction: Math.floor(Math.random() * 20 + 80), // 80-100%
-      revenuePerRoom: Math.floor(Math.random() * 50 + 150), // 150-200€
-      overallScore: 0,
-      date: new Date().toISOString().split('T')[0]
-    };
-    
-    today.overallScore = Math.round(
-      (today.occupancyRate + today.guestSatisfaction + (today.revenuePerRoom / 2)) / 3
-    );
-    
-    setCurrentMetrics(today);
-
-    // Historická data za posledních 30 dní
-    const historical: TotemMetrics[] = [];
-    for (let i = 30; i >= 0; i--) {
-      const date = new Date();
-      date.setDate(date.getDate() - i);
-      
-      const dayData: TotemMetrics = {
-        occupancyRate: Math.floor(Math.random() * 40 + 50),
-        guestSatisfaction: Math.floor(Math.random() * 25 + 75),
-        revenuePerRoom: Math.floor(Math.random() * 80 + 120),
-        overallScore: 0,
-        date: date.toISOString().split('T')[0]
-      };
-      
-      dayData.overallScore = Math.round(
-        (dayData.occupancyRate + dayData.guestSatisfaction + (dayData.revenuePerRoom / 2)) / 3
-      );
-      
-      historical.push(dayData);
+  const fetchMetrics = async () => {
+    try {
+      setLoading(true);
+      const { current, history } = await fetchTotemData(propertyId);
+      setCurrentMetrics(current);
+      setHistoricalData(history);
+      setSelectedDay(null);
+    } catch (error) {
+      console.error('Error fetching totem metrics:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
     }
-    
-    setHistoricalData(historical);
-    setLoading(false);
   };
 
   const getTotemHealth = (score: number): { color: string; intensity: string; status: string } => {
@@ -108,31 +80,28 @@ const TotemVisualization: React.FC<TotemVisualizationProps> = ({
     );
   };
 
+  const download = (href: string, extension: string) => {
+    const a = document.createElement('a');
+    a.href = href;
+    a.download = `totem-data-${propertyName}-${new Date().toISOString().split('T')[0]}.${extension}`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+  };
+
   const exportData = (format: 'csv' | 'png') => {
     if (format === 'csv') {
-      const csvContent = [
-        ['Datum', 'Obsazenost (%)', 'Spokojenost (%)', 'Výnos (€)', 'Celkové skóre'],
-        ...historicalData.map(day => [
-          day.date,
-          day.occupancyRate.toString(),
-          day.guestSatisfaction.toString(),
-          day.revenuePerRoom.toString(),
-          day.overallScore.toString()
-        ])
-      ].map(row => row.join(',')).join('\n');
-      
-      const blob = new Blob([csvContent], { type: 'text/csv' });
+      const blob = new Blob([totemCsv(historicalData)], { type: 'text/csv' });
       const url = URL.createObjectURL(blob);
-      const a = document.createElement('a');
-      a.href = url;
-      a.download = `totem-data-${propertyName}-${new Date().toISOString().split('T')[0]}.csv`;
-      document.body.appendChild(a);
-      a.click();
-      document.body.removeChild(a);
+      download(url, 'csv');
       URL.revokeObjectURL(url);
+    } else if (currentMetrics) {
+      download(renderTotemPng(propertyName, currentMetrics, historicalData), 'png');
     }
   };
 
+  const formatSatisfaction = (value: number | null) => value === null ? '–' : `${value}%`;
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-96">
@@ -178,6 +147,16 @@ const TotemVisualization: React.FC<TotemVisualizationProps> = ({
               Export CSV
             </Button>
           )}
+          {viewMode === 'history' && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => exportData('png')}
+            >
+              <Image className="h-4 w-4 mr-2" />
+              Export PNG
+            </Button>
+          )}
         </div>
       </div>
 
@@ -226,11 +205,11 @@ const TotemVisualization: React.FC<TotemVisualizationProps> = ({
                     <span className="font-medium">Spokojenost hostů</span>
                   </div>
                   <div className="text-right">
-                    <div className="text-2xl font-bold">{currentMetrics?.guestSatisfaction}%</div>
+                    <div className="text-2xl font-bold">{formatSatisfaction(currentMetrics?.guestSatisfaction ?? null)}</div>
                     <div className="w-24 bg-muted rounded-full h-2 mt-1">
                       <div 
                         className="bg-accent h-2 rounded-full transition-all duration-300"
-                        style={{ width: `${currentMetrics?.guestSatisfaction}%` }}
+                        style={{ width: `${currentMetrics?.guestSatisfaction ?? 0}%` }}
                       />
                     </div>
                   </div>
@@ -335,7 +314,7 @@ const TotemVisualization: React.FC<TotemVisualizationProps> = ({
                   
                   <div className="text-center p-4 bg-muted/20 rounded-lg">
                     <Star className="h-6 w-6 mx-auto mb-2 text-accent" />
-                    <div className="text-2xl font-bold">{selectedDay.guestSatisfaction}%</div>
+                    <div className="text-2xl font-bold">{formatSatisfaction(selectedDay.guestSatisfaction)}</div>
                     <div className="text-sm text-muted-foreground">Spokojenost</div>
                   </div>
                   
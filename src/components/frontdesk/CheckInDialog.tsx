@@ -0,0 +1,202 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertTriangle, ClipboardCheck } from 'lucide-react';
+import { HousekeepingStatus, getHousekeepingStatus, needsHousekeeping } from '@/lib/housekeeping';
+import { checkInReservation, parseKeyCards } from '@/lib/reservations';
+import type { FrontDeskProperty, FrontDeskReservation } from './FrontDesk';
+
+interface Room {
+  id: string;
+  room_number: string;
+  room_type: string | null;
+  max_guests: number | null;
+  housekeeping_status: HousekeepingStatus;
+}
+
+interface CheckInDialogProps {
+  reservation: FrontDeskReservation | null;
+  property: FrontDeskProperty;
+  // Arriving before the property's check-in time
+  early: boolean;
+  onClose: () => void;
+  onCheckedIn: () => void;
+}
+
+// Room assignment, key cards and the early check-in fee for one arrival
+const CheckInDialog: React.FC<CheckInDialogProps> = ({ reservation, property, early, onClose, onCheckedIn }) => {
+  const { toast } = useToast();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [roomId, setRoomId] = useState('');
+  const [keyCards, setKeyCards] = useState('');
+  const [earlyFee, setEarlyFee] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (reservation) {
+      setRoomId(reservation.room_id ?? '');
+      setKeyCards(reservation.key_cards.join(', '));
+      setEarlyFee('');
+      fetchFreeRooms(reservation);
+    }
+  }, [reservation?.id]);
+
+  // Active rooms with no other stay overlapping this one
+  const fetchFreeRooms = async (stay: FrontDeskReservation) => {
+    try {
+      const [{ data: roomsData, error: roomsError }, { data: taken, error: takenError }] = await Promise.all([
+        supabase
+          .from('rooms')
+          .select('id, room_number, room_type, max_guests, housekeeping_status')
+          .eq('property_id', stay.property_id)
+          .eq('is_active', true)
+          .order('room_number'),
+        supabase
+          .from('reservations')
+          .select('room_id')
+          .eq('property_id', stay.property_id)
+          .neq('id', stay.id)
+          .neq('status', 'cancelled')
+          .not('room_id', 'is', null)
+          .lt('check_in', stay.check_out)
+          .gt('check_out', stay.check_in),
+      ]);
+
+      if (roomsError) throw roomsError;
+      if (takenError) throw takenError;
+
+      const takenIds = new Set((taken || []).map(r => r.room_id));
+      setRooms((roomsData || []).filter(room => !takenIds.has(room.id)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reservation) return;
+
+    try {
+      setSaving(true);
+      await checkInReservation(reservation.id, {
+        roomId,
+        keyCards: parseKeyCards(keyCards),
+        earlyFee: parseFloat(earlyFee) || 0,
+      });
+      toast({ title: "Checked in", description: `${reservation.guest_name} is in room ${rooms.find(r => r.id === roomId)?.room_number ?? ''}` });
+      onCheckedIn();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const room = rooms.find(r => r.id === roomId);
+  const roomNotReady = room && (needsHousekeeping(room.housekeeping_status) || room.housekeeping_status === 'maintenance');
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Check In — {reservation?.guest_name}</DialogTitle>
+          <DialogDescription>
+            {reservation?.guests_count ?? 1} guests · until {reservation?.check_out}
+          </DialogDescription>
+        </DialogHeader>
+
+        {reservation?.pre_checked_in_at && (
+          <div className="flex items-center text-sm text-primary">
+            <ClipboardCheck className="mr-2 h-4 w-4" />
+            Registration completed online
+          </div>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Room *</Label>
+            <Select value={roomId} onValueChange={setRoomId}>
+              <SelectTrigger>
+                <SelectValue placeholder="Assign a room" />
+              </SelectTrigger>
+              <SelectContent>
+                {rooms.map(r => (
+                  <SelectItem key={r.id} value={r.id}>
+                    {r.room_number}
+                    {r.room_type && ` · ${r.room_type}`}
+                    {` · ${getHousekeepingStatus(r.housekeeping_status).label}`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {roomNotReady && (
+              <p className="flex items-center text-xs text-destructive">
+                <AlertTriangle className="mr-1 h-3 w-3" />
+                The room is {getHousekeepingStatus(room.housekeeping_status).label.toLowerCase()}
+              </p>
+            )}
+            {room?.max_guests && room.max_guests < (reservation?.guests_count ?? 1) && (
+              <p className="text-xs text-destructive">The room sleeps {room.max_guests}</p>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="key_cards">Key cards</Label>
+            <Input
+              id="key_cards"
+              value={keyCards}
+              onChange={(e) => setKeyCards(e.target.value)}
+              placeholder="Card numbers, separated by commas"
+            />
+          </div>
+
+          {early && (
+            <div className="space-y-2 rounded-lg border border-border p-3">
+              <div className="flex items-center gap-2">
+                <Badge variant="secondary">Early check-in</Badge>
+                <span className="text-sm text-muted-foreground">
+                  Check-in is from {property.check_in_time?.slice(0, 5)}
+                </span>
+              </div>
+              <Label htmlFor="early_fee">Fee</Label>
+              <Input
+                id="early_fee"
+                type="number"
+                min="0"
+                step="0.01"
+                value={earlyFee}
+                onChange={(e) => setEarlyFee(e.target.value)}
+                placeholder="No charge"
+              />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !roomId}>
+              {saving ? 'Checking in...' : 'Check In'}
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckInDialog;
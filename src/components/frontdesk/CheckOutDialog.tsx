@@ -0,0 +1,256 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertTriangle, Clock } from 'lucide-react';
+import { PAYMENT_METHODS, fetchFolio, formatMoney, summarizeFolio } from '@/lib/folio';
+import { arrangeLateCheckOut, checkOutReservation } from '@/lib/reservations';
+import type { FrontDeskProperty, FrontDeskReservation } from './FrontDesk';
+
+interface CheckOutDialogProps {
+  reservation: FrontDeskReservation | null;
+  property: FrontDeskProperty;
+  today: string;
+  timeNow: string;
+  onClose: () => void;
+  onCheckedOut: () => void;
+}
+
+// Settles the folio and checks the guest out
+const CheckOutDialog: React.FC<CheckOutDialogProps> = ({ reservation, property, today, timeNow, onClose, onCheckedOut }) => {
+  const { toast } = useToast();
+  const [summary, setSummary] = useState<ReturnType<typeof summarizeFolio> | null>(null);
+  const [method, setMethod] = useState('card');
+  const [amount, setAmount] = useState('');
+  const [reference, setReference] = useState('');
+  const [lateFee, setLateFee] = useState('');
+  const [billLater, setBillLater] = useState(false);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (reservation) {
+      setMethod('card');
+      setReference('');
+      setLateFee('');
+      setBillLater(false);
+      loadFolio(reservation.id);
+    } else {
+      setSummary(null);
+    }
+  }, [reservation?.id]);
+
+  const loadFolio = async (reservationId: string) => {
+    try {
+      const { items, payments } = await fetchFolio(reservationId);
+      const totals = summarizeFolio(items, payments);
+      setSummary(totals);
+      setAmount(totals.balance > 0.005 ? totals.balance.toFixed(2) : '');
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const showError = (error: unknown) => {
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+  };
+
+  const checkOutTime = (reservation?.late_check_out_until ?? property.check_out_time)?.slice(0, 5);
+  const departingEarly = !!reservation && reservation.check_out > today;
+  // Past the agreed time on the departure day, with nothing arranged yet
+  const overstaying = !!reservation && !departingEarly && !reservation.late_check_out_until &&
+    !!checkOutTime && timeNow > checkOutTime;
+
+  const handleLateFee = async () => {
+    if (!reservation) return;
+
+    try {
+      setSaving(true);
+      await arrangeLateCheckOut(reservation.id, timeNow, parseFloat(lateFee) || 0);
+      setLateFee('');
+      await loadFolio(reservation.id);
+      toast({ title: "Success", description: "Late check-out fee added" });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handlePayment = async () => {
+    if (!reservation) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from('payments').insert({
+        reservation_id: reservation.id,
+        property_id: reservation.property_id,
+        payment_type: 'payment',
+        method,
+        amount: parseFloat(amount),
+        reference: reference || null,
+      });
+
+      if (error) throw error;
+      setReference('');
+      await loadFolio(reservation.id);
+      toast({ title: "Success", description: "Payment recorded" });
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCheckOut = async () => {
+    if (!reservation) return;
+
+    try {
+      setSaving(true);
+      const balance = await checkOutReservation(reservation.id, billLater);
+      toast({
+        title: "Checked out",
+        description: balance > 0.005
+          ? `${reservation.guest_name} left with ${formatMoney(balance)} to be billed`
+          : `${reservation.guest_name} has checked out`,
+      });
+      onCheckedOut();
+    } catch (error) {
+      showError(error);
+      // The nights posted by a rolled back check-out are gone again, but
+      // the folio may have changed in the meantime
+      await loadFolio(reservation.id);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openBalance = (summary?.balance ?? 0) > 0.005;
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Check Out — {reservation?.guest_name}</DialogTitle>
+          <DialogDescription>
+            Room {reservation?.rooms?.room_number ?? '—'} · {reservation?.check_in} to {reservation?.check_out}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          {departingEarly && (
+            <p className="flex items-center text-sm text-muted-foreground">
+              <Clock className="mr-2 h-4 w-4" />
+              Leaving before {reservation?.check_out}; the remaining nights stay on the folio
+            </p>
+          )}
+
+          {overstaying && (
+            <div className="space-y-2 rounded-lg border border-destructive/50 p-3">
+              <p className="flex items-center text-sm text-destructive">
+                <AlertTriangle className="mr-2 h-4 w-4" />
+                Check-out was due by {checkOutTime}
+              </p>
+              <div className="flex items-end gap-2">
+                <div className="flex-1 space-y-1">
+                  <Label htmlFor="late_fee">Late check-out fee</Label>
+                  <Input
+                    id="late_fee"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={lateFee}
+                    onChange={(e) => setLateFee(e.target.value)}
+                  />
+                </div>
+                <Button type="button" variant="outline" onClick={handleLateFee} disabled={saving || !(parseFloat(lateFee) > 0)}>
+                  Add Fee
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {summary ? (
+            <div className="space-y-1 rounded-lg bg-muted/50 p-3 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Charges</span>
+                <span>{formatMoney(summary.charges)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Paid</span>
+                <span>{formatMoney(summary.paid)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Balance</span>
+                <span className={openBalance ? 'text-destructive' : ''}>{formatMoney(summary.balance)}</span>
+              </div>
+            </div>
+          ) : (
+            <div className="flex items-center justify-center py-6">
+              <div className="animate-spin rounded-full h-6 w-6 border-b-2 border-primary"></div>
+            </div>
+          )}
+
+          {openBalance && (
+            <div className="space-y-2 rounded-lg border border-border p-3">
+              <Label>Settle balance</Label>
+              <div className="grid grid-cols-2 gap-2">
+                <Select value={method} onValueChange={setMethod}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(PAYMENT_METHODS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  min="0.01"
+                  step="0.01"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                  placeholder="Amount"
+                />
+              </div>
+              <Input
+                value={reference}
+                onChange={(e) => setReference(e.target.value)}
+                placeholder="Reference (optional)"
+              />
+              <div className="flex justify-end">
+                <Button type="button" variant="outline" onClick={handlePayment} disabled={saving || !(parseFloat(amount) > 0)}>
+                  Record Payment
+                </Button>
+              </div>
+              <div className="flex items-center space-x-2 pt-1">
+                <Checkbox id="bill_later" checked={billLater} onCheckedChange={(checked) => setBillLater(checked === true)} />
+                <Label htmlFor="bill_later" className="font-normal">Bill the balance later</Label>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button onClick={handleCheckOut} disabled={saving || !summary || (openBalance && !billLater)}>
+              {saving ? 'Saving...' : 'Check Out'}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CheckOutDialog;
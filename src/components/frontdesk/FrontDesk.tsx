@@ -0,0 +1,555 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import { useToast } from '@/components/ui/use-toast';
+import { ClipboardCheck, Clock, KeyRound, LogIn, LogOut } from 'lucide-react';
+import { ReservationBalance, fetchBalances, formatMoney, hasOutstandingBalance } from '@/lib/folio';
+import { HousekeepingStatus, getHousekeepingStatus, needsHousekeeping } from '@/lib/housekeeping';
+import {
+  RESERVATION_STATUSES,
+  arrangeLateCheckOut,
+  checkInReservation,
+  parseKeyCards,
+  propertyTimeNow,
+  propertyToday,
+  updateKeyCards,
+} from '@/lib/reservations';
+import CheckInDialog from './CheckInDialog';
+import CheckOutDialog from './CheckOutDialog';
+
+export interface FrontDeskProperty {
+  id: string;
+  name: string;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  timezone: string;
+}
+
+export interface FrontDeskReservation {
+  id: string;
+  property_id: string;
+  room_id: string | null;
+  guest_name: string;
+  guests_count: number | null;
+  check_in: string;
+  check_out: string;
+  status: string | null;
+  key_cards: string[];
+  late_check_out_until: string | null;
+  pre_checked_in_at: string | null;
+  checked_out_at: string | null;
+  rooms: { room_number: string; housekeeping_status: HousekeepingStatus } | null;
+}
+
+const FrontDesk: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [properties, setProperties] = useState<FrontDeskProperty[]>([]);
+  const [propertyId, setPropertyId] = useState('');
+  const [reservations, setReservations] = useState<FrontDeskReservation[]>([]);
+  const [balances, setBalances] = useState<Record<string, ReservationBalance>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [checkingIn, setCheckingIn] = useState<FrontDeskReservation | null>(null);
+  const [checkingOut, setCheckingOut] = useState<FrontDeskReservation | null>(null);
+  const [editingKeys, setEditingKeys] = useState<FrontDeskReservation | null>(null);
+  const [keyCards, setKeyCards] = useState('');
+  const [lateStay, setLateStay] = useState<FrontDeskReservation | null>(null);
+  const [lateForm, setLateForm] = useState({ until: '', fee: '' });
+
+  useEffect(() => {
+    if (user) {
+      fetchProperties();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (propertyId) {
+      fetchReservations();
+    }
+  }, [propertyId]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const fetchProperties = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('id, name, check_in_time, check_out_time, timezone')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setProperties(data || []);
+      if (data && data.length > 0 && !propertyId) setPropertyId(data[0].id);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const property = properties.find(p => p.id === propertyId);
+  const today = property ? propertyToday(property.timezone) : '';
+  const timeNow = property ? propertyTimeNow(property.timezone) : '';
+
+  // Everything touching today, plus guests still in house past their departure
+  const fetchReservations = async () => {
+    if (!property) return;
+
+    try {
+      const { data, error } = await supabase
+        .from('reservations')
+        .select(`id, property_id, room_id, guest_name, guests_count, check_in, check_out, status, key_cards,
+          late_check_out_until, pre_checked_in_at, checked_out_at, rooms(room_number, housekeeping_status)`)
+        .eq('property_id', property.id)
+        .neq('status', 'cancelled')
+        .or(`status.eq.checked_in,and(check_in.lte.${today},check_out.gte.${today})`)
+        .order('guest_name');
+
+      if (error) throw error;
+      setReservations(data || []);
+      setBalances(await fetchBalances((data || []).map(r => r.id)));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const checkedOutToday = (r: FrontDeskReservation) =>
+    !!r.checked_out_at && new Date(r.checked_out_at).toLocaleDateString('en-CA', { timeZone: property?.timezone }) === today;
+
+  const arrivals = reservations.filter(r =>
+    (r.status === 'pending' || r.status === 'confirmed') && r.check_in <= today && r.check_out > today);
+  const inHouse = reservations.filter(r => r.status === 'checked_in' && r.check_out > today);
+  const departures = reservations.filter(r =>
+    (r.status === 'checked_in' && r.check_out <= today) || (r.status === 'checked_out' && checkedOutToday(r)));
+
+  const canEdit = can('edit_reservations', propertyId);
+  const isEarly = (r: FrontDeskReservation) =>
+    r.check_in === today && !!property?.check_in_time && timeNow < property.check_in_time.slice(0, 5);
+
+  // A guest with a room that is ready, arriving on time, is checked in with
+  // one click; anything needing a decision goes through the dialog
+  const handleCheckIn = async (r: FrontDeskReservation) => {
+    const roomReady = r.rooms && !needsHousekeeping(r.rooms.housekeeping_status) &&
+      r.rooms.housekeeping_status !== 'maintenance';
+
+    if (!r.room_id || !roomReady || isEarly(r)) {
+      setCheckingIn(r);
+      return;
+    }
+
+    try {
+      setBusyId(r.id);
+      await checkInReservation(r.id);
+      toast({ title: "Checked in", description: `${r.guest_name} is in room ${r.rooms?.room_number}` });
+      await fetchReservations();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleConfirm = async (r: FrontDeskReservation) => {
+    try {
+      setBusyId(r.id);
+      const { error } = await supabase
+        .from('reservations')
+        .update({ status: 'confirmed' })
+        .eq('id', r.id);
+
+      if (error) throw error;
+      await fetchReservations();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const openKeys = (r: FrontDeskReservation) => {
+    setKeyCards(r.key_cards.join(', '));
+    setEditingKeys(r);
+  };
+
+  const handleSaveKeys = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingKeys) return;
+
+    try {
+      await updateKeyCards(editingKeys.id, parseKeyCards(keyCards));
+      setEditingKeys(null);
+      await fetchReservations();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const openLate = (r: FrontDeskReservation) => {
+    setLateForm({ until: r.late_check_out_until?.slice(0, 5) ?? '', fee: '' });
+    setLateStay(r);
+  };
+
+  const handleSaveLate = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!lateStay) return;
+
+    try {
+      await arrangeLateCheckOut(lateStay.id, lateForm.until, parseFloat(lateForm.fee) || 0);
+      toast({ title: "Success", description: `Late check-out until ${lateForm.until} arranged` });
+      setLateStay(null);
+      await fetchReservations();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const afterDialog = async () => {
+    setCheckingIn(null);
+    setCheckingOut(null);
+    await fetchReservations();
+  };
+
+  const renderBalance = (r: FrontDeskReservation) => {
+    const balance = balances[r.id];
+    return (
+      <span className={hasOutstandingBalance(balance) ? 'text-destructive font-medium' : 'text-muted-foreground'}>
+        {formatMoney(balance?.balance)}
+      </span>
+    );
+  };
+
+  const renderKeys = (r: FrontDeskReservation) =>
+    r.key_cards.length > 0 ? r.key_cards.join(', ') : <span className="text-muted-foreground">—</span>;
+
+  const renderEmpty = (colSpan: number, text: string) => (
+    <TableRow>
+      <TableCell colSpan={colSpan} className="text-center text-muted-foreground py-8">{text}</TableCell>
+    </TableRow>
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Front Desk</h2>
+          <p className="text-muted-foreground">
+            {property
+              ? `${today} · check-in from ${property.check_in_time?.slice(0, 5) ?? '—'}, check-out by ${property.check_out_time?.slice(0, 5) ?? '—'}`
+              : 'Arrivals, in-house guests and departures'}
+          </p>
+        </div>
+        <Select value={propertyId} onValueChange={setPropertyId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Select property" />
+          </SelectTrigger>
+          <SelectContent>
+            {properties.map(p => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Tabs defaultValue="arrivals" className="w-full">
+        <TabsList className="grid w-full max-w-md grid-cols-3">
+          <TabsTrigger value="arrivals">Arrivals ({arrivals.length})</TabsTrigger>
+          <TabsTrigger value="in-house">In House ({inHouse.length})</TabsTrigger>
+          <TabsTrigger value="departures">
+            Departures ({departures.filter(r => r.status === 'checked_in').length})
+          </TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="arrivals" className="mt-6">
+          <Card className="glass-card border-0">
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Stay</TableHead>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Balance</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {arrivals.length === 0 && renderEmpty(5, 'No arrivals left today')}
+                  {arrivals.map(r => (
+                    <TableRow key={r.id}>
+                      <TableCell>
+                        <div className="font-medium">{r.guest_name}</div>
+                        <div className="flex items-center gap-2 text-xs text-muted-foreground">
+                          {r.guests_count ?? 1} guests
+                          {r.check_in < today && <Badge variant="outline">Due {r.check_in}</Badge>}
+                          {r.status === 'pending' && <Badge variant="secondary">{RESERVATION_STATUSES.pending}</Badge>}
+                          {r.pre_checked_in_at && (
+                            <Badge variant="outline" className="text-primary border-primary/50">
+                              <ClipboardCheck className="mr-1 h-3 w-3" />
+                              Pre-checked-in
+                            </Badge>
+                          )}
+                        </div>
+                      </TableCell>
+                      <TableCell className="text-sm">until {r.check_out}</TableCell>
+                      <TableCell>
+                        {r.rooms ? (
+                          <div>
+                            <div>{r.rooms.room_number}</div>
+                            <div className={`text-xs ${needsHousekeeping(r.rooms.housekeeping_status) ? 'text-destructive' : 'text-muted-foreground'}`}>
+                              {getHousekeepingStatus(r.rooms.housekeeping_status).label}
+                            </div>
+                          </div>
+                        ) : (
+                          <span className="text-muted-foreground">Unassigned</span>
+                        )}
+                      </TableCell>
+                      <TableCell>{renderBalance(r)}</TableCell>
+                      <TableCell className="text-right">
+                        {canEdit && (r.status === 'pending' ? (
+                          <Button size="sm" variant="outline" onClick={() => handleConfirm(r)} disabled={busyId === r.id}>
+                            Confirm
+                          </Button>
+                        ) : (
+                          <Button size="sm" onClick={() => handleCheckIn(r)} disabled={busyId === r.id}>
+                            <LogIn className="mr-1 h-3 w-3" />
+                            Check In
+                          </Button>
+                        ))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="in-house" className="mt-6">
+          <Card className="glass-card border-0">
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Departure</TableHead>
+                    <TableHead>Key cards</TableHead>
+                    <TableHead>Balance</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {inHouse.length === 0 && renderEmpty(6, 'No guests in house')}
+                  {inHouse.map(r => (
+                    <TableRow key={r.id}>
+                      <TableCell className="font-medium">{r.guest_name}</TableCell>
+                      <TableCell>{r.rooms?.room_number ?? '—'}</TableCell>
+                      <TableCell className="text-sm">
+                        {r.check_out}
+                        {r.late_check_out_until && (
+                          <span className="text-muted-foreground"> · until {r.late_check_out_until.slice(0, 5)}</span>
+                        )}
+                      </TableCell>
+                      <TableCell className="text-sm">{renderKeys(r)}</TableCell>
+                      <TableCell>{renderBalance(r)}</TableCell>
+                      <TableCell className="text-right">
+                        {canEdit && (
+                          <div className="flex justify-end gap-1">
+                            <Button size="sm" variant="outline" onClick={() => openKeys(r)} title="Key cards">
+                              <KeyRound className="h-3 w-3" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => openLate(r)} title="Late check-out">
+                              <Clock className="h-3 w-3" />
+                            </Button>
+                            <Button size="sm" variant="outline" onClick={() => setCheckingOut(r)}>
+                              <LogOut className="mr-1 h-3 w-3" />
+                              Check Out
+                            </Button>
+                          </div>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="departures" className="mt-6">
+          <Card className="glass-card border-0">
+            <CardContent className="pt-6">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Guest</TableHead>
+                    <TableHead>Room</TableHead>
+                    <TableHead>Check-out by</TableHead>
+                    <TableHead>Key cards</TableHead>
+                    <TableHead>Balance</TableHead>
+                    <TableHead className="text-right">Actions</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {departures.length === 0 && renderEmpty(6, 'No departures today')}
+                  {departures.map(r => {
+                    const dueBy = (r.late_check_out_until ?? property?.check_out_time)?.slice(0, 5);
+                    const overdue = r.status === 'checked_in' && (r.check_out < today || (!!dueBy && timeNow > dueBy));
+
+                    return (
+                      <TableRow key={r.id} className={r.status === 'checked_out' ? 'opacity-60' : ''}>
+                        <TableCell className="font-medium">{r.guest_name}</TableCell>
+                        <TableCell>{r.rooms?.room_number ?? '—'}</TableCell>
+                        <TableCell className="text-sm">
+                          {r.check_out < today ? r.check_out : dueBy ?? '—'}
+                          {r.late_check_out_until && <Badge variant="outline" className="ml-2">Late</Badge>}
+                          {overdue && <Badge variant="destructive" className="ml-2">Overdue</Badge>}
+                        </TableCell>
+                        <TableCell className="text-sm">{renderKeys(r)}</TableCell>
+                        <TableCell>{renderBalance(r)}</TableCell>
+                        <TableCell className="text-right">
+                          {r.status === 'checked_out' ? (
+                            <Badge variant="secondary">{RESERVATION_STATUSES.checked_out}</Badge>
+                          ) : canEdit && (
+                            <div className="flex justify-end gap-1">
+                              <Button size="sm" variant="outline" onClick={() => openLate(r)} title="Late check-out">
+                                <Clock className="h-3 w-3" />
+                              </Button>
+                              <Button size="sm" onClick={() => setCheckingOut(r)}>
+                                <LogOut className="mr-1 h-3 w-3" />
+                                Check Out
+                              </Button>
+                            </div>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      {property && (
+        <>
+          <CheckInDialog
+            reservation={checkingIn}
+            property={property}
+            early={!!checkingIn && isEarly(checkingIn)}
+            onClose={() => setCheckingIn(null)}
+            onCheckedIn={afterDialog}
+          />
+          <CheckOutDialog
+            reservation={checkingOut}
+            property={property}
+            today={today}
+            timeNow={timeNow}
+            onClose={() => setCheckingOut(null)}
+            onCheckedOut={afterDialog}
+          />
+        </>
+      )}
+
+      <Dialog open={!!editingKeys} onOpenChange={(open) => !open && setEditingKeys(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Key Cards</DialogTitle>
+            <DialogDescription>
+              {editingKeys?.guest_name} · room {editingKeys?.rooms?.room_number}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveKeys} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="key_cards_edit">Card numbers</Label>
+              <Input
+                id="key_cards_edit"
+                value={keyCards}
+                onChange={(e) => setKeyCards(e.target.value)}
+                placeholder="Separated by commas"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setEditingKeys(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!lateStay} onOpenChange={(open) => !open && setLateStay(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>Late Check-out</DialogTitle>
+            <DialogDescription>
+              {lateStay?.guest_name} · departing {lateStay?.check_out}, normally by {property?.check_out_time?.slice(0, 5)}
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleSaveLate} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="late_until">Leaves by *</Label>
+                <Input
+                  id="late_until"
+                  type="time"
+                  value={lateForm.until}
+                  onChange={(e) => setLateForm({ ...lateForm, until: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="late_fee_arranged">Fee</Label>
+                <Input
+                  id="late_fee_arranged"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={lateForm.fee}
+                  onChange={(e) => setLateForm({ ...lateForm, fee: e.target.value })}
+                  placeholder="No charge"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setLateStay(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default FrontDesk;
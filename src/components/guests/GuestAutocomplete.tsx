@@ -0,0 +1,87 @@
+import React, { useEffect, useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Guest, getGuestTag, searchGuests } from '@/lib/guests';
+
+interface GuestAutocompleteProps {
+  id?: string;
+  value: string;
+  onChange: (name: string) => void;
+  onSelect: (guest: Guest) => void;
+  required?: boolean;
+}
+
+// Guest name input that suggests existing guest profiles as you type
+const GuestAutocomplete: React.FC<GuestAutocompleteProps> = ({ id, value, onChange, onSelect, required }) => {
+  const [suggestions, setSuggestions] = useState<Guest[]>([]);
+  const [open, setOpen] = useState(false);
+
+  useEffect(() => {
+    if (!open || value.trim().length < 2) {
+      setSuggestions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const timeout = setTimeout(() => {
+      searchGuests(value)
+        .then(guests => {
+          if (!cancelled) setSuggestions(guests);
+        })
+        .catch(error => console.error('Error searching guests:', error));
+    }, 250);
+
+    return () => {
+      cancelled = true;
+      clearTimeout(timeout);
+    };
+  }, [value, open]);
+
+  return (
+    <div className="relative">
+      <Input
+        id={id}
+        value={value}
+        autoComplete="off"
+        onChange={(e) => {
+          onChange(e.target.value);
+          setOpen(true);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => setTimeout(() => setOpen(false), 150)}
+        required={required}
+      />
+      {open && suggestions.length > 0 && (
+        <div className="absolute z-50 mt-1 w-full rounded-md border bg-popover shadow-md max-h-64 overflow-y-auto">
+          {suggestions.map(guest => (
+            <button
+              key={guest.id}
+              type="button"
+              className="w-full text-left px-3 py-2 hover:bg-muted transition-colors"
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => {
+                onSelect(guest);
+                setOpen(false);
+              }}
+            >
+              <div className="flex items-center gap-2">
+                <span className="font-medium">{guest.full_name}</span>
+                {guest.tags.map(tag => (
+                  <Badge key={tag} variant="outline" className={`text-xs ${getGuestTag(tag).className}`}>
+                    {getGuestTag(tag).label}
+                  </Badge>
+                ))}
+              </div>
+              <div className="text-xs text-muted-foreground">
+                {[guest.email, guest.phone].filter(Boolean).join(' • ')}
+                {guest.total_stays > 0 && ` • ${guest.total_stays} ${guest.total_stays === 1 ? 'stay' : 'stays'}`}
+              </div>
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default GuestAutocomplete;
@@ -0,0 +1,549 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Sheet, SheetContent, SheetDescription, SheetHeader, SheetTitle } from '@/components/ui/sheet';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Textarea } from '@/components/ui/textarea';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { AlertTriangle, ClipboardCheck, Clock, Edit, FileText, Mail, Phone } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO } from 'date-fns';
+import {
+  DOCUMENT_TYPES,
+  GUEST_TAGS,
+  Guest,
+  GuestStay,
+  fetchGuestStays,
+  getGuestTag,
+  isBlacklisted,
+} from '@/lib/guests';
+import { ScheduledMessage, fetchUpcomingMessages, messageEventLabel } from '@/lib/messaging';
+import { Companion, GuestRegistration, fetchGuestRegistrations, getDocumentPhotoUrl } from '@/lib/precheckin';
+
+interface GuestDetailDrawerProps {
+  guestId: string | null;
+  onClose: () => void;
+  onUpdated?: () => void;
+}
+
+const emptyForm = {
+  full_name: '',
+  email: '',
+  phone: '',
+  tags: [] as string[],
+  preferences: '',
+  notes: '',
+  surname: '',
+  given_names: '',
+  date_of_birth: '',
+  nationality: '',
+  address: '',
+  document_type: '',
+  document_number: '',
+  document_expiry: '',
+};
+
+const GuestDetailDrawer: React.FC<GuestDetailDrawerProps> = ({ guestId, onClose, onUpdated }) => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [guest, setGuest] = useState<Guest | null>(null);
+  const [stays, setStays] = useState<GuestStay[]>([]);
+  const [upcomingMessages, setUpcomingMessages] = useState<ScheduledMessage[]>([]);
+  const [registrations, setRegistrations] = useState<GuestRegistration[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editing, setEditing] = useState(false);
+  const [formData, setFormData] = useState(emptyForm);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setEditing(false);
+    if (guestId) {
+      fetchGuest(guestId);
+    } else {
+      setGuest(null);
+      setStays([]);
+      setUpcomingMessages([]);
+      setRegistrations([]);
+    }
+  }, [guestId]);
+
+  const fetchGuest = async (id: string) => {
+    try {
+      setLoading(true);
+      const { data, error } = await supabase
+        .from('guests')
+        .select('*')
+        .eq('id', id)
+        .single();
+
+      if (error) throw error;
+      setGuest(data);
+      const guestStays = await fetchGuestStays(id);
+      setStays(guestStays);
+      const stayIds = guestStays.map(stay => stay.id);
+      const [messages, stayRegistrations] = await Promise.all([
+        fetchUpcomingMessages(stayIds),
+        fetchGuestRegistrations(stayIds),
+      ]);
+      setUpcomingMessages(messages);
+      setRegistrations(stayRegistrations);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDocumentPhoto = async (path: string) => {
+    try {
+      window.open(await getDocumentPhotoUrl(path), '_blank', 'noopener,noreferrer');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const startEditing = () => {
+    if (!guest) return;
+    setFormData({
+      full_name: guest.full_name,
+      email: guest.email || '',
+      phone: guest.phone || '',
+      tags: guest.tags,
+      preferences: guest.preferences || '',
+      notes: guest.notes || '',
+      surname: guest.surname || '',
+      given_names: guest.given_names || '',
+      date_of_birth: guest.date_of_birth || '',
+      nationality: guest.nationality || '',
+      address: guest.address || '',
+      document_type: guest.document_type || '',
+      document_number: guest.document_number || '',
+      document_expiry: guest.document_expiry || '',
+    });
+    setEditing(true);
+  };
+
+  const toggleTag = (tag: string, checked: boolean) => {
+    setFormData(prev => ({
+      ...prev,
+      tags: checked ? [...prev.tags, tag] : prev.tags.filter(t => t !== tag),
+    }));
+  };
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!guest) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('guests')
+        .update({
+          full_name: formData.full_name.trim(),
+          email: formData.email.trim() || null,
+          phone: formData.phone.trim() || null,
+          tags: formData.tags,
+          preferences: formData.preferences || null,
+          notes: formData.notes || null,
+          surname: formData.surname.trim() || null,
+          given_names: formData.given_names.trim() || null,
+          date_of_birth: formData.date_of_birth || null,
+          nationality: formData.nationality.trim().toUpperCase() || null,
+          address: formData.address || null,
+          document_type: formData.document_type || null,
+          document_number: formData.document_number.trim() || null,
+          document_expiry: formData.document_expiry || null,
+        })
+        .eq('id', guest.id);
+
+      if (error) {
+        if (error.code === '23505') {
+          throw new Error('Another guest profile already uses this email or phone number.');
+        }
+        throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Guest profile updated",
+      });
+      setEditing(false);
+      fetchGuest(guest.id);
+      onUpdated?.();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const canEdit = can('edit_reservations');
+
+  return (
+    <Sheet open={!!guestId} onOpenChange={(open) => !open && onClose()}>
+      <SheetContent className="w-full sm:max-w-xl overflow-y-auto">
+        {loading || !guest ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <SheetHeader>
+              <SheetTitle className="flex items-center gap-2 flex-wrap">
+                {guest.full_name}
+                {guest.tags.map(tag => (
+                  <Badge key={tag} variant="outline" className={getGuestTag(tag).className}>
+                    {getGuestTag(tag).label}
+                  </Badge>
+                ))}
+              </SheetTitle>
+              <SheetDescription className="space-y-1">
+                {guest.email && (
+                  <span className="flex items-center gap-2"><Mail className="h-3 w-3" />{guest.email}</span>
+                )}
+                {guest.phone && (
+                  <span className="flex items-center gap-2"><Phone className="h-3 w-3" />{guest.phone}</span>
+                )}
+              </SheetDescription>
+            </SheetHeader>
+
+            {isBlacklisted(guest) && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5" />
+                <span>This guest is blacklisted.{guest.notes ? ` ${guest.notes}` : ''}</span>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg bg-muted/30 p-3 text-center">
+                <div className="text-2xl font-bold">{guest.total_stays}</div>
+                <div className="text-xs text-muted-foreground">Stays</div>
+              </div>
+              <div className="rounded-lg bg-muted/30 p-3 text-center">
+                <div className="text-2xl font-bold">{guest.total_nights}</div>
+                <div className="text-xs text-muted-foreground">Nights</div>
+              </div>
+              <div className="rounded-lg bg-muted/30 p-3 text-center">
+                <div className="text-2xl font-bold">${Number(guest.total_revenue).toLocaleString()}</div>
+                <div className="text-xs text-muted-foreground">Revenue</div>
+              </div>
+            </div>
+
+            {editing ? (
+              <form onSubmit={handleSave} className="space-y-4">
+                <div className="space-y-2">
+                  <Label htmlFor="guest_full_name">Name *</Label>
+                  <Input
+                    id="guest_full_name"
+                    value={formData.full_name}
+                    onChange={(e) => setFormData({ ...formData, full_name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_email">Email</Label>
+                    <Input
+                      id="guest_email"
+                      type="email"
+                      value={formData.email}
+                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_phone">Phone</Label>
+                    <Input
+                      id="guest_phone"
+                      value={formData.phone}
+                      onChange={(e) => setFormData({ ...formData, phone: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Tags</Label>
+                  <div className="flex flex-wrap gap-4">
+                    {GUEST_TAGS.map(tag => (
+                      <label key={tag.value} className="flex items-center gap-2 text-sm">
+                        <Checkbox
+                          checked={formData.tags.includes(tag.value)}
+                          onCheckedChange={(checked) => toggleTag(tag.value, checked === true)}
+                        />
+                        {tag.label}
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="guest_preferences">Preferences</Label>
+                  <Textarea
+                    id="guest_preferences"
+                    value={formData.preferences}
+                    onChange={(e) => setFormData({ ...formData, preferences: e.target.value })}
+                    placeholder="Room, pillow, dietary or arrival preferences"
+                    rows={2}
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="guest_notes">Notes</Label>
+                  <Textarea
+                    id="guest_notes"
+                    value={formData.notes}
+                    onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+                    rows={2}
+                  />
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_surname">Surname on document</Label>
+                    <Input
+                      id="guest_surname"
+                      value={formData.surname}
+                      onChange={(e) => setFormData({ ...formData, surname: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_given_names">Given names on document</Label>
+                    <Input
+                      id="guest_given_names"
+                      value={formData.given_names}
+                      onChange={(e) => setFormData({ ...formData, given_names: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_dob">Date of birth</Label>
+                    <Input
+                      id="guest_dob"
+                      type="date"
+                      value={formData.date_of_birth}
+                      onChange={(e) => setFormData({ ...formData, date_of_birth: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_nationality">Nationality</Label>
+                    <Input
+                      id="guest_nationality"
+                      value={formData.nationality}
+                      onChange={(e) => setFormData({ ...formData, nationality: e.target.value })}
+                      placeholder="e.g. CZ"
+                      maxLength={3}
+                    />
+                  </div>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="guest_address">Address</Label>
+                  <Input
+                    id="guest_address"
+                    value={formData.address}
+                    onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+                  />
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div className="space-y-2">
+                    <Label>Document</Label>
+                    <Select
+                      value={formData.document_type || 'none'}
+                      onValueChange={(value) => setFormData({ ...formData, document_type: value === 'none' ? '' : value })}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="none">None</SelectItem>
+                        {Object.entries(DOCUMENT_TYPES).map(([value, label]) => (
+                          <SelectItem key={value} value={value}>{label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_document_number">Number</Label>
+                    <Input
+                      id="guest_document_number"
+                      value={formData.document_number}
+                      onChange={(e) => setFormData({ ...formData, document_number: e.target.value })}
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_document_expiry">Expires</Label>
+                    <Input
+                      id="guest_document_expiry"
+                      type="date"
+                      value={formData.document_expiry}
+                      onChange={(e) => setFormData({ ...formData, document_expiry: e.target.value })}
+                    />
+                  </div>
+                </div>
+
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setEditing(false)}>
+                    Cancel
+                  </Button>
+                  <Button type="submit" disabled={saving}>
+                    Save
+                  </Button>
+                </div>
+              </form>
+            ) : (
+              <div className="space-y-4">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-semibold">Profile</h3>
+                  {canEdit && (
+                    <Button size="sm" variant="outline" onClick={startEditing}>
+                      <Edit className="h-3 w-3 mr-2" />
+                      Edit
+                    </Button>
+                  )}
+                </div>
+                <dl className="grid grid-cols-2 gap-x-4 gap-y-2 text-sm">
+                  <dt className="text-muted-foreground">Preferences</dt>
+                  <dd>{guest.preferences || '—'}</dd>
+                  <dt className="text-muted-foreground">Notes</dt>
+                  <dd>{guest.notes || '—'}</dd>
+                  <dt className="text-muted-foreground">Name on document</dt>
+                  <dd>{[guest.surname, guest.given_names].filter(Boolean).join(', ') || '—'}</dd>
+                  <dt className="text-muted-foreground">Date of birth</dt>
+                  <dd>{guest.date_of_birth ? format(parseISO(guest.date_of_birth), 'MMM d, yyyy') : '—'}</dd>
+                  <dt className="text-muted-foreground">Nationality</dt>
+                  <dd>{guest.nationality || '—'}</dd>
+                  <dt className="text-muted-foreground">Address</dt>
+                  <dd>{guest.address || '—'}</dd>
+                  <dt className="text-muted-foreground">Document</dt>
+                  <dd className="flex items-center gap-1">
+                    {guest.document_type ? (
+                      <>
+                        <FileText className="h-3 w-3" />
+                        {DOCUMENT_TYPES[guest.document_type] ?? guest.document_type} {guest.document_number}
+                        {guest.document_expiry && ` (exp. ${format(parseISO(guest.document_expiry), 'MMM yyyy')})`}
+                      </>
+                    ) : '—'}
+                  </dd>
+                </dl>
+              </div>
+            )}
+
+            {upcomingMessages.length > 0 && (
+              <div className="space-y-3">
+                <h3 className="font-semibold">Upcoming messages</h3>
+                <ul className="space-y-2">
+                  {upcomingMessages.map(message => {
+                    const stay = stays.find(s => s.id === message.reservation_id);
+                    return (
+                      <li key={message.id} className="flex items-center justify-between text-sm">
+                        <div>
+                          <div>{messageEventLabel(message.event)}</div>
+                          {stay && (
+                            <div className="text-xs text-muted-foreground">
+                              Stay from {format(parseISO(stay.check_in), 'MMM d, yyyy')}
+                            </div>
+                          )}
+                        </div>
+                        <span className="flex items-center text-muted-foreground">
+                          <Clock className="mr-1 h-3 w-3" />
+                          {format(parseISO(message.send_at), 'MMM d, HH:mm')}
+                        </span>
+                      </li>
+                    );
+                  })}
+                </ul>
+              </div>
+            )}
+
+            <div className="space-y-3">
+              <h3 className="font-semibold">Stay history</h3>
+              {stays.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No stays recorded yet</p>
+              ) : (
+                <ol className="relative border-l border-border ml-2 space-y-4">
+                  {stays.map(stay => {
+                    const registration = registrations.find(r => r.reservation_id === stay.id);
+                    const companions = (registration?.companions ?? []) as unknown as Companion[];
+
+                    return (
+                      <li key={stay.id} className="ml-4">
+                        <div className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-background ${
+                          stay.status === 'cancelled' ? 'bg-destructive' : 'bg-primary'
+                        }`} />
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">
+                            {format(parseISO(stay.check_in), 'MMM d, yyyy')} – {format(parseISO(stay.check_out), 'MMM d, yyyy')}
+                          </span>
+                          <span className="text-sm font-medium">${Number(stay.total_price).toLocaleString()}</span>
+                        </div>
+                        <div className="text-sm text-muted-foreground">
+                          {stay.properties?.name}
+                          {stay.rooms?.room_number && ` • Room ${stay.rooms.room_number}`}
+                          {` • ${differenceInCalendarDays(parseISO(stay.check_out), parseISO(stay.check_in))} nights`}
+                          {stay.source && ` • ${stay.source}`}
+                        </div>
+                        <Badge variant="outline" className="mt-1 text-xs">{stay.status || 'confirmed'}</Badge>
+                        {stay.notes && <p className="text-xs text-muted-foreground mt-1">{stay.notes}</p>}
+                        {registration && (
+                          <div className="mt-2 rounded-md bg-muted/50 p-2 text-xs space-y-1">
+                            <div className="flex items-center justify-between">
+                              <span className="flex items-center font-medium">
+                                <ClipboardCheck className="mr-1 h-3 w-3" />
+                                Checked in online {format(parseISO(registration.submitted_at), 'MMM d, HH:mm')}
+                              </span>
+                              {registration.document_photo_path && (
+                                <Button
+                                  size="sm"
+                                  variant="link"
+                                  className="h-auto p-0 text-xs"
+                                  onClick={() => openDocumentPhoto(registration.document_photo_path!)}
+                                >
+                                  ID photo
+                                </Button>
+                              )}
+                            </div>
+                            {registration.arrival_time && (
+                              <div className="text-muted-foreground">Arriving around {registration.arrival_time.slice(0, 5)}</div>
+                            )}
+                            {registration.house_rules_accepted_at && (
+                              <div className="text-muted-foreground">House rules accepted</div>
+                            )}
+                            {companions.length > 0 && (
+                              <div className="text-muted-foreground">
+                                With {companions.map(c => `${c.full_name} (${c.nationality})`).join(', ')}
+                              </div>
+                            )}
+                          </div>
+                        )}
+                      </li>
+                    );
+                  })}
+                </ol>
+              )}
+            </div>
+          </div>
+        )}
+      </SheetContent>
+    </Sheet>
+  );
+};
+
+export default GuestDetailDrawer;
@@ -0,0 +1,172 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Search, UserRound } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { GUEST_TAGS, Guest, getGuestTag } from '@/lib/guests';
+import GuestDetailDrawer from './GuestDetailDrawer';
+
+const GuestDirectory: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [guests, setGuests] = useState<Guest[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [tagFilter, setTagFilter] = useState('all');
+  const [selectedGuestId, setSelectedGuestId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (user) {
+      fetchGuests();
+    }
+  }, [user]);
+
+  const fetchGuests = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('guests')
+        .select('*')
+        .order('last_stay_at', { ascending: false, nullsFirst: false });
+
+      if (error) throw error;
+      setGuests(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const term = searchTerm.toLowerCase();
+  const filteredGuests = guests.filter(guest => {
+    const matchesSearch = !term ||
+      guest.full_name.toLowerCase().includes(term) ||
+      guest.email?.toLowerCase().includes(term) ||
+      guest.phone?.includes(searchTerm);
+    const matchesTag = tagFilter === 'all' || guest.tags.includes(tagFilter);
+    return matchesSearch && matchesTag;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight text-gradient">Guests</h2>
+        <p className="text-muted-foreground">
+          Guest profiles with preferences, documents and stay history
+        </p>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>Guest Book ({filteredGuests.length})</CardTitle>
+              <CardDescription>Profiles are created and matched by email or phone when reservations are saved</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Name, email or phone"
+                  className="pl-10 w-64"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <Select value={tagFilter} onValueChange={setTagFilter}>
+                <SelectTrigger className="w-40">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All guests</SelectItem>
+                  {GUEST_TAGS.map(tag => (
+                    <SelectItem key={tag.value} value={tag.value}>{tag.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {filteredGuests.map(guest => (
+              <button
+                key={guest.id}
+                type="button"
+                className="w-full text-left flex items-center justify-between p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors"
+                onClick={() => setSelectedGuestId(guest.id)}
+              >
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{guest.full_name}</span>
+                    {guest.tags.map(tag => (
+                      <Badge key={tag} variant="outline" className={`text-xs ${getGuestTag(tag).className}`}>
+                        {getGuestTag(tag).label}
+                      </Badge>
+                    ))}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {[guest.email, guest.phone].filter(Boolean).join(' • ') || 'No contact details'}
+                  </div>
+                </div>
+                <div className="grid grid-cols-3 gap-6 text-right text-sm">
+                  <div>
+                    <div className="font-medium">{guest.total_stays}</div>
+                    <div className="text-muted-foreground">stays</div>
+                  </div>
+                  <div>
+                    <div className="font-medium">${Number(guest.total_revenue).toLocaleString()}</div>
+                    <div className="text-muted-foreground">revenue</div>
+                  </div>
+                  <div>
+                    <div className="font-medium">
+                      {guest.last_stay_at ? format(parseISO(guest.last_stay_at), 'MMM d, yyyy') : '—'}
+                    </div>
+                    <div className="text-muted-foreground">last stay</div>
+                  </div>
+                </div>
+              </button>
+            ))}
+
+            {filteredGuests.length === 0 && (
+              <div className="text-center py-8">
+                <UserRound className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No guests found</h3>
+                <p className="text-muted-foreground">
+                  {searchTerm || tagFilter !== 'all'
+                    ? 'Try adjusting your filters'
+                    : 'Guests appear here once reservations are recorded'}
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <GuestDetailDrawer
+        guestId={selectedGuestId}
+        onClose={() => setSelectedGuestId(null)}
+        onUpdated={fetchGuests}
+      />
+    </div>
+  );
+};
+
+export default GuestDirectory;
@@ -0,0 +1,344 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { History, LogIn, LogOut, RefreshCw, User } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  HOUSEKEEPING_REASON_LABELS,
+  HOUSEKEEPING_STATUSES,
+  HousekeepingStatus,
+  getHousekeepingStatus,
+  setRoomStatus,
+} from '@/lib/housekeeping';
+
+interface Room {
+  id: string;
+  room_number: string;
+  room_type: string;
+  property_id: string;
+  housekeeping_status: HousekeepingStatus;
+  housekeeping_updated_at: string;
+  properties?: {
+    name: string;
+  };
+}
+
+interface Property {
+  id: string;
+  name: string;
+}
+
+interface TodayReservation {
+  id: string;
+  room_id: string | null;
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+}
+
+interface StatusChange {
+  id: string;
+  from_status: HousekeepingStatus | null;
+  to_status: HousekeepingStatus;
+  reason: string;
+  note: string | null;
+  created_at: string;
+}
+
+const HousekeepingBoard: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [reservations, setReservations] = useState<TodayReservation[]>([]);
+  const [selectedProperty, setSelectedProperty] = useState('all');
+  const [loading, setLoading] = useState(true);
+  const [historyRoom, setHistoryRoom] = useState<Room | null>(null);
+  const [history, setHistory] = useState<StatusChange[]>([]);
+
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const { data: propertiesData, error: propertiesError } = await supabase
+        .from('properties')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (propertiesError) throw propertiesError;
+      setProperties(propertiesData || []);
+
+      const propertyIds = (propertiesData || []).map(p => p.id);
+      if (propertyIds.length === 0) {
+        setRooms([]);
+        setReservations([]);
+        return;
+      }
+
+      const { data: roomsData, error: roomsError } = await supabase
+        .from('rooms')
+        .select(`
+          id, room_number, room_type, property_id, housekeeping_status, housekeeping_updated_at,
+          properties (
+            name
+          )
+        `)
+        .in('property_id', propertyIds)
+        .eq('is_active', true)
+        .order('room_number');
+
+      if (roomsError) throw roomsError;
+      setRooms(roomsData || []);
+
+      // Stays touching today tell housekeeping who leaves, arrives or stays
+      const { data: reservationsData, error: reservationsError } = await supabase
+        .from('reservations')
+        .select('id, room_id, guest_name, check_in, check_out')
+        .in('property_id', propertyIds)
+        .not('room_id', 'is', null)
+        .neq('status', 'cancelled')
+        .lte('check_in', today)
+        .gte('check_out', today);
+
+      if (reservationsError) throw reservationsError;
+      setReservations(reservationsData || []);
+    } catch (error) {
+      console.error('Error fetching housekeeping data:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStatusChange = async (room: Room, status: HousekeepingStatus) => {
+    const previous = room.housekeeping_status;
+    setRooms(rooms.map(r => r.id === room.id ? { ...r, housekeeping_status: status } : r));
+
+    try {
+      await setRoomStatus(room.id, status);
+      toast({
+        title: "Status updated",
+        description: `Room ${room.room_number} is now ${getHousekeepingStatus(status).label.toLowerCase()}.`,
+      });
+    } catch (error) {
+      setRooms(current => current.map(r => r.id === room.id ? { ...r, housekeeping_status: previous } : r));
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openHistory = async (room: Room) => {
+    setHistoryRoom(room);
+    setHistory([]);
+
+    const { data, error } = await supabase
+      .from('room_status_history')
+      .select('id, from_status, to_status, reason, note, created_at')
+      .eq('room_id', room.id)
+      .order('created_at', { ascending: false })
+      .limit(20);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setHistory(data || []);
+  };
+
+  const getRoomContext = (roomId: string) => {
+    const stays = reservations.filter(r => r.room_id === roomId);
+    return {
+      departure: stays.find(r => r.check_out === today),
+      arrival: stays.find(r => r.check_in === today),
+      inHouse: stays.find(r => r.check_in < today && r.check_out > today),
+    };
+  };
+
+  const visibleRooms = selectedProperty === 'all'
+    ? rooms
+    : rooms.filter(room => room.property_id === selectedProperty);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <p className="text-sm text-muted-foreground">
+          Room status for today. Check-ins, check-outs and completed tasks update it automatically.
+        </p>
+
+        <div className="flex items-center space-x-2">
+          <Select value={selectedProperty} onValueChange={setSelectedProperty}>
+            <SelectTrigger className="w-48">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="all">All properties</SelectItem>
+              {properties.map(property => (
+                <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={fetchData}>
+            <RefreshCw className="h-4 w-4 mr-2" />
+            Refresh
+          </Button>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 xl:grid-cols-5 gap-4">
+        {HOUSEKEEPING_STATUSES.map(status => {
+          const columnRooms = visibleRooms.filter(room => room.housekeeping_status === status.value);
+
+          return (
+            <Card key={status.value} className="glass-card border-0">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between text-base">
+                  <span className="flex items-center gap-2">
+                    <span className={`w-3 h-3 rounded-full ${status.color}`} />
+                    {status.label}
+                  </span>
+                  <Badge variant="secondary">{columnRooms.length}</Badge>
+                </CardTitle>
+                <p className="text-xs text-muted-foreground">{status.description}</p>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {columnRooms.length === 0 && (
+                  <p className="text-xs text-muted-foreground text-center py-4">No rooms</p>
+                )}
+                {columnRooms.map(room => {
+                  const { departure, arrival, inHouse } = getRoomContext(room.id);
+
+                  return (
+                    <div key={room.id} className="rounded-lg border border-border p-3 space-y-2 bg-background/50">
+                      <div className="flex items-start justify-between">
+                        <div>
+                          <div className="font-semibold text-sm">Room {room.room_number}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {room.properties?.name} · <span className="capitalize">{room.room_type}</span>
+                          </div>
+                        </div>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          className="h-7 w-7 p-0"
+                          onClick={() => openHistory(room)}
+                          title="Status history"
+                        >
+                          <History className="h-4 w-4" />
+                        </Button>
+                      </div>
+
+                      <div className="space-y-1 text-xs">
+                        {departure && (
+                          <div className="flex items-center gap-1 text-red-600">
+                            <LogOut className="h-3 w-3" />
+                            Departure: {departure.guest_name}
+                          </div>
+                        )}
+                        {arrival && (
+                          <div className="flex items-center gap-1 text-emerald-600">
+                            <LogIn className="h-3 w-3" />
+                            Arrival: {arrival.guest_name}
+                          </div>
+                        )}
+                        {inHouse && (
+                          <div className="flex items-center gap-1 text-blue-600">
+                            <User className="h-3 w-3" />
+                            In house: {inHouse.guest_name}
+                          </div>
+                        )}
+                      </div>
+
+                      <Select
+                        value={room.housekeeping_status}
+                        onValueChange={(value) => handleStatusChange(room, value as HousekeepingStatus)}
+                      >
+                        <SelectTrigger className="h-8 text-xs">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {HOUSEKEEPING_STATUSES.map(option => (
+                            <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+
+                      <div className="text-[10px] text-muted-foreground">
+                        Updated {format(parseISO(room.housekeeping_updated_at), 'MMM d, HH:mm')}
+                      </div>
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Dialog open={!!historyRoom} onOpenChange={(open) => !open && setHistoryRoom(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Room {historyRoom?.room_number} – Status History</DialogTitle>
+          </DialogHeader>
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {history.length === 0 && (
+              <p className="text-sm text-muted-foreground">No status changes recorded yet.</p>
+            )}
+            {history.map(change => (
+              <div key={change.id} className="flex items-start justify-between gap-2 border-b border-border/50 pb-2 text-sm">
+                <div>
+                  <div>
+                    {change.from_status ? getHousekeepingStatus(change.from_status).label : '—'} → {getHousekeepingStatus(change.to_status).label}
+                  </div>
+                  <div className="text-xs text-muted-foreground">
+                    {HOUSEKEEPING_REASON_LABELS[change.reason] ?? change.reason}
+                    {change.note && ` · ${change.note}`}
+                  </div>
+                </div>
+                <span className="text-xs text-muted-foreground whitespace-nowrap">
+                  {format(parseISO(change.created_at), 'MMM d, HH:mm')}
+                </span>
+              </div>
+            ))}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default HousekeepingBoard;
@@ -0,0 +1,34 @@
+import React from 'react';
+import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
+import HousekeepingTasks from './HousekeepingTasks';
+import HousekeepingBoard from './HousekeepingBoard';
+
+const HousekeepingPage: React.FC = () => {
+  return (
+    <div className="space-y-6">
+      <div>
+        <h2 className="text-3xl font-bold tracking-tight text-gradient">Housekeeping</h2>
+        <p className="text-muted-foreground">
+          Daily cleaning tasks and room status. Tasks are generated every morning from today's departures, stayovers and arrivals.
+        </p>
+      </div>
+
+      <Tabs defaultValue="tasks" className="w-full">
+        <TabsList className="grid w-full max-w-md grid-cols-2">
+          <TabsTrigger value="tasks">Tasks</TabsTrigger>
+          <TabsTrigger value="rooms">Room Status</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="tasks" className="mt-6">
+          <HousekeepingTasks />
+        </TabsContent>
+
+        <TabsContent value="rooms" className="mt-6">
+          <HousekeepingBoard />
+        </TabsContent>
+      </Tabs>
+    </div>
+  );
+};
+
+export default HousekeepingPage;
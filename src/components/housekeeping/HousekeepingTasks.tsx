@@ -0,0 +1,326 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { CheckCircle, Clock, Play, RefreshCw, Undo2, Wand2 } from 'lucide-react';
+import { differenceInMinutes, format, parseISO } from 'date-fns';
+import {
+  HOUSEKEEPING_TASK_COLUMNS,
+  HOUSEKEEPING_TASK_TYPES,
+  HousekeepingTaskStatus,
+  HousekeepingTaskType,
+  claimHousekeepingTask,
+  compareHousekeepingTasks,
+  completeHousekeepingTask,
+  generateHousekeepingTasks,
+  releaseHousekeepingTask,
+} from '@/lib/housekeeping';
+
+interface HousekeepingTask {
+  id: string;
+  property_id: string;
+  room_id: string;
+  task_date: string;
+  task_type: HousekeepingTaskType;
+  status: HousekeepingTaskStatus;
+  is_turnover: boolean;
+  priority: number;
+  not_before: string | null;
+  due_by: string | null;
+  assigned_to: string | null;
+  assignee_name: string | null;
+  started_at: string | null;
+  completed_at: string | null;
+  duration_minutes: number | null;
+  notes: string | null;
+  rooms?: {
+    room_number: string;
+  };
+  properties?: {
+    name: string;
+  };
+  reservations?: {
+    guest_name: string;
+  } | null;
+}
+
+interface Property {
+  id: string;
+  name: string;
+}
+
+const formatTime = (time: string | null) => time?.slice(0, 5);
+
+const HousekeepingTasks: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tasks, setTasks] = useState<HousekeepingTask[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [selectedProperty, setSelectedProperty] = useState('all');
+  const [taskDate, setTaskDate] = useState(format(new Date(), 'yyyy-MM-dd'));
+  const [loading, setLoading] = useState(true);
+  const [busyTaskId, setBusyTaskId] = useState<string | null>(null);
+  const [now, setNow] = useState(new Date());
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user, taskDate]);
+
+  // Keeps the running timers of in-progress tasks current
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const { data: propertiesData, error: propertiesError } = await supabase
+        .from('properties')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (propertiesError) throw propertiesError;
+      setProperties(propertiesData || []);
+
+      const { data: tasksData, error: tasksError } = await supabase
+        .from('housekeeping_tasks')
+        .select(`
+          *,
+          rooms (
+            room_number
+          ),
+          properties (
+            name
+          ),
+          reservations (
+            guest_name
+          )
+        `)
+        .eq('task_date', taskDate);
+
+      if (tasksError) throw tasksError;
+      setTasks((tasksData || []) as HousekeepingTask[]);
+    } catch (error) {
+      console.error('Error fetching housekeeping tasks:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const runAction = async (taskId: string, action: () => Promise<void>, successMessage: string) => {
+    setBusyTaskId(taskId);
+    try {
+      await action();
+      toast({
+        title: "Success",
+        description: successMessage,
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setBusyTaskId(null);
+    }
+  };
+
+  const handleGenerate = async () => {
+    try {
+      const created = await generateHousekeepingTasks(
+        taskDate,
+        selectedProperty === 'all' ? undefined : selectedProperty
+      );
+      toast({
+        title: "Tasks generated",
+        description: created ? `${created} new task(s) for ${taskDate}.` : 'All tasks for this day already exist.',
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const visibleTasks = (selectedProperty === 'all'
+    ? tasks
+    : tasks.filter(task => task.property_id === selectedProperty)
+  ).sort(compareHousekeepingTasks);
+
+  const renderTiming = (task: HousekeepingTask) => {
+    if (task.status === 'done' && task.duration_minutes !== null) {
+      return `Took ${task.duration_minutes} min`;
+    }
+    if (task.status === 'in_progress' && task.started_at) {
+      return `${differenceInMinutes(now, parseISO(task.started_at))} min so far`;
+    }
+    const window = [
+      task.not_before && `after ${formatTime(task.not_before)}`,
+      task.due_by && `by ${formatTime(task.due_by)}`,
+    ].filter(Boolean).join(' · ');
+    return window || null;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center gap-2">
+        <Input
+          type="date"
+          value={taskDate}
+          onChange={(e) => setTaskDate(e.target.value)}
+          className="w-44"
+        />
+        <Select value={selectedProperty} onValueChange={setSelectedProperty}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All properties</SelectItem>
+            {properties.map(property => (
+              <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button variant="outline" onClick={fetchData}>
+          <RefreshCw className="h-4 w-4 mr-2" />
+          Refresh
+        </Button>
+        <Button onClick={handleGenerate}>
+          <Wand2 className="h-4 w-4 mr-2" />
+          Generate Tasks
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        {HOUSEKEEPING_TASK_COLUMNS.map(column => {
+          const columnTasks = visibleTasks.filter(task => task.status === column.value);
+
+          return (
+            <Card key={column.value} className="glass-card border-0">
+              <CardHeader className="pb-3">
+                <CardTitle className="flex items-center justify-between text-base">
+                  {column.label}
+                  <Badge variant="secondary">{columnTasks.length}</Badge>
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                {columnTasks.length === 0 && (
+                  <p className="text-xs text-muted-foreground text-center py-4">No tasks</p>
+                )}
+                {columnTasks.map(task => {
+                  const isMine = task.assigned_to === user?.id;
+                  const timing = renderTiming(task);
+
+                  return (
+                    <div key={task.id} className="rounded-lg border border-border p-3 space-y-2 bg-background/50">
+                      <div className="flex items-start justify-between gap-2">
+                        <div>
+                          <div className="font-semibold text-sm">Room {task.rooms?.room_number}</div>
+                          <div className="text-xs text-muted-foreground">{task.properties?.name}</div>
+                        </div>
+                        <div className="flex flex-col items-end gap-1">
+                          <Badge variant="outline" className="text-xs">{HOUSEKEEPING_TASK_TYPES[task.task_type]}</Badge>
+                          {task.is_turnover && (
+                            <Badge variant="destructive" className="text-xs">Same-day turnover</Badge>
+                          )}
+                        </div>
+                      </div>
+
+                      {task.reservations?.guest_name && (
+                        <div className="text-xs text-muted-foreground">Guest: {task.reservations.guest_name}</div>
+                      )}
+
+                      {timing && (
+                        <div className="flex items-center gap-1 text-xs text-muted-foreground">
+                          <Clock className="h-3 w-3" />
+                          {timing}
+                        </div>
+                      )}
+
+                      {task.assignee_name && (
+                        <div className="text-xs">
+                          {isMine ? 'Assigned to you' : `Assigned to ${task.assignee_name}`}
+                        </div>
+                      )}
+
+                      {task.status === 'pending' && (
+                        <Button
+                          size="sm"
+                          className="w-full"
+                          disabled={busyTaskId === task.id}
+                          onClick={() => runAction(task.id, () => claimHousekeepingTask(task.id), `Room ${task.rooms?.room_number} claimed.`)}
+                        >
+                          <Play className="h-3 w-3 mr-2" />
+                          Claim & Start
+                        </Button>
+                      )}
+
+                      {task.status === 'in_progress' && (
+                        <div className="flex gap-2">
+                          <Button
+                            size="sm"
+                            className="flex-1"
+                            disabled={busyTaskId === task.id}
+                            onClick={() => runAction(task.id, () => completeHousekeepingTask(task.id), `Room ${task.rooms?.room_number} done.`)}
+                          >
+                            <CheckCircle className="h-3 w-3 mr-2" />
+                            Complete
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            disabled={busyTaskId === task.id}
+                            onClick={() => runAction(task.id, () => releaseHousekeepingTask(task.id), 'Task returned to the board.')}
+                            title="Release task"
+                          >
+                            <Undo2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+                      )}
+
+                      {task.status === 'done' && task.completed_at && (
+                        <div className="text-[10px] text-muted-foreground">
+                          Completed {format(parseISO(task.completed_at), 'HH:mm')}
+                        </div>
+                      )}
+                    </div>
+                  );
+                })}
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HousekeepingTasks;
@@ -0,0 +1,232 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Download, FileText, Search, Settings, Undo2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { INVOICE_DOCUMENT_TYPES, Invoice, downloadInvoicePdf, formatAmount, issueCreditNote } from '@/lib/invoices';
+import InvoiceSettingsDialog from './InvoiceSettingsDialog';
+
+interface Property {
+  id: string;
+  name: string;
+  owner_id: string;
+}
+
+const InvoiceArchive: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [searchTerm, setSearchTerm] = useState('');
+  const [propertyFilter, setPropertyFilter] = useState('all');
+  const [typeFilter, setTypeFilter] = useState('all');
+  const [settingsOpen, setSettingsOpen] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      const [{ data: invoiceRows, error: invoicesError }, { data: propertyRows, error: propertiesError }] = await Promise.all([
+        supabase
+          .from('invoices')
+          .select('*')
+          .order('issue_date', { ascending: false })
+          .order('invoice_number', { ascending: false }),
+        supabase.from('properties').select('id, name, owner_id').order('name'),
+      ]);
+
+      if (invoicesError) throw invoicesError;
+      if (propertiesError) throw propertiesError;
+      setInvoices(invoiceRows || []);
+      setProperties(propertyRows || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      await downloadInvoicePdf(invoice);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleCreditNote = async (invoice: Invoice) => {
+    const reason = window.prompt(`Issue a credit note cancelling ${invoice.invoice_number}? Enter a reason:`);
+    if (reason === null) return;
+
+    try {
+      await issueCreditNote(invoice.id, reason);
+      toast({ title: "Success", description: `Credit note issued for ${invoice.invoice_number}` });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const creditedIds = new Set(invoices.map(invoice => invoice.credited_invoice_id).filter(Boolean));
+  const numbersById = new Map(invoices.map(invoice => [invoice.id, invoice.invoice_number]));
+  const ownedProperties = properties.filter(property => property.owner_id === user?.id);
+
+  const term = searchTerm.toLowerCase();
+  const filteredInvoices = invoices.filter(invoice => {
+    const matchesSearch = !term ||
+      invoice.invoice_number.toLowerCase().includes(term) ||
+      invoice.buyer_name.toLowerCase().includes(term);
+    const matchesProperty = propertyFilter === 'all' || invoice.property_id === propertyFilter;
+    const matchesType = typeFilter === 'all' || invoice.document_type === typeFilter;
+    return matchesSearch && matchesProperty && matchesType;
+  });
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Invoices</h2>
+          <p className="text-muted-foreground">
+            Issued invoices and credit notes, kept exactly as they were issued
+          </p>
+        </div>
+        {ownedProperties.length > 0 && (
+          <Button variant="outline" onClick={() => setSettingsOpen(true)}>
+            <Settings className="mr-2 h-4 w-4" />
+            Invoicing Settings
+          </Button>
+        )}
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-4">
+            <div>
+              <CardTitle>Archive ({filteredInvoices.length})</CardTitle>
+              <CardDescription>Invoices are issued from a reservation's folio</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <div className="relative">
+                <Search className="absolute left-3 top-3 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Number or customer"
+                  className="pl-10 w-56"
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                />
+              </div>
+              <Select value={propertyFilter} onValueChange={setPropertyFilter}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All properties</SelectItem>
+                  {properties.map(property => (
+                    <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select value={typeFilter} onValueChange={setTypeFilter}>
+                <SelectTrigger className="w-36">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All documents</SelectItem>
+                  {Object.entries(INVOICE_DOCUMENT_TYPES).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {filteredInvoices.map(invoice => (
+              <div key={invoice.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{invoice.invoice_number}</span>
+                    <Badge variant="outline">{INVOICE_DOCUMENT_TYPES[invoice.document_type]}</Badge>
+                    {creditedIds.has(invoice.id) && <Badge variant="secondary">Credited</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {invoice.buyer_name} • {format(parseISO(invoice.issue_date), 'MMM d, yyyy')}
+                    {invoice.credited_invoice_id && ` • cancels ${numbersById.get(invoice.credited_invoice_id) ?? 'invoice'}`}
+                  </div>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className={`font-medium ${Number(invoice.total) < 0 ? 'text-destructive' : ''}`}>
+                    {formatAmount(Number(invoice.total), invoice.currency, invoice.locale)}
+                  </span>
+                  <Button size="sm" variant="outline" title="Download PDF" onClick={() => handleDownload(invoice)}>
+                    <Download className="h-3 w-3" />
+                  </Button>
+                  {invoice.document_type === 'invoice' && !creditedIds.has(invoice.id) &&
+                    can('edit_reservations', invoice.property_id) && (
+                    <Button size="sm" variant="outline" title="Issue credit note" onClick={() => handleCreditNote(invoice)}>
+                      <Undo2 className="h-3 w-3" />
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {filteredInvoices.length === 0 && (
+              <div className="text-center py-8">
+                <FileText className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No invoices found</h3>
+                <p className="text-muted-foreground">
+                  {searchTerm || propertyFilter !== 'all' || typeFilter !== 'all'
+                    ? 'Try adjusting your filters'
+                    : 'Issue an invoice from a reservation folio'}
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <InvoiceSettingsDialog
+        open={settingsOpen}
+        properties={ownedProperties}
+        onClose={() => setSettingsOpen(false)}
+      />
+    </div>
+  );
+};
+
+export default InvoiceArchive;
@@ -0,0 +1,454 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Plus, Save } from 'lucide-react';
+import { INVOICE_DOCUMENT_TYPES, INVOICE_LOCALES, InvoiceSeries, previewSeriesNumber } from '@/lib/invoices';
+
+interface InvoiceSettingsDialogProps {
+  open: boolean;
+  properties: { id: string; name: string }[];
+  onClose: () => void;
+}
+
+const emptySettings = {
+  seller_name: '',
+  seller_address: '',
+  seller_tax_id: '',
+  seller_vat_id: '',
+  seller_email: '',
+  bank_account: '',
+  vat_payer: true,
+  accommodation_vat_rate: '0',
+  default_vat_rate: '0',
+  payment_terms_days: '14',
+  footer_note: '',
+  locale: 'en-US',
+};
+
+const emptySeries = {
+  name: '',
+  document_type: 'invoice',
+  prefix: '',
+  padding: 4,
+  reset_yearly: true,
+  next_number: 1,
+  is_default: false,
+};
+
+// Seller details, VAT rates and numbering series of one property. Owners only.
+const InvoiceSettingsDialog: React.FC<InvoiceSettingsDialogProps> = ({ open, properties, onClose }) => {
+  const { toast } = useToast();
+  const [propertyId, setPropertyId] = useState('');
+  const [settings, setSettings] = useState(emptySettings);
+  const [series, setSeries] = useState<InvoiceSeries[]>([]);
+  const [newSeries, setNewSeries] = useState(emptySeries);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (open && !propertyId && properties.length > 0) {
+      setPropertyId(properties[0].id);
+    }
+  }, [open, properties]);
+
+  useEffect(() => {
+    if (open && propertyId) {
+      fetchSettings(propertyId);
+    }
+  }, [open, propertyId]);
+
+  const fetchSettings = async (id: string) => {
+    try {
+      const [{ data: row, error: settingsError }, { data: seriesRows, error: seriesError }] = await Promise.all([
+        supabase.from('invoice_settings').select('*').eq('property_id', id).maybeSingle(),
+        supabase.from('invoice_series').select('*').eq('property_id', id).order('document_type').order('name'),
+      ]);
+
+      if (settingsError) throw settingsError;
+      if (seriesError) throw seriesError;
+
+      setSettings(row ? {
+        seller_name: row.seller_name,
+        seller_address: row.seller_address || '',
+        seller_tax_id: row.seller_tax_id || '',
+        seller_vat_id: row.seller_vat_id || '',
+        seller_email: row.seller_email || '',
+        bank_account: row.bank_account || '',
+        vat_payer: row.vat_payer,
+        accommodation_vat_rate: String(row.accommodation_vat_rate),
+        default_vat_rate: String(row.default_vat_rate),
+        payment_terms_days: String(row.payment_terms_days),
+        footer_note: row.footer_note || '',
+        locale: row.locale,
+      } : {
+        ...emptySettings,
+        seller_name: properties.find(p => p.id === id)?.name || '',
+      });
+      setSeries(seriesRows || []);
+      setNewSeries(emptySeries);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from('invoice_settings').upsert({
+        property_id: propertyId,
+        seller_name: settings.seller_name,
+        seller_address: settings.seller_address || null,
+        seller_tax_id: settings.seller_tax_id || null,
+        seller_vat_id: settings.seller_vat_id || null,
+        seller_email: settings.seller_email || null,
+        bank_account: settings.bank_account || null,
+        vat_payer: settings.vat_payer,
+        accommodation_vat_rate: parseFloat(settings.accommodation_vat_rate) || 0,
+        default_vat_rate: parseFloat(settings.default_vat_rate) || 0,
+        payment_terms_days: parseInt(settings.payment_terms_days) || 0,
+        footer_note: settings.footer_note || null,
+        locale: settings.locale,
+      });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Invoicing details saved" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const clearDefault = async (documentType: string) => {
+    const { error } = await supabase
+      .from('invoice_series')
+      .update({ is_default: false })
+      .eq('property_id', propertyId)
+      .eq('document_type', documentType)
+      .eq('is_default', true);
+    if (error) throw error;
+  };
+
+  const handleAddSeries = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      if (newSeries.is_default) await clearDefault(newSeries.document_type);
+      const { error } = await supabase.from('invoice_series').insert({
+        ...newSeries,
+        property_id: propertyId,
+      });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Series added" });
+      fetchSettings(propertyId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const updateSeries = async (row: InvoiceSeries, changes: Partial<InvoiceSeries>) => {
+    try {
+      if (changes.is_default) await clearDefault(row.document_type);
+      const { error } = await supabase
+        .from('invoice_series')
+        .update(changes)
+        .eq('id', row.id);
+
+      if (error) throw error;
+      fetchSettings(propertyId);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => !isOpen && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Invoicing Settings</DialogTitle>
+          <DialogDescription>
+            Details printed on invoices and the numbering series they are issued from
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-2">
+          <Label>Property</Label>
+          <Select value={propertyId} onValueChange={setPropertyId}>
+            <SelectTrigger>
+              <SelectValue placeholder="Select property" />
+            </SelectTrigger>
+            <SelectContent>
+              {properties.map(property => (
+                <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {propertyId && (
+          <div className="space-y-6">
+            <form onSubmit={handleSaveSettings} className="space-y-4">
+              <h4 className="font-medium">Seller</h4>
+              <div className="grid grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="seller_name">Legal name *</Label>
+                  <Input
+                    id="seller_name"
+                    value={settings.seller_name}
+                    onChange={(e) => setSettings({ ...settings, seller_name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="seller_email">Billing email</Label>
+                  <Input
+                    id="seller_email"
+                    type="email"
+                    value={settings.seller_email}
+                    onChange={(e) => setSettings({ ...settings, seller_email: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="seller_address">Address</Label>
+                <Textarea
+                  id="seller_address"
+                  value={settings.seller_address}
+                  onChange={(e) => setSettings({ ...settings, seller_address: e.target.value })}
+                  rows={2}
+                />
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="seller_tax_id">Company ID</Label>
+                  <Input
+                    id="seller_tax_id"
+                    value={settings.seller_tax_id}
+                    onChange={(e) => setSettings({ ...settings, seller_tax_id: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="seller_vat_id">VAT ID</Label>
+                  <Input
+                    id="seller_vat_id"
+                    value={settings.seller_vat_id}
+                    onChange={(e) => setSettings({ ...settings, seller_vat_id: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="bank_account">Bank account</Label>
+                  <Input
+                    id="bank_account"
+                    value={settings.bank_account}
+                    onChange={(e) => setSettings({ ...settings, bank_account: e.target.value })}
+                  />
+                </div>
+              </div>
+
+              <h4 className="font-medium">VAT and terms</h4>
+              <div className="flex items-center space-x-2">
+                <Switch
+                  id="vat_payer"
+                  checked={settings.vat_payer}
+                  onCheckedChange={(checked) => setSettings({ ...settings, vat_payer: checked })}
+                />
+                <Label htmlFor="vat_payer">Registered for VAT</Label>
+              </div>
+              <div className="grid grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="accommodation_vat_rate">Accommodation VAT %</Label>
+                  <Input
+                    id="accommodation_vat_rate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={settings.accommodation_vat_rate}
+                    onChange={(e) => setSettings({ ...settings, accommodation_vat_rate: e.target.value })}
+                    disabled={!settings.vat_payer}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="default_vat_rate">Other charges VAT %</Label>
+                  <Input
+                    id="default_vat_rate"
+                    type="number"
+                    min="0"
+                    step="0.01"
+                    value={settings.default_vat_rate}
+                    onChange={(e) => setSettings({ ...settings, default_vat_rate: e.target.value })}
+                    disabled={!settings.vat_payer}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="payment_terms_days">Payment terms (days)</Label>
+                  <Input
+                    id="payment_terms_days"
+                    type="number"
+                    min="0"
+                    value={settings.payment_terms_days}
+                    onChange={(e) => setSettings({ ...settings, payment_terms_days: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label>Number format</Label>
+                <Select value={settings.locale} onValueChange={(value) => setSettings({ ...settings, locale: value })}>
+                  <SelectTrigger className="w-64">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(INVOICE_LOCALES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="footer_note">Footer note</Label>
+                <Textarea
+                  id="footer_note"
+                  value={settings.footer_note}
+                  onChange={(e) => setSettings({ ...settings, footer_note: e.target.value })}
+                  placeholder="e.g. registration court entry"
+                  rows={2}
+                />
+              </div>
+              <div className="flex justify-end">
+                <Button type="submit" disabled={saving}>
+                  <Save className="mr-2 h-4 w-4" />
+                  Save Details
+                </Button>
+              </div>
+            </form>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Numbering series</h4>
+              {series.map(row => (
+                <div key={row.id} className="flex items-center justify-between p-3 border border-border rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{row.name}</span>
+                    <Badge variant="outline">{INVOICE_DOCUMENT_TYPES[row.document_type]}</Badge>
+                    {row.is_default && <Badge>Default</Badge>}
+                    {!row.is_active && <Badge variant="secondary">Inactive</Badge>}
+                    <span className="text-muted-foreground">next {previewSeriesNumber(row)}</span>
+                  </div>
+                  <div className="flex gap-2">
+                    {!row.is_default && row.is_active && (
+                      <Button size="sm" variant="outline" onClick={() => updateSeries(row, { is_default: true })}>
+                        Make default
+                      </Button>
+                    )}
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => updateSeries(row, { is_active: !row.is_active, is_default: false })}
+                    >
+                      {row.is_active ? 'Deactivate' : 'Activate'}
+                    </Button>
+                  </div>
+                </div>
+              ))}
+
+              <form onSubmit={handleAddSeries} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end pt-2">
+                <div className="space-y-1 md:col-span-2">
+                  <Label htmlFor="series_name">Name</Label>
+                  <Input
+                    id="series_name"
+                    value={newSeries.name}
+                    onChange={(e) => setNewSeries({ ...newSeries, name: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={newSeries.document_type}
+                    onValueChange={(value) => setNewSeries({ ...newSeries, document_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(INVOICE_DOCUMENT_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="series_prefix">Prefix</Label>
+                  <Input
+                    id="series_prefix"
+                    value={newSeries.prefix}
+                    onChange={(e) => setNewSeries({ ...newSeries, prefix: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="series_next">Next number</Label>
+                  <Input
+                    id="series_next"
+                    type="number"
+                    min="1"
+                    value={newSeries.next_number}
+                    onChange={(e) => setNewSeries({ ...newSeries, next_number: parseInt(e.target.value) || 1 })}
+                  />
+                </div>
+                <Button type="submit">
+                  <Plus className="mr-1 h-4 w-4" />
+                  Add
+                </Button>
+                <div className="flex items-center space-x-2 md:col-span-3">
+                  <Switch
+                    id="series_reset_yearly"
+                    checked={newSeries.reset_yearly}
+                    onCheckedChange={(checked) => setNewSeries({ ...newSeries, reset_yearly: checked })}
+                  />
+                  <Label htmlFor="series_reset_yearly">Include year and restart yearly</Label>
+                </div>
+                <div className="flex items-center space-x-2 md:col-span-3">
+                  <Switch
+                    id="series_default"
+                    checked={newSeries.is_default}
+                    onCheckedChange={(checked) => setNewSeries({ ...newSeries, is_default: checked })}
+                  />
+                  <Label htmlFor="series_default">Default for its type</Label>
+                </div>
+              </form>
+              <p className="text-xs text-muted-foreground">
+                Next: {previewSeriesNumber({ ...newSeries, number_year: null })}
+              </p>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default InvoiceSettingsDialog;
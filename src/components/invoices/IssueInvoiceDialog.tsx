@@ -0,0 +1,208 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { FileText } from 'lucide-react';
+import { InvoiceSeries, downloadInvoicePdf, issueInvoice, previewSeriesNumber } from '@/lib/invoices';
+
+export interface InvoiceReservation {
+  id: string;
+  property_id: string;
+  guest_name: string;
+  guest_email?: string | null;
+}
+
+interface IssueInvoiceDialogProps {
+  reservation: InvoiceReservation | null;
+  onClose: () => void;
+  onIssued?: () => void;
+}
+
+const IssueInvoiceDialog: React.FC<IssueInvoiceDialogProps> = ({ reservation, onClose, onIssued }) => {
+  const { toast } = useToast();
+  const [series, setSeries] = useState<InvoiceSeries[]>([]);
+  const [seriesId, setSeriesId] = useState('');
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    name: '',
+    address: '',
+    taxId: '',
+    vatId: '',
+    email: '',
+    notes: '',
+  });
+
+  useEffect(() => {
+    if (!reservation) return;
+    setFormData({
+      name: reservation.guest_name,
+      address: '',
+      taxId: '',
+      vatId: '',
+      email: reservation.guest_email || '',
+      notes: '',
+    });
+    fetchSeries(reservation.property_id);
+  }, [reservation?.id]);
+
+  const fetchSeries = async (propertyId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from('invoice_series')
+        .select('*')
+        .eq('property_id', propertyId)
+        .eq('document_type', 'invoice')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setSeries(data || []);
+      setSeriesId((data || []).find(s => s.is_default)?.id ?? data?.[0]?.id ?? '');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reservation) return;
+
+    try {
+      setSaving(true);
+      // Address defaults to the guest profile's when left empty
+      const invoiceId = await issueInvoice(reservation.id, formData, seriesId || undefined, formData.notes);
+
+      const { data: invoice, error } = await supabase
+        .from('invoices')
+        .select('*')
+        .eq('id', invoiceId)
+        .single();
+
+      if (error) throw error;
+      toast({ title: "Success", description: `Invoice ${invoice.invoice_number} issued` });
+      await downloadInvoicePdf(invoice);
+      onIssued?.();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Issue Invoice</DialogTitle>
+          <DialogDescription>
+            Invoices every charge on the folio that is not voided. Issued invoices cannot be edited.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Numbering series</Label>
+            <Select value={seriesId} onValueChange={setSeriesId}>
+              <SelectTrigger>
+                <SelectValue placeholder="No series set up for this property" />
+              </SelectTrigger>
+              <SelectContent>
+                {series.map(s => (
+                  <SelectItem key={s.id} value={s.id}>
+                    {s.name} (next {previewSeriesNumber(s)})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="buyer_name">Customer *</Label>
+            <Input
+              id="buyer_name"
+              value={formData.name}
+              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+              required
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="buyer_address">Address</Label>
+            <Textarea
+              id="buyer_address"
+              value={formData.address}
+              onChange={(e) => setFormData({ ...formData, address: e.target.value })}
+              placeholder="Taken from the guest profile when empty"
+              rows={2}
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="buyer_tax_id">Company ID</Label>
+              <Input
+                id="buyer_tax_id"
+                value={formData.taxId}
+                onChange={(e) => setFormData({ ...formData, taxId: e.target.value })}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="buyer_vat_id">VAT ID</Label>
+              <Input
+                id="buyer_vat_id"
+                value={formData.vatId}
+                onChange={(e) => setFormData({ ...formData, vatId: e.target.value })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="buyer_email">Email</Label>
+            <Input
+              id="buyer_email"
+              type="email"
+              value={formData.email}
+              onChange={(e) => setFormData({ ...formData, email: e.target.value })}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="invoice_notes">Note on invoice</Label>
+            <Textarea
+              id="invoice_notes"
+              value={formData.notes}
+              onChange={(e) => setFormData({ ...formData, notes: e.target.value })}
+              rows={2}
+            />
+          </div>
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving || !seriesId}>
+              <FileText className="mr-2 h-4 w-4" />
+              Issue & Download
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default IssueInvoiceDialog;
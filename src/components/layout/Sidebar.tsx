@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Capability } from '@/lib/team';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -16,7 +18,18 @@ import {
   LogOut,
   ChevronDown,
   ChevronRight,
-  MapPin
+  MapPin,
+  Sparkles,
+  Wrench,
+  ClipboardList,
+  ConciergeBell,
+  Contact,
+  FileText,
+  Landmark,
+  ShieldCheck,
+  Tags,
+  Grid3x3,
+  Mail
 } from 'lucide-react';
 
 interface Property {
@@ -32,6 +45,7 @@ interface SidebarProps {
 
 const Sidebar: React.FC<SidebarProps> = ({ currentPage, onPageChange }) => {
   const { user, signOut } = useAuth();
+  const { isOwner, can } = usePermissions();
   const [properties, setProperties] = useState<Property[]>([]);
   const [propertiesExpanded, setPropertiesExpanded] = useState(false);
   const [selectedProperty, setSelectedProperty] = useState<string>('all');
@@ -49,7 +63,6 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onPageChange }) => {
       const { data, error } = await supabase
         .from('properties')
         .select('id, name, property_type')
-        .eq('owner_id', user.id)
         .eq('is_active', true)
         .order('name');
 
@@ -60,17 +73,35 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onPageChange }) => {
     }
   };
 
-  const menuItems = [
+  // Items are offered when the user holds the capability on at least one
+  // property; owner-only items need a property the user owns.
+  const menuItems: { id: string; label: string; icon: typeof LayoutDashboard; requires?: Capability | 'owner' }[] = [
     { id: 'dashboard', label: 'Dashboard', icon: LayoutDashboard },
-    { id: 'rooms', label: 'Rooms', icon: Building2 },
-    { id: 'properties', label: 'Properties', icon: Building2 },
-    { id: 'calendar', label: 'Calendar', icon: Calendar },
-    { id: 'pricing', label: 'AI Pricing', icon: DollarSign },
-    { id: 'market', label: 'Nearby Rates', icon: MapPin },
-    { id: 'analytics', label: 'Analytics', icon: BarChart3 },
-    { id: 'settings', label: 'Settings', icon: Settings },
+    { id: 'front-desk', label: 'Front Desk', icon: ConciergeBell, requires: 'view_reservations' },
+    { id: 'rooms', label: 'Rooms', icon: Building2, requires: 'view_reservations' },
+    { id: 'housekeeping', label: 'Housekeeping', icon: Sparkles, requires: 'housekeeping' },
+    { id: 'maintenance', label: 'Maintenance', icon: Wrench },
+    { id: 'properties', label: 'Properties', icon: Building2, requires: 'owner' },
+    { id: 'calendar', label: 'Calendar', icon: Calendar, requires: 'view_reservations' },
+    { id: 'reservations', label: 'Reservations', icon: ClipboardList, requires: 'view_reservations' },
+    { id: 'guests', label: 'Guests', icon: Contact, requires: 'view_reservations' },
+    { id: 'invoices', label: 'Invoices', icon: FileText, requires: 'view_reservations' },
+    { id: 'city-tax', label: 'City Tax', icon: Landmark, requires: 'view_reservations' },
+    { id: 'police', label: 'Police Registration', icon: ShieldCheck, requires: 'view_reservations' },
+    { id: 'messages', label: 'Guest Messages', icon: Mail, requires: 'owner' },
+    { id: 'rate-grid', label: 'Rate Grid', icon: Grid3x3, requires: 'edit_pricing' },
+    { id: 'rate-plans', label: 'Rate Plans', icon: Tags, requires: 'edit_pricing' },
+    { id: 'pricing', label: 'AI Pricing', icon: DollarSign, requires: 'edit_pricing' },
+    { id: 'market', label: 'Nearby Rates', icon: MapPin, requires: 'edit_pricing' },
+    { id: 'analytics', label: 'Analytics', icon: BarChart3, requires: 'view_reservations' },
+    { id: 'users', label: 'Team', icon: Users, requires: 'owner' },
+    { id: 'settings', label: 'Settings', icon: Settings, requires: 'owner' },
   ];
 
+  const visibleMenuItems = menuItems.filter(item =>
+    !item.requires || (item.requires === 'owner' ? isOwner : can(item.requires))
+  );
+
   return (
     <div className="flex flex-col h-full glass-card border-r border-sidebar-border/50">
       <div className="p-6 border-b border-sidebar-border/30">
@@ -88,7 +119,7 @@ const Sidebar: React.FC<SidebarProps> = ({ currentPage, onPageChange }) => {
       
       <nav className="flex-1 p-4">
         <div className="space-y-1">
-          {menuItems.map((item) => {
+          {visibleMenuItems.map((item) => {
             const Icon = item.icon;
             const isActive = currentPage === item.id;
             return (
@@ -0,0 +1,686 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Textarea } from '@/components/ui/textarea';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Ban, Camera, Edit, Plus, Trash2, User, Wrench, X } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  MAINTENANCE_CATEGORIES,
+  MAINTENANCE_PHOTOS_BUCKET,
+  MAINTENANCE_PRIORITIES,
+  MAINTENANCE_STATUSES,
+  MaintenanceCategory,
+  MaintenancePriority,
+  MaintenanceStatus,
+  getMaintenancePriority,
+  getMaintenanceStatusLabel,
+  getTicketPhotoUrls,
+  isOpenTicket,
+  uploadTicketPhoto,
+} from '@/lib/maintenance';
+
+interface MaintenanceTicket {
+  id: string;
+  property_id: string;
+  room_id: string | null;
+  title: string;
+  description: string | null;
+  category: string;
+  priority: string;
+  status: string;
+  photos: string[];
+  assigned_to: string | null;
+  assignee_name: string | null;
+  out_of_order_from: string | null;
+  out_of_order_to: string | null;
+  resolved_at: string | null;
+  created_at: string;
+  properties?: {
+    name: string;
+  };
+  rooms?: {
+    room_number: string;
+  } | null;
+}
+
+interface Property {
+  id: string;
+  name: string;
+}
+
+interface Room {
+  id: string;
+  room_number: string;
+  property_id: string;
+}
+
+const emptyForm = {
+  property_id: '',
+  room_id: '',
+  title: '',
+  description: '',
+  category: 'other' as MaintenanceCategory,
+  priority: 'medium' as MaintenancePriority,
+  status: 'open' as MaintenanceStatus,
+  assigned_to: null as string | null,
+  assignee_name: '',
+  out_of_order: false,
+  out_of_order_from: '',
+  out_of_order_to: '',
+};
+
+const MaintenanceTickets: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [tickets, setTickets] = useState<MaintenanceTicket[]>([]);
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [photoUrls, setPhotoUrls] = useState<Record<string, string>>({});
+  const [myName, setMyName] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('active');
+  const [propertyFilter, setPropertyFilter] = useState('all');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedTicket, setSelectedTicket] = useState<MaintenanceTicket | null>(null);
+  const [formData, setFormData] = useState(emptyForm);
+  const [newPhotos, setNewPhotos] = useState<File[]>([]);
+  const [removedPhotos, setRemovedPhotos] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const { data: propertiesData, error: propertiesError } = await supabase
+        .from('properties')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (propertiesError) throw propertiesError;
+      setProperties(propertiesData || []);
+
+      const { data: roomsData, error: roomsError } = await supabase
+        .from('rooms')
+        .select('id, room_number, property_id')
+        .eq('is_active', true)
+        .order('room_number');
+
+      if (roomsError) throw roomsError;
+      setRooms(roomsData || []);
+
+      const { data: ticketsData, error: ticketsError } = await supabase
+        .from('maintenance_tickets')
+        .select(`
+          *,
+          properties (
+            name
+          ),
+          rooms (
+            room_number
+          )
+        `)
+        .order('created_at', { ascending: false });
+
+      if (ticketsError) throw ticketsError;
+      setTickets(ticketsData || []);
+      setPhotoUrls(await getTicketPhotoUrls((ticketsData || []).flatMap(ticket => ticket.photos)));
+
+      const { data: profile } = await supabase
+        .from('profiles')
+        .select('full_name')
+        .eq('user_id', user!.id)
+        .maybeSingle();
+
+      setMyName(profile?.full_name || user!.email || '');
+    } catch (error) {
+      console.error('Error fetching maintenance tickets:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openDialog = (ticket: MaintenanceTicket | null) => {
+    setSelectedTicket(ticket);
+    setNewPhotos([]);
+    setRemovedPhotos([]);
+    setFormData(ticket ? {
+      property_id: ticket.property_id,
+      room_id: ticket.room_id || '',
+      title: ticket.title,
+      description: ticket.description || '',
+      category: ticket.category as MaintenanceCategory,
+      priority: ticket.priority as MaintenancePriority,
+      status: ticket.status as MaintenanceStatus,
+      assigned_to: ticket.assigned_to,
+      assignee_name: ticket.assignee_name || '',
+      out_of_order: !!ticket.out_of_order_from,
+      out_of_order_from: ticket.out_of_order_from || '',
+      out_of_order_to: ticket.out_of_order_to || '',
+    } : {
+      ...emptyForm,
+      property_id: propertyFilter !== 'all' ? propertyFilter : properties[0]?.id || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.out_of_order && !formData.room_id) {
+      toast({
+        title: "Room required",
+        description: "Choose the room to take out of order.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const existingPhotos = (selectedTicket?.photos || []).filter(path => !removedPhotos.includes(path));
+    const ticketData = {
+      property_id: formData.property_id,
+      room_id: formData.room_id || null,
+      title: formData.title,
+      description: formData.description || null,
+      category: formData.category,
+      priority: formData.priority,
+      status: formData.status,
+      assigned_to: formData.assigned_to,
+      assignee_name: formData.assignee_name || null,
+      out_of_order_from: formData.out_of_order ? formData.out_of_order_from : null,
+      out_of_order_to: formData.out_of_order ? formData.out_of_order_to : null,
+    };
+
+    setSaving(true);
+    try {
+      let ticketId = selectedTicket?.id;
+
+      if (ticketId) {
+        const { error } = await supabase
+          .from('maintenance_tickets')
+          .update({ ...ticketData, photos: existingPhotos })
+          .eq('id', ticketId);
+
+        if (error) throw error;
+      } else {
+        const { data, error } = await supabase
+          .from('maintenance_tickets')
+          .insert([ticketData])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        ticketId = data.id;
+      }
+
+      // Photos live under the ticket's folder, so they are uploaded once the ticket exists
+      if (newPhotos.length > 0) {
+        const uploaded = await Promise.all(
+          newPhotos.map(file => uploadTicketPhoto(formData.property_id, ticketId!, file))
+        );
+        const { error } = await supabase
+          .from('maintenance_tickets')
+          .update({ photos: [...existingPhotos, ...uploaded] })
+          .eq('id', ticketId);
+
+        if (error) throw error;
+      }
+
+      if (removedPhotos.length > 0) {
+        await supabase.storage.from(MAINTENANCE_PHOTOS_BUCKET).remove(removedPhotos);
+      }
+
+      toast({
+        title: "Success",
+        description: selectedTicket ? 'Ticket updated successfully' : 'Ticket created successfully',
+      });
+
+      setIsDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async (ticket: MaintenanceTicket) => {
+    if (!confirm('Are you sure you want to delete this ticket?')) return;
+
+    try {
+      const { error } = await supabase
+        .from('maintenance_tickets')
+        .delete()
+        .eq('id', ticket.id);
+
+      if (error) throw error;
+
+      if (ticket.photos.length > 0) {
+        await supabase.storage.from(MAINTENANCE_PHOTOS_BUCKET).remove(ticket.photos);
+      }
+
+      toast({
+        title: "Success",
+        description: "Ticket deleted successfully",
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const filteredTickets = tickets.filter(ticket => {
+    const matchesStatus = statusFilter === 'all'
+      || (statusFilter === 'active' ? isOpenTicket(ticket) : ticket.status === statusFilter);
+    const matchesProperty = propertyFilter === 'all' || ticket.property_id === propertyFilter;
+    return matchesStatus && matchesProperty;
+  });
+
+  const keptPhotos = (selectedTicket?.photos || []).filter(path => !removedPhotos.includes(path));
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Maintenance</h2>
+          <p className="text-muted-foreground">
+            Track repairs and take rooms out of order while they are fixed
+          </p>
+        </div>
+
+        <Button onClick={() => openDialog(null)} disabled={properties.length === 0}>
+          <Plus className="mr-2 h-4 w-4" />
+          New Ticket
+        </Button>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2">
+        <Select value={statusFilter} onValueChange={setStatusFilter}>
+          <SelectTrigger className="w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="active">Open tickets</SelectItem>
+            <SelectItem value="all">All tickets</SelectItem>
+            {MAINTENANCE_STATUSES.map(status => (
+              <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value={propertyFilter} onValueChange={setPropertyFilter}>
+          <SelectTrigger className="w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">All properties</SelectItem>
+            {properties.map(property => (
+              <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <CardTitle>Tickets ({filteredTickets.length})</CardTitle>
+          <CardDescription>Newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-4">
+            {filteredTickets.map(ticket => {
+              const priority = getMaintenancePriority(ticket.priority);
+
+              return (
+                <div key={ticket.id} className="flex items-start justify-between gap-4 p-4 border border-border rounded-lg hover:bg-muted/50 transition-colors">
+                  <div className="flex-1 space-y-2">
+                    <div className="flex flex-wrap items-center gap-2">
+                      <h4 className="font-medium">{ticket.title}</h4>
+                      <Badge variant={priority.variant}>{priority.label}</Badge>
+                      <Badge variant="secondary">{getMaintenanceStatusLabel(ticket.status)}</Badge>
+                      <Badge variant="outline">
+                        {MAINTENANCE_CATEGORIES[ticket.category as MaintenanceCategory] ?? ticket.category}
+                      </Badge>
+                    </div>
+                    <div className="text-sm text-muted-foreground">
+                      {ticket.properties?.name}
+                      {ticket.rooms?.room_number && ` • Room ${ticket.rooms.room_number}`}
+                      {` • Reported ${format(parseISO(ticket.created_at), 'MMM d, yyyy')}`}
+                    </div>
+                    {ticket.description && (
+                      <p className="text-sm">{ticket.description}</p>
+                    )}
+                    <div className="flex flex-wrap gap-4 text-xs text-muted-foreground">
+                      {ticket.assignee_name && (
+                        <span className="flex items-center gap-1">
+                          <User className="h-3 w-3" />
+                          {ticket.assignee_name}
+                        </span>
+                      )}
+                      {ticket.out_of_order_from && (
+                        <span className={`flex items-center gap-1 ${isOpenTicket(ticket) ? 'text-destructive' : ''}`}>
+                          <Ban className="h-3 w-3" />
+                          Out of order {format(parseISO(ticket.out_of_order_from), 'MMM d')} – {format(parseISO(ticket.out_of_order_to!), 'MMM d')}
+                        </span>
+                      )}
+                      {ticket.resolved_at && (
+                        <span>Resolved {format(parseISO(ticket.resolved_at), 'MMM d, HH:mm')}</span>
+                      )}
+                    </div>
+                    {ticket.photos.length > 0 && (
+                      <div className="flex gap-2">
+                        {ticket.photos.map(path => photoUrls[path] && (
+                          <a key={path} href={photoUrls[path]} target="_blank" rel="noreferrer">
+                            <img src={photoUrls[path]} alt="" className="h-14 w-14 rounded object-cover border border-border" />
+                          </a>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="flex items-center space-x-2">
+                    <Button size="sm" variant="outline" onClick={() => openDialog(ticket)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDelete(ticket)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+
+            {filteredTickets.length === 0 && (
+              <div className="text-center py-8">
+                <Wrench className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No tickets found</h3>
+                <p className="text-muted-foreground">
+                  {statusFilter === 'active' ? 'Nothing needs fixing right now' : 'Try adjusting your filters'}
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{selectedTicket ? 'Edit Ticket' : 'New Maintenance Ticket'}</DialogTitle>
+            <DialogDescription>
+              Rooms taken out of order cannot be booked for the selected nights.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Property *</Label>
+                <Select
+                  value={formData.property_id}
+                  onValueChange={(value) => setFormData({ ...formData, property_id: value, room_id: '' })}
+                  disabled={!!selectedTicket}
+                >
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select a property" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {properties.map(property => (
+                      <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Room</Label>
+                <Select
+                  value={formData.room_id || 'none'}
+                  onValueChange={(value) => setFormData({ ...formData, room_id: value === 'none' ? '' : value })}
+                  disabled={!formData.property_id}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="none">Common area / whole property</SelectItem>
+                    {rooms
+                      .filter(room => room.property_id === formData.property_id)
+                      .map(room => (
+                        <SelectItem key={room.id} value={room.id}>Room {room.room_number}</SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="title">Title *</Label>
+              <Input
+                id="title"
+                value={formData.title}
+                onChange={(e) => setFormData({ ...formData, title: e.target.value })}
+                placeholder="e.g. Shower drain blocked"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="description">Description</Label>
+              <Textarea
+                id="description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={3}
+              />
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label>Category</Label>
+                <Select
+                  value={formData.category}
+                  onValueChange={(value) => setFormData({ ...formData, category: value as MaintenanceCategory })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(MAINTENANCE_CATEGORIES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Priority</Label>
+                <Select
+                  value={formData.priority}
+                  onValueChange={(value) => setFormData({ ...formData, priority: value as MaintenancePriority })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAINTENANCE_PRIORITIES.map(priority => (
+                      <SelectItem key={priority.value} value={priority.value}>{priority.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label>Status</Label>
+                <Select
+                  value={formData.status}
+                  onValueChange={(value) => setFormData({ ...formData, status: value as MaintenanceStatus })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MAINTENANCE_STATUSES.map(status => (
+                      <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="assignee_name">Assignee</Label>
+              <div className="flex gap-2">
+                <Input
+                  id="assignee_name"
+                  value={formData.assignee_name}
+                  onChange={(e) => setFormData({ ...formData, assignee_name: e.target.value, assigned_to: null })}
+                  placeholder="Staff member or contractor"
+                />
+                <Button
+                  type="button"
+                  variant="outline"
+                  onClick={() => setFormData({ ...formData, assigned_to: user!.id, assignee_name: myName })}
+                >
+                  Assign to me
+                </Button>
+              </div>
+            </div>
+
+            <div className="space-y-3 rounded-lg border border-border p-3">
+              <div className="flex items-center justify-between">
+                <div>
+                  <Label htmlFor="out_of_order">Take room out of order</Label>
+                  <p className="text-xs text-muted-foreground">
+                    Blocks the room for the nights from the start date until the end date.
+                  </p>
+                </div>
+                <Switch
+                  id="out_of_order"
+                  checked={formData.out_of_order}
+                  onCheckedChange={(checked) => setFormData({ ...formData, out_of_order: checked })}
+                />
+              </div>
+              {formData.out_of_order && (
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="out_of_order_from">From *</Label>
+                    <Input
+                      id="out_of_order_from"
+                      type="date"
+                      value={formData.out_of_order_from}
+                      onChange={(e) => setFormData({ ...formData, out_of_order_from: e.target.value })}
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="out_of_order_to">Back in service *</Label>
+                    <Input
+                      id="out_of_order_to"
+                      type="date"
+                      min={formData.out_of_order_from}
+                      value={formData.out_of_order_to}
+                      onChange={(e) => setFormData({ ...formData, out_of_order_to: e.target.value })}
+                      required
+                    />
+                  </div>
+                </div>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="photos">Photos</Label>
+              <div className="flex flex-wrap gap-2">
+                {keptPhotos.map(path => (
+                  <div key={path} className="relative">
+                    {photoUrls[path] && (
+                      <img src={photoUrls[path]} alt="" className="h-16 w-16 rounded object-cover border border-border" />
+                    )}
+                    <button
+                      type="button"
+                      className="absolute -top-2 -right-2 rounded-full bg-destructive text-destructive-foreground p-0.5"
+                      onClick={() => setRemovedPhotos([...removedPhotos, path])}
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </div>
+                ))}
+                {newPhotos.map((file, index) => (
+                  <div key={`${file.name}-${index}`} className="h-16 w-16 rounded border border-dashed border-border flex items-center justify-center text-[10px] text-muted-foreground text-center p-1 overflow-hidden">
+                    {file.name}
+                  </div>
+                ))}
+              </div>
+              <label htmlFor="photos" className="inline-flex items-center gap-2 text-sm text-primary cursor-pointer">
+                <Camera className="h-4 w-4" />
+                Add photos
+              </label>
+              <input
+                id="photos"
+                type="file"
+                accept="image/*"
+                multiple
+                className="hidden"
+                onChange={(e) => {
+                  setNewPhotos([...newPhotos, ...Array.from(e.target.files || [])]);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || !formData.property_id}>
+                {selectedTicket ? 'Update' : 'Create'} Ticket
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MaintenanceTickets;
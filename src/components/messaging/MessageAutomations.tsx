@@ -0,0 +1,394 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Clock, Edit, Plus, Trash2 } from 'lucide-react';
+import {
+  AUTOMATION_ANCHORS,
+  AutomationAnchor,
+  MESSAGE_EVENTS,
+  MessageAutomation,
+  describeAutomation,
+  fetchMessageAutomations,
+  messageEventLabel,
+} from '@/lib/messaging';
+
+interface MessageAutomationsProps {
+  propertyId: string;
+}
+
+const emptyAutomation = {
+  name: '',
+  event: 'pre_arrival',
+  anchor: 'check_in' as AutomationAnchor,
+  anchor_event: 'post_stay',
+  days: '0',
+  direction: 'before' as 'before' | 'after',
+  send_time: '',
+  is_active: true,
+};
+
+// Rules that send templates on a schedule, and the property time zone their
+// times are read in
+const MessageAutomations: React.FC<MessageAutomationsProps> = ({ propertyId }) => {
+  const { toast } = useToast();
+  const [automations, setAutomations] = useState<MessageAutomation[]>([]);
+  const [timezone, setTimezone] = useState('');
+  const [savedTimezone, setSavedTimezone] = useState('');
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedAutomation, setSelectedAutomation] = useState<MessageAutomation | null>(null);
+  const [form, setForm] = useState(emptyAutomation);
+
+  useEffect(() => {
+    fetchData();
+  }, [propertyId]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const fetchData = async () => {
+    try {
+      const [automationData, propertyResult] = await Promise.all([
+        fetchMessageAutomations(propertyId),
+        supabase
+          .from('properties')
+          .select('timezone')
+          .eq('id', propertyId)
+          .single(),
+      ]);
+
+      if (propertyResult.error) throw propertyResult.error;
+      setAutomations(automationData);
+      setTimezone(propertyResult.data.timezone);
+      setSavedTimezone(propertyResult.data.timezone);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleSaveTimezone = async () => {
+    const { error } = await supabase
+      .from('properties')
+      .update({ timezone: timezone.trim() })
+      .eq('id', propertyId);
+
+    if (error) {
+      // The database rejects names it does not know
+      showError(error.code === '22023' ? new Error(`Unknown time zone: ${timezone}`) : error);
+      return;
+    }
+    toast({ title: "Success", description: "Time zone updated" });
+    setSavedTimezone(timezone.trim());
+  };
+
+  const openDialog = (automation: MessageAutomation | null) => {
+    setSelectedAutomation(automation);
+    setForm(automation ? {
+      name: automation.name,
+      event: automation.event,
+      anchor: automation.anchor as AutomationAnchor,
+      anchor_event: automation.anchor_event ?? 'post_stay',
+      days: String(Math.abs(automation.offset_days)),
+      direction: automation.offset_days < 0 ? 'before' : 'after',
+      send_time: automation.send_time?.slice(0, 5) ?? '',
+      is_active: automation.is_active,
+    } : emptyAutomation);
+    setIsDialogOpen(true);
+  };
+
+  const toAutomationData = (values: typeof form) => {
+    const days = parseInt(values.days) || 0;
+    const isMessage = values.anchor === 'message';
+    return {
+      property_id: propertyId,
+      name: values.name,
+      event: values.event,
+      anchor: values.anchor,
+      anchor_event: isMessage ? values.anchor_event : null,
+      // Follow-up messages can only come after the one they follow
+      offset_days: !isMessage && values.direction === 'before' ? -days : days,
+      send_time: values.send_time || null,
+      is_active: values.is_active,
+    };
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (form.anchor === 'message' && form.anchor_event === form.event) {
+      showError(new Error('A message cannot follow itself. Pick a different earlier message.'));
+      return;
+    }
+    const automationData = toAutomationData(form);
+
+    try {
+      if (selectedAutomation) {
+        const { error } = await supabase
+          .from('message_automations')
+          .update(automationData)
+          .eq('id', selectedAutomation.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('message_automations').insert(automationData);
+        if (error) throw error;
+      }
+
+      toast({ title: "Success", description: `Automation ${selectedAutomation ? 'updated' : 'created'}` });
+      setIsDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggle = async (automation: MessageAutomation, isActive: boolean) => {
+    const { error } = await supabase
+      .from('message_automations')
+      .update({ is_active: isActive })
+      .eq('id', automation.id);
+
+    if (error) {
+      showError(error);
+      return;
+    }
+    fetchData();
+  };
+
+  const handleDelete = async (automation: MessageAutomation) => {
+    if (!confirm(`Delete the ${automation.name} automation? Its planned messages will not be sent.`)) return;
+
+    const { error } = await supabase.from('message_automations').delete().eq('id', automation.id);
+    if (error) {
+      showError(error);
+      return;
+    }
+    fetchData();
+  };
+
+  const preview = toAutomationData(form);
+
+  return (
+    <Card className="glass-card border-0">
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle>Automations</CardTitle>
+            <CardDescription>
+              Send templates on a schedule for every stay. Guests can be opted out per reservation.
+            </CardDescription>
+          </div>
+          <Button onClick={() => openDialog(null)}>
+            <Plus className="mr-2 h-4 w-4" />
+            Add Automation
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-end gap-2">
+          <div className="space-y-2">
+            <Label htmlFor="timezone">Property time zone</Label>
+            <Input
+              id="timezone"
+              value={timezone}
+              onChange={(e) => setTimezone(e.target.value)}
+              placeholder={Intl.DateTimeFormat().resolvedOptions().timeZone}
+              className="w-64"
+            />
+          </div>
+          {timezone.trim() !== savedTimezone && (
+            <Button variant="outline" onClick={handleSaveTimezone} disabled={!timezone.trim()}>
+              Save
+            </Button>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          {automations.map(automation => (
+            <div key={automation.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
+              <div>
+                <div className="flex items-center gap-2">
+                  <span className="font-medium">{automation.name}</span>
+                  <Badge variant="outline">{messageEventLabel(automation.event)}</Badge>
+                  {!automation.is_active && <Badge variant="secondary">Off</Badge>}
+                </div>
+                <div className="flex items-center text-sm text-muted-foreground">
+                  <Clock className="mr-1 h-3 w-3" />
+                  {describeAutomation(automation)}
+                </div>
+              </div>
+              <div className="flex items-center gap-2">
+                <Switch
+                  checked={automation.is_active}
+                  onCheckedChange={(checked) => handleToggle(automation, checked)}
+                />
+                <Button size="sm" variant="outline" onClick={() => openDialog(automation)}>
+                  <Edit className="h-3 w-3" />
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleDelete(automation)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+
+          {automations.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No automations yet. For example, send the pre-arrival template 3 days before check-in.
+            </p>
+          )}
+        </div>
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedAutomation ? 'Edit Automation' : 'Add Automation'}</DialogTitle>
+            <DialogDescription>{describeAutomation(preview)}</DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="automation_name">Name *</Label>
+              <Input
+                id="automation_name"
+                value={form.name}
+                onChange={(e) => setForm({ ...form, name: e.target.value })}
+                placeholder="e.g. Arrival reminder"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Send template</Label>
+              <Select value={form.event} onValueChange={(value) => setForm({ ...form, event: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MESSAGE_EVENTS.map(e => (
+                    <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Relative to</Label>
+              <Select
+                value={form.anchor}
+                onValueChange={(value) => setForm({
+                  ...form,
+                  anchor: value as AutomationAnchor,
+                  direction: value === 'message' ? 'after' : form.direction,
+                })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {AUTOMATION_ANCHORS.map(anchor => (
+                    <SelectItem key={anchor.value} value={anchor.value}>{anchor.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            {form.anchor === 'message' && (
+              <div className="space-y-2">
+                <Label>After this message is sent</Label>
+                <Select value={form.anchor_event} onValueChange={(value) => setForm({ ...form, anchor_event: value })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {MESSAGE_EVENTS.filter(e => e.value !== form.event).map(e => (
+                      <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="days">Days</Label>
+                <Input
+                  id="days"
+                  type="number"
+                  min="0"
+                  max="90"
+                  value={form.days}
+                  onChange={(e) => setForm({ ...form, days: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Direction</Label>
+                <Select
+                  value={form.direction}
+                  onValueChange={(value) => setForm({ ...form, direction: value as 'before' | 'after' })}
+                  disabled={form.anchor === 'message'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="before">Before</SelectItem>
+                    <SelectItem value="after">After</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="send_time">At</Label>
+                <Input
+                  id="send_time"
+                  type="time"
+                  value={form.send_time}
+                  onChange={(e) => setForm({ ...form, send_time: e.target.value })}
+                />
+              </div>
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {form.anchor === 'message'
+                ? 'Leave the time empty to send at the same time of day as the earlier message.'
+                : "Leave the time empty to send at the property's check-in or check-out time."}
+              {' '}Times are in {savedTimezone || 'UTC'}.
+            </p>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="automation_active">Active</Label>
+              <Switch
+                id="automation_active"
+                checked={form.is_active}
+                onCheckedChange={(checked) => setForm({ ...form, is_active: checked })}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">{selectedAutomation ? 'Update' : 'Create'} Automation</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+};
+
+export default MessageAutomations;
@@ -0,0 +1,287 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Edit, Mail } from 'lucide-react';
+import {
+  MESSAGE_EVENTS,
+  MessageEvent,
+  MessageTemplate,
+  TEMPLATE_PLACEHOLDERS,
+  fetchMessageTemplates,
+  renderTemplate,
+  unknownPlaceholders,
+} from '@/lib/messaging';
+import MessageAutomations from './MessageAutomations';
+
+interface Property {
+  id: string;
+  name: string;
+}
+
+const MessageTemplates: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [propertyId, setPropertyId] = useState('');
+  const [templates, setTemplates] = useState<MessageTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [editingEvent, setEditingEvent] = useState<MessageEvent | null>(null);
+  const [form, setForm] = useState({ subject: '', body: '' });
+
+  useEffect(() => {
+    if (user) {
+      fetchProperties();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (propertyId) {
+      fetchData();
+    }
+  }, [propertyId]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  // Templates belong to the owner, like the rest of the property settings
+  const fetchProperties = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('id, name')
+        .eq('owner_id', user!.id)
+        .order('name');
+
+      if (error) throw error;
+      setProperties(data || []);
+      if (data && data.length > 0) setPropertyId(data[0].id);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchData = async () => {
+    try {
+      setTemplates(await fetchMessageTemplates(propertyId));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const templateFor = (event: MessageEvent) => templates.find(template => template.event === event);
+
+  const openEditor = (event: MessageEvent) => {
+    const template = templateFor(event);
+    setForm({ subject: template?.subject ?? '', body: template?.body ?? '' });
+    setEditingEvent(event);
+  };
+
+  const insertPlaceholder = (key: string) => {
+    setForm({ ...form, body: `${form.body}{{${key}}}` });
+  };
+
+  const saveTemplate = async (event: MessageEvent, changes: Partial<Pick<MessageTemplate, 'subject' | 'body' | 'is_active'>>) => {
+    const template = templateFor(event);
+    const { error } = await supabase
+      .from('message_templates')
+      .upsert({
+        property_id: propertyId,
+        event,
+        subject: template?.subject ?? '',
+        body: template?.body ?? '',
+        is_active: template?.is_active ?? true,
+        ...changes,
+      }, { onConflict: 'property_id,event' });
+
+    if (error) throw error;
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingEvent) return;
+
+    try {
+      await saveTemplate(editingEvent, { subject: form.subject, body: form.body });
+      toast({ title: "Success", description: "Template saved" });
+      setEditingEvent(null);
+      fetchData();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleToggle = async (event: MessageEvent, isActive: boolean) => {
+    try {
+      await saveTemplate(event, { is_active: isActive });
+      fetchData();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const unknown = unknownPlaceholders(`${form.subject} ${form.body}`);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Guest Messages</h2>
+          <p className="text-muted-foreground">
+            Emails sent to guests about their reservation
+          </p>
+        </div>
+        <Select value={propertyId} onValueChange={setPropertyId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Select property" />
+          </SelectTrigger>
+          <SelectContent>
+            {properties.map(property => (
+              <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <CardTitle>Templates</CardTitle>
+          <CardDescription>
+            Placeholders such as {'{{guest_name}}'} are replaced with the reservation's details when the email is sent
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {MESSAGE_EVENTS.map(({ value, label, description }) => {
+              const template = templateFor(value);
+
+              return (
+                <div key={value} className="flex items-center justify-between p-4 border border-border rounded-lg">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <Mail className="h-4 w-4 text-muted-foreground" />
+                      <span className="font-medium">{label}</span>
+                      {!template && <Badge variant="secondary">Not set up</Badge>}
+                      {template && !template.is_active && <Badge variant="secondary">Off</Badge>}
+                    </div>
+                    <div className="text-sm text-muted-foreground">{description}</div>
+                    {template && (
+                      <div className="text-xs text-muted-foreground truncate">{template.subject}</div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-3">
+                    <Switch
+                      checked={!!template?.is_active}
+                      disabled={!template}
+                      onCheckedChange={(checked) => handleToggle(value, checked)}
+                    />
+                    <Button size="sm" variant="outline" onClick={() => openEditor(value)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })}
+          </div>
+        </CardContent>
+      </Card>
+
+      {propertyId && <MessageAutomations propertyId={propertyId} />}
+
+      <Dialog open={!!editingEvent} onOpenChange={(open) => !open && setEditingEvent(null)}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>{MESSAGE_EVENTS.find(e => e.value === editingEvent)?.label}</DialogTitle>
+            <DialogDescription>
+              {MESSAGE_EVENTS.find(e => e.value === editingEvent)?.description}
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="grid gap-6 md:grid-cols-2">
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="subject">Subject *</Label>
+                <Input
+                  id="subject"
+                  value={form.subject}
+                  onChange={(e) => setForm({ ...form, subject: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="body">Message *</Label>
+                <Textarea
+                  id="body"
+                  value={form.body}
+                  onChange={(e) => setForm({ ...form, body: e.target.value })}
+                  rows={14}
+                  className="font-mono text-sm"
+                  required
+                />
+              </div>
+              <div className="flex flex-wrap gap-1">
+                {TEMPLATE_PLACEHOLDERS.map(placeholder => (
+                  <Badge
+                    key={placeholder.key}
+                    variant="outline"
+                    className="cursor-pointer"
+                    title={placeholder.description}
+                    onClick={() => insertPlaceholder(placeholder.key)}
+                  >
+                    {`{{${placeholder.key}}}`}
+                  </Badge>
+                ))}
+              </div>
+              {unknown.length > 0 && (
+                <p className="text-sm text-destructive">
+                  Unknown placeholders: {unknown.map(key => `{{${key}}}`).join(', ')}
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Preview</Label>
+              <div className="rounded-lg border border-border p-4 space-y-3 bg-muted/30">
+                <div className="font-medium">{renderTemplate(form.subject)}</div>
+                <div className="text-sm whitespace-pre-wrap">{renderTemplate(form.body)}</div>
+              </div>
+              <p className="text-xs text-muted-foreground">Shown with sample reservation details</p>
+            </div>
+
+            <div className="flex justify-end space-x-2 md:col-span-2">
+              <Button type="button" variant="outline" onClick={() => setEditingEvent(null)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save Template</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default MessageTemplates;
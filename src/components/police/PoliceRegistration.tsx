@@ -0,0 +1,492 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { AlertTriangle, CheckCircle, Download, Edit, FileText, ShieldCheck, Trash2 } from 'lucide-react';
+import { format, parseISO, startOfMonth } from 'date-fns';
+import {
+  RegistrationBatch,
+  UbyportGuest,
+  UbyportProperty,
+  createRegistrationBatch,
+  deleteRegistrationBatch,
+  downloadBatch,
+  exportableGuests,
+  fetchRegistrationBatches,
+  fetchUbyportGuests,
+  markBatchSubmitted,
+  toAlpha3,
+  ubyportSettingsErrors,
+} from '@/lib/ubyport';
+
+interface Property extends UbyportProperty {
+  id: string;
+  owner_id: string;
+}
+
+const emptySettings = { ubyport_idub: '', ubyport_abbreviation: '', ubyport_contact: '' };
+
+const PoliceRegistration: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [propertyId, setPropertyId] = useState('');
+  const [period, setPeriod] = useState(() => ({
+    from: format(startOfMonth(new Date()), 'yyyy-MM-dd'),
+    to: format(new Date(), 'yyyy-MM-dd'),
+  }));
+  const [guests, setGuests] = useState<UbyportGuest[]>([]);
+  const [batches, setBatches] = useState<RegistrationBatch[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [guestsLoading, setGuestsLoading] = useState(false);
+  const [generating, setGenerating] = useState(false);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [settings, setSettings] = useState(emptySettings);
+
+  useEffect(() => {
+    if (user) {
+      fetchProperties();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (propertyId) {
+      fetchBatches();
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    if (propertyId && period.from && period.to) {
+      fetchGuests();
+    }
+  }, [propertyId, period.from, period.to]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const fetchProperties = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('id, name, owner_id, address, city, ubyport_idub, ubyport_abbreviation, ubyport_contact')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setProperties(data || []);
+      if (data && data.length > 0 && !propertyId) setPropertyId(data[0].id);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchGuests = async () => {
+    try {
+      setGuestsLoading(true);
+      setGuests(await fetchUbyportGuests(propertyId, period.from, period.to));
+    } catch (error) {
+      showError(error);
+    } finally {
+      setGuestsLoading(false);
+    }
+  };
+
+  const fetchBatches = async () => {
+    try {
+      setBatches(await fetchRegistrationBatches(propertyId));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const property = properties.find(p => p.id === propertyId);
+  const isOwner = property?.owner_id === user?.id;
+  const canEdit = can('edit_reservations', propertyId);
+  const settingsErrors = property ? ubyportSettingsErrors(property) : [];
+  const ready = exportableGuests(guests);
+  const withErrors = guests.filter(g => g.errors.length > 0);
+
+  const openSettings = () => {
+    setSettings({
+      ubyport_idub: property?.ubyport_idub ?? '',
+      ubyport_abbreviation: property?.ubyport_abbreviation ?? '',
+      ubyport_contact: property?.ubyport_contact ?? '',
+    });
+    setIsSettingsOpen(true);
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from('properties')
+        .update({
+          ubyport_idub: settings.ubyport_idub.trim() || null,
+          ubyport_abbreviation: settings.ubyport_abbreviation.trim().toUpperCase() || null,
+          ubyport_contact: settings.ubyport_contact.trim() || null,
+        })
+        .eq('id', propertyId);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Ubyport settings saved" });
+      setIsSettingsOpen(false);
+      fetchProperties();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleGenerate = async () => {
+    if (!property) return;
+
+    try {
+      setGenerating(true);
+      const batch = await createRegistrationBatch(propertyId, property, period.from, period.to, ready);
+      downloadBatch(batch);
+      toast({
+        title: "File generated",
+        description: `${batch.guest_count} guests exported. Upload the file to Ubyport, then mark the batch as submitted.`,
+      });
+      fetchBatches();
+      fetchGuests();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  const handleSubmitted = async (batch: RegistrationBatch) => {
+    try {
+      await markBatchSubmitted(batch.id, user!.id);
+      fetchBatches();
+      fetchGuests();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDelete = async (batch: RegistrationBatch) => {
+    if (!confirm(`Delete ${batch.file_name}? Its guests can then be exported again.`)) return;
+
+    try {
+      await deleteRegistrationBatch(batch.id);
+      fetchBatches();
+      fetchGuests();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const guestStatus = (guest: UbyportGuest) => {
+    if (guest.batch) {
+      return (
+        <Badge variant={guest.batch.status === 'submitted' ? 'default' : 'secondary'}>
+          {guest.batch.status === 'submitted' ? 'Reported' : 'In generated file'}
+        </Badge>
+      );
+    }
+    if (guest.errors.length > 0) {
+      return (
+        <ul className="text-xs text-destructive space-y-0.5">
+          {guest.errors.map(error => <li key={error}>{error}</li>)}
+        </ul>
+      );
+    }
+    if (!ready.includes(guest)) {
+      return <span className="text-xs text-muted-foreground">Waiting for the rest of the party</span>;
+    }
+    return <Badge variant="outline">Ready</Badge>;
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Police Registration</h2>
+          <p className="text-muted-foreground">
+            Foreign guest reports for the Czech police (Ubyport)
+          </p>
+        </div>
+        <Select value={propertyId} onValueChange={setPropertyId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Select property" />
+          </SelectTrigger>
+          <SelectContent>
+            {properties.map(p => (
+              <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {property && (
+        <Card className="glass-card border-0">
+          <CardHeader>
+            <div className="flex items-center justify-between">
+              <div>
+                <CardTitle>Accommodation Facility</CardTitle>
+                <CardDescription>The identifiers the police assigned to this property in Ubyport</CardDescription>
+              </div>
+              {isOwner && (
+                <Button size="sm" variant="outline" onClick={openSettings}>
+                  <Edit className="h-3 w-3" />
+                </Button>
+              )}
+            </div>
+          </CardHeader>
+          <CardContent>
+            <dl className="grid grid-cols-3 gap-4 text-sm">
+              <div>
+                <dt className="text-muted-foreground">Facility ID (IDUB)</dt>
+                <dd>{property.ubyport_idub || '—'}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Abbreviation</dt>
+                <dd>{property.ubyport_abbreviation || '—'}</dd>
+              </div>
+              <div>
+                <dt className="text-muted-foreground">Contact</dt>
+                <dd>{property.ubyport_contact || '—'}</dd>
+              </div>
+            </dl>
+            {settingsErrors.length > 0 && (
+              <div className="mt-4 flex items-start gap-2 text-sm text-destructive">
+                <AlertTriangle className="h-4 w-4 mt-0.5" />
+                <span>{settingsErrors.join('. ')}. Files cannot be generated until they are set.</span>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Foreign Guests</CardTitle>
+              <CardDescription>
+                Everyone in stays arriving in the period except Czech citizens
+              </CardDescription>
+            </div>
+            <div className="flex items-end gap-2">
+              <div className="space-y-1">
+                <Label htmlFor="period_from" className="text-xs">Arrivals from</Label>
+                <Input
+                  id="period_from"
+                  type="date"
+                  className="w-40"
+                  value={period.from}
+                  onChange={(e) => setPeriod({ ...period, from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="period_to" className="text-xs">to</Label>
+                <Input
+                  id="period_to"
+                  type="date"
+                  className="w-40"
+                  min={period.from}
+                  value={period.to}
+                  onChange={(e) => setPeriod({ ...period, to: e.target.value })}
+                />
+              </div>
+              {canEdit && (
+                <Button
+                  onClick={handleGenerate}
+                  disabled={generating || ready.length === 0 || settingsErrors.length > 0 || period.to < period.from}
+                >
+                  <Download className="mr-2 h-4 w-4" />
+                  {generating ? 'Generating...' : `Generate File (${ready.length})`}
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {withErrors.length > 0 && (
+            <p className="mb-4 text-sm text-destructive">
+              {withErrors.length} {withErrors.length === 1 ? 'guest needs' : 'guests need'} fixing before their stay can be exported.
+              Complete the guest profile or ask the guest to check in online.
+            </p>
+          )}
+          {guestsLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Guest</TableHead>
+                  <TableHead>Nationality</TableHead>
+                  <TableHead>Date of birth</TableHead>
+                  <TableHead>Document</TableHead>
+                  <TableHead>Stay</TableHead>
+                  <TableHead>Status</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {guests.map(guest => (
+                  <TableRow key={guest.key}>
+                    <TableCell>
+                      {guest.fullName}
+                      {guest.companion && <span className="text-muted-foreground text-xs"> (companion)</span>}
+                    </TableCell>
+                    <TableCell>{toAlpha3(guest.nationality) ?? guest.nationality ?? '—'}</TableCell>
+                    <TableCell>{guest.dateOfBirth ? format(parseISO(guest.dateOfBirth), 'dd.MM.yyyy') : '—'}</TableCell>
+                    <TableCell>{guest.documentNumber || '—'}</TableCell>
+                    <TableCell>
+                      {format(parseISO(guest.checkIn), 'MMM d')} – {format(parseISO(guest.checkOut), 'MMM d')}
+                    </TableCell>
+                    <TableCell>{guestStatus(guest)}</TableCell>
+                  </TableRow>
+                ))}
+                {guests.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={6} className="text-center text-muted-foreground">
+                      No foreign guests arriving in this period
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <CardTitle>Batches</CardTitle>
+          <CardDescription>Files generated for this property, newest first</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {batches.map(batch => (
+              <div key={batch.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <FileText className="h-4 w-4 text-muted-foreground" />
+                    <span className="font-medium">{batch.file_name}</span>
+                    <Badge variant={batch.status === 'submitted' ? 'default' : 'secondary'}>
+                      {batch.status === 'submitted' ? 'Submitted' : 'Not submitted'}
+                    </Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {batch.guest_count} guests · arrivals {format(parseISO(batch.period_start), 'MMM d')} – {format(parseISO(batch.period_end), 'MMM d, yyyy')}
+                    {' · '}generated {format(parseISO(batch.created_at), 'MMM d, HH:mm')}
+                    {batch.submitted_at && ` · submitted ${format(parseISO(batch.submitted_at), 'MMM d, HH:mm')}`}
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" variant="outline" onClick={() => downloadBatch(batch)} title="Download">
+                    <Download className="h-3 w-3" />
+                  </Button>
+                  {canEdit && batch.status === 'generated' && (
+                    <>
+                      <Button size="sm" variant="outline" onClick={() => handleSubmitted(batch)}>
+                        <CheckCircle className="mr-1 h-3 w-3" />
+                        Mark Submitted
+                      </Button>
+                      <Button size="sm" variant="outline" onClick={() => handleDelete(batch)} title="Delete">
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </>
+                  )}
+                </div>
+              </div>
+            ))}
+
+            {batches.length === 0 && (
+              <div className="text-center py-8">
+                <ShieldCheck className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No batches yet</h3>
+                <p className="text-muted-foreground">
+                  Generated files are kept here with the date they were submitted
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isSettingsOpen} onOpenChange={setIsSettingsOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>Ubyport Settings</DialogTitle>
+            <DialogDescription>
+              As shown in the facility's registration with the foreign police
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSaveSettings} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="ubyport_idub">Facility ID (IDUB)</Label>
+                <Input
+                  id="ubyport_idub"
+                  value={settings.ubyport_idub}
+                  onChange={(e) => setSettings({ ...settings, ubyport_idub: e.target.value })}
+                  inputMode="numeric"
+                  pattern="[0-9]{1,12}"
+                  maxLength={12}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="ubyport_abbreviation">Abbreviation</Label>
+                <Input
+                  id="ubyport_abbreviation"
+                  value={settings.ubyport_abbreviation}
+                  onChange={(e) => setSettings({ ...settings, ubyport_abbreviation: e.target.value })}
+                  maxLength={5}
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="ubyport_contact">Contact</Label>
+              <Input
+                id="ubyport_contact"
+                value={settings.ubyport_contact}
+                onChange={(e) => setSettings({ ...settings, ubyport_contact: e.target.value })}
+                placeholder="Name and phone of the person responsible"
+              />
+            </div>
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsSettingsOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">Save</Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default PoliceRegistration;
@@ -0,0 +1,65 @@
+import React from 'react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { format, parseISO } from 'date-fns';
+import { NightlyRate, formatRuleAdjustment, sumNightlyRates } from '@/lib/pricing';
+
+interface NightlyRateBreakdownProps {
+  rates: NightlyRate[];
+  loading?: boolean;
+  error?: string | null;
+  onApply?: (total: number) => void;
+}
+
+const NightlyRateBreakdown: React.FC<NightlyRateBreakdownProps> = ({ rates, loading, error, onApply }) => {
+  if (loading) {
+    return <div className="h-16 bg-muted rounded animate-pulse" />;
+  }
+
+  if (error) {
+    return <p className="text-xs text-destructive">Could not calculate the price: {error}</p>;
+  }
+
+  if (rates.length === 0) return null;
+
+  const total = sumNightlyRates(rates);
+
+  return (
+    <div className="rounded-lg border border-border p-3 space-y-2">
+      <div className="max-h-40 overflow-y-auto space-y-1">
+        {rates.map((rate) => (
+          <div key={rate.night} className="flex items-center justify-between text-xs gap-2">
+            <span className="text-muted-foreground w-24 flex-shrink-0">
+              {format(parseISO(rate.night), 'EEE, MMM d')}
+            </span>
+            <div className="flex flex-wrap gap-1 flex-1">
+              {rate.applied_rules.map((rule) => (
+                <Badge key={rule.rule_id} variant="secondary" className="text-[10px]" title={rule.rule_name}>
+                  {rule.rule_type === 'rate_plan' ? rule.rule_name : rule.rule_type} {formatRuleAdjustment(rule)}
+                </Badge>
+              ))}
+            </div>
+            <span className="font-medium">
+              {rate.price !== rate.base_price && (
+                <span className="line-through text-muted-foreground mr-1">{rate.base_price}</span>
+              )}
+              {rate.price}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center justify-between border-t border-border pt-2 text-sm">
+        <span>
+          {rates.length} {rates.length === 1 ? 'night' : 'nights'} · <span className="font-semibold">{total}</span>
+        </span>
+        {onApply && (
+          <Button type="button" size="sm" variant="outline" onClick={() => onApply(total)}>
+            Use this price
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default NightlyRateBreakdown;
@@ -0,0 +1,367 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { ChevronLeft, ChevronRight, X } from 'lucide-react';
+import { addDays, format, isWeekend, parseISO } from 'date-fns';
+import {
+  RATE_CHANGE_MODES,
+  RateChangeMode,
+  RateGridCell,
+  applyRateChange,
+  cellRestrictions,
+  fetchRateGrid,
+  indexRateGrid,
+  rateGridKey,
+  rateGridRoomTypes,
+} from '@/lib/rate-grid';
+
+interface Property {
+  id: string;
+  name: string;
+}
+
+interface GridPoint {
+  row: number;
+  column: number;
+}
+
+const DAYS_SHOWN = 14;
+
+const RateGrid: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [propertyId, setPropertyId] = useState('');
+  const [startDate, setStartDate] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [cells, setCells] = useState<RateGridCell[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [anchor, setAnchor] = useState<GridPoint | null>(null);
+  const [focus, setFocus] = useState<GridPoint | null>(null);
+  const [dragging, setDragging] = useState(false);
+  const [mode, setMode] = useState<RateChangeMode>('set');
+  const [value, setValue] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchProperties();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (propertyId) {
+      fetchGrid();
+    }
+  }, [propertyId, startDate]);
+
+  // A drag can end outside the grid, so listen on the whole window
+  useEffect(() => {
+    if (!dragging) return;
+    const stopDragging = () => setDragging(false);
+    window.addEventListener('mouseup', stopDragging);
+    return () => window.removeEventListener('mouseup', stopDragging);
+  }, [dragging]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const fetchProperties = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('id, name')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setProperties(data || []);
+      if (data && data.length > 0) setPropertyId(data[0].id);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchGrid = async () => {
+    try {
+      const end = format(addDays(parseISO(startDate), DAYS_SHOWN), 'yyyy-MM-dd');
+      setCells(await fetchRateGrid(propertyId, startDate, end));
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const clearSelection = () => {
+    setAnchor(null);
+    setFocus(null);
+  };
+
+  const changeProperty = (id: string) => {
+    clearSelection();
+    setPropertyId(id);
+  };
+
+  const moveWindow = (days: number) => {
+    clearSelection();
+    setStartDate(format(addDays(parseISO(startDate), days), 'yyyy-MM-dd'));
+  };
+
+  const dates = Array.from({ length: DAYS_SHOWN }, (_, i) => format(addDays(parseISO(startDate), i), 'yyyy-MM-dd'));
+  const roomTypes = rateGridRoomTypes(cells);
+  const cellIndex = indexRateGrid(cells);
+  const canEdit = can('edit_pricing', propertyId);
+
+  const selection = anchor && focus ? {
+    rows: [Math.min(anchor.row, focus.row), Math.max(anchor.row, focus.row)],
+    columns: [Math.min(anchor.column, focus.column), Math.max(anchor.column, focus.column)],
+  } : null;
+
+  const isSelected = (row: number, column: number) =>
+    !!selection
+    && row >= selection.rows[0] && row <= selection.rows[1]
+    && column >= selection.columns[0] && column <= selection.columns[1];
+
+  const handleMouseDown = (point: GridPoint) => (e: React.MouseEvent) => {
+    if (!canEdit || e.button !== 0) return;
+    e.preventDefault();
+    if (e.shiftKey && anchor) {
+      setFocus(point);
+      return;
+    }
+    setAnchor(point);
+    setFocus(point);
+    setDragging(true);
+  };
+
+  const handleMouseEnter = (point: GridPoint) => () => {
+    if (dragging) setFocus(point);
+  };
+
+  const handleApply = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selection) return;
+
+    const amount = parseFloat(value);
+    if (mode !== 'clear' && Number.isNaN(amount)) {
+      toast({
+        title: "Error",
+        description: mode === 'set' ? "Enter the new price" : "Enter the percentage change",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      setSaving(true);
+      const changed = await applyRateChange(propertyId, {
+        roomTypes: roomTypes.slice(selection.rows[0], selection.rows[1] + 1),
+        from: dates[selection.columns[0]],
+        to: dates[selection.columns[1]],
+      }, mode, amount);
+
+      toast({
+        title: "Success",
+        description: mode === 'clear'
+          ? `${changed} override${changed === 1 ? '' : 's'} cleared`
+          : `${changed} night${changed === 1 ? '' : 's'} updated`,
+      });
+      setValue('');
+      clearSelection();
+      fetchGrid();
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  const selectedNights = selection
+    ? (selection.rows[1] - selection.rows[0] + 1) * (selection.columns[1] - selection.columns[0] + 1)
+    : 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Rate Grid</h2>
+          <p className="text-muted-foreground">
+            Availability, rates and restrictions per room type and night
+          </p>
+        </div>
+        <Select value={propertyId} onValueChange={changeProperty}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Select property" />
+          </SelectTrigger>
+          <SelectContent>
+            {properties.map(property => (
+              <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>
+                {format(parseISO(dates[0]), 'MMM d')} – {format(parseISO(dates[dates.length - 1]), 'MMM d, yyyy')}
+              </CardTitle>
+              <CardDescription>
+                {canEdit
+                  ? 'Drag across cells to select nights, then set a price or change it by a percentage. Shift-click extends the selection.'
+                  : 'Rates set here replace the base price and pricing rules for the night'}
+              </CardDescription>
+            </div>
+            <div className="flex items-center gap-2">
+              <Button variant="outline" size="sm" onClick={() => moveWindow(-DAYS_SHOWN)}>
+                <ChevronLeft className="h-4 w-4" />
+              </Button>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => {
+                  clearSelection();
+                  setStartDate(format(new Date(), 'yyyy-MM-dd'));
+                }}
+              >
+                Today
+              </Button>
+              <Button variant="outline" size="sm" onClick={() => moveWindow(DAYS_SHOWN)}>
+                <ChevronRight className="h-4 w-4" />
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {selection && (
+            <form onSubmit={handleApply} className="flex flex-wrap items-center gap-2 rounded-lg border border-border p-3">
+              <span className="text-sm font-medium mr-2">
+                {selectedNights} night{selectedNights === 1 ? '' : 's'} selected
+              </span>
+              <Select value={mode} onValueChange={(next) => setMode(next as RateChangeMode)}>
+                <SelectTrigger className="w-44">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(RATE_CHANGE_MODES).map(([key, label]) => (
+                    <SelectItem key={key} value={key}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {mode !== 'clear' && (
+                <Input
+                  type="number"
+                  step={mode === 'set' ? '0.01' : '1'}
+                  min={mode === 'set' ? '0' : '-100'}
+                  value={value}
+                  onChange={(e) => setValue(e.target.value)}
+                  placeholder={mode === 'set' ? 'Price' : 'e.g. 10 or -15'}
+                  className="w-36"
+                  autoFocus
+                />
+              )}
+              <Button type="submit" size="sm" disabled={saving}>
+                Apply
+              </Button>
+              <Button type="button" variant="ghost" size="sm" onClick={clearSelection}>
+                <X className="h-4 w-4" />
+              </Button>
+            </form>
+          )}
+
+          {roomTypes.length === 0 ? (
+            <p className="text-sm text-muted-foreground">
+              This property has no active rooms with a room type.
+            </p>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="w-full border-collapse text-xs select-none">
+                <thead>
+                  <tr>
+                    <th className="sticky left-0 bg-background p-2 text-left font-medium min-w-32">Room type</th>
+                    {dates.map(date => (
+                      <th
+                        key={date}
+                        className={`p-2 text-center font-medium min-w-20 ${isWeekend(parseISO(date)) ? 'bg-muted/50' : ''}`}
+                      >
+                        <div>{format(parseISO(date), 'EEE')}</div>
+                        <div className="text-muted-foreground">{format(parseISO(date), 'MMM d')}</div>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {roomTypes.map((roomType, row) => (
+                    <tr key={roomType}>
+                      <td className="sticky left-0 bg-background p-2 font-medium capitalize border-t border-border">
+                        {roomType}
+                      </td>
+                      {dates.map((date, column) => {
+                        const cell = cellIndex.get(rateGridKey(roomType, date));
+                        if (!cell) return <td key={date} className="border border-border" />;
+
+                        const soldOut = cell.available_units === 0 || cell.stop_sell;
+                        return (
+                          <td
+                            key={date}
+                            onMouseDown={handleMouseDown({ row, column })}
+                            onMouseEnter={handleMouseEnter({ row, column })}
+                            className={`border border-border p-1.5 text-center align-top ${canEdit ? 'cursor-cell' : ''} ${
+                              isSelected(row, column)
+                                ? 'bg-primary/20'
+                                : soldOut ? 'bg-destructive/10' : ''
+                            }`}
+                            title={`${cell.booked_units} booked, ${cell.out_of_order_units} out of order of ${cell.total_units}`}
+                          >
+                            <div className={`text-sm font-semibold ${cell.is_override ? 'text-primary' : ''}`}>
+                              {cell.price}
+                            </div>
+                            <div className="text-muted-foreground">
+                              {cell.available_units}/{cell.total_units} left
+                            </div>
+                            {cellRestrictions(cell).map(label => (
+                              <div key={label} className="text-[10px] font-medium text-orange-600">{label}</div>
+                            ))}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <p className="text-xs text-muted-foreground">
+            <span className="font-semibold text-primary">Highlighted</span> prices were set in the grid and replace the
+            base price and pricing rules for that night. Rate plans are still applied on top. Restrictions shown are
+            those that apply to every rate.
+          </p>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default RateGrid;
@@ -0,0 +1,64 @@
+import React, { useEffect, useState } from 'react';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { RatePlan, fetchRatePlans, plansForRoomType } from '@/lib/rate-plans';
+
+interface RatePlanSelectProps {
+  propertyId: string;
+  roomType?: string | null;
+  value: string;
+  onChange: (ratePlanId: string) => void;
+}
+
+// Empty value means no plan: the stay is priced from the base rate
+const RatePlanSelect: React.FC<RatePlanSelectProps> = ({ propertyId, roomType, value, onChange }) => {
+  const [plans, setPlans] = useState<RatePlan[]>([]);
+
+  useEffect(() => {
+    if (!propertyId) {
+      setPlans([]);
+      return;
+    }
+
+    let cancelled = false;
+    fetchRatePlans(propertyId)
+      .then((data) => {
+        if (!cancelled) setPlans(data);
+      })
+      .catch((err) => console.error('Error fetching rate plans:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId]);
+
+  const available = plansForRoomType(plans, roomType);
+  // Keep showing a plan that is no longer offered so existing stays still display it
+  const current = plans.find(plan => plan.id === value && !available.includes(plan));
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor="rate_plan_id">Rate Plan</Label>
+      <Select
+        value={value || 'none'}
+        onValueChange={(next) => onChange(next === 'none' ? '' : next)}
+        disabled={!propertyId}
+      >
+        <SelectTrigger id="rate_plan_id">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Base rate</SelectItem>
+          {[...available, ...(current ? [current] : [])].map(plan => (
+            <SelectItem key={plan.id} value={plan.id}>
+              {plan.name}
+              {plan.room_type && ` (${plan.room_type})`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default RatePlanSelect;
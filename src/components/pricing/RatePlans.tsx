@@ -0,0 +1,727 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Ban, Edit, Plus, Tags, Trash2 } from 'lucide-react';
+import { format } from 'date-fns';
+import {
+  RatePlan,
+  StayRestriction,
+  describeRatePlan,
+  describeRestriction,
+  fetchRatePlans,
+  formatRestrictionDates,
+} from '@/lib/rate-plans';
+import { CancellationPolicy } from '@/lib/cancellation';
+
+interface Property {
+  id: string;
+  name: string;
+  currency: string | null;
+}
+
+const emptyPlan = {
+  name: '',
+  description: '',
+  room_type: '',
+  parent_rate_plan_id: '',
+  price_adjustment: '0',
+  is_percentage: true,
+  cancellation_policy_id: '',
+  is_active: true,
+};
+
+const emptyRestriction = {
+  start_date: '',
+  end_date: '',
+  room_type: '',
+  rate_plan_id: '',
+  min_stay: '',
+  max_stay: '',
+  closed_to_arrival: false,
+  closed_to_departure: false,
+  stop_sell: false,
+  note: '',
+};
+
+const RatePlans: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [propertyId, setPropertyId] = useState('');
+  const [plans, setPlans] = useState<RatePlan[]>([]);
+  const [restrictions, setRestrictions] = useState<StayRestriction[]>([]);
+  const [roomTypes, setRoomTypes] = useState<string[]>([]);
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isPlanDialogOpen, setIsPlanDialogOpen] = useState(false);
+  const [selectedPlan, setSelectedPlan] = useState<RatePlan | null>(null);
+  const [planForm, setPlanForm] = useState(emptyPlan);
+  const [isRestrictionDialogOpen, setIsRestrictionDialogOpen] = useState(false);
+  const [selectedRestriction, setSelectedRestriction] = useState<StayRestriction | null>(null);
+  const [restrictionForm, setRestrictionForm] = useState(emptyRestriction);
+
+  useEffect(() => {
+    if (user) {
+      fetchProperties();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (propertyId) {
+      fetchData();
+    }
+  }, [propertyId]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const fetchProperties = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('id, name, currency')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setProperties(data || []);
+      if (data && data.length > 0) setPropertyId(data[0].id);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchData = async () => {
+    try {
+      const [planData, restrictionsResult, roomsResult, policiesResult] = await Promise.all([
+        fetchRatePlans(propertyId),
+        supabase
+          .from('stay_restrictions')
+          .select('*')
+          .eq('property_id', propertyId)
+          .gte('end_date', format(new Date(), 'yyyy-MM-dd'))
+          .order('start_date'),
+        supabase
+          .from('rooms')
+          .select('room_type')
+          .eq('property_id', propertyId)
+          .eq('is_active', true),
+        supabase
+          .from('cancellation_policies')
+          .select('*')
+          .eq('property_id', propertyId)
+          .eq('is_active', true)
+          .order('name'),
+      ]);
+
+      if (restrictionsResult.error) throw restrictionsResult.error;
+      if (roomsResult.error) throw roomsResult.error;
+      if (policiesResult.error) throw policiesResult.error;
+
+      setPlans(planData);
+      setRestrictions(restrictionsResult.data || []);
+      setRoomTypes([...new Set((roomsResult.data || []).map(room => room.room_type).filter(Boolean))].sort());
+      setPolicies(policiesResult.data || []);
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const openPlanDialog = (plan: RatePlan | null) => {
+    setSelectedPlan(plan);
+    setPlanForm(plan ? {
+      name: plan.name,
+      description: plan.description ?? '',
+      room_type: plan.room_type ?? '',
+      parent_rate_plan_id: plan.parent_rate_plan_id ?? '',
+      price_adjustment: String(plan.price_adjustment),
+      is_percentage: plan.is_percentage,
+      cancellation_policy_id: plan.cancellation_policy_id ?? '',
+      is_active: plan.is_active,
+    } : emptyPlan);
+    setIsPlanDialogOpen(true);
+  };
+
+  const handlePlanSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const planData = {
+      property_id: propertyId,
+      name: planForm.name,
+      description: planForm.description || null,
+      room_type: planForm.room_type || null,
+      parent_rate_plan_id: planForm.parent_rate_plan_id || null,
+      price_adjustment: parseFloat(planForm.price_adjustment) || 0,
+      is_percentage: planForm.is_percentage,
+      cancellation_policy_id: planForm.cancellation_policy_id || null,
+      is_active: planForm.is_active,
+    };
+
+    try {
+      if (selectedPlan) {
+        const { error } = await supabase
+          .from('rate_plans')
+          .update(planData)
+          .eq('id', selectedPlan.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('rate_plans').insert(planData);
+        if (error) throw error;
+      }
+
+      toast({ title: "Success", description: `Rate plan ${selectedPlan ? 'updated' : 'created'}` });
+      setIsPlanDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeletePlan = async (plan: RatePlan) => {
+    if (plans.some(p => p.parent_rate_plan_id === plan.id)) {
+      toast({
+        title: "Error",
+        description: "Other rates are derived from this one. Change or delete them first.",
+        variant: "destructive",
+      });
+      return;
+    }
+    if (!confirm(`Delete the ${plan.name} rate? Reservations keep their price.`)) return;
+
+    const { error } = await supabase.from('rate_plans').delete().eq('id', plan.id);
+    if (error) {
+      showError(error);
+      return;
+    }
+    fetchData();
+  };
+
+  const openRestrictionDialog = (restriction: StayRestriction | null) => {
+    setSelectedRestriction(restriction);
+    setRestrictionForm(restriction ? {
+      start_date: restriction.start_date,
+      end_date: restriction.end_date,
+      room_type: restriction.room_type ?? '',
+      rate_plan_id: restriction.rate_plan_id ?? '',
+      min_stay: restriction.min_stay?.toString() ?? '',
+      max_stay: restriction.max_stay?.toString() ?? '',
+      closed_to_arrival: restriction.closed_to_arrival,
+      closed_to_departure: restriction.closed_to_departure,
+      stop_sell: restriction.stop_sell,
+      note: restriction.note ?? '',
+    } : emptyRestriction);
+    setIsRestrictionDialogOpen(true);
+  };
+
+  const handleRestrictionSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const restrictionData = {
+      property_id: propertyId,
+      start_date: restrictionForm.start_date,
+      end_date: restrictionForm.end_date || restrictionForm.start_date,
+      room_type: restrictionForm.room_type || null,
+      rate_plan_id: restrictionForm.rate_plan_id || null,
+      min_stay: restrictionForm.min_stay ? parseInt(restrictionForm.min_stay) : null,
+      max_stay: restrictionForm.max_stay ? parseInt(restrictionForm.max_stay) : null,
+      closed_to_arrival: restrictionForm.closed_to_arrival,
+      closed_to_departure: restrictionForm.closed_to_departure,
+      stop_sell: restrictionForm.stop_sell,
+      note: restrictionForm.note || null,
+    };
+
+    try {
+      if (selectedRestriction) {
+        const { error } = await supabase
+          .from('stay_restrictions')
+          .update(restrictionData)
+          .eq('id', selectedRestriction.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('stay_restrictions').insert(restrictionData);
+        if (error) throw error;
+      }
+
+      toast({ title: "Success", description: `Restriction ${selectedRestriction ? 'updated' : 'added'}` });
+      setIsRestrictionDialogOpen(false);
+      fetchData();
+    } catch (error) {
+      showError(error);
+    }
+  };
+
+  const handleDeleteRestriction = async (restrictionId: string) => {
+    const { error } = await supabase.from('stay_restrictions').delete().eq('id', restrictionId);
+    if (error) {
+      showError(error);
+      return;
+    }
+    fetchData();
+  };
+
+  const canEdit = can('edit_pricing', propertyId);
+  const currency = properties.find(p => p.id === propertyId)?.currency || 'USD';
+  // A plan can only derive from another plan for the same or every room type
+  const parentOptions = plans.filter(plan =>
+    plan.id !== selectedPlan?.id && (!plan.room_type || plan.room_type === planForm.room_type)
+  );
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Rate Plans</h2>
+          <p className="text-muted-foreground">
+            Rates derived from the base price and the restrictions on what can be sold
+          </p>
+        </div>
+        <Select value={propertyId} onValueChange={setPropertyId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Select property" />
+          </SelectTrigger>
+          <SelectContent>
+            {properties.map(property => (
+              <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Rates</CardTitle>
+              <CardDescription>
+                Each rate is priced from its parent rate, or from the base price and pricing rules, plus its own adjustment
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button onClick={() => openPlanDialog(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Rate
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {plans.map(plan => (
+              <div key={plan.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{plan.name}</span>
+                    <Badge variant="outline">{plan.room_type || 'All room types'}</Badge>
+                    {!plan.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {describeRatePlan(plan, plans, currency)}
+                    {plan.cancellation_policy_id && (
+                      ` • ${policies.find(p => p.id === plan.cancellation_policy_id)?.name ?? 'Inactive'} cancellation`
+                    )}
+                  </div>
+                  {plan.description && (
+                    <div className="text-xs text-muted-foreground">{plan.description}</div>
+                  )}
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openPlanDialog(plan)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDeletePlan(plan)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {plans.length === 0 && (
+              <div className="text-center py-8">
+                <Tags className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No rate plans</h3>
+                <p className="text-muted-foreground">
+                  Reservations are priced from the base rate until you add rates such as Non-refundable or Breakfast included
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Stay Restrictions</CardTitle>
+              <CardDescription>
+                Minimum and maximum stay, closed to arrival or departure and stop-sell, checked when reservations are made
+              </CardDescription>
+            </div>
+            {canEdit && (
+              <Button onClick={() => openRestrictionDialog(null)}>
+                <Plus className="mr-2 h-4 w-4" />
+                Add Restriction
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {restrictions.map(restriction => (
+              <div key={restriction.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatRestrictionDates(restriction)}</span>
+                    {restriction.room_type && <Badge variant="outline">{restriction.room_type}</Badge>}
+                    {restriction.rate_plan_id && (
+                      <Badge variant="outline">{plans.find(p => p.id === restriction.rate_plan_id)?.name}</Badge>
+                    )}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {describeRestriction(restriction)}
+                    {restriction.note && ` • ${restriction.note}`}
+                  </div>
+                </div>
+                {canEdit && (
+                  <div className="flex gap-2">
+                    <Button size="sm" variant="outline" onClick={() => openRestrictionDialog(restriction)}>
+                      <Edit className="h-3 w-3" />
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDeleteRestriction(restriction.id)}
+                      className="text-destructive hover:text-destructive"
+                    >
+                      <Trash2 className="h-3 w-3" />
+                    </Button>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {restrictions.length === 0 && (
+              <div className="text-center py-8">
+                <Ban className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No upcoming restrictions</h3>
+                <p className="text-muted-foreground">Every date can be booked for any length of stay</p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={isPlanDialogOpen} onOpenChange={setIsPlanDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedPlan ? 'Edit Rate' : 'New Rate'}</DialogTitle>
+            <DialogDescription>
+              Price changes apply to new quotes. Existing reservations keep their total.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handlePlanSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="plan_name">Name *</Label>
+              <Input
+                id="plan_name"
+                value={planForm.name}
+                onChange={(e) => setPlanForm({ ...planForm, name: e.target.value })}
+                placeholder="e.g. Breakfast included"
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Room type</Label>
+                <Select
+                  value={planForm.room_type || 'all'}
+                  onValueChange={(value) => setPlanForm({ ...planForm, room_type: value === 'all' ? '' : value, parent_rate_plan_id: '' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All room types</SelectItem>
+                    {roomTypes.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Derived from</Label>
+                <Select
+                  value={planForm.parent_rate_plan_id || 'base'}
+                  onValueChange={(value) => setPlanForm({ ...planForm, parent_rate_plan_id: value === 'base' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="base">Base rate</SelectItem>
+                    {parentOptions.map(plan => (
+                      <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="plan_adjustment">Adjustment</Label>
+                <Input
+                  id="plan_adjustment"
+                  type="number"
+                  step="0.01"
+                  value={planForm.price_adjustment}
+                  onChange={(e) => setPlanForm({ ...planForm, price_adjustment: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label>Adjustment type</Label>
+                <Select
+                  value={planForm.is_percentage ? 'percentage' : 'fixed'}
+                  onValueChange={(value) => setPlanForm({ ...planForm, is_percentage: value === 'percentage' })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="percentage">Percent per night</SelectItem>
+                    <SelectItem value="fixed">Amount per night</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Cancellation policy</Label>
+              <Select
+                value={planForm.cancellation_policy_id || 'default'}
+                onValueChange={(value) => setPlanForm({ ...planForm, cancellation_policy_id: value === 'default' ? '' : value })}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="default">Property default</SelectItem>
+                  {policies.map(policy => (
+                    <SelectItem key={policy.id} value={policy.id}>{policy.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="plan_description">Description</Label>
+              <Textarea
+                id="plan_description"
+                value={planForm.description}
+                onChange={(e) => setPlanForm({ ...planForm, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="flex items-center justify-between">
+              <Label htmlFor="plan_active">Active</Label>
+              <Switch
+                id="plan_active"
+                checked={planForm.is_active}
+                onCheckedChange={(checked) => setPlanForm({ ...planForm, is_active: checked })}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsPlanDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {selectedPlan ? 'Update' : 'Create'} Rate
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={isRestrictionDialogOpen} onOpenChange={setIsRestrictionDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedRestriction ? 'Edit Restriction' : 'New Restriction'}</DialogTitle>
+            <DialogDescription>
+              Minimum and maximum stay apply to arrivals within the dates. Existing reservations are not affected.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleRestrictionSubmit} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="restriction_start">From *</Label>
+                <Input
+                  id="restriction_start"
+                  type="date"
+                  value={restrictionForm.start_date}
+                  onChange={(e) => setRestrictionForm({ ...restrictionForm, start_date: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="restriction_end">To</Label>
+                <Input
+                  id="restriction_end"
+                  type="date"
+                  min={restrictionForm.start_date}
+                  value={restrictionForm.end_date}
+                  onChange={(e) => setRestrictionForm({ ...restrictionForm, end_date: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Room type</Label>
+                <Select
+                  value={restrictionForm.room_type || 'all'}
+                  onValueChange={(value) => setRestrictionForm({ ...restrictionForm, room_type: value === 'all' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All room types</SelectItem>
+                    {roomTypes.map(type => (
+                      <SelectItem key={type} value={type}>{type}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Rate</Label>
+                <Select
+                  value={restrictionForm.rate_plan_id || 'all'}
+                  onValueChange={(value) => setRestrictionForm({ ...restrictionForm, rate_plan_id: value === 'all' ? '' : value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">All rates</SelectItem>
+                    {plans.map(plan => (
+                      <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="min_stay">Min stay (nights)</Label>
+                <Input
+                  id="min_stay"
+                  type="number"
+                  min="1"
+                  value={restrictionForm.min_stay}
+                  onChange={(e) => setRestrictionForm({ ...restrictionForm, min_stay: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="max_stay">Max stay (nights)</Label>
+                <Input
+                  id="max_stay"
+                  type="number"
+                  min={restrictionForm.min_stay || '1'}
+                  value={restrictionForm.max_stay}
+                  onChange={(e) => setRestrictionForm({ ...restrictionForm, max_stay: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <Label htmlFor="closed_to_arrival">Closed to arrival</Label>
+                <Switch
+                  id="closed_to_arrival"
+                  checked={restrictionForm.closed_to_arrival}
+                  onCheckedChange={(checked) => setRestrictionForm({ ...restrictionForm, closed_to_arrival: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="closed_to_departure">Closed to departure</Label>
+                <Switch
+                  id="closed_to_departure"
+                  checked={restrictionForm.closed_to_departure}
+                  onCheckedChange={(checked) => setRestrictionForm({ ...restrictionForm, closed_to_departure: checked })}
+                />
+              </div>
+              <div className="flex items-center justify-between">
+                <Label htmlFor="stop_sell">Stop-sell</Label>
+                <Switch
+                  id="stop_sell"
+                  checked={restrictionForm.stop_sell}
+                  onCheckedChange={(checked) => setRestrictionForm({ ...restrictionForm, stop_sell: checked })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="restriction_note">Note</Label>
+              <Input
+                id="restriction_note"
+                value={restrictionForm.note}
+                onChange={(e) => setRestrictionForm({ ...restrictionForm, note: e.target.value })}
+                placeholder="e.g. Christmas minimum stay"
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsRestrictionDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {selectedRestriction ? 'Update' : 'Add'} Restriction
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default RatePlans;
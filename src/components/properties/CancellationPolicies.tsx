@@ -0,0 +1,361 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useToast } from '@/components/ui/use-toast';
+import { Edit, Plus, Star, Trash2, X } from 'lucide-react';
+import {
+  CancellationPolicyWithTiers,
+  PENALTY_TYPES,
+  describeTier,
+  fetchCancellationPolicies,
+  sortTiers,
+} from '@/lib/cancellation';
+
+interface CancellationPoliciesProps {
+  propertyId: string;
+  currency: string;
+}
+
+// Days before arrival are kept as text so the field can be left empty
+interface TierForm {
+  days_before: string;
+  penalty_type: string;
+  penalty_value: string;
+}
+
+const emptyTier: TierForm = { days_before: '', penalty_type: 'percentage', penalty_value: '100' };
+
+const CancellationPolicies: React.FC<CancellationPoliciesProps> = ({ propertyId, currency }) => {
+  const { toast } = useToast();
+  const [policies, setPolicies] = useState<CancellationPolicyWithTiers[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [editingPolicy, setEditingPolicy] = useState<CancellationPolicyWithTiers | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({ name: '', description: '' });
+  const [tiers, setTiers] = useState<TierForm[]>([]);
+
+  const fetchPolicies = async () => {
+    try {
+      setPolicies(await fetchCancellationPolicies(propertyId));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    fetchPolicies();
+  }, [propertyId]);
+
+  const openDialog = (policy: CancellationPolicyWithTiers | null) => {
+    setEditingPolicy(policy);
+    setFormData({ name: policy?.name ?? '', description: policy?.description ?? '' });
+    setTiers(policy
+      ? sortTiers(policy.cancellation_policy_tiers).map(tier => ({
+          days_before: tier.days_before?.toString() ?? '',
+          penalty_type: tier.penalty_type,
+          penalty_value: Number(tier.penalty_value).toString(),
+        }))
+      : [{ ...emptyTier, days_before: '1', penalty_type: 'nights', penalty_value: '1' }]);
+    setIsDialogOpen(true);
+  };
+
+  const updateTier = (index: number, changes: Partial<TierForm>) =>
+    setTiers(tiers.map((tier, i) => (i === index ? { ...tier, ...changes } : tier)));
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSaving(true);
+      let policyId = editingPolicy?.id;
+
+      if (policyId) {
+        const { error } = await supabase
+          .from('cancellation_policies')
+          .update({ name: formData.name, description: formData.description || null })
+          .eq('id', policyId);
+
+        if (error) throw error;
+
+        const { error: deleteError } = await supabase
+          .from('cancellation_policy_tiers')
+          .delete()
+          .eq('policy_id', policyId);
+
+        if (deleteError) throw deleteError;
+      } else {
+        const { data, error } = await supabase
+          .from('cancellation_policies')
+          .insert([{ property_id: propertyId, name: formData.name, description: formData.description || null }])
+          .select('id')
+          .single();
+
+        if (error) throw error;
+        policyId = data.id;
+      }
+
+      if (tiers.length > 0) {
+        const { error } = await supabase
+          .from('cancellation_policy_tiers')
+          .insert(tiers.map(tier => ({
+            policy_id: policyId!,
+            days_before: tier.days_before === '' ? null : Number(tier.days_before),
+            penalty_type: tier.penalty_type,
+            penalty_value: Number(tier.penalty_value),
+          })));
+
+        if (error) throw error;
+      }
+
+      toast({ title: "Success", description: `Policy ${editingPolicy ? 'updated' : 'created'}` });
+      setIsDialogOpen(false);
+      fetchPolicies();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  // Only one policy per property can be the default, so clear the old one first
+  const handleMakeDefault = async (policy: CancellationPolicyWithTiers) => {
+    try {
+      const { error: clearError } = await supabase
+        .from('cancellation_policies')
+        .update({ is_default: false })
+        .eq('property_id', propertyId)
+        .eq('is_default', true);
+
+      if (clearError) throw clearError;
+
+      const { error } = await supabase
+        .from('cancellation_policies')
+        .update({ is_default: true, is_active: true })
+        .eq('id', policy.id);
+
+      if (error) throw error;
+      fetchPolicies();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleActive = async (policy: CancellationPolicyWithTiers) => {
+    const { error } = await supabase
+      .from('cancellation_policies')
+      .update({ is_active: !policy.is_active, is_default: policy.is_active ? false : policy.is_default })
+      .eq('id', policy.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchPolicies();
+  };
+
+  const handleDelete = async (policyId: string) => {
+    if (!confirm('Delete this policy? Reservations using it will be left without a cancellation policy.')) return;
+
+    const { error } = await supabase
+      .from('cancellation_policies')
+      .delete()
+      .eq('id', policyId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchPolicies();
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div className="space-y-1.5">
+            <CardTitle>Cancellation Policies</CardTitle>
+            <CardDescription>
+              The fee charged when a reservation is cancelled depends on how close to arrival it happens.
+              New reservations get the default policy.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openDialog(null)}>
+            <Plus className="h-4 w-4 mr-2" />
+            Add Policy
+          </Button>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {policies.length === 0 && (
+            <p className="text-sm text-muted-foreground">No cancellation policies. Reservations can be cancelled free of charge.</p>
+          )}
+          {policies.map((policy) => (
+            <div key={policy.id} className="flex items-start gap-3 rounded-lg border border-border p-3">
+              <Switch checked={policy.is_active} onCheckedChange={() => handleToggleActive(policy)} />
+              <div className="flex-1 min-w-0">
+                <div className="flex items-center gap-2 text-sm font-medium">
+                  {policy.name}
+                  {policy.is_default && <Badge>Default</Badge>}
+                </div>
+                {policy.description && (
+                  <p className="text-xs text-muted-foreground">{policy.description}</p>
+                )}
+                <ul className="mt-1 text-xs text-muted-foreground">
+                  {policy.cancellation_policy_tiers.length === 0 && <li>Free cancellation at any time</li>}
+                  {sortTiers(policy.cancellation_policy_tiers).map(tier => (
+                    <li key={tier.id}>{describeTier(tier, currency)}</li>
+                  ))}
+                </ul>
+              </div>
+              {!policy.is_default && (
+                <Button type="button" variant="outline" size="sm" title="Make default" onClick={() => handleMakeDefault(policy)}>
+                  <Star className="h-4 w-4" />
+                </Button>
+              )}
+              <Button type="button" variant="outline" size="sm" onClick={() => openDialog(policy)}>
+                <Edit className="h-4 w-4" />
+              </Button>
+              <Button type="button" variant="outline" size="sm" onClick={() => handleDelete(policy.id)}>
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-xl">
+          <DialogHeader>
+            <DialogTitle>{editingPolicy ? 'Edit Policy' : 'New Policy'}</DialogTitle>
+            <DialogDescription>
+              A tier applies when the guest cancels within the given number of days before arrival.
+              Leave the days empty for a fee that applies at any time. The tier closest to arrival wins.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="policy_name">Name *</Label>
+              <Input
+                id="policy_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                placeholder="e.g. Flexible"
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="policy_description">Description</Label>
+              <Textarea
+                id="policy_description"
+                value={formData.description}
+                onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+                rows={2}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Penalty tiers</Label>
+              {tiers.map((tier, index) => (
+                <div key={index} className="grid grid-cols-[1fr_1.5fr_1fr_auto] gap-2 items-center">
+                  <Input
+                    type="number"
+                    min="0"
+                    value={tier.days_before}
+                    onChange={(e) => updateTier(index, { days_before: e.target.value })}
+                    placeholder="Any time"
+                    aria-label="Days before arrival"
+                  />
+                  <Select value={tier.penalty_type} onValueChange={(value) => updateTier(index, { penalty_type: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PENALTY_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={tier.penalty_type === 'percentage' ? 100 : undefined}
+                    step={tier.penalty_type === 'flat' ? '0.01' : '1'}
+                    value={tier.penalty_value}
+                    onChange={(e) => updateTier(index, { penalty_value: e.target.value })}
+                    aria-label="Penalty"
+                    required
+                  />
+                  <Button
+                    type="button"
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setTiers(tiers.filter((_, i) => i !== index))}
+                  >
+                    <X className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+              <Button type="button" variant="outline" size="sm" onClick={() => setTiers([...tiers, emptyTier])}>
+                <Plus className="h-4 w-4 mr-2" />
+                Add Tier
+              </Button>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {editingPolicy ? 'Save Policy' : 'Create Policy'}
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CancellationPolicies;
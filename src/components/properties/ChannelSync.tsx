@@ -0,0 +1,415 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { format, parseISO } from 'date-fns';
+import { Copy, Link2, Plus, RefreshCw, Trash2 } from 'lucide-react';
+import { CHANNELS, SyncChange, getRoomExportUrl, syncChannelFeed } from '@/lib/channel-sync';
+
+interface Room {
+  id: string;
+  room_number: string;
+}
+
+interface ChannelFeed {
+  id: string;
+  room_id: string;
+  channel: string;
+  name: string | null;
+  url: string;
+  is_active: boolean;
+  last_synced_at: string | null;
+  last_status: string | null;
+  last_error: string | null;
+}
+
+interface SyncLog {
+  id: string;
+  feed_id: string;
+  started_at: string;
+  status: string;
+  events_count: number;
+  created_count: number;
+  updated_count: number;
+  cancelled_count: number;
+  skipped_count: number;
+  changes: SyncChange[];
+  error: string | null;
+}
+
+interface ChannelSyncProps {
+  propertyId: string;
+}
+
+const statusVariant = (status: string | null) => {
+  switch (status) {
+    case 'success':
+      return 'default' as const;
+    case 'failed':
+      return 'destructive' as const;
+    default:
+      return 'secondary' as const;
+  }
+};
+
+const ChannelSync: React.FC<ChannelSyncProps> = ({ propertyId }) => {
+  const { toast } = useToast();
+  const [rooms, setRooms] = useState<Room[]>([]);
+  const [feeds, setFeeds] = useState<ChannelFeed[]>([]);
+  const [logs, setLogs] = useState<SyncLog[]>([]);
+  const [exportUrls, setExportUrls] = useState<Record<string, string>>({});
+  const [syncingFeedId, setSyncingFeedId] = useState<string | null>(null);
+  const [expandedLogId, setExpandedLogId] = useState<string | null>(null);
+  const [formData, setFormData] = useState({
+    room_id: '',
+    channel: 'airbnb',
+    url: '',
+  });
+
+  const fetchData = async () => {
+    try {
+      const [roomsResult, feedsResult] = await Promise.all([
+        supabase
+          .from('rooms')
+          .select('id, room_number')
+          .eq('property_id', propertyId)
+          .order('room_number'),
+        supabase
+          .from('channel_feeds')
+          .select('*')
+          .eq('property_id', propertyId)
+          .order('created_at'),
+      ]);
+
+      if (roomsResult.error) throw roomsResult.error;
+      if (feedsResult.error) throw feedsResult.error;
+
+      setRooms(roomsResult.data || []);
+      setFeeds(feedsResult.data || []);
+
+      const feedIds = (feedsResult.data || []).map(feed => feed.id);
+      if (feedIds.length === 0) {
+        setLogs([]);
+        return;
+      }
+
+      const { data: logData, error: logError } = await supabase
+        .from('channel_sync_logs')
+        .select('*')
+        .in('feed_id', feedIds)
+        .order('started_at', { ascending: false })
+        .limit(20);
+
+      if (logError) throw logError;
+      setLogs((logData || []).map(log => ({ ...log, changes: (log.changes as unknown as SyncChange[]) || [] })));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  useEffect(() => {
+    fetchData();
+  }, [propertyId]);
+
+  const roomLabel = (roomId: string) =>
+    `Room ${rooms.find(room => room.id === roomId)?.room_number ?? '?'}`;
+
+  const channelLabel = (channel: string) =>
+    CHANNELS.find(c => c.value === channel)?.label ?? channel;
+
+  const handleGetExportUrl = async (roomId: string) => {
+    try {
+      const url = exportUrls[roomId] || await getRoomExportUrl(roomId);
+      setExportUrls({ ...exportUrls, [roomId]: url });
+      await navigator.clipboard.writeText(url);
+      toast({
+        title: "Link copied",
+        description: "Paste the calendar link into the channel's calendar import settings.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddFeed = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      const { error } = await supabase
+        .from('channel_feeds')
+        .insert([{ ...formData, property_id: propertyId }]);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Calendar feed added. It will be imported on the next sync.",
+      });
+
+      setFormData({ room_id: '', channel: 'airbnb', url: '' });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleToggleFeed = async (feed: ChannelFeed) => {
+    const { error } = await supabase
+      .from('channel_feeds')
+      .update({ is_active: !feed.is_active })
+      .eq('id', feed.id);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchData();
+  };
+
+  const handleDeleteFeed = async (feedId: string) => {
+    if (!confirm('Remove this calendar feed? Reservations already imported are kept.')) return;
+
+    const { error } = await supabase
+      .from('channel_feeds')
+      .delete()
+      .eq('id', feedId);
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: error.message,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    fetchData();
+  };
+
+  const handleSyncNow = async (feedId: string) => {
+    setSyncingFeedId(feedId);
+    try {
+      const result = await syncChannelFeed(feedId);
+      toast({
+        title: result?.status === 'failed' ? "Sync failed" : "Sync finished",
+        description: result?.error || `${result?.changes ?? 0} change(s) imported.`,
+        variant: result?.status === 'failed' ? "destructive" : "default",
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSyncingFeedId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Calendar Export</CardTitle>
+          <CardDescription>
+            Each room has a private iCal link listing its booked dates. Add it to Airbnb or Booking.com to block those dates there.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-2">
+          {rooms.length === 0 && (
+            <p className="text-sm text-muted-foreground">Add rooms to this property to export their calendars.</p>
+          )}
+          {rooms.map((room) => (
+            <div key={room.id} className="flex items-center gap-2">
+              <span className="w-28 text-sm font-medium">Room {room.room_number}</span>
+              <Input
+                readOnly
+                value={exportUrls[room.id] || ''}
+                placeholder="Generate a link to share with channels"
+                className="flex-1 text-xs"
+              />
+              <Button type="button" variant="outline" size="sm" onClick={() => handleGetExportUrl(room.id)}>
+                {exportUrls[room.id] ? <Copy className="h-4 w-4" /> : <Link2 className="h-4 w-4" />}
+              </Button>
+            </div>
+          ))}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Calendar Import</CardTitle>
+          <CardDescription>
+            Feeds are checked every 15 minutes. New events become reservations, changed dates are updated and removed events are cancelled.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <form onSubmit={handleAddFeed} className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+            <div className="space-y-1">
+              <Label>Room</Label>
+              <Select value={formData.room_id} onValueChange={(value) => setFormData({ ...formData, room_id: value })}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select room" />
+                </SelectTrigger>
+                <SelectContent>
+                  {rooms.map((room) => (
+                    <SelectItem key={room.id} value={room.id}>Room {room.room_number}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label>Channel</Label>
+              <Select value={formData.channel} onValueChange={(value) => setFormData({ ...formData, channel: value })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CHANNELS.map((channel) => (
+                    <SelectItem key={channel.value} value={channel.value}>{channel.label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1 md:col-span-1">
+              <Label htmlFor="feed_url">iCal URL</Label>
+              <Input
+                id="feed_url"
+                type="url"
+                value={formData.url}
+                onChange={(e) => setFormData({ ...formData, url: e.target.value })}
+                placeholder="https://..."
+                pattern="(https|webcal)://.+"
+                title="An https:// or webcal:// link"
+                required
+              />
+            </div>
+            <Button type="submit" disabled={!formData.room_id || !formData.url}>
+              <Plus className="h-4 w-4 mr-2" />
+              Add Feed
+            </Button>
+          </form>
+
+          {feeds.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No calendar feeds configured.</p>
+          ) : (
+            <div className="space-y-2">
+              {feeds.map((feed) => (
+                <div key={feed.id} className="flex items-center gap-3 rounded-lg border border-border p-3">
+                  <Switch checked={feed.is_active} onCheckedChange={() => handleToggleFeed(feed)} />
+                  <div className="flex-1 min-w-0">
+                    <div className="flex items-center gap-2 text-sm font-medium">
+                      {roomLabel(feed.room_id)}
+                      <Badge variant="outline">{channelLabel(feed.channel)}</Badge>
+                      {feed.last_status && (
+                        <Badge variant={statusVariant(feed.last_status)}>{feed.last_status}</Badge>
+                      )}
+                    </div>
+                    <p className="text-xs text-muted-foreground truncate">{feed.url}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {feed.last_synced_at
+                        ? `Last synced ${format(parseISO(feed.last_synced_at), 'MMM d, HH:mm')}`
+                        : 'Not synced yet'}
+                      {feed.last_error && ` · ${feed.last_error}`}
+                    </p>
+                  </div>
+                  <Button
+                    type="button"
+                    variant="outline"
+                    size="sm"
+                    onClick={() => handleSyncNow(feed.id)}
+                    disabled={syncingFeedId === feed.id}
+                  >
+                    <RefreshCw className={`h-4 w-4 ${syncingFeedId === feed.id ? 'animate-spin' : ''}`} />
+                  </Button>
+                  <Button type="button" variant="outline" size="sm" onClick={() => handleDeleteFeed(feed.id)}>
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card">
+        <CardHeader>
+          <CardTitle>Sync Log</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {logs.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No imports have run yet.</p>
+          ) : (
+            <div className="space-y-2">
+              {logs.map((log) => {
+                const feed = feeds.find(f => f.id === log.feed_id);
+                return (
+                  <div key={log.id} className="rounded-lg border border-border p-3 text-sm">
+                    <button
+                      type="button"
+                      className="flex w-full items-center justify-between gap-2 text-left"
+                      onClick={() => setExpandedLogId(expandedLogId === log.id ? null : log.id)}
+                    >
+                      <span>
+                        {format(parseISO(log.started_at), 'MMM d, HH:mm')}
+                        {feed && ` · ${roomLabel(feed.room_id)} · ${channelLabel(feed.channel)}`}
+                      </span>
+                      <span className="flex items-center gap-2 text-xs text-muted-foreground">
+                        +{log.created_count} ~{log.updated_count} ×{log.cancelled_count}
+                        {log.skipped_count > 0 && ` !${log.skipped_count}`}
+                        <Badge variant={statusVariant(log.status)}>{log.status}</Badge>
+                      </span>
+                    </button>
+                    {log.error && <p className="text-xs text-destructive mt-1">{log.error}</p>}
+                    {expandedLogId === log.id && (
+                      <ul className="mt-2 space-y-1 text-xs">
+                        {log.changes.length === 0 && (
+                          <li className="text-muted-foreground">No changes — {log.events_count} event(s) already up to date.</li>
+                        )}
+                        {log.changes.map((change, index) => (
+                          <li key={`${change.uid}-${index}`} className="flex justify-between gap-2">
+                            <span className="capitalize">{change.action}</span>
+                            <span className="text-muted-foreground">
+                              {change.check_in} → {change.check_out}
+                              {change.reason && ` · ${change.reason}`}
+                            </span>
+                          </li>
+                        ))}
+                      </ul>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default ChannelSync;
@@ -0,0 +1,128 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { Copy, ExternalLink } from 'lucide-react';
+import { getBookingPageUrl } from '@/lib/booking-engine';
+
+interface DirectBookingProps {
+  propertyId: string;
+}
+
+const DirectBooking: React.FC<DirectBookingProps> = ({ propertyId }) => {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const bookingUrl = getBookingPageUrl(propertyId);
+
+  useEffect(() => {
+    fetchSetting();
+  }, [propertyId]);
+
+  const fetchSetting = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('direct_booking_enabled')
+        .eq('id', propertyId)
+        .single();
+
+      if (error) throw error;
+      setEnabled(data.direct_booking_enabled);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleToggle = async (checked: boolean) => {
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('properties')
+        .update({ direct_booking_enabled: checked })
+        .eq('id', propertyId);
+
+      if (error) throw error;
+      setEnabled(checked);
+      toast({
+        title: checked ? "Direct booking enabled" : "Direct booking disabled",
+        description: checked
+          ? "Guests can now book this property from its booking page."
+          : "The booking page no longer accepts reservations.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopy = async () => {
+    try {
+      await navigator.clipboard.writeText(bookingUrl);
+      toast({
+        title: "Link copied",
+        description: "Share the booking page on your website or social profiles.",
+      });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle>Direct Booking</CardTitle>
+        <CardDescription>
+          A public page where guests check availability and request a booking without a channel commission.
+          Requests arrive as pending reservations.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <h4 className="font-medium">Accept direct bookings</h4>
+            <p className="text-sm text-muted-foreground">
+              Only active properties are shown on the booking page
+            </p>
+          </div>
+          <Switch checked={enabled} onCheckedChange={handleToggle} disabled={loading || saving} />
+        </div>
+
+        {enabled && (
+          <div className="flex gap-2">
+            <Input value={bookingUrl} readOnly />
+            <Button variant="outline" size="icon" onClick={handleCopy} title="Copy link">
+              <Copy className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="icon" asChild title="Open booking page">
+              <a href={bookingUrl} target="_blank" rel="noopener noreferrer">
+                <ExternalLink className="h-4 w-4" />
+              </a>
+            </Button>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default DirectBooking;
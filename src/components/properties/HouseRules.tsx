@@ -0,0 +1,91 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+
+interface HouseRulesProps {
+  propertyId: string;
+}
+
+// Shown on the online check-in page, where guests have to accept them
+const HouseRules: React.FC<HouseRulesProps> = ({ propertyId }) => {
+  const { toast } = useToast();
+  const [rules, setRules] = useState('');
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    fetchRules();
+  }, [propertyId]);
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('house_rules')
+        .eq('id', propertyId)
+        .single();
+
+      if (error) throw error;
+      setRules(data.house_rules || '');
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSave = async () => {
+    try {
+      setSaving(true);
+      const { error } = await supabase
+        .from('properties')
+        .update({ house_rules: rules.trim() || null })
+        .eq('id', propertyId);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "House rules saved" });
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card className="glass-card">
+      <CardHeader>
+        <CardTitle>House Rules</CardTitle>
+        <CardDescription>
+          Guests accept these when they check in online. Leave empty to skip the step.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={rules}
+          onChange={(e) => setRules(e.target.value)}
+          rows={6}
+          placeholder="e.g. Quiet hours from 22:00 to 7:00. No smoking in the rooms."
+          disabled={loading}
+        />
+        <div className="flex justify-end">
+          <Button onClick={handleSave} disabled={loading || saving}>
+            {saving ? 'Saving...' : 'Save House Rules'}
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default HouseRules;
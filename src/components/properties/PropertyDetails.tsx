@@ -12,6 +12,10 @@ import { useToast } from '@/components/ui/use-toast';
 import { Plus, Edit, Trash2, Upload, Camera, Bed, MapPin, Clock } from 'lucide-react';
 import RoomManagement from './RoomManagement';
 import PhotoGallery from './PhotoGallery';
+import ChannelSync from './ChannelSync';
+import DirectBooking from './DirectBooking';
+import HouseRules from './HouseRules';
+import CancellationPolicies from './CancellationPolicies';
 
 interface Property {
   id: string;
@@ -68,10 +72,11 @@ const PropertyDetails: React.FC<PropertyDetailsProps> = ({ property, onUpdate })
       </div>
 
       <Tabs defaultValue="overview" className="w-full">
-        <TabsList className="grid w-full grid-cols-4">
+        <TabsList className="grid w-full grid-cols-5">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="rooms">Rooms & Units</TabsTrigger>
           <TabsTrigger value="photos">Photos</TabsTrigger>
+          <TabsTrigger value="policies">Policies</TabsTrigger>
           <TabsTrigger value="settings">Settings</TabsTrigger>
         </TabsList>
 
@@ -147,6 +152,10 @@ const PropertyDetails: React.FC<PropertyDetailsProps> = ({ property, onUpdate })
           <PhotoGallery propertyId={property.id} />
         </TabsContent>
 
+        <TabsContent value="policies">
+          <CancellationPolicies propertyId={property.id} currency={property.currency} />
+        </TabsContent>
+
         <TabsContent value="settings" className="space-y-6">
           <Card className="glass-card">
             <CardHeader>
@@ -164,11 +173,17 @@ const PropertyDetails: React.FC<PropertyDetailsProps> = ({ property, onUpdate })
                 </div>
               </div>
               <p className="text-sm text-muted-foreground">
-                Platform integrations will sync reservations and pricing automatically.
+                Reservations are synced with channels through the room calendars below.
               </p>
             </CardContent>
           </Card>
 
+          <ChannelSync propertyId={property.id} />
+
+          <DirectBooking propertyId={property.id} />
+
+          <HouseRules propertyId={property.id} />
+
           <Card className="glass-card">
             <CardHeader>
               <CardTitle>Property Status</CardTitle>
@@ -0,0 +1,188 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Switch } from '@/components/ui/switch';
+import { useToast } from '@/components/ui/use-toast';
+import { CalendarX } from 'lucide-react';
+import { differenceInCalendarDays, parseISO } from 'date-fns';
+import {
+  CancellationPolicyWithTiers,
+  cancelReservation,
+  describePolicy,
+  previewCancellationPenalty,
+} from '@/lib/cancellation';
+import { formatAmount } from '@/lib/invoices';
+import { sendReservationMessage } from '@/lib/messaging';
+
+export interface CancellableReservation {
+  id: string;
+  guest_name: string;
+  guest_email?: string | null;
+  check_in: string;
+}
+
+interface CancelReservationDialogProps {
+  reservation: CancellableReservation | null;
+  onClose: () => void;
+  onCancelled?: () => void;
+}
+
+const CancelReservationDialog: React.FC<CancelReservationDialogProps> = ({ reservation, onClose, onCancelled }) => {
+  const { toast } = useToast();
+  const [policy, setPolicy] = useState<CancellationPolicyWithTiers | null>(null);
+  const [penalty, setPenalty] = useState<number | null>(null);
+  const [currency, setCurrency] = useState('USD');
+  const [reason, setReason] = useState('');
+  const [waivePenalty, setWaivePenalty] = useState(false);
+  const [notifyGuest, setNotifyGuest] = useState(true);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!reservation) return;
+    setPolicy(null);
+    setPenalty(null);
+    setReason('');
+    setWaivePenalty(false);
+    setNotifyGuest(true);
+    fetchTerms(reservation.id);
+  }, [reservation?.id]);
+
+  const fetchTerms = async (reservationId: string) => {
+    try {
+      const [{ data, error }, preview] = await Promise.all([
+        supabase
+          .from('reservations')
+          .select('cancellation_policies ( *, cancellation_policy_tiers (*) ), properties ( currency )')
+          .eq('id', reservationId)
+          .single(),
+        previewCancellationPenalty(reservationId),
+      ]);
+
+      if (error) throw error;
+      setPolicy(data.cancellation_policies);
+      setCurrency(data.properties?.currency || 'USD');
+      setPenalty(preview);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  // The cancellation stands either way; only a failed send is reported
+  const notifyCancellation = async (reservationId: string) => {
+    try {
+      const result = await sendReservationMessage(reservationId, 'cancellation');
+      if (result.status === 'failed') throw new Error(result.error);
+    } catch (error) {
+      toast({
+        title: "Cancellation email not sent",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reservation) return;
+
+    try {
+      setSaving(true);
+      const charged = await cancelReservation(reservation.id, reason, waivePenalty);
+      toast({
+        title: "Success",
+        description: charged > 0
+          ? `Reservation cancelled, ${formatAmount(charged, currency)} cancellation fee posted to the folio`
+          : 'Reservation cancelled without a fee',
+      });
+      if (notifyGuest && reservation.guest_email) {
+        await notifyCancellation(reservation.id);
+      }
+      onCancelled?.();
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const daysBefore = reservation
+    ? differenceInCalendarDays(parseISO(reservation.check_in), new Date())
+    : 0;
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Cancel Reservation</DialogTitle>
+          <DialogDescription>
+            {reservation?.guest_name}, arriving {daysBefore > 0 ? `in ${daysBefore} ${daysBefore === 1 ? 'day' : 'days'}` : daysBefore === 0 ? 'today' : `${-daysBefore} days ago`}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="rounded-lg border p-3 space-y-1">
+            <div className="text-sm font-medium">{policy ? policy.name : 'No cancellation policy'}</div>
+            <p className="text-xs text-muted-foreground">
+              {policy ? describePolicy(policy, currency) : 'Cancelling is free of charge'}
+            </p>
+            <div className="flex items-center justify-between pt-2 text-sm">
+              <span>Cancellation fee</span>
+              <span className={`font-semibold ${waivePenalty ? 'line-through text-muted-foreground' : ''}`}>
+                {penalty === null ? '…' : formatAmount(penalty, currency)}
+              </span>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="cancellation_reason">Reason</Label>
+            <Textarea
+              id="cancellation_reason"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              placeholder="e.g. Guest request, illness, overbooking"
+              rows={2}
+            />
+          </div>
+
+          {!!penalty && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="waive_penalty">Waive the fee</Label>
+              <Switch id="waive_penalty" checked={waivePenalty} onCheckedChange={setWaivePenalty} />
+            </div>
+          )}
+
+          {reservation?.guest_email && (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="notify_guest">Email the guest</Label>
+              <Switch id="notify_guest" checked={notifyGuest} onCheckedChange={setNotifyGuest} />
+            </div>
+          )}
+
+          <div className="flex justify-end space-x-2">
+            <Button type="button" variant="outline" onClick={onClose}>
+              Keep Reservation
+            </Button>
+            <Button type="submit" variant="destructive" disabled={saving || penalty === null}>
+              <CalendarX className="mr-2 h-4 w-4" />
+              Cancel Reservation
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CancelReservationDialog;
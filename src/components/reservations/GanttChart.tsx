@@ -6,6 +6,11 @@ import { Button } from '@/components/ui/button';
 import { useAuth } from '@/contexts/AuthContext';
 import { supabase } from '@/integrations/supabase/client';
 import { useToast } from '@/hooks/use-toast';
+import { blocksRoom, isNightInStay } from '@/lib/reservations';
+import { HOUSEKEEPING_STATUSES, HousekeepingStatus, getHousekeepingStatus } from '@/lib/housekeeping';
+import { ReservationBalance, fetchBalances, formatMoney, hasOutstandingBalance } from '@/lib/folio';
+import { RateGridCell, fetchRateGrid, rateGridKey } from '@/lib/rate-grid';
+import { addDays, format } from 'date-fns';
 
 interface Room {
   id: string;
@@ -13,7 +18,7 @@ interface Room {
   room_type: string;
   property_id: string;
   max_guests: number;
-  status: 'clean' | 'stayover' | 'needs_cleaning' | 'dirty' | 'maintenance';
+  housekeeping_status: HousekeepingStatus;
 }
 
 interface Reservation {
@@ -32,19 +37,15 @@ interface DateRange {
   isWeekend: boolean;
 }
 
-interface PriceRecommendation {
-  date: string;
-  recommendedPrice: number;
-  demand: 'low' | 'medium' | 'high';
-}
-
 const GanttChart = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [balances, setBalances] = useState<Record<string, ReservationBalance>>({});
   const [dateRange, setDateRange] = useState<DateRange[]>([]);
-  const [priceRecommendations, setPriceRecommendations] = useState<PriceRecommendation[]>([]);
+  // Rate grid cells per property, keyed by room type and night
+  const [rates, setRates] = useState<Record<string, Map<string, RateGridCell>>>({});
   const [loading, setLoading] = useState(true);
 
   // Generate date range for next 30 days
@@ -72,11 +73,10 @@ const GanttChart = () => {
       try {
         setLoading(true);
         
-        // Fetch properties first to get owner filter
+        // Fetch the properties the user can access first
         const { data: properties } = await supabase
           .from('properties')
-          .select('id')
-          .eq('owner_id', user.id);
+          .select('id');
         
         if (!properties || properties.length === 0) {
           setLoading(false);
@@ -92,14 +92,7 @@ const GanttChart = () => {
           .in('property_id', propertyIds);
         
         if (roomsError) throw roomsError;
-        
-        // Add status to rooms (simulated for now)
-        const roomsWithStatus = (roomsData || []).map(room => ({
-          ...room,
-          status: ['clean', 'stayover', 'needs_cleaning', 'dirty'][Math.floor(Math.random() * 4)] as Room['status']
-        }));
-        
-        setRooms(roomsWithStatus);
+        setRooms(roomsData || []);
         
         // Fetch reservations
         const { data: reservationsData, error: reservationsError } = await supabase
@@ -110,10 +103,18 @@ const GanttChart = () => {
         
         if (reservationsError) throw reservationsError;
         setReservations(reservationsData || []);
+        setBalances(await fetchBalances((reservationsData || []).map(r => r.id)));
         
-        // Generate AI price recommendations (simulated)
-        generatePriceRecommendations();
-        
+        // Current rates and units left per room type, as shown in the rate grid
+        const from = new Date();
+        const grids = await Promise.all(propertyIds.map(id =>
+          fetchRateGrid(id, format(from, 'yyyy-MM-dd'), format(addDays(from, 30), 'yyyy-MM-dd'))
+        ));
+        setRates(Object.fromEntries(propertyIds.map((id, i) => [
+          id,
+          new Map(grids[i].map(cell => [rateGridKey(cell.room_type, cell.night), cell])),
+        ])));
+
       } catch (error) {
         console.error('Error fetching data:', error);
         toast({
@@ -129,43 +130,10 @@ const GanttChart = () => {
     fetchData();
   }, [user, toast]);
 
-  const generatePriceRecommendations = () => {
-    const recommendations: PriceRecommendation[] = [];
-    
-    dateRange.forEach(({ date, isWeekend }) => {
-      const basePrice = 100;
-      const weekendMultiplier = isWeekend ? 1.3 : 1;
-      const seasonalMultiplier = Math.random() * 0.4 + 0.8; // 0.8 - 1.2
-      const demandMultiplier = Math.random() * 0.6 + 0.7; // 0.7 - 1.3
-      
-      const recommendedPrice = Math.round(basePrice * weekendMultiplier * seasonalMultiplier * demandMultiplier);
-      const demand = demandMultiplier > 1.1 ? 'high' : demandMultiplier > 0.9 ? 'medium' : 'low';
-      
-      recommendations.push({
-        date: date.toISOString().split('T')[0],
-        recommendedPrice,
-        demand: demand as 'low' | 'medium' | 'high'
-      });
-    });
-    
-    setPriceRecommendations(recommendations);
-  };
-
-  const getStatusColor = (status: Room['status']) => {
-    switch (status) {
-      case 'clean': return 'bg-emerald-500';
-      case 'stayover': return 'bg-blue-500';
-      case 'needs_cleaning': return 'bg-amber-500';
-      case 'dirty': return 'bg-red-500';
-      case 'maintenance': return 'bg-gray-500';
-      default: return 'bg-gray-300';
-    }
-  };
-
-  const getStatusIcon = (status: Room['status']) => {
+  const getStatusIcon = (status: HousekeepingStatus) => {
     switch (status) {
       case 'clean': return <CheckCircle className="w-3 h-3" />;
-      case 'stayover': return <User className="w-3 h-3" />;
+      case 'occupied': return <User className="w-3 h-3" />;
       case 'needs_cleaning': return <AlertCircle className="w-3 h-3" />;
       case 'dirty': return <XCircle className="w-3 h-3" />;
       case 'maintenance': return <Wrench className="w-3 h-3" />;
@@ -174,26 +142,19 @@ const GanttChart = () => {
   };
 
   const isDateInReservation = (roomId: string, date: Date) => {
-    return reservations.find(res => {
-      if (!res.room_id || res.room_id !== roomId) return false;
-      const checkIn = new Date(res.check_in);
-      const checkOut = new Date(res.check_out);
-      return date >= checkIn && date < checkOut;
-    });
-  };
-
-  const getPriceRecommendation = (date: Date) => {
     const dateStr = date.toISOString().split('T')[0];
-    return priceRecommendations.find(pr => pr.date === dateStr);
+    return reservations.find(res =>
+      res.room_id === roomId && blocksRoom(res) && isNightInStay(res, dateStr)
+    );
   };
 
-  const getDemandColor = (demand: 'low' | 'medium' | 'high') => {
-    switch (demand) {
-      case 'high': return 'text-emerald-600';
-      case 'medium': return 'text-amber-600';
-      case 'low': return 'text-red-600';
-      default: return 'text-gray-600';
-    }
+  const getRate = (room: Room, date: Date) =>
+    rates[room.property_id]?.get(rateGridKey(room.room_type, format(date, 'yyyy-MM-dd')));
+
+  const getAvailabilityColor = (cell: RateGridCell) => {
+    if (cell.available_units === 0 || cell.stop_sell) return 'text-red-600';
+    if (cell.available_units === 1) return 'text-amber-600';
+    return 'text-emerald-600';
   };
 
   if (loading) {
@@ -238,13 +199,13 @@ const GanttChart = () => {
               {/* Room info */}
               <div className="w-48 flex-shrink-0 p-3 border-r border-border/20">
                 <div className="flex items-center gap-2">
-                  <div className={`w-3 h-3 rounded-full ${getStatusColor(room.status)}`}>
-                    {getStatusIcon(room.status)}
+                  <div className={`w-3 h-3 rounded-full ${getHousekeepingStatus(room.housekeeping_status).color}`}>
+                    {getStatusIcon(room.housekeeping_status)}
                   </div>
                   <div>
                     <div className="font-medium text-sm">{room.room_number}</div>
                     <div className="text-xs text-muted-foreground">{room.room_type}</div>
-                    <div className="text-xs capitalize text-muted-foreground">{room.status.replace('_', ' ')}</div>
+                    <div className="text-xs text-muted-foreground">{getHousekeepingStatus(room.housekeeping_status).label}</div>
                   </div>
                 </div>
               </div>
@@ -252,7 +213,7 @@ const GanttChart = () => {
               {/* Date cells */}
               {dateRange.map(({ date }) => {
                 const reservation = isDateInReservation(room.id, date);
-                const priceRec = getPriceRecommendation(date);
+                const rate = getRate(room, date);
 
                 return (
                   <div 
@@ -262,17 +223,23 @@ const GanttChart = () => {
                     {reservation ? (
                       <div className="h-full bg-primary/20 border border-primary/40 rounded p-1 flex flex-col justify-between">
                         <div className="text-xs font-medium truncate">{reservation.guest_name}</div>
-                        <div className="text-xs text-muted-foreground">${reservation.total_price}</div>
+                        {hasOutstandingBalance(balances[reservation.id]) ? (
+                          <div className="text-xs font-medium text-destructive">
+                            Due {formatMoney(balances[reservation.id].balance)}
+                          </div>
+                        ) : (
+                          <div className="text-xs text-muted-foreground">${reservation.total_price}</div>
+                        )}
                       </div>
                     ) : (
                       <div className="h-full bg-secondary/10 border border-dashed border-border/40 rounded p-1 flex flex-col justify-center items-center">
-                        {priceRec && (
+                        {rate && (
                           <>
-                            <div className={`text-xs font-medium ${getDemandColor(priceRec.demand)}`}>
-                              ${priceRec.recommendedPrice}
+                            <div className={`text-xs font-medium ${getAvailabilityColor(rate)}`}>
+                              ${rate.price}
                             </div>
-                            <div className="text-xs text-muted-foreground capitalize">
-                              {priceRec.demand}
+                            <div className="text-xs text-muted-foreground">
+                              {rate.stop_sell ? 'Stop-sell' : `${rate.available_units} left`}
                             </div>
                           </>
                         )}
@@ -287,26 +254,12 @@ const GanttChart = () => {
 
         {/* Legend */}
         <div className="mt-6 flex flex-wrap gap-4 text-xs">
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-emerald-500"></div>
-            <span>Clean</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-blue-500"></div>
-            <span>Stayover</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-amber-500"></div>
-            <span>Needs Cleaning</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-red-500"></div>
-            <span>Dirty</span>
-          </div>
-          <div className="flex items-center gap-2">
-            <div className="w-3 h-3 rounded-full bg-gray-500"></div>
-            <span>Maintenance</span>
-          </div>
+          {HOUSEKEEPING_STATUSES.map(status => (
+            <div key={status.value} className="flex items-center gap-2">
+              <div className={`w-3 h-3 rounded-full ${status.color}`}></div>
+              <span>{status.label}</span>
+            </div>
+          ))}
         </div>
       </CardContent>
     </Card>
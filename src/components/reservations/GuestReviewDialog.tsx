@@ -0,0 +1,181 @@
+import React, { useEffect, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Textarea } from '@/components/ui/textarea';
+import { useToast } from '@/components/ui/use-toast';
+import { Star } from 'lucide-react';
+import { format } from 'date-fns';
+import { REVIEW_SOURCES, fetchReservationReview, saveGuestReview } from '@/lib/guest-reviews';
+
+export interface ReviewableReservation {
+  id: string;
+  property_id: string;
+  guest_name: string;
+  source?: string | null;
+}
+
+interface GuestReviewDialogProps {
+  reservation: ReviewableReservation | null;
+  onClose: () => void;
+}
+
+const emptyForm = (reservation: ReviewableReservation) => ({
+  rating: 0,
+  comment: '',
+  reviewer_name: reservation.guest_name,
+  source: reservation.source && reservation.source in REVIEW_SOURCES ? reservation.source : 'direct',
+  reviewed_at: format(new Date(), 'yyyy-MM-dd'),
+});
+
+// Records the guest's rating of a stay; the ratings make up guest
+// satisfaction on the dashboard
+const GuestReviewDialog: React.FC<GuestReviewDialogProps> = ({ reservation, onClose }) => {
+  const { toast } = useToast();
+  const [formData, setFormData] = useState<ReturnType<typeof emptyForm> | null>(null);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (!reservation) return;
+    setFormData(null);
+
+    fetchReservationReview(reservation.id)
+      .then(review => setFormData(review
+        ? {
+          rating: review.rating,
+          comment: review.comment || '',
+          reviewer_name: review.reviewer_name || '',
+          source: review.source,
+          reviewed_at: review.reviewed_at,
+        }
+        : emptyForm(reservation)))
+      .catch(error => toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      }));
+  }, [reservation, toast]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reservation || !formData) return;
+
+    try {
+      setSaving(true);
+      await saveGuestReview({
+        property_id: reservation.property_id,
+        reservation_id: reservation.id,
+        rating: formData.rating,
+        comment: formData.comment.trim() || null,
+        reviewer_name: formData.reviewer_name.trim() || null,
+        source: formData.source,
+        reviewed_at: formData.reviewed_at,
+      });
+      toast({
+        title: "Success",
+        description: "Review saved",
+      });
+      onClose();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Guest Review</DialogTitle>
+          <DialogDescription>
+            {reservation?.guest_name}'s rating of the stay
+          </DialogDescription>
+        </DialogHeader>
+
+        {formData && (
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label>Rating *</Label>
+              <div className="flex items-center gap-1">
+                {[1, 2, 3, 4, 5].map(value => (
+                  <button
+                    key={value}
+                    type="button"
+                    title={`${value} of 5`}
+                    onClick={() => setFormData({ ...formData, rating: value })}
+                  >
+                    <Star className={`h-6 w-6 ${value <= formData.rating ? 'fill-accent text-accent' : 'text-muted-foreground'}`} />
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="review_source">Source</Label>
+                <Select value={formData.source} onValueChange={(value) => setFormData({ ...formData, source: value })}>
+                  <SelectTrigger id="review_source">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(REVIEW_SOURCES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="reviewed_at">Date</Label>
+                <Input
+                  id="reviewed_at"
+                  type="date"
+                  value={formData.reviewed_at}
+                  onChange={(e) => setFormData({ ...formData, reviewed_at: e.target.value })}
+                  required
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="reviewer_name">Reviewer</Label>
+              <Input
+                id="reviewer_name"
+                value={formData.reviewer_name}
+                onChange={(e) => setFormData({ ...formData, reviewer_name: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="review_comment">Comment</Label>
+              <Textarea
+                id="review_comment"
+                value={formData.comment}
+                onChange={(e) => setFormData({ ...formData, comment: e.target.value })}
+                rows={3}
+              />
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={onClose}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving || formData.rating === 0}>
+                Save Review
+              </Button>
+            </div>
+          </form>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default GuestReviewDialog;
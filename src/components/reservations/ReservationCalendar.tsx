@@ -11,6 +11,11 @@ import { supabase } from '@/integrations/supabase/client';
 import { toast } from '@/components/ui/use-toast';
 import { Plus, Calendar as CalendarIcon, Users, DollarSign, Eye } from 'lucide-react';
 import { format, startOfMonth, endOfMonth, eachDayOfInterval, parseISO, isWithinInterval } from 'date-fns';
+import { describeRoomConflict, fetchRoomConflict, getReservationErrorMessage } from '@/lib/reservations';
+import NightlyRateBreakdown from '@/components/pricing/NightlyRateBreakdown';
+import { useNightlyRates } from '@/hooks/use-nightly-rates';
+import RatePlanSelect from '@/components/pricing/RatePlanSelect';
+import { describeViolations, fetchRestrictionViolations } from '@/lib/rate-plans';
 
 interface Reservation {
   id: string;
@@ -25,6 +30,7 @@ interface Reservation {
   status: string;
   source: string;
   notes?: string;
+  room_id?: string | null;
   properties?: {
     name: string;
   };
@@ -35,9 +41,17 @@ interface Property {
   name: string;
 }
 
+interface Room {
+  id: string;
+  property_id: string;
+  room_number: string;
+  room_type: string;
+}
+
 const ReservationCalendar: React.FC = () => {
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [properties, setProperties] = useState<Property[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
   const [selectedProperty, setSelectedProperty] = useState<string>('all');
   const [currentDate, setCurrentDate] = useState(new Date());
   const [isDialogOpen, setIsDialogOpen] = useState(false);
@@ -46,6 +60,7 @@ const ReservationCalendar: React.FC = () => {
 
   const [formData, setFormData] = useState({
     property_id: '',
+    room_id: '',
     guest_name: '',
     guest_email: '',
     guest_phone: '',
@@ -56,11 +71,28 @@ const ReservationCalendar: React.FC = () => {
     status: 'confirmed',
     source: 'manual',
     notes: '',
+    rate_plan_id: '',
   });
 
+  const { rates, total: quotedTotal, loading: quoting, error: quoteError } = useNightlyRates({
+    propertyId: formData.property_id,
+    roomId: formData.room_id,
+    ratePlanId: formData.rate_plan_id,
+    checkIn: formData.check_in,
+    checkOut: formData.check_out,
+  });
+
+  // Prefill the total of new reservations from the resolved nightly rates
+  useEffect(() => {
+    if (quotedTotal !== null) {
+      setFormData(prev => ({ ...prev, total_price: quotedTotal }));
+    }
+  }, [quotedTotal]);
+
   useEffect(() => {
     fetchReservations();
     fetchProperties();
+    fetchRooms();
   }, [currentDate, selectedProperty]);
 
   const fetchReservations = async () => {
@@ -109,13 +141,54 @@ const ReservationCalendar: React.FC = () => {
     }
   };
 
+  const fetchRooms = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('rooms')
+        .select('id, property_id, room_number, room_type')
+        .eq('is_active', true)
+        .order('room_number');
+
+      if (error) throw error;
+      setRooms(data || []);
+    } catch (error) {
+      console.error('Error fetching rooms:', error);
+    }
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const reservationData = {
+      ...formData,
+      room_id: formData.room_id || null,
+      rate_plan_id: formData.rate_plan_id || null,
+    };
+
     try {
+      const conflict = await fetchRoomConflict(reservationData);
+      if (conflict) {
+        toast({
+          title: 'Room not available',
+          description: describeRoomConflict(conflict),
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const violations = await fetchRestrictionViolations(reservationData);
+      if (violations.length > 0) {
+        toast({
+          title: 'Stay not allowed',
+          description: describeViolations(violations),
+          variant: 'destructive',
+        });
+        return;
+      }
+
       const { error } = await supabase
         .from('reservations')
-        .insert([formData]);
+        .insert([reservationData]);
 
       if (error) throw error;
       
@@ -131,7 +204,7 @@ const ReservationCalendar: React.FC = () => {
       console.error('Error creating reservation:', error);
       toast({
         title: 'Error',
-        description: 'Failed to create reservation',
+        description: getReservationErrorMessage(error),
         variant: 'destructive',
       });
     }
@@ -140,6 +213,7 @@ const ReservationCalendar: React.FC = () => {
   const resetForm = () => {
     setFormData({
       property_id: '',
+      room_id: '',
       guest_name: '',
       guest_email: '',
       guest_phone: '',
@@ -150,6 +224,7 @@ const ReservationCalendar: React.FC = () => {
       status: 'confirmed',
       source: 'manual',
       notes: '',
+      rate_plan_id: '',
     });
   };
 
@@ -244,24 +319,49 @@ const ReservationCalendar: React.FC = () => {
               </DialogHeader>
               
               <form onSubmit={handleSubmit} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="property_id">Property *</Label>
-                  <Select
-                    value={formData.property_id}
-                    onValueChange={(value) => setFormData({ ...formData, property_id: value })}
-                    required
-                  >
-                    <SelectTrigger>
-                      <SelectValue placeholder="Select a property" />
-                    </SelectTrigger>
-                    <SelectContent>
-                      {properties.map((property) => (
-                        <SelectItem key={property.id} value={property.id}>
-                          {property.name}
-                        </SelectItem>
-                      ))}
-                    </SelectContent>
-                  </Select>
+                <div className="grid grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="property_id">Property *</Label>
+                    <Select
+                      value={formData.property_id}
+                      onValueChange={(value) => setFormData({ ...formData, property_id: value, room_id: '', rate_plan_id: '' })}
+                      required
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a property" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {properties.map((property) => (
+                          <SelectItem key={property.id} value={property.id}>
+                            {property.name}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="room_id">Room</Label>
+                    <Select
+                      value={formData.room_id || 'unassigned'}
+                      onValueChange={(value) => setFormData({ ...formData, room_id: value === 'unassigned' ? '' : value })}
+                      disabled={!formData.property_id}
+                    >
+                      <SelectTrigger>
+                        <SelectValue placeholder="Select a room" />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="unassigned">Not assigned</SelectItem>
+                        {rooms
+                          .filter(room => room.property_id === formData.property_id)
+                          .map((room) => (
+                            <SelectItem key={room.id} value={room.id}>
+                              {room.room_number} ({room.room_type})
+                            </SelectItem>
+                          ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
                 </div>
                 
                 <div className="grid grid-cols-2 gap-4">
@@ -362,7 +462,23 @@ const ReservationCalendar: React.FC = () => {
                     </Select>
                   </div>
                 </div>
+
+                <div className="grid grid-cols-2 gap-4">
+                  <RatePlanSelect
+                    propertyId={formData.property_id}
+                    roomType={rooms.find(room => room.id === formData.room_id)?.room_type}
+                    value={formData.rate_plan_id}
+                    onChange={(ratePlanId) => setFormData({ ...formData, rate_plan_id: ratePlanId })}
+                  />
+                </div>
                 
+                <NightlyRateBreakdown
+                  rates={rates}
+                  loading={quoting}
+                  error={quoteError}
+                  onApply={(total) => setFormData({ ...formData, total_price: total })}
+                />
+
                 <div className="space-y-2">
                   <Label htmlFor="notes">Notes</Label>
                   <Input
@@ -0,0 +1,486 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Ban, CreditCard, Download, FileText, Plus } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  FOLIO_ITEM_TYPES,
+  FOLIO_STATUSES,
+  FolioItem,
+  MANUAL_ITEM_TYPES,
+  PAYMENT_METHODS,
+  PAYMENT_TYPES,
+  Payment,
+  fetchFolio,
+  formatMoney,
+  signedPaymentAmount,
+  summarizeFolio,
+} from '@/lib/folio';
+import { INVOICE_DOCUMENT_TYPES, Invoice, downloadInvoicePdf, formatAmount } from '@/lib/invoices';
+import IssueInvoiceDialog from '@/components/invoices/IssueInvoiceDialog';
+
+export interface FolioReservation {
+  id: string;
+  property_id: string;
+  guest_name: string;
+  guest_email?: string | null;
+  check_in: string;
+  check_out: string;
+}
+
+interface ReservationFolioProps {
+  reservation: FolioReservation | null;
+  onClose: () => void;
+  onChanged?: () => void;
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const emptyCharge = () => ({
+  item_type: 'extra',
+  description: '',
+  service_date: today(),
+  quantity: '1',
+  unit_price: '',
+});
+
+const emptyPayment = () => ({
+  payment_type: 'payment',
+  method: 'card',
+  amount: '',
+  paid_at: today(),
+  reference: '',
+});
+
+// Charges and payments of one reservation with its running balance
+const ReservationFolio: React.FC<ReservationFolioProps> = ({ reservation, onClose, onChanged }) => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [items, setItems] = useState<FolioItem[]>([]);
+  const [payments, setPayments] = useState<Payment[]>([]);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+  const [invoicing, setInvoicing] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [chargeForm, setChargeForm] = useState(emptyCharge);
+  const [paymentForm, setPaymentForm] = useState(emptyPayment);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setChargeForm(emptyCharge());
+    setPaymentForm(emptyPayment());
+    if (reservation) {
+      fetchData(reservation.id);
+    } else {
+      setItems([]);
+      setPayments([]);
+      setInvoices([]);
+    }
+  }, [reservation?.id]);
+
+  const fetchData = async (reservationId: string) => {
+    try {
+      setLoading(true);
+      const [folio, { data: invoiceRows, error }] = await Promise.all([
+        fetchFolio(reservationId),
+        supabase
+          .from('invoices')
+          .select('*')
+          .eq('reservation_id', reservationId)
+          .order('created_at'),
+      ]);
+
+      if (error) throw error;
+      setItems(folio.items);
+      setPayments(folio.payments);
+      setInvoices(invoiceRows || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const afterChange = async () => {
+    if (!reservation) return;
+    await fetchData(reservation.id);
+    onChanged?.();
+  };
+
+  const handleAddCharge = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reservation) return;
+
+    const quantity = parseFloat(chargeForm.quantity);
+    let unitPrice = parseFloat(chargeForm.unit_price);
+    // Discounts are entered as positive amounts and stored as negative ones
+    if (chargeForm.item_type === 'discount') unitPrice = -Math.abs(unitPrice);
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from('folio_items').insert({
+        reservation_id: reservation.id,
+        property_id: reservation.property_id,
+        item_type: chargeForm.item_type,
+        description: chargeForm.description || FOLIO_ITEM_TYPES[chargeForm.item_type],
+        service_date: chargeForm.service_date,
+        quantity,
+        unit_price: unitPrice,
+      });
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Charge posted" });
+      setChargeForm(emptyCharge());
+      await afterChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleVoid = async (item: FolioItem) => {
+    const reason = window.prompt(`Void "${item.description}"? Enter a reason:`);
+    if (reason === null) return;
+
+    try {
+      const { error } = await supabase
+        .from('folio_items')
+        .update({ status: 'void', void_reason: reason || null })
+        .eq('id', item.id);
+
+      if (error) throw error;
+      toast({ title: "Success", description: "Charge voided" });
+      await afterChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleAddPayment = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reservation) return;
+
+    try {
+      setSaving(true);
+      const { error } = await supabase.from('payments').insert({
+        reservation_id: reservation.id,
+        property_id: reservation.property_id,
+        payment_type: paymentForm.payment_type,
+        method: paymentForm.method,
+        amount: parseFloat(paymentForm.amount),
+        paid_at: paymentForm.paid_at,
+        reference: paymentForm.reference || null,
+      });
+
+      if (error) throw error;
+      toast({ title: "Success", description: `${PAYMENT_TYPES[paymentForm.payment_type]} recorded` });
+      setPaymentForm(emptyPayment());
+      await afterChange();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDownload = async (invoice: Invoice) => {
+    try {
+      await downloadInvoicePdf(invoice);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canEdit = !!reservation && can('edit_reservations', reservation.property_id);
+  const totals = summarizeFolio(items, payments);
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Folio — {reservation?.guest_name}</DialogTitle>
+          <DialogDescription>
+            {reservation && (
+              `${format(parseISO(reservation.check_in), 'MMM d')} – ${format(parseISO(reservation.check_out), 'MMM d, yyyy')}. ` +
+              'Room nights post automatically after each night; posted charges can only be voided.'
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+              <div className="p-3 bg-muted rounded-lg">
+                <div className="text-sm text-muted-foreground">Charges</div>
+                <div className="font-medium">{formatMoney(totals.charges)}</div>
+              </div>
+              <div className="p-3 bg-muted rounded-lg">
+                <div className="text-sm text-muted-foreground">Posted</div>
+                <div className="font-medium">{formatMoney(totals.posted)}</div>
+              </div>
+              <div className="p-3 bg-muted rounded-lg">
+                <div className="text-sm text-muted-foreground">Paid</div>
+                <div className="font-medium">{formatMoney(totals.paid)}</div>
+              </div>
+              <div className="p-3 bg-muted rounded-lg">
+                <div className="text-sm text-muted-foreground">Balance</div>
+                <div className={`font-medium ${totals.balance > 0.005 ? 'text-destructive' : 'text-green-600'}`}>
+                  {formatMoney(totals.balance)}
+                </div>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Charges</h4>
+              {items.length === 0 && (
+                <p className="text-sm text-muted-foreground">No charges yet</p>
+              )}
+              {items.map(item => (
+                <div key={item.id} className="flex items-center justify-between p-2 border border-border rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground w-20">{format(parseISO(item.service_date), 'MMM d')}</span>
+                    <span className={item.status === 'void' ? 'line-through text-muted-foreground' : ''}>
+                      {item.description}
+                      {Number(item.quantity) !== 1 && ` × ${Number(item.quantity)}`}
+                    </span>
+                    <Badge variant="outline" className="text-xs">{FOLIO_ITEM_TYPES[item.item_type] ?? item.item_type}</Badge>
+                    <Badge variant="outline" className={`text-xs ${FOLIO_STATUSES[item.status]?.className ?? ''}`}>
+                      {FOLIO_STATUSES[item.status]?.label ?? item.status}
+                    </Badge>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatMoney(item.amount)}</span>
+                    {canEdit && item.status === 'posted' && (
+                      <Button size="sm" variant="ghost" title="Void charge" onClick={() => handleVoid(item)}>
+                        <Ban className="h-3 w-3" />
+                      </Button>
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {canEdit && (
+              <form onSubmit={handleAddCharge} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={chargeForm.item_type}
+                    onValueChange={(value) => setChargeForm({ ...chargeForm, item_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {MANUAL_ITEM_TYPES.map(type => (
+                        <SelectItem key={type} value={type}>{FOLIO_ITEM_TYPES[type]}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1 md:col-span-2">
+                  <Label htmlFor="charge_description">Description</Label>
+                  <Input
+                    id="charge_description"
+                    value={chargeForm.description}
+                    onChange={(e) => setChargeForm({ ...chargeForm, description: e.target.value })}
+                    placeholder={FOLIO_ITEM_TYPES[chargeForm.item_type]}
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="charge_quantity">Qty</Label>
+                  <Input
+                    id="charge_quantity"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={chargeForm.quantity}
+                    onChange={(e) => setChargeForm({ ...chargeForm, quantity: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="charge_price">Unit price</Label>
+                  <Input
+                    id="charge_price"
+                    type="number"
+                    step="0.01"
+                    value={chargeForm.unit_price}
+                    onChange={(e) => setChargeForm({ ...chargeForm, unit_price: e.target.value })}
+                    required
+                  />
+                </div>
+                <Button type="submit" disabled={saving}>
+                  <Plus className="mr-1 h-4 w-4" />
+                  Charge
+                </Button>
+              </form>
+            )}
+
+            <div className="space-y-2">
+              <h4 className="font-medium">Payments</h4>
+              {payments.length === 0 && (
+                <p className="text-sm text-muted-foreground">No payments recorded</p>
+              )}
+              {payments.map(payment => (
+                <div key={payment.id} className="flex items-center justify-between p-2 border border-border rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="text-muted-foreground w-20">{format(parseISO(payment.paid_at), 'MMM d')}</span>
+                    <span>{PAYMENT_TYPES[payment.payment_type] ?? payment.payment_type}</span>
+                    <Badge variant="outline" className="text-xs">{PAYMENT_METHODS[payment.method] ?? payment.method}</Badge>
+                    {payment.reference && (
+                      <span className="text-muted-foreground">#{payment.reference}</span>
+                    )}
+                  </div>
+                  <span className={`font-medium ${payment.payment_type === 'refund' ? 'text-destructive' : ''}`}>
+                    {formatMoney(signedPaymentAmount(payment))}
+                  </span>
+                </div>
+              ))}
+            </div>
+
+            {canEdit && (
+              <form onSubmit={handleAddPayment} className="grid grid-cols-2 md:grid-cols-6 gap-2 items-end">
+                <div className="space-y-1">
+                  <Label>Type</Label>
+                  <Select
+                    value={paymentForm.payment_type}
+                    onValueChange={(value) => setPaymentForm({ ...paymentForm, payment_type: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYMENT_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label>Method</Label>
+                  <Select
+                    value={paymentForm.method}
+                    onValueChange={(value) => setPaymentForm({ ...paymentForm, method: value })}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(PAYMENT_METHODS).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="payment_amount">Amount</Label>
+                  <Input
+                    id="payment_amount"
+                    type="number"
+                    min="0.01"
+                    step="0.01"
+                    value={paymentForm.amount}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, amount: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="payment_date">Date</Label>
+                  <Input
+                    id="payment_date"
+                    type="date"
+                    value={paymentForm.paid_at}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, paid_at: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-1">
+                  <Label htmlFor="payment_reference">Reference</Label>
+                  <Input
+                    id="payment_reference"
+                    value={paymentForm.reference}
+                    onChange={(e) => setPaymentForm({ ...paymentForm, reference: e.target.value })}
+                  />
+                </div>
+                <Button type="submit" disabled={saving}>
+                  <CreditCard className="mr-1 h-4 w-4" />
+                  Record
+                </Button>
+              </form>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex items-center justify-between">
+                <h4 className="font-medium">Invoices</h4>
+                {canEdit && (
+                  <Button size="sm" variant="outline" onClick={() => setInvoicing(true)}>
+                    <FileText className="mr-1 h-4 w-4" />
+                    Issue Invoice
+                  </Button>
+                )}
+              </div>
+              {invoices.length === 0 && (
+                <p className="text-sm text-muted-foreground">No invoices issued</p>
+              )}
+              {invoices.map(invoice => (
+                <div key={invoice.id} className="flex items-center justify-between p-2 border border-border rounded-lg text-sm">
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{invoice.invoice_number}</span>
+                    <Badge variant="outline" className="text-xs">{INVOICE_DOCUMENT_TYPES[invoice.document_type]}</Badge>
+                    <span className="text-muted-foreground">{format(parseISO(invoice.issue_date), 'MMM d, yyyy')}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{formatAmount(Number(invoice.total), invoice.currency, invoice.locale)}</span>
+                    <Button size="sm" variant="ghost" title="Download PDF" onClick={() => handleDownload(invoice)}>
+                      <Download className="h-3 w-3" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+      </DialogContent>
+
+      <IssueInvoiceDialog
+        reservation={invoicing ? reservation : null}
+        onClose={() => setInvoicing(false)}
+        onIssued={() => reservation && fetchData(reservation.id)}
+      />
+    </Dialog>
+  );
+};
+
+export default ReservationFolio;
@@ -10,8 +10,30 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
-import { Plus, Edit, Trash2, Eye, Users, DollarSign, Calendar as CalendarIcon, Search, Filter } from 'lucide-react';
+import { Plus, Edit, Trash2, Eye, Users, DollarSign, Calendar as CalendarIcon, Search, Filter, AlertTriangle, Receipt, CalendarX, Mail, Star } from 'lucide-react';
 import { format, parseISO } from 'date-fns';
+import {
+  RESERVATION_STATUSES,
+  describeRoomConflict,
+  fetchRoomConflict,
+  getReservationErrorMessage,
+  statusOptions,
+} from '@/lib/reservations';
+import NightlyRateBreakdown from '@/components/pricing/NightlyRateBreakdown';
+import { useNightlyRates } from '@/hooks/use-nightly-rates';
+import GuestAutocomplete from '@/components/guests/GuestAutocomplete';
+import GuestDetailDrawer from '@/components/guests/GuestDetailDrawer';
+import { Guest, getGuestTag, isBlacklisted } from '@/lib/guests';
+import { formatChildAges, parseChildAges } from '@/lib/city-tax';
+import ReservationFolio from './ReservationFolio';
+import CancelReservationDialog from './CancelReservationDialog';
+import ReservationMessages from './ReservationMessages';
+import GuestReviewDialog from './GuestReviewDialog';
+import { CancellationPolicy } from '@/lib/cancellation';
+import RatePlanSelect from '@/components/pricing/RatePlanSelect';
+import { describeViolations, fetchRestrictionViolations } from '@/lib/rate-plans';
+import { ReservationBalance, fetchBalances, formatMoney, hasOutstandingBalance } from '@/lib/folio';
+import { sendReservationMessage } from '@/lib/messaging';
 
 interface Reservation {
   id: string;
@@ -22,14 +44,27 @@ interface Reservation {
   check_in: string;
   check_out: string;
   guests_count: number;
+  child_ages?: number[];
   total_price: number;
   status: string;
   source: string;
   notes?: string;
   external_reservation_id?: string;
+  room_id?: string | null;
+  guest_id?: string | null;
+  rate_plan_id?: string | null;
+  cancellation_policy_id?: string | null;
+  cancellation_reason?: string | null;
+  cancellation_penalty?: number | null;
   properties?: {
     name: string;
   };
+  rooms?: {
+    room_number: string;
+  } | null;
+  guests?: {
+    tags: string[];
+  } | null;
 }
 
 interface Property {
@@ -37,37 +72,75 @@ interface Property {
   name: string;
 }
 
+interface Room {
+  id: string;
+  property_id: string;
+  room_number: string;
+  room_type: string;
+}
+
 const ReservationManagement: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [reservations, setReservations] = useState<Reservation[]>([]);
   const [properties, setProperties] = useState<Property[]>([]);
+  const [rooms, setRooms] = useState<Room[]>([]);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [statusFilter, setStatusFilter] = useState('all');
   const [propertyFilter, setPropertyFilter] = useState('all');
+  const [selectedGuest, setSelectedGuest] = useState<Guest | null>(null);
+  const [drawerGuestId, setDrawerGuestId] = useState<string | null>(null);
+  const [balances, setBalances] = useState<Record<string, ReservationBalance>>({});
+  const [folioReservation, setFolioReservation] = useState<Reservation | null>(null);
+  const [cancellingReservation, setCancellingReservation] = useState<Reservation | null>(null);
+  const [messagesReservation, setMessagesReservation] = useState<Reservation | null>(null);
+  const [reviewingReservation, setReviewingReservation] = useState<Reservation | null>(null);
+  const [policies, setPolicies] = useState<CancellationPolicy[]>([]);
 
   const [formData, setFormData] = useState({
     property_id: '',
+    room_id: '',
+    guest_id: '',
     guest_name: '',
     guest_email: '',
     guest_phone: '',
     check_in: '',
     check_out: '',
     guests_count: 1,
+    child_ages: '',
     total_price: 0,
     status: 'confirmed',
     source: 'manual',
     notes: '',
     external_reservation_id: '',
+    rate_plan_id: '',
+    cancellation_policy_id: '',
   });
 
+  const { rates, total: quotedTotal, loading: quoting, error: quoteError } = useNightlyRates({
+    propertyId: formData.property_id,
+    roomId: formData.room_id,
+    ratePlanId: formData.rate_plan_id,
+    checkIn: formData.check_in,
+    checkOut: formData.check_out,
+  });
+
+  // Prefill the total of new reservations from the resolved nightly rates
+  useEffect(() => {
+    if (!selectedReservation && quotedTotal !== null) {
+      setFormData(prev => ({ ...prev, total_price: quotedTotal }));
+    }
+  }, [quotedTotal]);
+
   useEffect(() => {
     if (user) {
       fetchReservations();
       fetchProperties();
+      fetchRooms();
+      fetchPolicies();
     }
   }, [user]);
 
@@ -80,12 +153,19 @@ const ReservationManagement: React.FC = () => {
           *,
           properties (
             name
+          ),
+          rooms (
+            room_number
+          ),
+          guests (
+            tags
           )
         `)
         .order('check_in', { ascending: false });
 
       if (error) throw error;
       setReservations(data || []);
+      setBalances(await fetchBalances((data || []).map(r => r.id)));
     } catch (error: any) {
       toast({
         title: 'Error',
@@ -111,46 +191,125 @@ const ReservationManagement: React.FC = () => {
     }
   };
 
+  const fetchRooms = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('rooms')
+        .select('id, property_id, room_number, room_type')
+        .eq('is_active', true)
+        .order('room_number');
+
+      if (error) throw error;
+      setRooms(data || []);
+    } catch (error) {
+      console.error('Error fetching rooms:', error);
+    }
+  };
+
+  const fetchPolicies = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('cancellation_policies')
+        .select('*')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setPolicies(data || []);
+    } catch (error) {
+      console.error('Error fetching cancellation policies:', error);
+    }
+  };
+
   const resetForm = () => {
     setFormData({
       property_id: '',
+      room_id: '',
+      guest_id: '',
       guest_name: '',
       guest_email: '',
       guest_phone: '',
       check_in: '',
       check_out: '',
       guests_count: 1,
+      child_ages: '',
       total_price: 0,
       status: 'confirmed',
       source: 'manual',
       notes: '',
       external_reservation_id: '',
+      rate_plan_id: '',
+      cancellation_policy_id: '',
     });
     setSelectedReservation(null);
+    setSelectedGuest(null);
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const reservationData = {
+      ...formData,
+      room_id: formData.room_id || null,
+      // Without a chosen profile the database matches or creates one
+      guest_id: formData.guest_id || null,
+      child_ages: parseChildAges(formData.child_ages),
+      rate_plan_id: formData.rate_plan_id || null,
+      // New reservations without a policy get the property's default
+      cancellation_policy_id: formData.cancellation_policy_id || null,
+    };
+
+    // Cancelling goes through the policy dialog; everything else is saved first
+    const cancelling = !!selectedReservation
+      && selectedReservation.status !== 'cancelled'
+      && reservationData.status === 'cancelled';
+    if (cancelling) {
+      reservationData.status = selectedReservation.status;
+    }
+
     try {
+      const conflict = await fetchRoomConflict({ ...reservationData, id: selectedReservation?.id });
+      if (conflict) {
+        toast({
+          title: 'Room not available',
+          description: describeRoomConflict(conflict),
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const violations = await fetchRestrictionViolations(reservationData, selectedReservation);
+      if (violations.length > 0) {
+        toast({
+          title: 'Stay not allowed',
+          description: describeViolations(violations),
+          variant: 'destructive',
+        });
+        return;
+      }
+
       if (selectedReservation) {
         // Update existing reservation
         const { error } = await supabase
           .from('reservations')
-          .update(formData)
+          .update(reservationData)
           .eq('id', selectedReservation.id);
 
         if (error) throw error;
         
-        toast({
-          title: 'Success',
-          description: 'Reservation updated successfully',
-        });
+        if (!cancelling) {
+          toast({
+            title: 'Success',
+            description: 'Reservation updated successfully',
+          });
+        }
       } else {
         // Create new reservation
-        const { error } = await supabase
+        const { data: created, error } = await supabase
           .from('reservations')
-          .insert([formData]);
+          .insert([reservationData])
+          .select('id')
+          .single();
 
         if (error) throw error;
         
@@ -158,15 +317,36 @@ const ReservationManagement: React.FC = () => {
           title: 'Success',
           description: 'Reservation created successfully',
         });
+
+        if (reservationData.guest_email) {
+          sendConfirmation(created.id);
+        }
       }
       
+      if (cancelling) {
+        setCancellingReservation(selectedReservation);
+      }
       resetForm();
       setIsDialogOpen(false);
       fetchReservations();
     } catch (error: any) {
       toast({
         title: 'Error',
-        description: error.message,
+        description: getReservationErrorMessage(error),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  // The reservation is saved either way; only a failed send is reported
+  const sendConfirmation = async (reservationId: string) => {
+    try {
+      const result = await sendReservationMessage(reservationId, 'confirmation');
+      if (result.status === 'failed') throw new Error(result.error);
+    } catch (error) {
+      toast({
+        title: 'Confirmation email not sent',
+        description: (error as Error).message,
         variant: 'destructive',
       });
     }
@@ -176,21 +356,38 @@ const ReservationManagement: React.FC = () => {
     setSelectedReservation(reservation);
     setFormData({
       property_id: reservation.property_id,
+      room_id: reservation.room_id || '',
+      guest_id: reservation.guest_id || '',
       guest_name: reservation.guest_name,
       guest_email: reservation.guest_email || '',
       guest_phone: reservation.guest_phone || '',
       check_in: reservation.check_in,
       check_out: reservation.check_out,
       guests_count: reservation.guests_count,
+      child_ages: formatChildAges(reservation.child_ages),
       total_price: reservation.total_price,
       status: reservation.status,
       source: reservation.source,
       notes: reservation.notes || '',
       external_reservation_id: reservation.external_reservation_id || '',
+      rate_plan_id: reservation.rate_plan_id || '',
+      cancellation_policy_id: reservation.cancellation_policy_id || '',
     });
+    setSelectedGuest(null);
     setIsDialogOpen(true);
   };
 
+  const handleGuestSelect = (guest: Guest) => {
+    setSelectedGuest(guest);
+    setFormData(prev => ({
+      ...prev,
+      guest_id: guest.id,
+      guest_name: guest.full_name,
+      guest_email: guest.email || '',
+      guest_phone: guest.phone || '',
+    }));
+  };
+
   const handleDelete = async (reservationId: string) => {
     if (!confirm('Are you sure you want to delete this reservation?')) return;
 
@@ -296,7 +493,7 @@ const ReservationManagement: React.FC = () => {
                   <Label htmlFor="property_id">Property *</Label>
                   <Select
                     value={formData.property_id}
-                    onValueChange={(value) => setFormData({ ...formData, property_id: value })}
+                    onValueChange={(value) => setFormData({ ...formData, property_id: value, room_id: '', rate_plan_id: '', cancellation_policy_id: '' })}
                     required
                   >
                     <SelectTrigger>
@@ -312,6 +509,31 @@ const ReservationManagement: React.FC = () => {
                   </Select>
                 </div>
                 
+                <div className="space-y-2">
+                  <Label htmlFor="room_id">Room</Label>
+                  <Select
+                    value={formData.room_id || 'unassigned'}
+                    onValueChange={(value) => setFormData({ ...formData, room_id: value === 'unassigned' ? '' : value })}
+                    disabled={!formData.property_id}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder="Select a room" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="unassigned">Not assigned</SelectItem>
+                      {rooms
+                        .filter(room => room.property_id === formData.property_id)
+                        .map((room) => (
+                          <SelectItem key={room.id} value={room.id}>
+                            {room.room_number} ({room.room_type})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-3 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="status">Status</Label>
                   <Select
@@ -322,11 +544,41 @@ const ReservationManagement: React.FC = () => {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="confirmed">Confirmed</SelectItem>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="cancelled">Cancelled</SelectItem>
-                      <SelectItem value="checked_in">Checked In</SelectItem>
-                      <SelectItem value="checked_out">Checked Out</SelectItem>
+                      {statusOptions(selectedReservation?.status).map(status => (
+                        <SelectItem key={status} value={status}>{RESERVATION_STATUSES[status] ?? status}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <RatePlanSelect
+                  propertyId={formData.property_id}
+                  roomType={rooms.find(room => room.id === formData.room_id)?.room_type}
+                  value={formData.rate_plan_id}
+                  onChange={(ratePlanId) => setFormData({ ...formData, rate_plan_id: ratePlanId })}
+                />
+
+                <div className="space-y-2">
+                  <Label htmlFor="cancellation_policy_id">Cancellation Policy</Label>
+                  <Select
+                    value={formData.cancellation_policy_id || 'default'}
+                    onValueChange={(value) => setFormData({ ...formData, cancellation_policy_id: value === 'default' ? '' : value })}
+                    disabled={!formData.property_id}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="default">
+                        {selectedReservation ? 'None' : 'Default'}
+                      </SelectItem>
+                      {policies
+                        .filter(policy => policy.property_id === formData.property_id)
+                        .map((policy) => (
+                          <SelectItem key={policy.id} value={policy.id}>
+                            {policy.name}
+                          </SelectItem>
+                        ))}
                     </SelectContent>
                   </Select>
                 </div>
@@ -335,10 +587,20 @@ const ReservationManagement: React.FC = () => {
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="guest_name">Guest Name *</Label>
-                  <Input
+                  <GuestAutocomplete
                     id="guest_name"
                     value={formData.guest_name}
-                    onChange={(e) => setFormData({ ...formData, guest_name: e.target.value })}
+                    onChange={(name) => {
+                      // Typing a new name on a new reservation drops the picked profile;
+                      // existing reservations keep their link
+                      if (!selectedReservation) setSelectedGuest(null);
+                      setFormData(prev => ({
+                        ...prev,
+                        guest_name: name,
+                        guest_id: selectedReservation ? prev.guest_id : '',
+                      }));
+                    }}
+                    onSelect={handleGuestSelect}
                     required
                   />
                 </div>
@@ -354,7 +616,24 @@ const ReservationManagement: React.FC = () => {
                   />
                 </div>
               </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="child_ages">Children's Ages</Label>
+                <Input
+                  id="child_ages"
+                  value={formData.child_ages}
+                  onChange={(e) => setFormData({ ...formData, child_ages: e.target.value })}
+                  placeholder="e.g. 4, 11 (children are included in the number of guests)"
+                />
+              </div>
               
+              {isBlacklisted(selectedGuest) && (
+                <div className="flex items-start gap-2 rounded-md border border-destructive/50 bg-destructive/10 p-3 text-sm text-destructive">
+                  <AlertTriangle className="h-4 w-4 mt-0.5" />
+                  <span>{selectedGuest?.full_name} is blacklisted.{selectedGuest?.notes ? ` ${selectedGuest.notes}` : ''}</span>
+                </div>
+              )}
+
               <div className="grid grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="guest_email">Email</Label>
@@ -432,6 +711,13 @@ const ReservationManagement: React.FC = () => {
                   </Select>
                 </div>
               </div>
+
+              <NightlyRateBreakdown
+                rates={rates}
+                loading={quoting}
+                error={quoteError}
+                onApply={(total) => setFormData({ ...formData, total_price: total })}
+              />
               
               <div className="space-y-2">
                 <Label htmlFor="external_reservation_id">External Reservation ID</Label>
@@ -552,7 +838,24 @@ const ReservationManagement: React.FC = () => {
                 <div className="flex-1 grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
                     <div className="flex items-center space-x-2 mb-1">
-                      <h4 className="font-medium">{reservation.guest_name}</h4>
+                      {reservation.guest_id ? (
+                        <button
+                          type="button"
+                          className="font-medium hover:underline"
+                          onClick={() => setDrawerGuestId(reservation.guest_id!)}
+                        >
+                          {reservation.guest_name}
+                        </button>
+                      ) : (
+                        <h4 className="font-medium">{reservation.guest_name}</h4>
+                      )}
+                      {reservation.guests?.tags
+                        .filter(tag => tag === 'vip' || tag === 'blacklist')
+                        .map(tag => (
+                          <Badge key={tag} variant="outline" className={getGuestTag(tag).className}>
+                            {getGuestTag(tag).label}
+                          </Badge>
+                        ))}
                       <Badge className={getStatusColor(reservation.status)}>
                         {reservation.status}
                       </Badge>
@@ -562,7 +865,15 @@ const ReservationManagement: React.FC = () => {
                     </div>
                     <div className="text-sm text-muted-foreground">
                       {reservation.properties?.name}
+                      {reservation.rooms?.room_number && ` • Room ${reservation.rooms.room_number}`}
                     </div>
+                    {reservation.status === 'cancelled' && (reservation.cancellation_reason || !!reservation.cancellation_penalty) && (
+                      <div className="text-sm text-muted-foreground">
+                        {reservation.cancellation_reason}
+                        {reservation.cancellation_reason && !!reservation.cancellation_penalty && ' • '}
+                        {!!reservation.cancellation_penalty && `${formatMoney(reservation.cancellation_penalty)} cancellation fee`}
+                      </div>
+                    )}
                   </div>
                   
                   <div>
@@ -593,6 +904,11 @@ const ReservationManagement: React.FC = () => {
                     <div className="font-medium text-lg">
                       ${reservation.total_price}
                     </div>
+                    {hasOutstandingBalance(balances[reservation.id]) && (
+                      <div className="text-sm font-medium text-destructive">
+                        {formatMoney(balances[reservation.id].balance)} due
+                      </div>
+                    )}
                     <div className="flex items-center text-sm text-muted-foreground">
                       <Users className="mr-1 h-3 w-3" />
                       {reservation.guests_count} guests
@@ -601,6 +917,46 @@ const ReservationManagement: React.FC = () => {
                 </div>
                 
                 <div className="flex items-center space-x-2">
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    title="Folio"
+                    onClick={() => setFolioReservation(reservation)}
+                  >
+                    <Receipt className="h-3 w-3" />
+                  </Button>
+
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    title="Messages"
+                    onClick={() => setMessagesReservation(reservation)}
+                  >
+                    <Mail className="h-3 w-3" />
+                  </Button>
+
+                  {reservation.status === 'checked_out' && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Guest review"
+                      onClick={() => setReviewingReservation(reservation)}
+                    >
+                      <Star className="h-3 w-3" />
+                    </Button>
+                  )}
+
+                  {(reservation.status === 'pending' || reservation.status === 'confirmed') && (
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      title="Cancel reservation"
+                      onClick={() => setCancellingReservation(reservation)}
+                    >
+                      <CalendarX className="h-3 w-3" />
+                    </Button>
+                  )}
+
                   <Button
                     size="sm"
                     variant="outline"
@@ -642,6 +998,34 @@ const ReservationManagement: React.FC = () => {
           </div>
         </CardContent>
       </Card>
+
+      <GuestDetailDrawer
+        guestId={drawerGuestId}
+        onClose={() => setDrawerGuestId(null)}
+        onUpdated={fetchReservations}
+      />
+
+      <ReservationFolio
+        reservation={folioReservation}
+        onClose={() => setFolioReservation(null)}
+        onChanged={fetchReservations}
+      />
+
+      <ReservationMessages
+        reservation={messagesReservation}
+        onClose={() => setMessagesReservation(null)}
+      />
+
+      <CancelReservationDialog
+        reservation={cancellingReservation}
+        onClose={() => setCancellingReservation(null)}
+        onCancelled={fetchReservations}
+      />
+
+      <GuestReviewDialog
+        reservation={reviewingReservation}
+        onClose={() => setReviewingReservation(null)}
+      />
     </div>
   );
 };
@@ -0,0 +1,223 @@
+import React, { useEffect, useState } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Clock, Send } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  MESSAGE_EVENTS,
+  MessageEvent,
+  MessageLogEntry,
+  ScheduledMessage,
+  fetchMessageLog,
+  fetchUpcomingMessages,
+  messageEventLabel,
+  sendReservationMessage,
+  setMessagesOptOut,
+} from '@/lib/messaging';
+
+export interface MessagingReservation {
+  id: string;
+  property_id: string;
+  guest_name: string;
+  guest_email?: string | null;
+}
+
+interface ReservationMessagesProps {
+  reservation: MessagingReservation | null;
+  onClose: () => void;
+}
+
+// Emails sent about one reservation, newest first, the automated ones still
+// to come, and a way to send one now
+const ReservationMessages: React.FC<ReservationMessagesProps> = ({ reservation, onClose }) => {
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [log, setLog] = useState<MessageLogEntry[]>([]);
+  const [upcoming, setUpcoming] = useState<ScheduledMessage[]>([]);
+  const [optOut, setOptOut] = useState(false);
+  const [loading, setLoading] = useState(false);
+  const [event, setEvent] = useState<MessageEvent>('confirmation');
+  const [sending, setSending] = useState(false);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  useEffect(() => {
+    setExpandedId(null);
+    if (reservation) {
+      fetchLog(reservation.id);
+    } else {
+      setLog([]);
+      setUpcoming([]);
+    }
+  }, [reservation?.id]);
+
+  const fetchLog = async (reservationId: string) => {
+    try {
+      setLoading(true);
+      const [logData, upcomingData, { data, error }] = await Promise.all([
+        fetchMessageLog(reservationId),
+        fetchUpcomingMessages([reservationId]),
+        supabase
+          .from('reservations')
+          .select('messages_opt_out')
+          .eq('id', reservationId)
+          .single(),
+      ]);
+
+      if (error) throw error;
+      setLog(logData);
+      setUpcoming(upcomingData);
+      setOptOut(data.messages_opt_out);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSend = async () => {
+    if (!reservation) return;
+
+    try {
+      setSending(true);
+      const result = await sendReservationMessage(reservation.id, event);
+      toast({
+        title: result.status === 'sent' ? "Email sent" : "Email not sent",
+        description: result.status === 'sent' ? `Sent to ${reservation.guest_email}` : result.error,
+        variant: result.status === 'failed' ? "destructive" : "default",
+      });
+      fetchLog(reservation.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSending(false);
+    }
+  };
+
+  const handleOptOut = async (checked: boolean) => {
+    if (!reservation) return;
+
+    try {
+      await setMessagesOptOut(reservation.id, checked);
+      fetchLog(reservation.id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const canSend = !!reservation?.guest_email && can('edit_reservations', reservation.property_id);
+
+  return (
+    <Dialog open={!!reservation} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Messages — {reservation?.guest_name}</DialogTitle>
+          <DialogDescription>
+            {reservation?.guest_email || 'No email address on this reservation, so nothing can be sent to the guest.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {canSend && (
+          <div className="flex gap-2">
+            <Select value={event} onValueChange={(value) => setEvent(value as MessageEvent)}>
+              <SelectTrigger className="flex-1">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {MESSAGE_EVENTS.map(e => (
+                  <SelectItem key={e.value} value={e.value}>{e.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleSend} disabled={sending}>
+              <Send className="mr-2 h-4 w-4" />
+              {sending ? 'Sending...' : 'Send'}
+            </Button>
+          </div>
+        )}
+
+        {canSend && (
+          <div className="flex items-center justify-between">
+            <div>
+              <Label htmlFor="messages_opt_out">Opt out of automated messages</Label>
+              <p className="text-xs text-muted-foreground">Messages sent by hand still go out</p>
+            </div>
+            <Switch id="messages_opt_out" checked={optOut} onCheckedChange={handleOptOut} />
+          </div>
+        )}
+
+        {!loading && upcoming.length > 0 && (
+          <div className="space-y-2">
+            <h4 className="text-sm font-medium">Upcoming</h4>
+            {upcoming.map(message => (
+              <div key={message.id} className="flex items-center justify-between p-3 border border-dashed border-border rounded-lg text-sm">
+                <span>{messageEventLabel(message.event)}</span>
+                <span className="flex items-center text-muted-foreground">
+                  <Clock className="mr-1 h-3 w-3" />
+                  {format(parseISO(message.send_at), 'MMM d, yyyy HH:mm')}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-2">
+            {log.map(entry => (
+              <div key={entry.id} className="p-3 border border-border rounded-lg">
+                <button
+                  type="button"
+                  className="w-full text-left"
+                  onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="font-medium">{messageEventLabel(entry.event)}</span>
+                    <Badge variant={entry.status === 'sent' ? 'default' : 'destructive'}>{entry.status}</Badge>
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {format(parseISO(entry.created_at), 'MMM d, yyyy HH:mm')} · {entry.recipient}
+                  </div>
+                  {entry.error && <div className="text-sm text-destructive">{entry.error}</div>}
+                </button>
+                {expandedId === entry.id && (
+                  <div className="mt-3 pt-3 border-t border-border space-y-2 text-sm">
+                    <div className="font-medium">{entry.subject}</div>
+                    <div className="whitespace-pre-wrap text-muted-foreground">{entry.body}</div>
+                  </div>
+                )}
+              </div>
+            ))}
+
+            {log.length === 0 && (
+              <p className="text-sm text-muted-foreground text-center py-4">No messages sent yet</p>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ReservationMessages;
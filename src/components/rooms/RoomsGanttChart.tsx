@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { useAuth } from '@/contexts/AuthContext';
 import { Button } from '@/components/ui/button';
@@ -10,6 +10,7 @@ import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/u
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Textarea } from '@/components/ui/textarea';
 import { useToast } from '@/components/ui/use-toast';
+import { ToastAction } from '@/components/ui/toast';
 import { 
   Calendar, 
   Clock, 
@@ -23,9 +24,49 @@ import {
   Edit,
   Trash2,
   Users,
-  Building2
+  Building2,
+  Ban,
+  Receipt
 } from 'lucide-react';
-import { format, addDays, startOfDay, isWithinInterval, parseISO } from 'date-fns';
+import {
+  format,
+  addDays,
+  addMonths,
+  startOfDay,
+  startOfMonth,
+  getDaysInMonth,
+  parseISO,
+  differenceInCalendarDays,
+} from 'date-fns';
+import {
+  RESERVATION_STATUSES,
+  StayDragMode,
+  StayRange,
+  blocksRoom,
+  describeRoomConflict,
+  dragStayDates,
+  fetchRoomConflict,
+  findRoomConflict,
+  getReservationErrorMessage,
+  isNightInStay,
+  saveStayChange,
+  statusOptions,
+} from '@/lib/reservations';
+import NightlyRateBreakdown from '@/components/pricing/NightlyRateBreakdown';
+import { useNightlyRates } from '@/hooks/use-nightly-rates';
+import RatePlanSelect from '@/components/pricing/RatePlanSelect';
+import { describeViolations, fetchRestrictionViolations } from '@/lib/rate-plans';
+import { HousekeepingStatus, getHousekeepingStatus } from '@/lib/housekeeping';
+import {
+  OutOfOrderBlock,
+  describeOutOfOrder,
+  fetchOutOfOrderBlocks,
+  findOutOfOrderConflict,
+  isRoomOutOfOrder,
+} from '@/lib/maintenance';
+import ReservationFolio from '@/components/reservations/ReservationFolio';
+import CancelReservationDialog from '@/components/reservations/CancelReservationDialog';
+import { ReservationBalance, fetchBalances, formatMoney, hasOutstandingBalance } from '@/lib/folio';
 
 interface Room {
   id: string;
@@ -35,6 +76,7 @@ interface Room {
   max_guests: number;
   base_price: number;
   is_active: boolean;
+  housekeeping_status: HousekeepingStatus;
   properties?: {
     name: string;
   };
@@ -54,6 +96,7 @@ interface Reservation {
   status: string;
   source: string;
   notes?: string;
+  rate_plan_id?: string | null;
 }
 
 interface Property {
@@ -61,17 +104,73 @@ interface Property {
   name: string;
 }
 
+// A reservation bar being dragged; `days` and `roomId` follow the pointer
+interface DragState {
+  reservation: Reservation;
+  mode: StayDragMode;
+  startX: number;
+  startY: number;
+  days: number;
+  roomId: string;
+  moved: boolean;
+}
+
+type ZoomLevel = '7' | '14' | '30' | '90' | 'month';
+
+const ZOOM_LEVELS: { value: ZoomLevel; label: string }[] = [
+  { value: '7', label: '7 days' },
+  { value: '14', label: '14 days' },
+  { value: '30', label: '30 days' },
+  { value: '90', label: '90 days' },
+  { value: 'month', label: 'Month' },
+];
+
+// Only the rows and day columns in view are rendered, so the chart is laid
+// out on a fixed grid. Day columns are sized to fit the zoom level on screen.
+const ROOM_COLUMN_WIDTH = 192;
+const HEADER_HEIGHT = 64;
+const ROW_HEIGHT = 80;
+const MIN_CELL_WIDTH = 24;
+const OVERSCAN = 4;
+// The timeline grows as the user scrolls right, up to about a year
+const MAX_TIMELINE_DAYS = 366;
+// Pointer travel below this is a click that opens the reservation
+const DRAG_THRESHOLD = 4;
+
+// Indexes of the items of `size` pixels that are visible in [offset, offset + length)
+const visibleRange = (offset: number, length: number, size: number, count: number) => ({
+  first: Math.max(0, Math.floor(offset / size) - OVERSCAN),
+  last: Math.min(count, Math.ceil((offset + length) / size) + OVERSCAN),
+});
+
+const mergeById = <T extends { id: string }>(current: T[], loaded: T[]) => {
+  const byId = new Map(current.map(item => [item.id, item]));
+  loaded.forEach(item => byId.set(item.id, item));
+  return Array.from(byId.values());
+};
+
 const RoomsGanttChart: React.FC = () => {
   const { user } = useAuth();
   const { toast } = useToast();
   const [rooms, setRooms] = useState<Room[]>([]);
   const [reservations, setReservations] = useState<Reservation[]>([]);
+  const [outOfOrderBlocks, setOutOfOrderBlocks] = useState<OutOfOrderBlock[]>([]);
+  const [balances, setBalances] = useState<Record<string, ReservationBalance>>({});
+  const [folioReservation, setFolioReservation] = useState<Reservation | null>(null);
+  const [cancellingReservation, setCancellingReservation] = useState<Reservation | null>(null);
   const [properties, setProperties] = useState<Property[]>([]);
   const [loading, setLoading] = useState(true);
   const [selectedCell, setSelectedCell] = useState<{ roomId: string; date: string } | null>(null);
   const [selectedReservation, setSelectedReservation] = useState<Reservation | null>(null);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
-  const [currentDate, setCurrentDate] = useState(new Date());
+  const [currentDate, setCurrentDate] = useState(() => startOfDay(new Date()));
+  const [zoom, setZoom] = useState<ZoomLevel>('14');
+  const [timelineDays, setTimelineDays] = useState(28);
+  const [scroller, setScroller] = useState<HTMLDivElement | null>(null);
+  const [viewport, setViewport] = useState({ top: 0, left: 0, width: 0, height: 0 });
+  const extendingRef = useRef(false);
+  const [drag, setDrag] = useState<DragState | null>(null);
+  const [restrictionCheck, setRestrictionCheck] = useState<{ key: string; message: string | null } | null>(null);
 
   const [formData, setFormData] = useState({
     property_id: '',
@@ -86,10 +185,29 @@ const RoomsGanttChart: React.FC = () => {
     status: 'confirmed',
     source: 'manual',
     notes: '',
+    rate_plan_id: '',
+  });
+
+  const { rates, total: quotedTotal, loading: quoting, error: quoteError } = useNightlyRates({
+    propertyId: formData.property_id,
+    roomId: formData.room_id,
+    ratePlanId: formData.rate_plan_id,
+    checkIn: formData.check_in,
+    checkOut: formData.check_out,
   });
 
-  // Generate date range for next 14 days
-  const dateRange = Array.from({ length: 14 }, (_, i) => {
+  // Prefill the total of new reservations from the resolved nightly rates
+  useEffect(() => {
+    if (!selectedReservation && quotedTotal !== null) {
+      setFormData(prev => ({ ...prev, total_price: quotedTotal }));
+    }
+  }, [quotedTotal]);
+
+  const horizonDays = zoom === 'month' ? getDaysInMonth(currentDate) : Number(zoom);
+  const cellWidth = Math.max(MIN_CELL_WIDTH, Math.floor((viewport.width - ROOM_COLUMN_WIDTH) / horizonDays));
+
+  // Every loaded day of the timeline; only the visible ones are rendered
+  const dateRange = Array.from({ length: timelineDays }, (_, i) => {
     const date = addDays(currentDate, i);
     return {
       date,
@@ -100,21 +218,66 @@ const RoomsGanttChart: React.FC = () => {
     };
   });
 
+  // Reservations that hold a room, by room, for the cell and bar lookups
+  const staysByRoom = new Map<string, Reservation[]>();
+  reservations.forEach(reservation => {
+    if (!blocksRoom(reservation)) return;
+    const stays = staysByRoom.get(reservation.room_id!) || [];
+    stays.push(reservation);
+    staysByRoom.set(reservation.room_id!, stays);
+  });
+
+  // Navigating or zooming starts a new timeline from the left edge
   useEffect(() => {
     if (user) {
-      fetchData();
+      fetchData(horizonDays * 2);
+      scroller?.scrollTo({ left: 0 });
     }
-  }, [user, currentDate]);
+  }, [user, currentDate, zoom]);
+
+  useEffect(() => {
+    if (!scroller) return;
+
+    const measure = () => setViewport({
+      top: scroller.scrollTop,
+      left: scroller.scrollLeft,
+      width: scroller.clientWidth,
+      height: scroller.clientHeight,
+    });
+
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(scroller);
+    return () => observer.disconnect();
+  }, [scroller]);
+
+  // Reservations with their balances and the out-of-order blocks touching [from, to)
+  const fetchStays = async (propertyIds: string[], from: string, to: string) => {
+    const { data, error } = await supabase
+      .from('reservations')
+      .select('*')
+      .in('property_id', propertyIds)
+      .gte('check_out', from)
+      .lte('check_in', to);
+
+    if (error) throw error;
+
+    const [stayBalances, blocks] = await Promise.all([
+      fetchBalances((data || []).map(r => r.id)),
+      fetchOutOfOrderBlocks(propertyIds, from, to),
+    ]);
+
+    return { stays: data || [], stayBalances, blocks };
+  };
 
-  const fetchData = async () => {
+  // Reloads everything for the first `days` days of the timeline. Refreshes
+  // after an edit keep the days that have already been scrolled into view.
+  const fetchData = async (days = timelineDays) => {
     try {
-      setLoading(true);
-      
       // Fetch properties first
       const { data: propertiesData, error: propertiesError } = await supabase
         .from('properties')
         .select('id, name')
-        .eq('owner_id', user!.id)
         .eq('is_active', true);
       
       if (propertiesError) throw propertiesError;
@@ -143,20 +306,16 @@ const RoomsGanttChart: React.FC = () => {
       if (roomsError) throw roomsError;
       setRooms(roomsData || []);
       
-      // Fetch reservations for the date range
-      const startDate = format(currentDate, 'yyyy-MM-dd');
-      const endDate = format(addDays(currentDate, 14), 'yyyy-MM-dd');
-      
-      const { data: reservationsData, error: reservationsError } = await supabase
-        .from('reservations')
-        .select('*')
-        .in('property_id', propertyIds)
-        .gte('check_out', startDate)
-        .lte('check_in', endDate);
-      
-      if (reservationsError) throw reservationsError;
-      setReservations(reservationsData || []);
-      
+      const { stays, stayBalances, blocks } = await fetchStays(
+        propertyIds,
+        format(currentDate, 'yyyy-MM-dd'),
+        format(addDays(currentDate, days), 'yyyy-MM-dd'),
+      );
+
+      setReservations(stays);
+      setBalances(stayBalances);
+      setOutOfOrderBlocks(blocks);
+      setTimelineDays(days);
     } catch (error: any) {
       console.error('Error fetching data:', error);
       toast({
@@ -169,83 +328,373 @@ const RoomsGanttChart: React.FC = () => {
     }
   };
 
+  // Loads the next stretch of days once the user scrolls close to the end
+  const extendTimeline = async () => {
+    if (extendingRef.current || timelineDays >= MAX_TIMELINE_DAYS || properties.length === 0) return;
+    extendingRef.current = true;
+
+    try {
+      const days = Math.min(horizonDays, MAX_TIMELINE_DAYS - timelineDays);
+      const { stays, stayBalances, blocks } = await fetchStays(
+        properties.map(p => p.id),
+        format(addDays(currentDate, timelineDays), 'yyyy-MM-dd'),
+        format(addDays(currentDate, timelineDays + days), 'yyyy-MM-dd'),
+      );
+
+      setReservations(prev => mergeById(prev, stays));
+      setBalances(prev => ({ ...prev, ...stayBalances }));
+      setOutOfOrderBlocks(prev => mergeById(prev, blocks));
+      setTimelineDays(timelineDays + days);
+    } catch (error) {
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    } finally {
+      extendingRef.current = false;
+    }
+  };
+
+  const handleScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    const el = e.currentTarget;
+    setViewport({ top: el.scrollTop, left: el.scrollLeft, width: el.clientWidth, height: el.clientHeight });
+
+    if (el.scrollLeft + el.clientWidth > el.scrollWidth - (horizonDays * cellWidth) / 2) {
+      extendTimeline();
+    }
+  };
+
   const handleCellClick = (roomId: string, dateStr: string) => {
     const existingReservation = getReservationForCell(roomId, dateStr);
+    const block = existingReservation ? null : getOutOfOrderForCell(roomId, dateStr);
+
+    if (block) {
+      toast({
+        title: 'Room out of order',
+        description: describeOutOfOrder(block),
+      });
+      return;
+    }
     
     if (existingReservation) {
-      // Edit existing reservation
-      setSelectedReservation(existingReservation);
-      setFormData({
-        property_id: existingReservation.property_id,
-        room_id: existingReservation.room_id || '',
-        guest_name: existingReservation.guest_name,
-        guest_email: existingReservation.guest_email || '',
-        guest_phone: existingReservation.guest_phone || '',
-        check_in: existingReservation.check_in,
-        check_out: existingReservation.check_out,
-        guests_count: existingReservation.guests_count,
-        total_price: existingReservation.total_price,
-        status: existingReservation.status,
-        source: existingReservation.source,
-        notes: existingReservation.notes || '',
-      });
-    } else {
-      // Create new reservation
-      const room = rooms.find(r => r.id === roomId);
-      const nextDay = format(addDays(new Date(dateStr), 1), 'yyyy-MM-dd');
-      
-      setSelectedReservation(null);
-      setFormData({
-        property_id: room?.property_id || '',
-        room_id: roomId,
-        guest_name: '',
-        guest_email: '',
-        guest_phone: '',
-        check_in: dateStr,
-        check_out: nextDay,
-        guests_count: 1,
-        total_price: room?.base_price || 0,
-        status: 'confirmed',
-        source: 'manual',
-        notes: '',
-      });
+      openReservation(existingReservation);
+      return;
     }
+
+    // Create new reservation
+    const room = rooms.find(r => r.id === roomId);
+    const nextDay = format(addDays(parseISO(dateStr), 1), 'yyyy-MM-dd');
+    
+    setSelectedReservation(null);
+    setFormData({
+      property_id: room?.property_id || '',
+      room_id: roomId,
+      guest_name: '',
+      guest_email: '',
+      guest_phone: '',
+      check_in: dateStr,
+      check_out: nextDay,
+      guests_count: 1,
+      total_price: room?.base_price || 0,
+      status: 'confirmed',
+      source: 'manual',
+      notes: '',
+      rate_plan_id: '',
+    });
     
     setIsDialogOpen(true);
   };
 
-  const getReservationForCell = (roomId: string, dateStr: string): Reservation | null => {
-    const date = new Date(dateStr);
-    return reservations.find(reservation => {
-      if (reservation.room_id !== roomId) return false;
-      const checkIn = parseISO(reservation.check_in);
-      const checkOut = parseISO(reservation.check_out);
-      return isWithinInterval(date, { start: checkIn, end: checkOut });
-    }) || null;
+  const openReservation = (reservation: Reservation) => {
+    setSelectedReservation(reservation);
+    setFormData({
+      property_id: reservation.property_id,
+      room_id: reservation.room_id || '',
+      guest_name: reservation.guest_name,
+      guest_email: reservation.guest_email || '',
+      guest_phone: reservation.guest_phone || '',
+      check_in: reservation.check_in,
+      check_out: reservation.check_out,
+      guests_count: reservation.guests_count,
+      total_price: reservation.total_price,
+      status: reservation.status,
+      source: reservation.source,
+      notes: reservation.notes || '',
+      rate_plan_id: reservation.rate_plan_id || '',
+    });
+    setIsDialogOpen(true);
+  };
+
+  const getReservationForCell = (roomId: string, dateStr: string): Reservation | null =>
+    (staysByRoom.get(roomId) || []).find(reservation => isNightInStay(reservation, dateStr)) || null;
+
+  const getOutOfOrderForCell = (roomId: string, dateStr: string): OutOfOrderBlock | null =>
+    outOfOrderBlocks.find(block => isRoomOutOfOrder(block, roomId, dateStr)) || null;
+
+  const getDragCandidate = (state: DragState): Reservation => ({
+    ...state.reservation,
+    room_id: state.roomId,
+    ...dragStayDates(state.reservation, state.mode, state.days),
+  });
+
+  // Problems that can be spotted from the loaded data while dragging;
+  // restrictions are checked on the server as the target changes
+  const getMoveProblem = (original: Reservation, candidate: Reservation): string | null => {
+    const room = rooms.find(r => r.id === candidate.room_id);
+    if (!room || room.property_id !== original.property_id) {
+      return 'Reservations can only be moved to a room of the same property.';
+    }
+    if (original.status === 'checked_in' && candidate.check_in !== original.check_in) {
+      return 'The guest has already checked in, so the arrival date cannot change.';
+    }
+
+    const block = findOutOfOrderConflict(candidate, outOfOrderBlocks);
+    if (block) return describeOutOfOrder(block);
+
+    const conflict = findRoomConflict(candidate, reservations);
+    if (conflict) return describeRoomConflict(conflict);
+
+    return null;
+  };
+
+  const describeStay = (stay: Reservation) => {
+    const room = rooms.find(r => r.id === stay.room_id);
+    return `${stay.guest_name}: room ${room?.room_number ?? '—'}, ${format(parseISO(stay.check_in), 'MMM d')} – ${format(parseISO(stay.check_out), 'MMM d')}`;
+  };
+
+  const setStayFields = (stay: Reservation) =>
+    setReservations(prev => prev.map(r => (r.id === stay.id
+      ? { ...r, room_id: stay.room_id, check_in: stay.check_in, check_out: stay.check_out, total_price: stay.total_price }
+      : r)));
+
+  // Shows the change straight away and puts the reservation back if the
+  // server rejects it. Undo restores the previous stay the same way.
+  const applyStayChange = async (from: Reservation, to: Reservation, undoable: boolean) => {
+    setStayFields(to);
+
+    try {
+      const totalPrice = await saveStayChange(from, to, { checkRestrictions: undoable });
+      const saved = { ...to, total_price: totalPrice ?? to.total_price };
+      setStayFields(saved);
+
+      if (undoable) {
+        const repriced = saved.total_price !== from.total_price;
+        toast({
+          title: 'Reservation moved',
+          description: repriced
+            ? `${describeStay(saved)}. New total ${formatMoney(saved.total_price)}`
+            : describeStay(saved),
+          action: (
+            <ToastAction altText="Undo the move" onClick={() => applyStayChange(saved, from, false)}>
+              Undo
+            </ToastAction>
+          ),
+        });
+      } else {
+        toast({ title: 'Move undone', description: describeStay(to) });
+      }
+    } catch (error) {
+      setStayFields(from);
+      toast({
+        title: 'Error',
+        description: (error as Error).message,
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const handleDrop = (state: DragState) => {
+    const original = state.reservation;
+    const candidate = getDragCandidate(state);
+    if (
+      candidate.room_id === original.room_id &&
+      candidate.check_in === original.check_in &&
+      candidate.check_out === original.check_out
+    ) return;
+
+    const problem = getMoveProblem(original, candidate);
+    if (problem) {
+      toast({
+        title: 'Cannot move reservation',
+        description: problem,
+        variant: 'destructive',
+      });
+      return;
+    }
+
+    applyStayChange(original, candidate, true);
+  };
+
+  const startDrag = (reservation: Reservation, mode: StayDragMode) => (e: React.PointerEvent) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    e.stopPropagation();
+    setDrag({
+      reservation,
+      mode,
+      startX: e.clientX,
+      startY: e.clientY,
+      days: 0,
+      roomId: reservation.room_id || '',
+      moved: false,
+    });
+  };
+
+  // Follow the pointer over the whole window so a drag can leave the bar
+  useEffect(() => {
+    if (!drag) return;
+
+    const handleMove = (e: PointerEvent) => {
+      const moved = drag.moved
+        || Math.abs(e.clientX - drag.startX) > DRAG_THRESHOLD
+        || Math.abs(e.clientY - drag.startY) > DRAG_THRESHOLD;
+      const days = Math.round((e.clientX - drag.startX) / cellWidth);
+      const row = drag.mode === 'move'
+        ? document.elementFromPoint(e.clientX, e.clientY)?.closest<HTMLElement>('[data-room-id]')
+        : null;
+      const roomId = row?.dataset.roomId ?? drag.roomId;
+
+      if (moved !== drag.moved || days !== drag.days || roomId !== drag.roomId) {
+        setDrag({ ...drag, moved, days, roomId });
+      }
+    };
+
+    const handleUp = () => {
+      setDrag(null);
+      if (drag.moved) {
+        handleDrop(drag);
+      } else {
+        openReservation(drag.reservation);
+      }
+    };
+
+    window.addEventListener('pointermove', handleMove);
+    window.addEventListener('pointerup', handleUp);
+    return () => {
+      window.removeEventListener('pointermove', handleMove);
+      window.removeEventListener('pointerup', handleUp);
+    };
+  }, [drag]);
+
+  const dragCandidate = drag?.moved ? getDragCandidate(drag) : null;
+  const dragKey = dragCandidate
+    ? `${dragCandidate.id}|${dragCandidate.room_id}|${dragCandidate.check_in}|${dragCandidate.check_out}`
+    : '';
+
+  useEffect(() => {
+    if (!drag || !dragCandidate) return;
+
+    let cancelled = false;
+    fetchRestrictionViolations(dragCandidate, drag.reservation)
+      .then((violations) => {
+        if (!cancelled) {
+          setRestrictionCheck({ key: dragKey, message: violations.length > 0 ? describeViolations(violations) : null });
+        }
+      })
+      .catch((err) => console.error('Error checking restrictions:', err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [dragKey]);
+
+  const dragProblem = drag && dragCandidate
+    ? getMoveProblem(drag.reservation, dragCandidate)
+      || (restrictionCheck?.key === dragKey ? restrictionCheck.message : null)
+    : null;
+
+  const rows = visibleRange(viewport.top, viewport.height - HEADER_HEIGHT, ROW_HEIGHT, rooms.length);
+  const columns = visibleRange(viewport.left, viewport.width - ROOM_COLUMN_WIDTH, cellWidth, timelineDays);
+
+  // Horizontal placement of a stay within the rendered days, or null when
+  // none of its nights are on screen
+  const getBarPosition = (stay: StayRange) => {
+    const start = differenceInCalendarDays(parseISO(stay.check_in), currentDate);
+    const end = differenceInCalendarDays(parseISO(stay.check_out), currentDate);
+    const first = Math.max(start, columns.first);
+    const last = Math.min(end, columns.last);
+    if (last <= first) return null;
+
+    return {
+      left: first * cellWidth + 2,
+      width: (last - first) * cellWidth - 4,
+      startVisible: start >= columns.first,
+      endVisible: end <= columns.last,
+    };
   };
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
+    const reservationData = {
+      ...formData,
+      room_id: formData.room_id || null,
+      rate_plan_id: formData.rate_plan_id || null,
+    };
+
+    // Cancelling goes through the policy dialog; everything else is saved first
+    const cancelling = !!selectedReservation
+      && selectedReservation.status !== 'cancelled'
+      && reservationData.status === 'cancelled';
+    if (cancelling) {
+      reservationData.status = selectedReservation.status;
+    }
+    const candidate = { ...reservationData, id: selectedReservation?.id };
+
+    const block = findOutOfOrderConflict(candidate, outOfOrderBlocks);
+    if (block) {
+      toast({
+        title: 'Room not available',
+        description: describeOutOfOrder(block),
+        variant: 'destructive',
+      });
+      return;
+    }
+
     try {
+      const conflict = findRoomConflict(candidate, reservations) || await fetchRoomConflict(candidate);
+      if (conflict) {
+        toast({
+          title: 'Room not available',
+          description: describeRoomConflict(conflict),
+          variant: 'destructive',
+        });
+        return;
+      }
+
+      const violations = await fetchRestrictionViolations(reservationData, selectedReservation);
+      if (violations.length > 0) {
+        toast({
+          title: 'Stay not allowed',
+          description: describeViolations(violations),
+          variant: 'destructive',
+        });
+        return;
+      }
+
       if (selectedReservation) {
         // Update existing reservation
         const { error } = await supabase
           .from('reservations')
-          .update(formData)
+          .update(reservationData)
           .eq('id', selectedReservation.id);
 
         if (error) throw error;
-        
-        toast({
-          title: 'Success',
-          description: 'Reservation updated successfully',
-        });
+
+        if (cancelling) {
+          setCancellingReservation(selectedReservation);
+        } else {
+          toast({
+            title: 'Success',
+            description: 'Reservation updated successfully',
+          });
+        }
       } else {
         // Create new reservation
         const { error } = await supabase
           .from('reservations')
-          .insert([formData]);
+          .insert([reservationData]);
 
         if (error) throw error;
         
@@ -260,7 +709,7 @@ const RoomsGanttChart: React.FC = () => {
     } catch (error: any) {
       toast({
         title: 'Error',
-        description: error.message,
+        description: getReservationErrorMessage(error),
         variant: 'destructive',
       });
     }
@@ -310,17 +759,16 @@ const RoomsGanttChart: React.FC = () => {
     }
   };
 
-  const getRoomStatusColor = (roomId: string, dateStr: string) => {
-    const reservation = getReservationForCell(roomId, dateStr);
-    if (reservation) {
-      return getStatusColor(reservation.status);
-    }
-    return 'bg-gray-100 border-gray-200 hover:bg-gray-200';
+  const navigate = (direction: 'prev' | 'next') => {
+    const step = direction === 'next' ? 1 : -1;
+    setCurrentDate(zoom === 'month' ? addMonths(currentDate, step) : addDays(currentDate, step * horizonDays));
   };
 
-  const navigateWeek = (direction: 'prev' | 'next') => {
-    const newDate = addDays(currentDate, direction === 'next' ? 7 : -7);
-    setCurrentDate(newDate);
+  const goToToday = () => setCurrentDate(zoom === 'month' ? startOfMonth(new Date()) : startOfDay(new Date()));
+
+  const changeZoom = (value: ZoomLevel) => {
+    setZoom(value);
+    if (value === 'month') setCurrentDate(startOfMonth(currentDate));
   };
 
   if (loading) {
@@ -358,19 +806,29 @@ const RoomsGanttChart: React.FC = () => {
         <div>
           <h2 className="text-3xl font-bold tracking-tight text-gradient">Rooms & Reservations</h2>
           <p className="text-muted-foreground">
-            Interactive Gantt chart for room availability and reservation management
+            Drag a reservation to another room or date, or drag its edges to change the stay
           </p>
         </div>
         
         <div className="flex items-center space-x-2">
-          <Button variant="outline" onClick={() => navigateWeek('prev')}>
-            ← Previous Week
+          <Select value={zoom} onValueChange={(value) => changeZoom(value as ZoomLevel)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {ZOOM_LEVELS.map(level => (
+                <SelectItem key={level.value} value={level.value}>{level.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button variant="outline" onClick={() => navigate('prev')}>
+            ← Previous
           </Button>
-          <Button variant="outline" onClick={() => setCurrentDate(new Date())}>
+          <Button variant="outline" onClick={goToToday}>
             Today
           </Button>
-          <Button variant="outline" onClick={() => navigateWeek('next')}>
-            Next Week →
+          <Button variant="outline" onClick={() => navigate('next')}>
+            Next →
           </Button>
         </div>
       </div>
@@ -379,42 +837,76 @@ const RoomsGanttChart: React.FC = () => {
         <CardHeader>
           <CardTitle className="flex items-center gap-2">
             <Calendar className="w-5 h-5" />
-            Room Availability Chart
+            {zoom === 'month'
+              ? format(currentDate, 'MMMM yyyy')
+              : `${format(currentDate, 'MMM d')} – ${format(addDays(currentDate, horizonDays - 1), 'MMM d, yyyy')}`}
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <div className="overflow-x-auto">
-            <div className="min-w-max">
+          <div
+            ref={setScroller}
+            onScroll={handleScroll}
+            className="relative h-[70vh] overflow-auto rounded-lg border border-border/20"
+          >
+            <div
+              className="relative"
+              style={{
+                width: ROOM_COLUMN_WIDTH + timelineDays * cellWidth,
+                height: HEADER_HEIGHT + rooms.length * ROW_HEIGHT,
+              }}
+            >
               {/* Header with dates */}
-              <div className="flex border-b border-border/20">
-                <div className="w-48 flex-shrink-0 p-3 border-r border-border/20 bg-muted/30">
+              <div className="sticky top-0 z-30 flex border-b border-border/20 bg-background" style={{ height: HEADER_HEIGHT }}>
+                <div
+                  className="sticky left-0 z-10 flex-shrink-0 p-3 border-r border-border/20 bg-muted"
+                  style={{ width: ROOM_COLUMN_WIDTH }}
+                >
                   <div className="font-semibold text-sm">Room</div>
                 </div>
-                {dateRange.map(({ date, dayName, dayNumber, isWeekend }) => (
-                  <div 
-                    key={date.toISOString()} 
-                    className={`w-32 flex-shrink-0 p-3 text-center border-r border-border/20 ${
-                      isWeekend ? 'bg-accent/10' : 'bg-muted/10'
-                    }`}
-                  >
-                    <div className="text-xs font-medium text-muted-foreground">{dayName}</div>
-                    <div className="text-sm font-semibold">{dayNumber}</div>
-                    <div className="text-xs text-muted-foreground">
-                      {format(date, 'MMM')}
-                    </div>
-                  </div>
-                ))}
+                <div className="relative flex-1">
+                  {dateRange.slice(columns.first, columns.last).map(({ date, dateStr, dayName, dayNumber, isWeekend }, i) => {
+                    const column = columns.first + i;
+                    return (
+                      <div
+                        key={dateStr}
+                        className={`absolute top-0 h-full py-2 text-center border-r border-border/20 overflow-hidden ${
+                          isWeekend ? 'bg-accent/10' : 'bg-muted/10'
+                        }`}
+                        style={{ left: column * cellWidth, width: cellWidth }}
+                      >
+                        {cellWidth >= 48 && <div className="text-xs font-medium text-muted-foreground">{dayName}</div>}
+                        <div className="text-sm font-semibold">{dayNumber}</div>
+                        {(column === columns.first || date.getDate() === 1 || cellWidth >= 48) && (
+                          <div className="text-xs text-muted-foreground">{format(date, 'MMM')}</div>
+                        )}
+                      </div>
+                    );
+                  })}
+                </div>
               </div>
 
               {/* Room rows */}
-              {rooms.map(room => (
-                <div key={room.id} className="flex border-b border-border/10 hover:bg-muted/20 transition-colors">
+              {rooms.slice(rows.first, rows.last).map((room, i) => (
+                <div
+                  key={room.id}
+                  className="absolute left-0 flex border-b border-border/10 hover:bg-muted/20 transition-colors"
+                  style={{ top: HEADER_HEIGHT + (rows.first + i) * ROW_HEIGHT, height: ROW_HEIGHT, width: '100%' }}
+                >
                   {/* Room info */}
-                  <div className="w-48 flex-shrink-0 p-3 border-r border-border/20">
-                    <div className="space-y-1">
-                      <div className="font-semibold text-sm">{room.room_number}</div>
-                      <div className="text-xs text-muted-foreground capitalize">{room.room_type}</div>
-                      <div className="text-xs text-muted-foreground">{room.properties?.name}</div>
+                  <div
+                    className="sticky left-0 z-20 flex-shrink-0 px-3 py-2 border-r border-border/20 bg-background"
+                    style={{ width: ROOM_COLUMN_WIDTH }}
+                  >
+                    <div className="space-y-0.5">
+                      <div className="flex items-center gap-2">
+                        <div
+                          className={`w-2.5 h-2.5 rounded-full ${getHousekeepingStatus(room.housekeeping_status).color}`}
+                          title={getHousekeepingStatus(room.housekeeping_status).label}
+                        />
+                        <div className="font-semibold text-sm">{room.room_number}</div>
+                        <div className="text-xs text-muted-foreground capitalize truncate">{room.room_type}</div>
+                      </div>
+                      <div className="text-xs text-muted-foreground truncate">{room.properties?.name}</div>
                       <div className="flex items-center text-xs text-muted-foreground">
                         <Users className="w-3 h-3 mr-1" />
                         {room.max_guests} guests
@@ -422,39 +914,118 @@ const RoomsGanttChart: React.FC = () => {
                     </div>
                   </div>
 
-                  {/* Date cells */}
-                  {dateRange.map(({ date, dateStr }) => {
-                    const reservation = getReservationForCell(room.id, dateStr);
-                    const isToday = format(new Date(), 'yyyy-MM-dd') === dateStr;
+                  {/* Date cells, with the reservations drawn over them as bars */}
+                  <div className="relative flex-1" data-room-id={room.id}>
+                    {dateRange.slice(columns.first, columns.last).map(({ dateStr }, j) => {
+                      const reservation = getReservationForCell(room.id, dateStr);
+                      const block = reservation ? null : getOutOfOrderForCell(room.id, dateStr);
+                      const isToday = format(new Date(), 'yyyy-MM-dd') === dateStr;
 
-                    return (
-                      <div 
-                        key={`${room.id}-${dateStr}`}
-                        className={`w-32 flex-shrink-0 p-2 border-r border-border/20 cursor-pointer transition-all hover:bg-muted/40 ${
-                          isToday ? 'bg-primary/5 border-primary/20' : ''
-                        }`}
-                        onClick={() => handleCellClick(room.id, dateStr)}
-                      >
-                        {reservation ? (
-                          <div className={`h-16 rounded-lg p-2 border-2 ${getRoomStatusColor(room.id, dateStr)} transition-all hover:scale-105`}>
-                            <div className="text-xs font-medium truncate text-white">
-                              {reservation.guest_name}
-                            </div>
-                            <div className="text-xs opacity-90 truncate text-white">
-                              {reservation.guests_count} guests
+                      return (
+                        <div
+                          key={dateStr}
+                          className={`absolute top-0 h-full py-2 px-0.5 border-r border-border/20 cursor-pointer transition-colors hover:bg-muted/40 ${
+                            isToday ? 'bg-primary/5 border-primary/20' : ''
+                          }`}
+                          style={{ left: (columns.first + j) * cellWidth, width: cellWidth }}
+                          onClick={() => handleCellClick(room.id, dateStr)}
+                        >
+                          {reservation ? null : block ? (
+                            <div
+                              className="h-16 rounded-lg p-1 border-2 border-gray-500 bg-gray-400/80 overflow-hidden bg-[repeating-linear-gradient(45deg,transparent,transparent_6px,rgba(0,0,0,0.12)_6px,rgba(0,0,0,0.12)_12px)]"
+                              title={describeOutOfOrder(block)}
+                            >
+                              {cellWidth >= 64 && (
+                                <>
+                                  <div className="flex items-center gap-1 text-xs font-medium text-white">
+                                    <Ban className="w-3 h-3" />
+                                    Out of order
+                                  </div>
+                                  <div className="text-xs opacity-90 truncate text-white">
+                                    {block.title}
+                                  </div>
+                                </>
+                              )}
                             </div>
-                            <div className="text-xs opacity-90 text-white">
-                              ${reservation.total_price}
+                          ) : (
+                            <div className="h-16 rounded-lg border-2 border-dashed border-border/40 bg-background/50 hover:bg-primary/10 hover:border-primary/40 transition-all flex items-center justify-center">
+                              {cellWidth >= 48 && <Plus className="w-4 h-4 text-muted-foreground" />}
                             </div>
+                          )}
+                        </div>
+                      );
+                    })}
+
+                    {(staysByRoom.get(room.id) || []).map(reservation => {
+                      const position = getBarPosition(reservation);
+                      if (!position) return null;
+
+                      const isDragged = !!dragCandidate && drag?.reservation.id === reservation.id;
+                      const canDrag = reservation.status !== 'checked_out';
+
+                      return (
+                        <div
+                          key={reservation.id}
+                          className={`absolute top-2 h-16 rounded-lg px-2 py-1 border-2 overflow-hidden select-none touch-none ${getStatusColor(reservation.status)} ${
+                            canDrag ? 'cursor-grab' : 'cursor-pointer'
+                          } ${isDragged ? 'opacity-40' : ''}`}
+                          style={{ left: position.left, width: position.width }}
+                          title={`${reservation.guest_name}, ${reservation.check_in} – ${reservation.check_out}`}
+                          onPointerDown={canDrag ? startDrag(reservation, 'move') : undefined}
+                          onClick={canDrag ? undefined : () => openReservation(reservation)}
+                        >
+                          {canDrag && position.startVisible && (
+                            <div
+                              className="absolute left-0 top-0 h-full w-2 cursor-ew-resize"
+                              onPointerDown={startDrag(reservation, 'resize-start')}
+                            />
+                          )}
+                          <div className="text-xs font-medium truncate text-white">
+                            {reservation.guest_name}
                           </div>
-                        ) : (
-                          <div className="h-16 rounded-lg border-2 border-dashed border-border/40 bg-background/50 hover:bg-primary/10 hover:border-primary/40 transition-all flex items-center justify-center">
-                            <Plus className="w-4 h-4 text-muted-foreground" />
+                          {position.width >= 80 && (
+                            <>
+                              <div className="text-xs opacity-90 truncate text-white">
+                                {reservation.guests_count} guests
+                              </div>
+                              <div className="text-xs opacity-90 truncate text-white">
+                                {hasOutstandingBalance(balances[reservation.id])
+                                  ? `Due ${formatMoney(balances[reservation.id].balance)}`
+                                  : `$${reservation.total_price}`}
+                              </div>
+                            </>
+                          )}
+                          {canDrag && position.endVisible && (
+                            <div
+                              className="absolute right-0 top-0 h-full w-2 cursor-ew-resize"
+                              onPointerDown={startDrag(reservation, 'resize-end')}
+                            />
+                          )}
+                        </div>
+                      );
+                    })}
+
+                    {drag && dragCandidate && dragCandidate.room_id === room.id && (() => {
+                      const position = getBarPosition(dragCandidate);
+                      if (!position) return null;
+
+                      return (
+                        <div
+                          className={`absolute top-2 h-16 rounded-lg px-2 py-1 border-2 border-dashed overflow-hidden pointer-events-none ${
+                            dragProblem ? 'border-destructive bg-destructive/20' : 'border-primary bg-primary/20'
+                          }`}
+                          style={{ left: position.left, width: position.width }}
+                        >
+                          <div className="text-xs font-medium truncate">
+                            {format(parseISO(dragCandidate.check_in), 'MMM d')} – {format(parseISO(dragCandidate.check_out), 'MMM d')}
                           </div>
-                        )}
-                      </div>
-                    );
-                  })}
+                          <div className={`text-xs line-clamp-2 ${dragProblem ? 'text-destructive' : 'text-muted-foreground'}`}>
+                            {dragProblem || `${differenceInCalendarDays(parseISO(dragCandidate.check_out), parseISO(dragCandidate.check_in))} nights`}
+                          </div>
+                        </div>
+                      );
+                    })()}
+                  </div>
                 </div>
               ))}
             </div>
@@ -475,8 +1046,8 @@ const RoomsGanttChart: React.FC = () => {
               <span>Checked In</span>
             </div>
             <div className="flex items-center gap-2">
-              <div className="w-4 h-4 rounded bg-red-500"></div>
-              <span>Cancelled</span>
+              <div className="w-4 h-4 rounded bg-gray-400"></div>
+              <span>Out of Order</span>
             </div>
             <div className="flex items-center gap-2">
               <div className="w-4 h-4 rounded border-2 border-dashed border-gray-400"></div>
@@ -494,6 +1065,31 @@ const RoomsGanttChart: React.FC = () => {
               {selectedReservation ? 'Edit Reservation' : 'New Reservation'}
             </DialogTitle>
           </DialogHeader>
+
+          {selectedReservation && (
+            <div className="flex items-center justify-between p-3 bg-muted rounded-lg text-sm">
+              <div className="flex gap-6">
+                <div>
+                  <div className="text-muted-foreground">Charges</div>
+                  <div className="font-medium">{formatMoney(balances[selectedReservation.id]?.charges)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Paid</div>
+                  <div className="font-medium">{formatMoney(balances[selectedReservation.id]?.paid)}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Balance</div>
+                  <div className={`font-medium ${hasOutstandingBalance(balances[selectedReservation.id]) ? 'text-destructive' : 'text-green-600'}`}>
+                    {formatMoney(balances[selectedReservation.id]?.balance)}
+                  </div>
+                </div>
+              </div>
+              <Button type="button" size="sm" variant="outline" onClick={() => setFolioReservation(selectedReservation)}>
+                <Receipt className="h-4 w-4 mr-2" />
+                Open Folio
+              </Button>
+            </div>
+          )}
           
           <form onSubmit={handleSubmit} className="space-y-4">
             <div className="grid grid-cols-2 gap-4">
@@ -501,7 +1097,7 @@ const RoomsGanttChart: React.FC = () => {
                 <Label htmlFor="property_id">Property *</Label>
                 <Select
                   value={formData.property_id}
-                  onValueChange={(value) => setFormData({ ...formData, property_id: value })}
+                  onValueChange={(value) => setFormData({ ...formData, property_id: value, room_id: '', rate_plan_id: '' })}
                   required
                 >
                   <SelectTrigger>
@@ -631,35 +1227,49 @@ const RoomsGanttChart: React.FC = () => {
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="confirmed">Confirmed</SelectItem>
-                    <SelectItem value="pending">Pending</SelectItem>
-                    <SelectItem value="cancelled">Cancelled</SelectItem>
-                    <SelectItem value="checked_in">Checked In</SelectItem>
-                    <SelectItem value="checked_out">Checked Out</SelectItem>
+                    {statusOptions(selectedReservation?.status).map(status => (
+                      <SelectItem key={status} value={status}>{RESERVATION_STATUSES[status] ?? status}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
             </div>
             
-            <div className="space-y-2">
-              <Label htmlFor="source">Booking Source</Label>
-              <Select
-                value={formData.source}
-                onValueChange={(value) => setFormData({ ...formData, source: value })}
-              >
-                <SelectTrigger>
-                  <SelectValue />
-                </SelectTrigger>
-                <SelectContent>
-                  <SelectItem value="manual">Manual</SelectItem>
-                  <SelectItem value="airbnb">Airbnb</SelectItem>
-                  <SelectItem value="booking.com">Booking.com</SelectItem>
-                  <SelectItem value="direct">Direct Booking</SelectItem>
-                  <SelectItem value="other">Other</SelectItem>
-                </SelectContent>
-              </Select>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="source">Booking Source</Label>
+                <Select
+                  value={formData.source}
+                  onValueChange={(value) => setFormData({ ...formData, source: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="manual">Manual</SelectItem>
+                    <SelectItem value="airbnb">Airbnb</SelectItem>
+                    <SelectItem value="booking.com">Booking.com</SelectItem>
+                    <SelectItem value="direct">Direct Booking</SelectItem>
+                    <SelectItem value="other">Other</SelectItem>
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <RatePlanSelect
+                propertyId={formData.property_id}
+                roomType={rooms.find(room => room.id === formData.room_id)?.room_type}
+                value={formData.rate_plan_id}
+                onChange={(ratePlanId) => setFormData({ ...formData, rate_plan_id: ratePlanId })}
+              />
             </div>
             
+            <NightlyRateBreakdown
+              rates={rates}
+              loading={quoting}
+              error={quoteError}
+              onApply={(total) => setFormData({ ...formData, total_price: total })}
+            />
+
             <div className="space-y-2">
               <Label htmlFor="notes">Notes</Label>
               <Textarea
@@ -690,6 +1300,18 @@ const RoomsGanttChart: React.FC = () => {
           </form>
         </DialogContent>
       </Dialog>
+
+      <ReservationFolio
+        reservation={folioReservation}
+        onClose={() => setFolioReservation(null)}
+        onChanged={() => fetchData()}
+      />
+
+      <CancelReservationDialog
+        reservation={cancellingReservation}
+        onClose={() => setCancellingReservation(null)}
+        onCancelled={() => fetchData()}
+      />
     </div>
   );
 };
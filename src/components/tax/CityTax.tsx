@@ -0,0 +1,546 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { usePermissions } from '@/hooks/use-permissions';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableFooter, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/components/ui/use-toast';
+import { Download, Edit, Landmark, Plus, RefreshCw } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  MunicipalReportRow,
+  TAX_BASES,
+  TAX_CALCULATIONS,
+  TaxRule,
+  describeTaxRule,
+  fetchMunicipalReport,
+  municipalReportCsv,
+  summarizeMunicipalReport,
+} from '@/lib/city-tax';
+import { formatAmount } from '@/lib/invoices';
+
+interface Property {
+  id: string;
+  name: string;
+  owner_id: string;
+  currency: string | null;
+}
+
+const emptyRule = {
+  name: 'City tax',
+  calculation: 'flat',
+  basis: 'per_person',
+  amount: '',
+  exempt_under_age: '',
+  max_nights: '',
+  valid_from: '',
+  valid_to: '',
+  is_active: true,
+};
+
+const CityTax: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const { can } = usePermissions();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [propertyId, setPropertyId] = useState('');
+  const [rules, setRules] = useState<TaxRule[]>([]);
+  const [month, setMonth] = useState(format(new Date(), 'yyyy-MM'));
+  const [report, setReport] = useState<MunicipalReportRow[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [reportLoading, setReportLoading] = useState(false);
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [selectedRule, setSelectedRule] = useState<TaxRule | null>(null);
+  const [formData, setFormData] = useState(emptyRule);
+
+  useEffect(() => {
+    if (user) {
+      fetchProperties();
+    }
+  }, [user]);
+
+  useEffect(() => {
+    if (propertyId) {
+      fetchRules();
+    }
+  }, [propertyId]);
+
+  useEffect(() => {
+    if (propertyId && month) {
+      fetchReport();
+    }
+  }, [propertyId, month]);
+
+  const fetchProperties = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('properties')
+        .select('id, name, owner_id, currency')
+        .eq('is_active', true)
+        .order('name');
+
+      if (error) throw error;
+      setProperties(data || []);
+      if (data && data.length > 0) setPropertyId(data[0].id);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchRules = async () => {
+    try {
+      const { data, error } = await supabase
+        .from('tax_rules')
+        .select('*')
+        .eq('property_id', propertyId)
+        .order('created_at');
+
+      if (error) throw error;
+      setRules(data || []);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const fetchReport = async () => {
+    try {
+      setReportLoading(true);
+      setReport(await fetchMunicipalReport(propertyId, parseISO(`${month}-01`)));
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setReportLoading(false);
+    }
+  };
+
+  const recalculate = async () => {
+    const { data, error } = await supabase.rpc('recalculate_city_tax', { p_property_id: propertyId });
+    if (error) throw error;
+    return data;
+  };
+
+  const handleRecalculate = async () => {
+    try {
+      const count = await recalculate();
+      toast({ title: "Success", description: `City tax recalculated for ${count} upcoming stays` });
+      fetchReport();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const ruleData = {
+      property_id: propertyId,
+      name: formData.name,
+      calculation: formData.calculation,
+      basis: formData.basis,
+      amount: parseFloat(formData.amount) || 0,
+      exempt_under_age: formData.exempt_under_age ? parseInt(formData.exempt_under_age) : null,
+      max_nights: formData.max_nights ? parseInt(formData.max_nights) : null,
+      valid_from: formData.valid_from || null,
+      valid_to: formData.valid_to || null,
+      is_active: formData.is_active,
+    };
+
+    try {
+      if (selectedRule) {
+        const { error } = await supabase
+          .from('tax_rules')
+          .update(ruleData)
+          .eq('id', selectedRule.id);
+        if (error) throw error;
+      } else {
+        const { error } = await supabase.from('tax_rules').insert(ruleData);
+        if (error) throw error;
+      }
+
+      // Upcoming stays pick up the new rule straight away
+      const count = await recalculate();
+      toast({
+        title: "Success",
+        description: `Tax rule ${selectedRule ? 'updated' : 'created'}; ${count} upcoming stays recalculated`,
+      });
+      setIsDialogOpen(false);
+      fetchRules();
+      fetchReport();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const openDialog = (rule: TaxRule | null) => {
+    setSelectedRule(rule);
+    setFormData(rule ? {
+      name: rule.name,
+      calculation: rule.calculation,
+      basis: rule.basis,
+      amount: String(rule.amount),
+      exempt_under_age: rule.exempt_under_age?.toString() ?? '',
+      max_nights: rule.max_nights?.toString() ?? '',
+      valid_from: rule.valid_from ?? '',
+      valid_to: rule.valid_to ?? '',
+      is_active: rule.is_active,
+    } : emptyRule);
+    setIsDialogOpen(true);
+  };
+
+  const handleExport = () => {
+    const property = properties.find(p => p.id === propertyId);
+    const blob = new Blob([municipalReportCsv(report)], { type: 'text/csv;charset=utf-8' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `city-tax-${property?.name ?? 'property'}-${month}.csv`;
+    a.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const selectedProperty = properties.find(p => p.id === propertyId);
+  const isOwner = selectedProperty?.owner_id === user?.id;
+  const currency = selectedProperty?.currency || 'USD';
+  const totals = summarizeMunicipalReport(report);
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">City Tax</h2>
+          <p className="text-muted-foreground">
+            Local accommodation fees charged to folios and the monthly report for the municipality
+          </p>
+        </div>
+        <Select value={propertyId} onValueChange={setPropertyId}>
+          <SelectTrigger className="w-56">
+            <SelectValue placeholder="Select property" />
+          </SelectTrigger>
+          <SelectContent>
+            {properties.map(property => (
+              <SelectItem key={property.id} value={property.id}>{property.name}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Tax Rules</CardTitle>
+              <CardDescription>
+                Charged on every night of a stay from guest counts and children's ages
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              {can('edit_reservations', propertyId) && (
+                <Button variant="outline" onClick={handleRecalculate} disabled={!propertyId}>
+                  <RefreshCw className="mr-2 h-4 w-4" />
+                  Recalculate Upcoming
+                </Button>
+              )}
+              {isOwner && (
+                <Button onClick={() => openDialog(null)}>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Add Rule
+                </Button>
+              )}
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <div className="space-y-2">
+            {rules.map(rule => (
+              <div key={rule.id} className="flex items-center justify-between p-4 border border-border rounded-lg">
+                <div>
+                  <div className="flex items-center gap-2">
+                    <span className="font-medium">{rule.name}</span>
+                    {!rule.is_active && <Badge variant="secondary">Inactive</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {describeTaxRule(rule, currency)}
+                    {(rule.valid_from || rule.valid_to) && (
+                      ` • ${rule.valid_from ? format(parseISO(rule.valid_from), 'MMM d, yyyy') : '…'} – ${rule.valid_to ? format(parseISO(rule.valid_to), 'MMM d, yyyy') : '…'}`
+                    )}
+                  </div>
+                </div>
+                {isOwner && (
+                  <Button size="sm" variant="outline" onClick={() => openDialog(rule)}>
+                    <Edit className="h-3 w-3" />
+                  </Button>
+                )}
+              </div>
+            ))}
+
+            {rules.length === 0 && (
+              <div className="text-center py-8">
+                <Landmark className="h-12 w-12 text-muted-foreground mx-auto mb-4" />
+                <h3 className="text-lg font-medium mb-2">No tax rules</h3>
+                <p className="text-muted-foreground">
+                  Add the local accommodation fee to charge it on reservations automatically
+                </p>
+              </div>
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Municipal Report</CardTitle>
+              <CardDescription>Stays, person-nights and tax due for the month</CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="month"
+                className="w-44"
+                value={month}
+                onChange={(e) => setMonth(e.target.value)}
+              />
+              <Button variant="outline" onClick={handleExport} disabled={report.length === 0}>
+                <Download className="mr-2 h-4 w-4" />
+                Export CSV
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {reportLoading ? (
+            <div className="flex items-center justify-center p-8">
+              <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Guest</TableHead>
+                  <TableHead>Stay</TableHead>
+                  <TableHead className="text-right">Nights</TableHead>
+                  <TableHead className="text-right">Guests</TableHead>
+                  <TableHead className="text-right">Person-nights</TableHead>
+                  <TableHead className="text-right">Exempt</TableHead>
+                  <TableHead className="text-right">Taxable</TableHead>
+                  <TableHead className="text-right">Tax</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {report.map(row => (
+                  <TableRow key={row.reservationId}>
+                    <TableCell>
+                      {row.guestName}
+                      {row.nationality && <span className="text-muted-foreground"> ({row.nationality})</span>}
+                    </TableCell>
+                    <TableCell>
+                      {format(parseISO(row.checkIn), 'MMM d')} – {format(parseISO(row.checkOut), 'MMM d')}
+                    </TableCell>
+                    <TableCell className="text-right">{row.nights}</TableCell>
+                    <TableCell className="text-right">{row.guests}</TableCell>
+                    <TableCell className="text-right">{row.personNights}</TableCell>
+                    <TableCell className="text-right">{row.exemptPersonNights}</TableCell>
+                    <TableCell className="text-right">{row.taxablePersonNights}</TableCell>
+                    <TableCell className="text-right">{formatAmount(row.tax, currency)}</TableCell>
+                  </TableRow>
+                ))}
+                {report.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={8} className="text-center text-muted-foreground">
+                      No stays this month
+                    </TableCell>
+                  </TableRow>
+                )}
+              </TableBody>
+              {report.length > 0 && (
+                <TableFooter>
+                  <TableRow>
+                    <TableCell colSpan={2}>Total ({totals.stays} stays)</TableCell>
+                    <TableCell className="text-right">{totals.nights}</TableCell>
+                    <TableCell />
+                    <TableCell className="text-right">{totals.personNights}</TableCell>
+                    <TableCell className="text-right">{totals.exemptPersonNights}</TableCell>
+                    <TableCell className="text-right">{totals.taxablePersonNights}</TableCell>
+                    <TableCell className="text-right">{formatAmount(totals.tax, currency)}</TableCell>
+                  </TableRow>
+                </TableFooter>
+              )}
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle>{selectedRule ? 'Edit Tax Rule' : 'New Tax Rule'}</DialogTitle>
+            <DialogDescription>
+              Changes apply to nights not yet posted. Posted nights keep their tax.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleSubmit} className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule_name">Name *</Label>
+              <Input
+                id="rule_name"
+                value={formData.name}
+                onChange={(e) => setFormData({ ...formData, name: e.target.value })}
+                required
+              />
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label>Calculation</Label>
+                <Select
+                  value={formData.calculation}
+                  onValueChange={(value) => setFormData({ ...formData, calculation: value })}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TAX_CALCULATIONS).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label>Basis</Label>
+                <Select
+                  value={formData.basis}
+                  onValueChange={(value) => setFormData({ ...formData, basis: value })}
+                  disabled={formData.calculation === 'percentage'}
+                >
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {Object.entries(TAX_BASES).map(([value, label]) => (
+                      <SelectItem key={value} value={value}>{label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule_amount">{formData.calculation === 'percentage' ? 'Rate (%)' : 'Amount'} *</Label>
+                <Input
+                  id="rule_amount"
+                  type="number"
+                  min="0"
+                  step="0.01"
+                  value={formData.amount}
+                  onChange={(e) => setFormData({ ...formData, amount: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_exempt_age">Exempt under age</Label>
+                <Input
+                  id="rule_exempt_age"
+                  type="number"
+                  min="1"
+                  value={formData.exempt_under_age}
+                  onChange={(e) => setFormData({ ...formData, exempt_under_age: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_max_nights">Max nights</Label>
+                <Input
+                  id="rule_max_nights"
+                  type="number"
+                  min="1"
+                  value={formData.max_nights}
+                  onChange={(e) => setFormData({ ...formData, max_nights: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rule_valid_from">Valid from</Label>
+                <Input
+                  id="rule_valid_from"
+                  type="date"
+                  value={formData.valid_from}
+                  onChange={(e) => setFormData({ ...formData, valid_from: e.target.value })}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rule_valid_to">Valid to</Label>
+                <Input
+                  id="rule_valid_to"
+                  type="date"
+                  value={formData.valid_to}
+                  onChange={(e) => setFormData({ ...formData, valid_to: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="rule_active"
+                checked={formData.is_active}
+                onCheckedChange={(checked) => setFormData({ ...formData, is_active: checked })}
+              />
+              <Label htmlFor="rule_active">Active</Label>
+            </div>
+
+            <div className="flex justify-end space-x-2">
+              <Button type="button" variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit">
+                {selectedRule ? 'Update' : 'Create'} Rule
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default CityTax;
@@ -0,0 +1,524 @@
+import React, { useState, useEffect } from 'react';
+import { supabase } from '@/integrations/supabase/client';
+import { useAuth } from '@/contexts/AuthContext';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { Mail, Shield, Trash2, UserPlus, Users } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import {
+  CAPABILITY_FLAGS,
+  GRANT_PRESETS,
+  PropertyGrant,
+  describeGrant,
+  inviteStaff,
+} from '@/lib/team';
+
+interface Property {
+  id: string;
+  name: string;
+}
+
+interface Member {
+  id: string;
+  user_id: string;
+  full_name: string | null;
+  email: string | null;
+  created_at: string;
+  property_access: (PropertyGrant & { id: string })[];
+}
+
+interface Invitation {
+  id: string;
+  email: string;
+  full_name: string | null;
+  access: PropertyGrant[];
+  expires_at: string;
+  created_at: string;
+}
+
+interface GrantEditorProps {
+  properties: Property[];
+  grants: PropertyGrant[];
+  onChange: (grants: PropertyGrant[]) => void;
+}
+
+// One row per property: whether the person gets it at all, then the flags
+const GrantEditor: React.FC<GrantEditorProps> = ({ properties, grants, onChange }) => {
+  const setGrant = (propertyId: string, grant: PropertyGrant | null) => {
+    const others = grants.filter(g => g.property_id !== propertyId);
+    onChange(grant ? [...others, grant] : others);
+  };
+
+  return (
+    <div className="space-y-3">
+      {properties.map(property => {
+        const grant = grants.find(g => g.property_id === property.id);
+
+        return (
+          <div key={property.id} className="rounded-lg border border-border p-3 space-y-3">
+            <div className="flex items-center justify-between gap-2">
+              <label className="flex items-center gap-2 font-medium text-sm">
+                <Checkbox
+                  checked={!!grant}
+                  onCheckedChange={(checked) => setGrant(
+                    property.id,
+                    checked ? { property_id: property.id, ...GRANT_PRESETS[0].flags } : null
+                  )}
+                />
+                {property.name}
+              </label>
+              {grant && (
+                <Select
+                  value=""
+                  onValueChange={(value) => {
+                    const preset = GRANT_PRESETS.find(p => p.value === value);
+                    if (preset) setGrant(property.id, { property_id: property.id, ...preset.flags });
+                  }}
+                >
+                  <SelectTrigger className="h-8 w-40 text-xs">
+                    <SelectValue placeholder={describeGrant(grant)} />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {GRANT_PRESETS.map(preset => (
+                      <SelectItem key={preset.value} value={preset.value}>{preset.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              )}
+            </div>
+            {grant && (
+              <div className="grid grid-cols-2 gap-2">
+                {CAPABILITY_FLAGS.map(({ flag, label, description }) => (
+                  <label key={flag} className="flex items-start gap-2 text-xs" title={description}>
+                    <Checkbox
+                      checked={grant[flag]}
+                      onCheckedChange={(checked) => setGrant(property.id, { ...grant, [flag]: checked === true })}
+                    />
+                    {label}
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+        );
+      })}
+      {properties.length === 0 && (
+        <p className="text-sm text-muted-foreground">Add a property before inviting staff.</p>
+      )}
+    </div>
+  );
+};
+
+const TeamManagement: React.FC = () => {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [properties, setProperties] = useState<Property[]>([]);
+  const [members, setMembers] = useState<Member[]>([]);
+  const [invitations, setInvitations] = useState<Invitation[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [isInviteOpen, setIsInviteOpen] = useState(false);
+  const [inviteForm, setInviteForm] = useState({ email: '', full_name: '' });
+  const [inviteGrants, setInviteGrants] = useState<PropertyGrant[]>([]);
+  const [editingMember, setEditingMember] = useState<Member | null>(null);
+  const [memberGrants, setMemberGrants] = useState<PropertyGrant[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (user) {
+      fetchData();
+    }
+  }, [user]);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+
+      const { data: propertiesData, error: propertiesError } = await supabase
+        .from('properties')
+        .select('id, name')
+        .eq('owner_id', user!.id)
+        .order('name');
+
+      if (propertiesError) throw propertiesError;
+      setProperties(propertiesData || []);
+
+      const { data: organization, error: organizationError } = await supabase
+        .from('organizations')
+        .select('id')
+        .eq('owner_id', user!.id)
+        .maybeSingle();
+
+      if (organizationError) throw organizationError;
+      if (!organization) {
+        setMembers([]);
+        setInvitations([]);
+        return;
+      }
+
+      const { data: membersData, error: membersError } = await supabase
+        .from('organization_members')
+        .select(`
+          id, user_id, full_name, email, created_at,
+          property_access (
+            id, property_id, can_view_reservations, can_edit_reservations, can_edit_pricing, can_housekeeping
+          )
+        `)
+        .eq('organization_id', organization.id)
+        .order('created_at');
+
+      if (membersError) throw membersError;
+      setMembers(membersData || []);
+
+      const { data: invitationsData, error: invitationsError } = await supabase
+        .from('organization_invitations')
+        .select('id, email, full_name, access, expires_at, created_at')
+        .eq('organization_id', organization.id)
+        .is('accepted_at', null)
+        .order('created_at', { ascending: false });
+
+      if (invitationsError) throw invitationsError;
+      setInvitations((invitationsData || []).map(invitation => ({
+        ...invitation,
+        access: invitation.access as unknown as PropertyGrant[],
+      })));
+    } catch (error) {
+      console.error('Error fetching team:', error);
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const propertyName = (propertyId: string) =>
+    properties.find(p => p.id === propertyId)?.name ?? 'Unknown property';
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (inviteGrants.length === 0) {
+      toast({
+        title: "No properties selected",
+        description: "Give the new team member access to at least one property.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const result = await inviteStaff({
+        email: inviteForm.email,
+        full_name: inviteForm.full_name || undefined,
+        access: inviteGrants,
+      });
+
+      toast({
+        title: "Invitation sent",
+        description: result.status === 'email_sent'
+          ? `${inviteForm.email} will receive an email to set up their account.`
+          : `${inviteForm.email} already has an account and joins the team on their next sign-in.`,
+      });
+
+      setIsInviteOpen(false);
+      setInviteForm({ email: '', full_name: '' });
+      setInviteGrants([]);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const openMember = (member: Member) => {
+    setEditingMember(member);
+    setMemberGrants(member.property_access.map(({ id: _id, ...grant }) => grant));
+  };
+
+  const handleSaveAccess = async () => {
+    if (!editingMember) return;
+
+    setSaving(true);
+    try {
+      const removed = editingMember.property_access
+        .filter(access => !memberGrants.some(g => g.property_id === access.property_id))
+        .map(access => access.id);
+
+      if (removed.length > 0) {
+        const { error } = await supabase
+          .from('property_access')
+          .delete()
+          .in('id', removed);
+
+        if (error) throw error;
+      }
+
+      if (memberGrants.length > 0) {
+        const { error } = await supabase
+          .from('property_access')
+          .upsert(
+            memberGrants.map(grant => ({ ...grant, member_id: editingMember.id })),
+            { onConflict: 'member_id,property_id' }
+          );
+
+        if (error) throw error;
+      }
+
+      toast({
+        title: "Success",
+        description: "Access updated successfully",
+      });
+      setEditingMember(null);
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRemoveMember = async (member: Member) => {
+    if (!confirm(`Remove ${member.full_name || member.email} from your team? They lose access to all your properties.`)) return;
+
+    try {
+      const { error } = await supabase
+        .from('organization_members')
+        .delete()
+        .eq('id', member.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: "Team member removed",
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRevokeInvitation = async (invitation: Invitation) => {
+    try {
+      const { error } = await supabase
+        .from('organization_invitations')
+        .delete()
+        .eq('id', invitation.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Success",
+        description: `Invitation for ${invitation.email} revoked`,
+      });
+      fetchData();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: (error as Error).message,
+        variant: "destructive",
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center p-8">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h2 className="text-3xl font-bold tracking-tight text-gradient">Team</h2>
+          <p className="text-muted-foreground">
+            Invite staff and choose what they can do on each property
+          </p>
+        </div>
+
+        <Button onClick={() => setIsInviteOpen(true)} disabled={properties.length === 0}>
+          <UserPlus className="mr-2 h-4 w-4" />
+          Invite Staff
+        </Button>
+      </div>
+
+      <Card className="glass-card border-0">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Users className="h-5 w-5" />
+            Members ({members.length})
+          </CardTitle>
+          <CardDescription>Members only see the properties listed under their name</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {members.map(member => (
+            <div key={member.id} className="flex items-start justify-between gap-4 p-4 border border-border rounded-lg">
+              <div className="space-y-2">
+                <div>
+                  <div className="font-medium">{member.full_name || member.email}</div>
+                  {member.full_name && <div className="text-sm text-muted-foreground">{member.email}</div>}
+                </div>
+                <div className="flex flex-wrap gap-2">
+                  {member.property_access.map(access => (
+                    <Badge key={access.id} variant="secondary" className="font-normal">
+                      {propertyName(access.property_id)}: {describeGrant(access)}
+                    </Badge>
+                  ))}
+                  {member.property_access.length === 0 && (
+                    <span className="text-xs text-muted-foreground">No property access</span>
+                  )}
+                </div>
+              </div>
+              <div className="flex items-center space-x-2">
+                <Button size="sm" variant="outline" onClick={() => openMember(member)}>
+                  <Shield className="mr-1 h-3 w-3" />
+                  Access
+                </Button>
+                <Button
+                  size="sm"
+                  variant="outline"
+                  onClick={() => handleRemoveMember(member)}
+                  className="text-destructive hover:text-destructive"
+                >
+                  <Trash2 className="h-3 w-3" />
+                </Button>
+              </div>
+            </div>
+          ))}
+          {members.length === 0 && (
+            <p className="text-sm text-muted-foreground text-center py-6">
+              No team members yet. Invite staff to share the workload.
+            </p>
+          )}
+        </CardContent>
+      </Card>
+
+      {invitations.length > 0 && (
+        <Card className="glass-card border-0">
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Mail className="h-5 w-5" />
+              Pending Invitations
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-3">
+            {invitations.map(invitation => (
+              <div key={invitation.id} className="flex items-center justify-between gap-4 p-3 border border-border rounded-lg">
+                <div>
+                  <div className="font-medium text-sm">{invitation.full_name || invitation.email}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {invitation.full_name && `${invitation.email} · `}
+                    {invitation.access.length} propert{invitation.access.length === 1 ? 'y' : 'ies'}
+                    {' · '}
+                    {parseISO(invitation.expires_at) < new Date()
+                      ? 'Expired'
+                      : `Expires ${format(parseISO(invitation.expires_at), 'MMM d')}`}
+                  </div>
+                </div>
+                <Button size="sm" variant="ghost" onClick={() => handleRevokeInvitation(invitation)}>
+                  Revoke
+                </Button>
+              </div>
+            ))}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={isInviteOpen} onOpenChange={setIsInviteOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Invite Staff</DialogTitle>
+            <DialogDescription>
+              New users get an email to set up their account. Existing users join on their next sign-in.
+            </DialogDescription>
+          </DialogHeader>
+
+          <form onSubmit={handleInvite} className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="invite_email">Email *</Label>
+                <Input
+                  id="invite_email"
+                  type="email"
+                  value={inviteForm.email}
+                  onChange={(e) => setInviteForm({ ...inviteForm, email: e.target.value })}
+                  required
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="invite_name">Name</Label>
+                <Input
+                  id="invite_name"
+                  value={inviteForm.full_name}
+                  onChange={(e) => setInviteForm({ ...inviteForm, full_name: e.target.value })}
+                />
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Property access</Label>
+              <GrantEditor properties={properties} grants={inviteGrants} onChange={setInviteGrants} />
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <Button type="button" variant="outline" onClick={() => setIsInviteOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                Send Invitation
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog open={!!editingMember} onOpenChange={(open) => !open && setEditingMember(null)}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Access for {editingMember?.full_name || editingMember?.email}</DialogTitle>
+            <DialogDescription>Unchecked properties are removed from this member.</DialogDescription>
+          </DialogHeader>
+
+          <GrantEditor properties={properties} grants={memberGrants} onChange={setMemberGrants} />
+
+          <div className="flex justify-end space-x-2 pt-4">
+            <Button type="button" variant="outline" onClick={() => setEditingMember(null)}>
+              Cancel
+            </Button>
+            <Button onClick={handleSaveAccess} disabled={saving}>
+              Save Access
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default TeamManagement;
@@ -1,6 +1,7 @@
 import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User, Session } from '@supabase/supabase-js';
 import { supabase } from '@/integrations/supabase/client';
+import { acceptPendingInvitations } from '@/lib/team';
 
 interface AuthContextType {
   user: User | null;
@@ -46,6 +47,13 @@ export const AuthProvider: React.FC<{ children: React.ReactNode }> = ({ children
           if (!existingProfile) {
             await createProfile(session.user);
           }
+
+          // Join any teams that invited this email address
+          try {
+            await acceptPendingInvitations();
+          } catch (error) {
+            console.error('Error accepting invitations:', error);
+          }
         }
       }
     );
@@ -0,0 +1,48 @@
+import { useEffect, useState } from "react";
+import { NightlyRate, RateQuery, resolveNightlyRates, sumNightlyRates } from "@/lib/pricing";
+
+// Fetches the per-night price breakdown whenever the stay changes.
+// Incomplete or invalid stays resolve to an empty breakdown.
+export function useNightlyRates({ propertyId, roomId, ratePlanId, checkIn, checkOut }: Partial<RateQuery>) {
+  const [rates, setRates] = useState<NightlyRate[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!propertyId || !checkIn || !checkOut || checkOut <= checkIn) {
+      setRates([]);
+      setError(null);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+
+    resolveNightlyRates({ propertyId, roomId, ratePlanId, checkIn, checkOut })
+      .then((data) => {
+        if (cancelled) return;
+        setRates(data);
+        setError(null);
+      })
+      .catch((err) => {
+        if (cancelled) return;
+        console.error("Error resolving nightly rates:", err);
+        setRates([]);
+        setError(err.message);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [propertyId, roomId, ratePlanId, checkIn, checkOut]);
+
+  return {
+    rates,
+    total: rates.length > 0 ? sumNightlyRates(rates) : null,
+    loading,
+    error,
+  };
+}
@@ -0,0 +1,72 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { useAuth } from "@/contexts/AuthContext";
+import { Capability, PropertyGrant, grantAllows } from "@/lib/team";
+
+// What the signed-in user may do per property. The database enforces the same
+// rules through RLS; this only decides which pages and actions to offer.
+export function usePermissions() {
+  const { user } = useAuth();
+  const [ownedPropertyIds, setOwnedPropertyIds] = useState<string[]>([]);
+  const [grants, setGrants] = useState<PropertyGrant[]>([]);
+  const [loading, setLoading] = useState(true);
+  // Only set once both queries succeeded; until then nobody counts as owner
+  const [loaded, setLoaded] = useState(false);
+
+  useEffect(() => {
+    if (!user) {
+      setOwnedPropertyIds([]);
+      setGrants([]);
+      setLoaded(false);
+      setLoading(false);
+      return;
+    }
+
+    let cancelled = false;
+    setLoading(true);
+    setLoaded(false);
+
+    Promise.all([
+      supabase.from("properties").select("id").eq("owner_id", user.id),
+      supabase
+        .from("property_access")
+        .select("property_id, can_view_reservations, can_edit_reservations, can_edit_pricing, can_housekeeping, organization_members!inner ( user_id )")
+        .eq("organization_members.user_id", user.id),
+    ])
+      .then(([owned, access]) => {
+        if (cancelled) return;
+        if (owned.error) throw owned.error;
+        if (access.error) throw access.error;
+        setOwnedPropertyIds((owned.data || []).map((p) => p.id));
+        setGrants(access.data || []);
+        setLoaded(true);
+      })
+      .catch((err) => {
+        if (!cancelled) console.error("Error loading permissions:", err);
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
+  // Accounts without staff grants are owners, including new ones with no properties yet
+  const isOwner = loaded && (ownedPropertyIds.length > 0 || grants.length === 0);
+
+  const can = useCallback(
+    (capability: Capability, propertyId?: string) => {
+      if (propertyId) {
+        if (ownedPropertyIds.includes(propertyId)) return true;
+        const grant = grants.find((g) => g.property_id === propertyId);
+        return !!grant && grantAllows(grant, capability);
+      }
+      return isOwner || grants.some((grant) => grantAllows(grant, capability));
+    },
+    [ownedPropertyIds, grants, isOwner]
+  );
+
+  return { loading, isOwner, ownedPropertyIds, grants, can };
+}
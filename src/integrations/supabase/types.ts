@@ -14,46 +14,1803 @@ export type Database = {
   }
   public: {
     Tables: {
+      ai_request_log: {
+        Row: {
+          cache_hit: boolean
+          created_at: string
+          id: string
+          provider: string
+          status: string
+          task: string
+          user_id: string
+        }
+        Insert: {
+          cache_hit?: boolean
+          created_at?: string
+          id?: string
+          provider: string
+          status?: string
+          task: string
+          user_id: string
+        }
+        Update: {
+          cache_hit?: boolean
+          created_at?: string
+          id?: string
+          provider?: string
+          status?: string
+          task?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      ai_response_cache: {
+        Row: {
+          cache_key: string
+          created_at: string
+          expires_at: string
+          response: Json
+          task: string
+        }
+        Insert: {
+          cache_key: string
+          created_at?: string
+          expires_at: string
+          response: Json
+          task: string
+        }
+        Update: {
+          cache_key?: string
+          created_at?: string
+          expires_at?: string
+          response?: Json
+          task?: string
+        }
+        Relationships: []
+      }
+      booking_form_tokens: {
+        Row: {
+          nonce: string
+          used_at: string
+        }
+        Insert: {
+          nonce: string
+          used_at?: string
+        }
+        Update: {
+          nonce?: string
+          used_at?: string
+        }
+        Relationships: []
+      }
+      cancellation_policies: {
+        Row: {
+          created_at: string
+          description: string | null
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          property_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          property_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          description?: string | null
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          property_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_policies_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cancellation_policy_tiers: {
+        Row: {
+          created_at: string
+          days_before: number | null
+          id: string
+          penalty_type: string
+          penalty_value: number
+          policy_id: string
+        }
+        Insert: {
+          created_at?: string
+          days_before?: number | null
+          id?: string
+          penalty_type: string
+          penalty_value: number
+          policy_id: string
+        }
+        Update: {
+          created_at?: string
+          days_before?: number | null
+          id?: string
+          penalty_type?: string
+          penalty_value?: number
+          policy_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cancellation_policy_tiers_policy_id_fkey"
+            columns: ["policy_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_policies"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      channel_feeds: {
+        Row: {
+          channel: string
+          created_at: string
+          id: string
+          is_active: boolean
+          last_error: string | null
+          last_status: string | null
+          last_synced_at: string | null
+          name: string | null
+          property_id: string
+          room_id: string
+          updated_at: string
+          url: string
+        }
+        Insert: {
+          channel?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_status?: string | null
+          last_synced_at?: string | null
+          name?: string | null
+          property_id: string
+          room_id: string
+          updated_at?: string
+          url: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          last_error?: string | null
+          last_status?: string | null
+          last_synced_at?: string | null
+          name?: string | null
+          property_id?: string
+          room_id?: string
+          updated_at?: string
+          url?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "channel_feeds_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "channel_feeds_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      channel_sync_logs: {
+        Row: {
+          cancelled_count: number
+          changes: Json
+          created_count: number
+          error: string | null
+          events_count: number
+          feed_id: string
+          finished_at: string | null
+          id: string
+          skipped_count: number
+          started_at: string
+          status: string
+          updated_count: number
+        }
+        Insert: {
+          cancelled_count?: number
+          changes?: Json
+          created_count?: number
+          error?: string | null
+          events_count?: number
+          feed_id: string
+          finished_at?: string | null
+          id?: string
+          skipped_count?: number
+          started_at?: string
+          status?: string
+          updated_count?: number
+        }
+        Update: {
+          cancelled_count?: number
+          changes?: Json
+          created_count?: number
+          error?: string | null
+          events_count?: number
+          feed_id?: string
+          finished_at?: string | null
+          id?: string
+          skipped_count?: number
+          started_at?: string
+          status?: string
+          updated_count?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "channel_sync_logs_feed_id_fkey"
+            columns: ["feed_id"]
+            isOneToOne: false
+            referencedRelation: "channel_feeds"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      folio_items: {
+        Row: {
+          amount: number | null
+          created_at: string
+          created_by: string | null
+          description: string
+          id: string
+          item_type: string
+          posted_at: string | null
+          property_id: string
+          quantity: number
+          reservation_id: string
+          service_date: string
+          status: string
+          tax_rule_id: string | null
+          unit_price: number
+          updated_at: string
+          void_reason: string | null
+          voided_at: string | null
+        }
+        Insert: {
+          amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          description: string
+          id?: string
+          item_type: string
+          posted_at?: string | null
+          property_id: string
+          quantity?: number
+          reservation_id: string
+          service_date?: string
+          status?: string
+          tax_rule_id?: string | null
+          unit_price: number
+          updated_at?: string
+          void_reason?: string | null
+          voided_at?: string | null
+        }
+        Update: {
+          amount?: number | null
+          created_at?: string
+          created_by?: string | null
+          description?: string
+          id?: string
+          item_type?: string
+          posted_at?: string | null
+          property_id?: string
+          quantity?: number
+          reservation_id?: string
+          service_date?: string
+          status?: string
+          tax_rule_id?: string | null
+          unit_price?: number
+          updated_at?: string
+          void_reason?: string | null
+          voided_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "folio_items_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folio_items_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "folio_items_tax_rule_id_fkey"
+            columns: ["tax_rule_id"]
+            isOneToOne: false
+            referencedRelation: "tax_rules"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guest_registrations: {
+        Row: {
+          address: string | null
+          arrival_time: string | null
+          companions: Json
+          created_at: string
+          date_of_birth: string | null
+          document_expiry: string | null
+          document_number: string | null
+          document_photo_path: string | null
+          document_type: string | null
+          full_name: string
+          given_names: string | null
+          house_rules_accepted_at: string | null
+          id: string
+          nationality: string | null
+          property_id: string
+          reservation_id: string
+          submitted_at: string
+          surname: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          arrival_time?: string | null
+          companions?: Json
+          created_at?: string
+          date_of_birth?: string | null
+          document_expiry?: string | null
+          document_number?: string | null
+          document_photo_path?: string | null
+          document_type?: string | null
+          full_name: string
+          given_names?: string | null
+          house_rules_accepted_at?: string | null
+          id?: string
+          nationality?: string | null
+          property_id: string
+          reservation_id: string
+          submitted_at?: string
+          surname?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          arrival_time?: string | null
+          companions?: Json
+          created_at?: string
+          date_of_birth?: string | null
+          document_expiry?: string | null
+          document_number?: string | null
+          document_photo_path?: string | null
+          document_type?: string | null
+          full_name?: string
+          given_names?: string | null
+          house_rules_accepted_at?: string | null
+          id?: string
+          nationality?: string | null
+          property_id?: string
+          reservation_id?: string
+          submitted_at?: string
+          surname?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guest_registrations_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guest_registrations_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: true
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guest_reviews: {
+        Row: {
+          comment: string | null
+          created_at: string
+          id: string
+          property_id: string
+          rating: number
+          reservation_id: string | null
+          reviewed_at: string
+          reviewer_name: string | null
+          source: string
+          updated_at: string
+        }
+        Insert: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          property_id: string
+          rating: number
+          reservation_id?: string | null
+          reviewed_at?: string
+          reviewer_name?: string | null
+          source?: string
+          updated_at?: string
+        }
+        Update: {
+          comment?: string | null
+          created_at?: string
+          id?: string
+          property_id?: string
+          rating?: number
+          reservation_id?: string | null
+          reviewed_at?: string
+          reviewer_name?: string | null
+          source?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "guest_reviews_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "guest_reviews_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: true
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      guests: {
+        Row: {
+          address: string | null
+          created_at: string
+          date_of_birth: string | null
+          document_expiry: string | null
+          document_number: string | null
+          document_type: string | null
+          email: string | null
+          first_stay_at: string | null
+          full_name: string
+          given_names: string | null
+          id: string
+          last_stay_at: string | null
+          nationality: string | null
+          notes: string | null
+          owner_id: string
+          phone: string | null
+          phone_normalized: string | null
+          preferences: string | null
+          surname: string | null
+          tags: string[]
+          total_nights: number
+          total_revenue: number
+          total_stays: number
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          document_expiry?: string | null
+          document_number?: string | null
+          document_type?: string | null
+          email?: string | null
+          first_stay_at?: string | null
+          full_name: string
+          given_names?: string | null
+          id?: string
+          last_stay_at?: string | null
+          nationality?: string | null
+          notes?: string | null
+          owner_id: string
+          phone?: string | null
+          phone_normalized?: string | null
+          preferences?: string | null
+          surname?: string | null
+          tags?: string[]
+          total_nights?: number
+          total_revenue?: number
+          total_stays?: number
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          created_at?: string
+          date_of_birth?: string | null
+          document_expiry?: string | null
+          document_number?: string | null
+          document_type?: string | null
+          email?: string | null
+          first_stay_at?: string | null
+          full_name?: string
+          given_names?: string | null
+          id?: string
+          last_stay_at?: string | null
+          nationality?: string | null
+          notes?: string | null
+          owner_id?: string
+          phone?: string | null
+          phone_normalized?: string | null
+          preferences?: string | null
+          surname?: string | null
+          tags?: string[]
+          total_nights?: number
+          total_revenue?: number
+          total_stays?: number
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      housekeeping_tasks: {
+        Row: {
+          assigned_to: string | null
+          assignee_name: string | null
+          completed_at: string | null
+          created_at: string
+          due_by: string | null
+          duration_minutes: number | null
+          id: string
+          is_turnover: boolean
+          not_before: string | null
+          notes: string | null
+          priority: number
+          property_id: string
+          reservation_id: string | null
+          room_id: string
+          started_at: string | null
+          status: string
+          task_date: string
+          task_type: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          assignee_name?: string | null
+          completed_at?: string | null
+          created_at?: string
+          due_by?: string | null
+          duration_minutes?: number | null
+          id?: string
+          is_turnover?: boolean
+          not_before?: string | null
+          notes?: string | null
+          priority?: number
+          property_id: string
+          reservation_id?: string | null
+          room_id: string
+          started_at?: string | null
+          status?: string
+          task_date: string
+          task_type: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          assignee_name?: string | null
+          completed_at?: string | null
+          created_at?: string
+          due_by?: string | null
+          duration_minutes?: number | null
+          id?: string
+          is_turnover?: boolean
+          not_before?: string | null
+          notes?: string | null
+          priority?: number
+          property_id?: string
+          reservation_id?: string | null
+          room_id?: string
+          started_at?: string | null
+          status?: string
+          task_date?: string
+          task_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "housekeeping_tasks_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "housekeeping_tasks_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "housekeeping_tasks_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_lines: {
+        Row: {
+          description: string
+          id: string
+          invoice_id: string
+          item_type: string
+          net_amount: number
+          position: number
+          quantity: number
+          total_amount: number
+          unit_price: number
+          vat_amount: number
+          vat_rate: number
+        }
+        Insert: {
+          description: string
+          id?: string
+          invoice_id: string
+          item_type: string
+          net_amount: number
+          position: number
+          quantity: number
+          total_amount: number
+          unit_price: number
+          vat_amount: number
+          vat_rate: number
+        }
+        Update: {
+          description?: string
+          id?: string
+          invoice_id?: string
+          item_type?: string
+          net_amount?: number
+          position?: number
+          quantity?: number
+          total_amount?: number
+          unit_price?: number
+          vat_amount?: number
+          vat_rate?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_lines_invoice_id_fkey"
+            columns: ["invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_series: {
+        Row: {
+          created_at: string
+          document_type: string
+          id: string
+          is_active: boolean
+          is_default: boolean
+          name: string
+          next_number: number
+          number_year: number | null
+          padding: number
+          prefix: string
+          property_id: string
+          reset_yearly: boolean
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          document_type?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name: string
+          next_number?: number
+          number_year?: number | null
+          padding?: number
+          prefix?: string
+          property_id: string
+          reset_yearly?: boolean
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          document_type?: string
+          id?: string
+          is_active?: boolean
+          is_default?: boolean
+          name?: string
+          next_number?: number
+          number_year?: number | null
+          padding?: number
+          prefix?: string
+          property_id?: string
+          reset_yearly?: boolean
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_series_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoice_settings: {
+        Row: {
+          accommodation_vat_rate: number
+          bank_account: string | null
+          created_at: string
+          default_vat_rate: number
+          footer_note: string | null
+          locale: string
+          payment_terms_days: number
+          property_id: string
+          seller_address: string | null
+          seller_email: string | null
+          seller_name: string
+          seller_tax_id: string | null
+          seller_vat_id: string | null
+          updated_at: string
+          vat_payer: boolean
+        }
+        Insert: {
+          accommodation_vat_rate?: number
+          bank_account?: string | null
+          created_at?: string
+          default_vat_rate?: number
+          footer_note?: string | null
+          locale?: string
+          payment_terms_days?: number
+          property_id: string
+          seller_address?: string | null
+          seller_email?: string | null
+          seller_name: string
+          seller_tax_id?: string | null
+          seller_vat_id?: string | null
+          updated_at?: string
+          vat_payer?: boolean
+        }
+        Update: {
+          accommodation_vat_rate?: number
+          bank_account?: string | null
+          created_at?: string
+          default_vat_rate?: number
+          footer_note?: string | null
+          locale?: string
+          payment_terms_days?: number
+          property_id?: string
+          seller_address?: string | null
+          seller_email?: string | null
+          seller_name?: string
+          seller_tax_id?: string | null
+          seller_vat_id?: string | null
+          updated_at?: string
+          vat_payer?: boolean
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoice_settings_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: true
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      invoices: {
+        Row: {
+          bank_account: string | null
+          buyer_address: string | null
+          buyer_email: string | null
+          buyer_name: string
+          buyer_tax_id: string | null
+          buyer_vat_id: string | null
+          created_at: string
+          credited_invoice_id: string | null
+          currency: string
+          document_type: string
+          due_date: string
+          footer_note: string | null
+          id: string
+          invoice_number: string
+          issue_date: string
+          issued_by: string | null
+          locale: string
+          notes: string | null
+          property_id: string
+          reservation_id: string | null
+          seller_address: string | null
+          seller_email: string | null
+          seller_name: string
+          seller_tax_id: string | null
+          seller_vat_id: string | null
+          series_id: string
+          subtotal: number
+          supply_date: string
+          total: number
+          vat_payer: boolean
+          vat_total: number
+        }
+        Insert: {
+          bank_account?: string | null
+          buyer_address?: string | null
+          buyer_email?: string | null
+          buyer_name: string
+          buyer_tax_id?: string | null
+          buyer_vat_id?: string | null
+          created_at?: string
+          credited_invoice_id?: string | null
+          currency: string
+          document_type: string
+          due_date: string
+          footer_note?: string | null
+          id?: string
+          invoice_number: string
+          issue_date: string
+          issued_by?: string | null
+          locale: string
+          notes?: string | null
+          property_id: string
+          reservation_id?: string | null
+          seller_address?: string | null
+          seller_email?: string | null
+          seller_name: string
+          seller_tax_id?: string | null
+          seller_vat_id?: string | null
+          series_id: string
+          subtotal: number
+          supply_date: string
+          total: number
+          vat_payer: boolean
+          vat_total: number
+        }
+        Update: {
+          bank_account?: string | null
+          buyer_address?: string | null
+          buyer_email?: string | null
+          buyer_name?: string
+          buyer_tax_id?: string | null
+          buyer_vat_id?: string | null
+          created_at?: string
+          credited_invoice_id?: string | null
+          currency?: string
+          document_type?: string
+          due_date?: string
+          footer_note?: string | null
+          id?: string
+          invoice_number?: string
+          issue_date?: string
+          issued_by?: string | null
+          locale?: string
+          notes?: string | null
+          property_id?: string
+          reservation_id?: string | null
+          seller_address?: string | null
+          seller_email?: string | null
+          seller_name?: string
+          seller_tax_id?: string | null
+          seller_vat_id?: string | null
+          series_id?: string
+          subtotal?: number
+          supply_date?: string
+          total?: number
+          vat_payer?: boolean
+          vat_total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "invoices_credited_invoice_id_fkey"
+            columns: ["credited_invoice_id"]
+            isOneToOne: false
+            referencedRelation: "invoices"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "invoices_series_id_fkey"
+            columns: ["series_id"]
+            isOneToOne: false
+            referencedRelation: "invoice_series"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      maintenance_tickets: {
+        Row: {
+          assigned_to: string | null
+          assignee_name: string | null
+          category: string
+          created_at: string
+          description: string | null
+          id: string
+          out_of_order_from: string | null
+          out_of_order_to: string | null
+          photos: string[]
+          priority: string
+          property_id: string
+          reported_by: string | null
+          resolved_at: string | null
+          room_id: string | null
+          status: string
+          title: string
+          updated_at: string
+        }
+        Insert: {
+          assigned_to?: string | null
+          assignee_name?: string | null
+          category?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          out_of_order_from?: string | null
+          out_of_order_to?: string | null
+          photos?: string[]
+          priority?: string
+          property_id: string
+          reported_by?: string | null
+          resolved_at?: string | null
+          room_id?: string | null
+          status?: string
+          title: string
+          updated_at?: string
+        }
+        Update: {
+          assigned_to?: string | null
+          assignee_name?: string | null
+          category?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          out_of_order_from?: string | null
+          out_of_order_to?: string | null
+          photos?: string[]
+          priority?: string
+          property_id?: string
+          reported_by?: string | null
+          resolved_at?: string | null
+          room_id?: string | null
+          status?: string
+          title?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "maintenance_tickets_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "maintenance_tickets_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_automations: {
+        Row: {
+          anchor: string
+          anchor_event: string | null
+          created_at: string
+          event: string
+          id: string
+          is_active: boolean
+          name: string
+          offset_days: number
+          property_id: string
+          send_time: string | null
+          updated_at: string
+        }
+        Insert: {
+          anchor: string
+          anchor_event?: string | null
+          created_at?: string
+          event: string
+          id?: string
+          is_active?: boolean
+          name: string
+          offset_days?: number
+          property_id: string
+          send_time?: string | null
+          updated_at?: string
+        }
+        Update: {
+          anchor?: string
+          anchor_event?: string | null
+          created_at?: string
+          event?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          offset_days?: number
+          property_id?: string
+          send_time?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_automations_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_log: {
+        Row: {
+          body: string
+          created_at: string
+          error: string | null
+          event: string
+          id: string
+          property_id: string
+          recipient: string
+          reservation_id: string | null
+          sent_by: string | null
+          status: string
+          subject: string
+          template_id: string | null
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          error?: string | null
+          event: string
+          id?: string
+          property_id: string
+          recipient: string
+          reservation_id?: string | null
+          sent_by?: string | null
+          status: string
+          subject: string
+          template_id?: string | null
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          error?: string | null
+          event?: string
+          id?: string
+          property_id?: string
+          recipient?: string
+          reservation_id?: string | null
+          sent_by?: string | null
+          status?: string
+          subject?: string
+          template_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_log_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_log_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "message_log_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "message_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      message_templates: {
+        Row: {
+          body: string
+          created_at: string
+          event: string
+          id: string
+          is_active: boolean
+          property_id: string
+          subject: string
+          updated_at: string
+        }
+        Insert: {
+          body: string
+          created_at?: string
+          event: string
+          id?: string
+          is_active?: boolean
+          property_id: string
+          subject: string
+          updated_at?: string
+        }
+        Update: {
+          body?: string
+          created_at?: string
+          event?: string
+          id?: string
+          is_active?: boolean
+          property_id?: string
+          subject?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "message_templates_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_invitations: {
+        Row: {
+          accepted_at: string | null
+          access: Json
+          created_at: string
+          email: string
+          expires_at: string
+          full_name: string | null
+          id: string
+          invited_by: string | null
+          organization_id: string
+        }
+        Insert: {
+          accepted_at?: string | null
+          access?: Json
+          created_at?: string
+          email: string
+          expires_at?: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          organization_id: string
+        }
+        Update: {
+          accepted_at?: string | null
+          access?: Json
+          created_at?: string
+          email?: string
+          expires_at?: string
+          full_name?: string | null
+          id?: string
+          invited_by?: string | null
+          organization_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_invitations_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organization_members: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          organization_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          organization_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          organization_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "organization_members_organization_id_fkey"
+            columns: ["organization_id"]
+            isOneToOne: false
+            referencedRelation: "organizations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      organizations: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          owner_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          owner_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          owner_id?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      payments: {
+        Row: {
+          amount: number
+          created_at: string
+          id: string
+          method: string
+          notes: string | null
+          paid_at: string
+          payment_type: string
+          property_id: string
+          recorded_by: string | null
+          reference: string | null
+          reservation_id: string
+          updated_at: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          id?: string
+          method: string
+          notes?: string | null
+          paid_at?: string
+          payment_type?: string
+          property_id: string
+          recorded_by?: string | null
+          reference?: string | null
+          reservation_id: string
+          updated_at?: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          id?: string
+          method?: string
+          notes?: string | null
+          paid_at?: string
+          payment_type?: string
+          property_id?: string
+          recorded_by?: string | null
+          reference?: string | null
+          reservation_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payments_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "payments_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      police_registration_batches: {
+        Row: {
+          content: string
+          created_at: string
+          created_by: string | null
+          file_name: string
+          guest_count: number
+          id: string
+          period_end: string
+          period_start: string
+          property_id: string
+          reservation_ids: string[]
+          status: string
+          submitted_at: string | null
+          submitted_by: string | null
+          updated_at: string
+        }
+        Insert: {
+          content: string
+          created_at?: string
+          created_by?: string | null
+          file_name: string
+          guest_count: number
+          id?: string
+          period_end: string
+          period_start: string
+          property_id: string
+          reservation_ids?: string[]
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string
+        }
+        Update: {
+          content?: string
+          created_at?: string
+          created_by?: string | null
+          file_name?: string
+          guest_count?: number
+          id?: string
+          period_end?: string
+          period_start?: string
+          property_id?: string
+          reservation_ids?: string[]
+          status?: string
+          submitted_at?: string | null
+          submitted_by?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "police_registration_batches_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       pricing_rules: {
         Row: {
-          conditions: Json | null
+          conditions: Json | null
+          created_at: string
+          id: string
+          is_active: boolean | null
+          is_percentage: boolean | null
+          price_adjustment: number | null
+          priority: number
+          property_id: string
+          room_id: string | null
+          rule_name: string
+          rule_type: string
+          updated_at: string
+        }
+        Insert: {
+          conditions?: Json | null
+          created_at?: string
+          id?: string
+          is_active?: boolean | null
+          is_percentage?: boolean | null
+          price_adjustment?: number | null
+          priority?: number
+          property_id: string
+          room_id?: string | null
+          rule_name: string
+          rule_type: string
+          updated_at?: string
+        }
+        Update: {
+          conditions?: Json | null
+          created_at?: string
+          id?: string
+          is_active?: boolean | null
+          is_percentage?: boolean | null
+          price_adjustment?: number | null
+          priority?: number
+          property_id?: string
+          room_id?: string | null
+          rule_name?: string
+          rule_type?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_pricing_rules_property"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "pricing_rules_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          created_at: string
+          email: string | null
+          full_name: string | null
+          id: string
+          role: Database["public"]["Enums"]["user_role"] | null
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["user_role"] | null
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          full_name?: string | null
+          id?: string
+          role?: Database["public"]["Enums"]["user_role"] | null
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      properties: {
+        Row: {
+          address: string | null
+          airbnb_listing_id: string | null
+          amenities: string[] | null
+          base_price: number | null
+          bathrooms: number | null
+          bedrooms: number | null
+          booking_com_id: string | null
+          check_in_time: string | null
+          check_out_time: string | null
+          city: string | null
+          country: string | null
+          created_at: string
+          currency: string | null
+          description: string | null
+          direct_booking_enabled: boolean
+          house_rules: string | null
+          id: string
+          is_active: boolean | null
+          max_guests: number | null
+          name: string
+          owner_id: string
+          property_type:
+            | Database["public"]["Enums"]["property_type_enum"]
+            | null
+          star_rating: number | null
+          timezone: string
+          ubyport_abbreviation: string | null
+          ubyport_contact: string | null
+          ubyport_idub: string | null
+          updated_at: string
+        }
+        Insert: {
+          address?: string | null
+          airbnb_listing_id?: string | null
+          amenities?: string[] | null
+          base_price?: number | null
+          bathrooms?: number | null
+          bedrooms?: number | null
+          booking_com_id?: string | null
+          check_in_time?: string | null
+          check_out_time?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          direct_booking_enabled?: boolean
+          house_rules?: string | null
+          id?: string
+          is_active?: boolean | null
+          max_guests?: number | null
+          name: string
+          owner_id: string
+          property_type?:
+            | Database["public"]["Enums"]["property_type_enum"]
+            | null
+          star_rating?: number | null
+          timezone?: string
+          ubyport_abbreviation?: string | null
+          ubyport_contact?: string | null
+          ubyport_idub?: string | null
+          updated_at?: string
+        }
+        Update: {
+          address?: string | null
+          airbnb_listing_id?: string | null
+          amenities?: string[] | null
+          base_price?: number | null
+          bathrooms?: number | null
+          bedrooms?: number | null
+          booking_com_id?: string | null
+          check_in_time?: string | null
+          check_out_time?: string | null
+          city?: string | null
+          country?: string | null
+          created_at?: string
+          currency?: string | null
+          description?: string | null
+          direct_booking_enabled?: boolean
+          house_rules?: string | null
+          id?: string
+          is_active?: boolean | null
+          max_guests?: number | null
+          name?: string
+          owner_id?: string
+          property_type?:
+            | Database["public"]["Enums"]["property_type_enum"]
+            | null
+          star_rating?: number | null
+          timezone?: string
+          ubyport_abbreviation?: string | null
+          ubyport_contact?: string | null
+          ubyport_idub?: string | null
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      property_access: {
+        Row: {
+          can_edit_pricing: boolean
+          can_edit_reservations: boolean
+          can_housekeeping: boolean
+          can_view_reservations: boolean
+          created_at: string
+          id: string
+          member_id: string
+          property_id: string
+          updated_at: string
+        }
+        Insert: {
+          can_edit_pricing?: boolean
+          can_edit_reservations?: boolean
+          can_housekeeping?: boolean
+          can_view_reservations?: boolean
+          created_at?: string
+          id?: string
+          member_id: string
+          property_id: string
+          updated_at?: string
+        }
+        Update: {
+          can_edit_pricing?: boolean
+          can_edit_reservations?: boolean
+          can_housekeeping?: boolean
+          can_view_reservations?: boolean
+          created_at?: string
+          id?: string
+          member_id?: string
+          property_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_access_member_id_fkey"
+            columns: ["member_id"]
+            isOneToOne: false
+            referencedRelation: "organization_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_access_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      property_metric_snapshots: {
+        Row: {
+          created_at: string
+          id: string
+          property_id: string
+          rating_sum: number
+          review_count: number
+          room_nights_sold: number
+          room_revenue: number
+          rooms_available: number
+          snapshot_date: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          property_id: string
+          rating_sum?: number
+          review_count?: number
+          room_nights_sold?: number
+          room_revenue?: number
+          rooms_available?: number
+          snapshot_date: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          property_id?: string
+          rating_sum?: number
+          review_count?: number
+          room_nights_sold?: number
+          room_revenue?: number
+          rooms_available?: number
+          snapshot_date?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_metric_snapshots_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      property_photos: {
+        Row: {
+          alt_text: string | null
+          created_at: string
+          display_order: number | null
+          file_name: string
+          file_path: string
+          file_size: number | null
+          id: string
+          is_primary: boolean | null
+          mime_type: string | null
+          property_id: string
+          room_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          alt_text?: string | null
+          created_at?: string
+          display_order?: number | null
+          file_name: string
+          file_path: string
+          file_size?: number | null
+          id?: string
+          is_primary?: boolean | null
+          mime_type?: string | null
+          property_id: string
+          room_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          alt_text?: string | null
+          created_at?: string
+          display_order?: number | null
+          file_name?: string
+          file_path?: string
+          file_size?: number | null
+          id?: string
+          is_primary?: boolean | null
+          mime_type?: string | null
+          property_id?: string
+          room_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "property_photos_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "property_photos_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rate_limit_hits: {
+        Row: {
+          bucket: string
+          created_at: string
+          id: number
+        }
+        Insert: {
+          bucket: string
+          created_at?: string
+          id?: never
+        }
+        Update: {
+          bucket?: string
+          created_at?: string
+          id?: never
+        }
+        Relationships: []
+      }
+      rate_overrides: {
+        Row: {
           created_at: string
+          created_by: string | null
           id: string
-          is_active: boolean | null
-          is_percentage: boolean | null
-          price_adjustment: number | null
+          night: string
+          price: number
           property_id: string
-          rule_name: string
-          rule_type: string
+          room_type: string
           updated_at: string
         }
         Insert: {
-          conditions?: Json | null
           created_at?: string
+          created_by?: string | null
           id?: string
-          is_active?: boolean | null
-          is_percentage?: boolean | null
-          price_adjustment?: number | null
+          night: string
+          price: number
           property_id: string
-          rule_name: string
-          rule_type: string
+          room_type: string
           updated_at?: string
         }
         Update: {
-          conditions?: Json | null
           created_at?: string
+          created_by?: string | null
           id?: string
-          is_active?: boolean | null
-          is_percentage?: boolean | null
-          price_adjustment?: number | null
+          night?: string
+          price?: number
           property_id?: string
-          rule_name?: string
-          rule_type?: string
+          room_type?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "fk_pricing_rules_property"
+            foreignKeyName: "rate_overrides_property_id_fkey"
             columns: ["property_id"]
             isOneToOne: false
             referencedRelation: "properties"
@@ -61,291 +1818,526 @@ export type Database = {
           },
         ]
       }
-      profiles: {
+      rate_plans: {
         Row: {
+          cancellation_policy_id: string | null
           created_at: string
-          email: string | null
-          full_name: string | null
+          description: string | null
           id: string
-          role: Database["public"]["Enums"]["user_role"] | null
+          is_active: boolean
+          is_percentage: boolean
+          name: string
+          parent_rate_plan_id: string | null
+          price_adjustment: number
+          property_id: string
+          room_type: string | null
           updated_at: string
-          user_id: string
         }
         Insert: {
+          cancellation_policy_id?: string | null
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          description?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["user_role"] | null
+          is_active?: boolean
+          is_percentage?: boolean
+          name: string
+          parent_rate_plan_id?: string | null
+          price_adjustment?: number
+          property_id: string
+          room_type?: string | null
           updated_at?: string
-          user_id: string
         }
         Update: {
+          cancellation_policy_id?: string | null
           created_at?: string
-          email?: string | null
-          full_name?: string | null
+          description?: string | null
           id?: string
-          role?: Database["public"]["Enums"]["user_role"] | null
+          is_active?: boolean
+          is_percentage?: boolean
+          name?: string
+          parent_rate_plan_id?: string | null
+          price_adjustment?: number
+          property_id?: string
+          room_type?: string | null
           updated_at?: string
-          user_id?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "rate_plans_cancellation_policy_id_fkey"
+            columns: ["cancellation_policy_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_plans_parent_rate_plan_id_fkey"
+            columns: ["parent_rate_plan_id"]
+            isOneToOne: false
+            referencedRelation: "rate_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "rate_plans_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      properties: {
+      reservations: {
+        Row: {
+          cancellation_penalty: number | null
+          cancellation_policy_id: string | null
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          channel_feed_id: string | null
+          check_in: string
+          check_out: string
+          checked_in_at: string | null
+          checked_out_at: string | null
+          child_ages: number[]
+          confirmation_code: string
+          created_at: string
+          external_reservation_id: string | null
+          guest_email: string | null
+          guest_id: string | null
+          guest_name: string
+          guest_phone: string | null
+          guests_count: number | null
+          hold_expires_at: string | null
+          id: string
+          key_cards: string[]
+          late_check_out_until: string | null
+          messages_opt_out: boolean
+          notes: string | null
+          pre_checked_in_at: string | null
+          property_id: string
+          rate_plan_id: string | null
+          room_id: string | null
+          source: string | null
+          status: string | null
+          total_price: number
+          updated_at: string
+        }
+        Insert: {
+          cancellation_penalty?: number | null
+          cancellation_policy_id?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          channel_feed_id?: string | null
+          check_in: string
+          check_out: string
+          checked_in_at?: string | null
+          checked_out_at?: string | null
+          child_ages?: number[]
+          confirmation_code?: string
+          created_at?: string
+          external_reservation_id?: string | null
+          guest_email?: string | null
+          guest_id?: string | null
+          guest_name: string
+          guest_phone?: string | null
+          guests_count?: number | null
+          hold_expires_at?: string | null
+          id?: string
+          key_cards?: string[]
+          late_check_out_until?: string | null
+          messages_opt_out?: boolean
+          notes?: string | null
+          pre_checked_in_at?: string | null
+          property_id: string
+          rate_plan_id?: string | null
+          room_id?: string | null
+          source?: string | null
+          status?: string | null
+          total_price: number
+          updated_at?: string
+        }
+        Update: {
+          cancellation_penalty?: number | null
+          cancellation_policy_id?: string | null
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          channel_feed_id?: string | null
+          check_in?: string
+          check_out?: string
+          checked_in_at?: string | null
+          checked_out_at?: string | null
+          child_ages?: number[]
+          confirmation_code?: string
+          created_at?: string
+          external_reservation_id?: string | null
+          guest_email?: string | null
+          guest_id?: string | null
+          guest_name?: string
+          guest_phone?: string | null
+          guests_count?: number | null
+          hold_expires_at?: string | null
+          id?: string
+          key_cards?: string[]
+          late_check_out_until?: string | null
+          messages_opt_out?: boolean
+          notes?: string | null
+          pre_checked_in_at?: string | null
+          property_id?: string
+          rate_plan_id?: string | null
+          room_id?: string | null
+          source?: string | null
+          status?: string | null
+          total_price?: number
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "fk_reservations_property"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_cancellation_policy_id_fkey"
+            columns: ["cancellation_policy_id"]
+            isOneToOne: false
+            referencedRelation: "cancellation_policies"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_channel_feed_id_fkey"
+            columns: ["channel_feed_id"]
+            isOneToOne: false
+            referencedRelation: "channel_feeds"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_guest_id_fkey"
+            columns: ["guest_id"]
+            isOneToOne: false
+            referencedRelation: "guests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_rate_plan_id_fkey"
+            columns: ["rate_plan_id"]
+            isOneToOne: false
+            referencedRelation: "rate_plans"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "reservations_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      room_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: Database["public"]["Enums"]["housekeeping_status"] | null
+          id: string
+          note: string | null
+          reason: string
+          reservation_id: string | null
+          room_id: string
+          to_status: Database["public"]["Enums"]["housekeeping_status"]
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["housekeeping_status"] | null
+          id?: string
+          note?: string | null
+          reason?: string
+          reservation_id?: string | null
+          room_id: string
+          to_status: Database["public"]["Enums"]["housekeeping_status"]
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: Database["public"]["Enums"]["housekeeping_status"] | null
+          id?: string
+          note?: string | null
+          reason?: string
+          reservation_id?: string | null
+          room_id?: string
+          to_status?: Database["public"]["Enums"]["housekeeping_status"]
+        }
+        Relationships: [
+          {
+            foreignKeyName: "room_status_history_reservation_id_fkey"
+            columns: ["reservation_id"]
+            isOneToOne: false
+            referencedRelation: "reservations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "room_status_history_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      rooms: {
         Row: {
-          address: string | null
-          airbnb_listing_id: string | null
           amenities: string[] | null
           base_price: number | null
-          bathrooms: number | null
-          bedrooms: number | null
-          booking_com_id: string | null
-          check_in_time: string | null
-          check_out_time: string | null
-          city: string | null
-          country: string | null
           created_at: string
-          currency: string | null
           description: string | null
+          floor_number: number | null
+          housekeeping_status: Database["public"]["Enums"]["housekeeping_status"]
+          housekeeping_updated_at: string
           id: string
           is_active: boolean | null
           max_guests: number | null
-          name: string
-          owner_id: string
-          property_type:
-            | Database["public"]["Enums"]["property_type_enum"]
-            | null
-          star_rating: number | null
+          position_description: string | null
+          property_id: string
+          room_number: string
+          room_type: string | null
+          size_sqm: number | null
           updated_at: string
         }
         Insert: {
-          address?: string | null
-          airbnb_listing_id?: string | null
           amenities?: string[] | null
           base_price?: number | null
-          bathrooms?: number | null
-          bedrooms?: number | null
-          booking_com_id?: string | null
-          check_in_time?: string | null
-          check_out_time?: string | null
-          city?: string | null
-          country?: string | null
           created_at?: string
-          currency?: string | null
           description?: string | null
+          floor_number?: number | null
+          housekeeping_status?: Database["public"]["Enums"]["housekeeping_status"]
+          housekeeping_updated_at?: string
           id?: string
           is_active?: boolean | null
           max_guests?: number | null
-          name: string
-          owner_id: string
-          property_type?:
-            | Database["public"]["Enums"]["property_type_enum"]
-            | null
-          star_rating?: number | null
+          position_description?: string | null
+          property_id: string
+          room_number: string
+          room_type?: string | null
+          size_sqm?: number | null
           updated_at?: string
         }
-        Update: {
-          address?: string | null
-          airbnb_listing_id?: string | null
+        Update: {
           amenities?: string[] | null
           base_price?: number | null
-          bathrooms?: number | null
-          bedrooms?: number | null
-          booking_com_id?: string | null
-          check_in_time?: string | null
-          check_out_time?: string | null
-          city?: string | null
-          country?: string | null
           created_at?: string
-          currency?: string | null
           description?: string | null
+          floor_number?: number | null
+          housekeeping_status?: Database["public"]["Enums"]["housekeeping_status"]
+          housekeeping_updated_at?: string
           id?: string
           is_active?: boolean | null
           max_guests?: number | null
-          name?: string
-          owner_id?: string
-          property_type?:
-            | Database["public"]["Enums"]["property_type_enum"]
-            | null
-          star_rating?: number | null
+          position_description?: string | null
+          property_id?: string
+          room_number?: string
+          room_type?: string | null
+          size_sqm?: number | null
           updated_at?: string
         }
-        Relationships: []
+        Relationships: [
+          {
+            foreignKeyName: "rooms_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
       }
-      property_photos: {
+      scheduled_messages: {
         Row: {
-          alt_text: string | null
+          automation_id: string
           created_at: string
-          display_order: number | null
-          file_name: string
-          file_path: string
-          file_size: number | null
+          error: string | null
+          event: string
           id: string
-          is_primary: boolean | null
-          mime_type: string | null
+          message_log_id: string | null
+          processed_at: string | null
           property_id: string
-          room_id: string | null
+          reservation_id: string
+          send_at: string
+          status: string
           updated_at: string
         }
         Insert: {
-          alt_text?: string | null
+          automation_id: string
           created_at?: string
-          display_order?: number | null
-          file_name: string
-          file_path: string
-          file_size?: number | null
+          error?: string | null
+          event: string
           id?: string
-          is_primary?: boolean | null
-          mime_type?: string | null
+          message_log_id?: string | null
+          processed_at?: string | null
           property_id: string
-          room_id?: string | null
+          reservation_id: string
+          send_at: string
+          status?: string
           updated_at?: string
         }
         Update: {
-          alt_text?: string | null
+          automation_id?: string
           created_at?: string
-          display_order?: number | null
-          file_name?: string
-          file_path?: string
-          file_size?: number | null
+          error?: string | null
+          event?: string
           id?: string
-          is_primary?: boolean | null
-          mime_type?: string | null
+          message_log_id?: string | null
+          processed_at?: string | null
           property_id?: string
-          room_id?: string | null
+          reservation_id?: string
+          send_at?: string
+          status?: string
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "property_photos_property_id_fkey"
+            foreignKeyName: "scheduled_messages_automation_id_fkey"
+            columns: ["automation_id"]
+            isOneToOne: false
+            referencedRelation: "message_automations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_messages_message_log_id_fkey"
+            columns: ["message_log_id"]
+            isOneToOne: false
+            referencedRelation: "message_log"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_messages_property_id_fkey"
             columns: ["property_id"]
             isOneToOne: false
             referencedRelation: "properties"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "property_photos_room_id_fkey"
-            columns: ["room_id"]
+            foreignKeyName: "scheduled_messages_reservation_id_fkey"
+            columns: ["reservation_id"]
             isOneToOne: false
-            referencedRelation: "rooms"
+            referencedRelation: "reservations"
             referencedColumns: ["id"]
           },
         ]
       }
-      reservations: {
+      stay_restrictions: {
         Row: {
-          check_in: string
-          check_out: string
+          closed_to_arrival: boolean
+          closed_to_departure: boolean
           created_at: string
-          external_reservation_id: string | null
-          guest_email: string | null
-          guest_name: string
-          guest_phone: string | null
-          guests_count: number | null
+          end_date: string
           id: string
-          notes: string | null
+          max_stay: number | null
+          min_stay: number | null
+          note: string | null
           property_id: string
-          source: string | null
-          status: string | null
-          total_price: number
+          rate_plan_id: string | null
+          room_type: string | null
+          start_date: string
+          stop_sell: boolean
           updated_at: string
         }
         Insert: {
-          check_in: string
-          check_out: string
+          closed_to_arrival?: boolean
+          closed_to_departure?: boolean
           created_at?: string
-          external_reservation_id?: string | null
-          guest_email?: string | null
-          guest_name: string
-          guest_phone?: string | null
-          guests_count?: number | null
+          end_date: string
           id?: string
-          notes?: string | null
+          max_stay?: number | null
+          min_stay?: number | null
+          note?: string | null
           property_id: string
-          source?: string | null
-          status?: string | null
-          total_price: number
+          rate_plan_id?: string | null
+          room_type?: string | null
+          start_date: string
+          stop_sell?: boolean
           updated_at?: string
         }
         Update: {
-          check_in?: string
-          check_out?: string
+          closed_to_arrival?: boolean
+          closed_to_departure?: boolean
           created_at?: string
-          external_reservation_id?: string | null
-          guest_email?: string | null
-          guest_name?: string
-          guest_phone?: string | null
-          guests_count?: number | null
+          end_date?: string
           id?: string
-          notes?: string | null
+          max_stay?: number | null
+          min_stay?: number | null
+          note?: string | null
           property_id?: string
-          source?: string | null
-          status?: string | null
-          total_price?: number
+          rate_plan_id?: string | null
+          room_type?: string | null
+          start_date?: string
+          stop_sell?: boolean
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "fk_reservations_property"
+            foreignKeyName: "stay_restrictions_property_id_fkey"
             columns: ["property_id"]
             isOneToOne: false
             referencedRelation: "properties"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stay_restrictions_rate_plan_id_fkey"
+            columns: ["rate_plan_id"]
+            isOneToOne: false
+            referencedRelation: "rate_plans"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      rooms: {
+      tax_rules: {
         Row: {
-          amenities: string[] | null
-          base_price: number | null
+          amount: number
+          basis: string
+          calculation: string
           created_at: string
-          description: string | null
-          floor_number: number | null
+          exempt_under_age: number | null
           id: string
-          is_active: boolean | null
-          max_guests: number | null
-          position_description: string | null
+          is_active: boolean
+          max_nights: number | null
+          name: string
           property_id: string
-          room_number: string
-          room_type: string | null
-          size_sqm: number | null
           updated_at: string
+          valid_from: string | null
+          valid_to: string | null
         }
         Insert: {
-          amenities?: string[] | null
-          base_price?: number | null
+          amount: number
+          basis?: string
+          calculation?: string
           created_at?: string
-          description?: string | null
-          floor_number?: number | null
+          exempt_under_age?: number | null
           id?: string
-          is_active?: boolean | null
-          max_guests?: number | null
-          position_description?: string | null
+          is_active?: boolean
+          max_nights?: number | null
+          name: string
           property_id: string
-          room_number: string
-          room_type?: string | null
-          size_sqm?: number | null
           updated_at?: string
+          valid_from?: string | null
+          valid_to?: string | null
         }
         Update: {
-          amenities?: string[] | null
-          base_price?: number | null
+          amount?: number
+          basis?: string
+          calculation?: string
           created_at?: string
-          description?: string | null
-          floor_number?: number | null
+          exempt_under_age?: number | null
           id?: string
-          is_active?: boolean | null
-          max_guests?: number | null
-          position_description?: string | null
+          is_active?: boolean
+          max_nights?: number | null
+          name?: string
           property_id?: string
-          room_number?: string
-          room_type?: string | null
-          size_sqm?: number | null
           updated_at?: string
+          valid_from?: string | null
+          valid_to?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "rooms_property_id_fkey"
+            foreignKeyName: "tax_rules_property_id_fkey"
             columns: ["property_id"]
             isOneToOne: false
             referencedRelation: "properties"
@@ -355,12 +2347,429 @@ export type Database = {
       }
     }
     Views: {
-      [_ in never]: never
+      reservation_balances: {
+        Row: {
+          balance: number | null
+          charges: number | null
+          paid: number | null
+          posted_charges: number | null
+          property_id: string | null
+          reservation_id: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "reservations_property_id_fkey"
+            columns: ["property_id"]
+            isOneToOne: false
+            referencedRelation: "properties"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Functions: {
-      [_ in never]: never
+      accept_pending_invitations: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      apply_rate_change: {
+        Args: {
+          p_from: string
+          p_mode: string
+          p_property_id: string
+          p_room_types: string[]
+          p_to: string
+          p_value?: number
+        }
+        Returns: number
+      }
+      arrange_late_check_out: {
+        Args: {
+          p_fee?: number
+          p_reservation_id: string
+          p_until: string
+        }
+        Returns: undefined
+      }
+      calculate_city_tax: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: number
+      }
+      cancel_reservation: {
+        Args: {
+          p_reservation_id: string
+          p_reason?: string
+          p_waive_penalty?: boolean
+        }
+        Returns: number
+      }
+      cancellation_penalty: {
+        Args: {
+          p_reservation_id: string
+          p_date?: string
+        }
+        Returns: number
+      }
+      capture_property_metrics: {
+        Args: {
+          p_date?: string
+          p_property_id?: string
+        }
+        Returns: number
+      }
+      check_in_reservation: {
+        Args: {
+          p_early_fee?: number
+          p_key_cards?: string[]
+          p_reservation_id: string
+          p_room_id?: string
+        }
+        Returns: undefined
+      }
+      check_out_reservation: {
+        Args: {
+          p_allow_balance?: boolean
+          p_reservation_id: string
+        }
+        Returns: number
+      }
+      check_stay_restrictions: {
+        Args: {
+          p_check_in: string
+          p_check_out: string
+          p_property_id: string
+          p_rate_plan_id?: string
+          p_room_id?: string
+        }
+        Returns: {
+          message: string
+          restriction: string
+          restriction_date: string
+        }[]
+      }
+      claim_booking_form_token: {
+        Args: {
+          p_nonce: string
+        }
+        Returns: boolean
+      }
+      claim_housekeeping_task: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: undefined
+      }
+      claim_scheduled_messages: {
+        Args: {
+          p_limit?: number
+        }
+        Returns: {
+          automation_id: string
+          created_at: string
+          error: string | null
+          event: string
+          id: string
+          message_log_id: string | null
+          processed_at: string | null
+          property_id: string
+          reservation_id: string
+          send_at: string
+          status: string
+          updated_at: string
+        }[]
+      }
+      complete_housekeeping_task: {
+        Args: {
+          p_notes?: string
+          p_task_id: string
+        }
+        Returns: undefined
+      }
+      expire_pending_direct_bookings: {
+        Args: Record<PropertyKey, never>
+        Returns: number
+      }
+      folio_invoice_lines: {
+        Args: {
+          p_accommodation_vat_rate: number
+          p_default_vat_rate: number
+          p_reservation_id: string
+          p_vat_payer: boolean
+        }
+        Returns: {
+          description: string
+          item_type: string
+          line_position: number
+          net_amount: number
+          quantity: number
+          total_amount: number
+          unit_price: number
+          vat_amount: number
+          vat_rate: number
+        }[]
+      }
+      generate_confirmation_code: {
+        Args: Record<PropertyKey, never>
+        Returns: string
+      }
+      generate_housekeeping_tasks: {
+        Args: {
+          p_date?: string
+          p_property_id?: string
+        }
+        Returns: number
+      }
+      has_guest_access: {
+        Args: {
+          p_capability: string
+          p_guest_id: string
+          p_owner_id: string
+        }
+        Returns: boolean
+      }
+      has_property_access: {
+        Args: {
+          p_property_id: string
+        }
+        Returns: boolean
+      }
+      has_property_capability: {
+        Args: {
+          p_capability: string
+          p_property_id: string
+        }
+        Returns: boolean
+      }
+      hit_rate_limit: {
+        Args: {
+          p_bucket: string
+          p_limit: number
+          p_window_seconds: number
+        }
+        Returns: boolean
+      }
+      issue_credit_note: {
+        Args: {
+          p_invoice_id: string
+          p_issue_date?: string
+          p_reason?: string
+        }
+        Returns: string
+      }
+      issue_invoice: {
+        Args: {
+          p_buyer_address?: string
+          p_buyer_email?: string
+          p_buyer_name?: string
+          p_buyer_tax_id?: string
+          p_buyer_vat_id?: string
+          p_issue_date?: string
+          p_notes?: string
+          p_reservation_id: string
+          p_series_id?: string
+        }
+        Returns: string
+      }
+      lock_room_calendar: {
+        Args: {
+          p_room_id: string
+        }
+        Returns: undefined
+      }
+      next_invoice_number: {
+        Args: {
+          p_issue_date: string
+          p_series_id: string
+        }
+        Returns: string
+      }
+      normalize_phone: {
+        Args: {
+          p_phone: string
+        }
+        Returns: string
+      }
+      owns_organization: {
+        Args: {
+          p_organization_id: string
+        }
+        Returns: boolean
+      }
+      plan_scheduled_messages: {
+        Args: {
+          p_property_id?: string
+          p_reservation_id?: string
+        }
+        Returns: number
+      }
+      post_folio_charges: {
+        Args: {
+          p_date?: string
+          p_property_id?: string
+        }
+        Returns: number
+      }
+      pricing_rule_matches: {
+        Args: {
+          p_conditions: Json
+          p_night: string
+          p_occupancy: number
+          p_rule_type: string
+        }
+        Returns: boolean
+      }
+      pricing_rule_stage: {
+        Args: {
+          p_rule_type: string
+        }
+        Returns: number
+      }
+      property_occupancy: {
+        Args: {
+          p_night: string
+          p_property_id: string
+        }
+        Returns: number
+      }
+      property_today: {
+        Args: {
+          p_property_id: string
+        }
+        Returns: string
+      }
+      rate_grid: {
+        Args: {
+          p_from: string
+          p_property_id: string
+          p_to: string
+        }
+        Returns: {
+          available_units: number
+          booked_units: number
+          closed_to_arrival: boolean
+          closed_to_departure: boolean
+          is_override: boolean
+          max_stay: number
+          min_stay: number
+          night: string
+          out_of_order_units: number
+          price: number
+          room_type: string
+          stop_sell: boolean
+          total_units: number
+        }[]
+      }
+      recalculate_city_tax: {
+        Args: {
+          p_property_id: string
+        }
+        Returns: number
+      }
+      refresh_guest_stats: {
+        Args: {
+          p_guest_id: string
+        }
+        Returns: undefined
+      }
+      refresh_housekeeping_tasks: {
+        Args: {
+          p_date?: string
+          p_property_id?: string
+        }
+        Returns: number
+      }
+      release_housekeeping_task: {
+        Args: {
+          p_task_id: string
+        }
+        Returns: undefined
+      }
+      resolve_night_price: {
+        Args: {
+          p_base: number
+          p_night: string
+          p_occupancy: number
+          p_property_id: string
+          p_room_id?: string
+          p_room_type?: string
+        }
+        Returns: {
+          applied_rules: Json
+          price: number
+        }[]
+      }
+      resolve_nightly_rates: {
+        Args: {
+          p_check_in: string
+          p_check_out: string
+          p_property_id: string
+          p_rate_plan_id?: string
+          p_room_id?: string
+        }
+        Returns: {
+          applied_rules: Json
+          base_price: number
+          night: string
+          occupancy: number
+          price: number
+        }[]
+      }
+      room_out_of_order: {
+        Args: {
+          p_night: string
+          p_room_id: string
+        }
+        Returns: boolean
+      }
+      run_night_audit: {
+        Args: {
+          p_date?: string
+          p_property_id: string
+        }
+        Returns: number
+      }
+      seed_cancellation_policies: {
+        Args: {
+          p_property_id: string
+        }
+        Returns: undefined
+      }
+      seed_invoice_series: {
+        Args: {
+          p_property_id: string
+        }
+        Returns: undefined
+      }
+      seed_message_templates: {
+        Args: {
+          p_property_id: string
+        }
+        Returns: undefined
+      }
+      set_room_status: {
+        Args: {
+          p_note?: string
+          p_room_id: string
+          p_status: Database["public"]["Enums"]["housekeeping_status"]
+        }
+        Returns: undefined
+      }
+      sync_room_charges: {
+        Args: {
+          p_reservation_id: string
+        }
+        Returns: undefined
+      }
     }
     Enums: {
+      housekeeping_status:
+        | "clean"
+        | "occupied"
+        | "needs_cleaning"
+        | "dirty"
+        | "maintenance"
       property_type_enum:
         | "hotel"
         | "bed_and_breakfast"
@@ -501,6 +2910,13 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
+      housekeeping_status: [
+        "clean",
+        "occupied",
+        "needs_cleaning",
+        "dirty",
+        "maintenance",
+      ],
       property_type_enum: [
         "hotel",
         "bed_and_breakfast",
@@ -0,0 +1,37 @@
+import { supabase } from '@/integrations/supabase/client';
+
+// Requests understood by the ai-pricing edge function. The function owns the
+// model credentials and prompts; the browser only describes what it needs.
+export type AIPricingRequest =
+  | { task: 'health' }
+  | { task: 'pricing_suggestions'; property_id: string }
+  | {
+      task: 'market_research';
+      location: { lat: number; lng: number };
+      radius: number;
+      accommodation_type: string;
+      check_in: string;
+      check_out: string;
+    };
+
+export interface AIHealth {
+  status: string;
+  provider: string;
+  configured: boolean;
+}
+
+export const invokeAIPricing = async <T>(request: AIPricingRequest): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('ai-pricing', { body: request });
+  if (error) throw error;
+  return request.task === 'health' ? data : data.data;
+};
+
+export const checkAIHealth = async () => {
+  try {
+    const health = await invokeAIPricing<AIHealth>({ task: 'health' });
+    return health.configured;
+  } catch (error) {
+    console.warn('AI service not available:', error);
+    return false;
+  }
+};
@@ -0,0 +1,337 @@
+import { addDays, differenceInCalendarDays, format, parseISO, subYears } from 'date-fns';
+
+// Reports work on nights: a stay occupies [check_in, check_out) and a date
+// range [from, to) covers the nights from `from` up to the night before `to`.
+export interface DateRange {
+  from: string;
+  to: string;
+}
+
+export interface AnalyticsReservation {
+  id: string;
+  property_id: string;
+  room_id: string | null;
+  check_in: string;
+  check_out: string;
+  total_price: number;
+  status: string | null;
+  source: string | null;
+  created_at: string;
+  cancelled_at?: string | null;
+  cancellation_penalty?: number | null;
+}
+
+export interface AnalyticsRoom {
+  id: string;
+  property_id: string;
+  room_type: string | null;
+}
+
+export interface AnalyticsBlock {
+  room_id: string | null;
+  out_of_order_from: string | null;
+  out_of_order_to: string | null;
+  resolved_at: string | null;
+}
+
+export interface Inventory {
+  // Properties without rooms are sold as a single unit
+  propertyIds: string[];
+  rooms: AnalyticsRoom[];
+  blocks: AnalyticsBlock[];
+}
+
+const isoDate = (date: Date) => format(date, 'yyyy-MM-dd');
+
+export const countNights = (from: string, to: string) =>
+  Math.max(0, differenceInCalendarDays(parseISO(to), parseISO(from)));
+
+export const eachNight = ({ from, to }: DateRange) =>
+  Array.from({ length: countNights(from, to) }, (_, i) => isoDate(addDays(parseISO(from), i)));
+
+const overlapNights = (start: string, end: string, range: DateRange) => {
+  const from = start > range.from ? start : range.from;
+  const to = end < range.to ? end : range.to;
+  return countNights(from, to);
+};
+
+export const isSold = (reservation: Pick<AnalyticsReservation, 'status'>) =>
+  reservation.status !== 'cancelled';
+
+// Revenue is spread evenly over the nights of a stay
+const nightlyRevenue = (reservation: AnalyticsReservation) => {
+  const nights = countNights(reservation.check_in, reservation.check_out);
+  return nights > 0 ? Number(reservation.total_price) / nights : 0;
+};
+
+// Resolved tickets stopped blocking on the day they were resolved
+const blockRange = (block: AnalyticsBlock): DateRange | null => {
+  if (!block.room_id || !block.out_of_order_from || !block.out_of_order_to) return null;
+  const resolvedOn = block.resolved_at ? isoDate(addDays(parseISO(block.resolved_at), 1)) : null;
+  const to = resolvedOn && resolvedOn < block.out_of_order_to ? resolvedOn : block.out_of_order_to;
+  return to > block.out_of_order_from ? { from: block.out_of_order_from, to } : null;
+};
+
+export const availableRoomNights = (inventory: Inventory, range: DateRange) => {
+  const nights = countNights(range.from, range.to);
+  const roomProperties = new Set(inventory.rooms.map(room => room.property_id));
+  const units = inventory.rooms.length + inventory.propertyIds.filter(id => !roomProperties.has(id)).length;
+  const roomIds = new Set(inventory.rooms.map(room => room.id));
+
+  const outOfOrder = inventory.blocks.reduce((sum, block) => {
+    const blocked = blockRange(block);
+    return blocked && roomIds.has(block.room_id!) ? sum + overlapNights(blocked.from, blocked.to, range) : sum;
+  }, 0);
+
+  return Math.max(0, units * nights - outOfOrder);
+};
+
+export interface KpiSummary {
+  roomNightsAvailable: number;
+  roomNightsSold: number;
+  occupancy: number;
+  revenue: number;
+  adr: number;
+  revpar: number;
+  bookings: number;
+  averageLeadTime: number;
+  averageLengthOfStay: number;
+}
+
+export const summarize = (reservations: AnalyticsReservation[], inventory: Inventory, range: DateRange): KpiSummary => {
+  let roomNightsSold = 0;
+  let revenue = 0;
+  const staying: AnalyticsReservation[] = [];
+
+  reservations.filter(isSold).forEach(reservation => {
+    const nights = overlapNights(reservation.check_in, reservation.check_out, range);
+    if (nights === 0) return;
+    roomNightsSold += nights;
+    revenue += nights * nightlyRevenue(reservation);
+    staying.push(reservation);
+  });
+
+  const roomNightsAvailable = availableRoomNights(inventory, range);
+  const arriving = staying.filter(r => r.check_in >= range.from && r.check_in < range.to);
+
+  return {
+    roomNightsAvailable,
+    roomNightsSold,
+    occupancy: roomNightsAvailable > 0 ? (roomNightsSold / roomNightsAvailable) * 100 : 0,
+    revenue,
+    adr: roomNightsSold > 0 ? revenue / roomNightsSold : 0,
+    revpar: roomNightsAvailable > 0 ? revenue / roomNightsAvailable : 0,
+    bookings: arriving.length,
+    averageLeadTime: average(arriving.map(leadTime)),
+    averageLengthOfStay: average(arriving.map(r => countNights(r.check_in, r.check_out))),
+  };
+};
+
+const average = (values: number[]) =>
+  values.length > 0 ? values.reduce((sum, v) => sum + v, 0) / values.length : 0;
+
+// Days between booking and arrival
+export const leadTime = (reservation: AnalyticsReservation) =>
+  Math.max(0, differenceInCalendarDays(parseISO(reservation.check_in), parseISO(reservation.created_at)));
+
+export interface PerformancePoint {
+  label: string;
+  occupancy: number;
+  adr: number;
+  revpar: number;
+  revenue: number;
+}
+
+// Daily points for ranges up to two months, monthly points beyond that
+export const performanceSeries = (
+  reservations: AnalyticsReservation[],
+  inventory: Inventory,
+  range: DateRange
+): PerformancePoint[] => {
+  const nights = eachNight(range);
+  const monthly = nights.length > 62;
+  const buckets: DateRange[] = [];
+
+  nights.forEach(night => {
+    const last = buckets[buckets.length - 1];
+    if (monthly && last && last.from.slice(0, 7) === night.slice(0, 7)) {
+      last.to = isoDate(addDays(parseISO(night), 1));
+    } else {
+      buckets.push({ from: night, to: isoDate(addDays(parseISO(night), 1)) });
+    }
+  });
+
+  return buckets.map(bucket => {
+    const kpis = summarize(reservations, inventory, bucket);
+    return {
+      label: format(parseISO(bucket.from), monthly ? 'MMM yyyy' : 'MMM d'),
+      occupancy: round(kpis.occupancy),
+      adr: round(kpis.adr),
+      revpar: round(kpis.revpar),
+      revenue: round(kpis.revenue),
+    };
+  });
+};
+
+const round = (value: number) => Math.round(value * 10) / 10;
+
+export interface DistributionBucket {
+  label: string;
+  bookings: number;
+}
+
+const LEAD_TIME_BUCKETS = [
+  { label: 'Same/next day', max: 1 },
+  { label: '2–7 days', max: 7 },
+  { label: '8–30 days', max: 30 },
+  { label: '31–90 days', max: 90 },
+  { label: '90+ days', max: Infinity },
+];
+
+const LENGTH_OF_STAY_BUCKETS = [
+  { label: '1 night', max: 1 },
+  { label: '2 nights', max: 2 },
+  { label: '3 nights', max: 3 },
+  { label: '4–6 nights', max: 6 },
+  { label: '7–13 nights', max: 13 },
+  { label: '14+ nights', max: Infinity },
+];
+
+const distribute = (values: number[], buckets: { label: string; max: number }[]): DistributionBucket[] =>
+  buckets.map((bucket, i) => ({
+    label: bucket.label,
+    bookings: values.filter(v => v <= bucket.max && (i === 0 || v > buckets[i - 1].max)).length,
+  }));
+
+const arrivalsIn = (reservations: AnalyticsReservation[], range: DateRange) =>
+  reservations.filter(r => isSold(r) && r.check_in >= range.from && r.check_in < range.to);
+
+export const leadTimeDistribution = (reservations: AnalyticsReservation[], range: DateRange) =>
+  distribute(arrivalsIn(reservations, range).map(leadTime), LEAD_TIME_BUCKETS);
+
+export const lengthOfStayDistribution = (reservations: AnalyticsReservation[], range: DateRange) =>
+  distribute(arrivalsIn(reservations, range).map(r => countNights(r.check_in, r.check_out)), LENGTH_OF_STAY_BUCKETS);
+
+export interface ChannelShare {
+  source: string;
+  bookings: number;
+  roomNights: number;
+  revenue: number;
+}
+
+// Channel mix by reservation source over the stay nights in range
+export const channelMix = (reservations: AnalyticsReservation[], range: DateRange): ChannelShare[] => {
+  const bySource = new Map<string, ChannelShare>();
+
+  reservations.filter(isSold).forEach(reservation => {
+    const nights = overlapNights(reservation.check_in, reservation.check_out, range);
+    if (nights === 0) return;
+
+    const source = reservation.source || 'manual';
+    const share = bySource.get(source) ?? { source, bookings: 0, roomNights: 0, revenue: 0 };
+    share.bookings += 1;
+    share.roomNights += nights;
+    share.revenue += nights * nightlyRevenue(reservation);
+    bySource.set(source, share);
+  });
+
+  return [...bySource.values()]
+    .map(share => ({ ...share, revenue: round(share.revenue) }))
+    .sort((a, b) => b.roomNights - a.roomNights);
+};
+
+export interface CancellationStats {
+  bookings: number;
+  cancelled: number;
+  rate: number;
+  penalties: number;
+  averageNoticeDays: number;
+}
+
+export interface ChannelCancellations {
+  source: string;
+  bookings: number;
+  cancelled: number;
+  rate: number;
+}
+
+// Share of the reservations due to arrive in range that were cancelled, with
+// the penalties charged and how many days before arrival guests cancelled
+export const cancellationStats = (reservations: AnalyticsReservation[], range: DateRange): CancellationStats => {
+  const due = reservations.filter(r => r.check_in >= range.from && r.check_in < range.to);
+  const cancelled = due.filter(r => !isSold(r));
+
+  return {
+    bookings: due.length,
+    cancelled: cancelled.length,
+    rate: due.length > 0 ? (cancelled.length / due.length) * 100 : 0,
+    penalties: cancelled.reduce((sum, r) => sum + Number(r.cancellation_penalty ?? 0), 0),
+    averageNoticeDays: average(
+      cancelled
+        .filter(r => r.cancelled_at)
+        .map(r => Math.max(0, differenceInCalendarDays(parseISO(r.check_in), parseISO(r.cancelled_at!))))
+    ),
+  };
+};
+
+export const cancellationsByChannel = (reservations: AnalyticsReservation[], range: DateRange): ChannelCancellations[] => {
+  const bySource = new Map<string, ChannelCancellations>();
+
+  reservations
+    .filter(r => r.check_in >= range.from && r.check_in < range.to)
+    .forEach(reservation => {
+      const source = reservation.source || 'manual';
+      const entry = bySource.get(source) ?? { source, bookings: 0, cancelled: 0, rate: 0 };
+      entry.bookings += 1;
+      if (!isSold(reservation)) entry.cancelled += 1;
+      bySource.set(source, entry);
+    });
+
+  return [...bySource.values()]
+    .map(entry => ({ ...entry, rate: round((entry.cancelled / entry.bookings) * 100) }))
+    .sort((a, b) => b.bookings - a.bookings);
+};
+
+export interface PacePoint {
+  daysOut: number;
+  current: number;
+  lastYear: number;
+}
+
+// Room nights on the books for the range, counted weekly from `horizon` days
+// before it starts, next to the same range one year earlier. Cancelled
+// reservations count until the day they were cancelled; those without a
+// cancellation date are left out.
+export const bookingPace = (reservations: AnalyticsReservation[], range: DateRange, horizon = 91): PacePoint[] => {
+  const lastYearRange = {
+    from: isoDate(subYears(parseISO(range.from), 1)),
+    to: isoDate(subYears(parseISO(range.to), 1)),
+  };
+  const booked = reservations.filter(r => isSold(r) || r.cancelled_at);
+  const today = isoDate(new Date());
+
+  const onTheBooks = (period: DateRange, asOf: string) =>
+    booked.reduce((sum, r) =>
+      r.created_at.slice(0, 10) <= asOf && (isSold(r) || r.cancelled_at!.slice(0, 10) > asOf)
+        ? sum + overlapNights(r.check_in, r.check_out, period)
+        : sum,
+    0);
+
+  const points: PacePoint[] = [];
+  for (let daysOut = horizon; daysOut >= 0; daysOut -= 7) {
+    const asOf = isoDate(addDays(parseISO(range.from), -daysOut));
+    if (asOf > today) break;
+    points.push({
+      daysOut,
+      current: onTheBooks(range, asOf),
+      lastYear: onTheBooks(lastYearRange, isoDate(subYears(parseISO(asOf), 1))),
+    });
+  }
+  return points;
+};
+
+// Nights a reservation query has to cover to feed bookingPace
+export const paceFetchRange = (range: DateRange): DateRange => ({
+  from: isoDate(subYears(parseISO(range.from), 1)),
+  to: range.to,
+});
@@ -0,0 +1,121 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface PublicProperty {
+  id: string;
+  name: string;
+  description: string | null;
+  property_type: string | null;
+  address: string | null;
+  city: string | null;
+  country: string | null;
+  amenities: string[] | null;
+  star_rating: number | null;
+  currency: string | null;
+  check_in_time: string | null;
+  check_out_time: string | null;
+}
+
+export interface PublicRoomType {
+  room_type: string;
+  description: string | null;
+  max_guests: number | null;
+  size_sqm: number | null;
+  amenities: string[] | null;
+}
+
+export interface PublicPropertyDetails {
+  property: PublicProperty;
+  photos: { url: string; alt_text: string | null }[];
+  room_types: PublicRoomType[];
+  form_token: string;
+  // Null when the challenge is not configured; bookings are refused then
+  turnstile_site_key: string | null;
+}
+
+export interface StayOffer {
+  room_type: string;
+  available_units: number;
+  nights: { night: string; price: number }[];
+  total: number | null;
+  unavailable_reason?: string;
+}
+
+export interface StaySearch {
+  propertyId: string;
+  checkIn: string;
+  checkOut: string;
+  guests: number;
+}
+
+export interface BookingRequest extends StaySearch {
+  roomType: string;
+  guestName: string;
+  guestEmail: string;
+  guestPhone?: string;
+  notes?: string;
+  formToken: string;
+  captchaToken: string;
+  // Honeypot; the form keeps it empty for people
+  website?: string;
+}
+
+export interface BookingConfirmation {
+  confirmation_code: string;
+  check_in: string;
+  check_out: string;
+  total_price: number;
+  room_type: string;
+  currency: string | null;
+  status: string;
+  // The request is cancelled unless the property confirms it by then
+  hold_expires_at: string | null;
+}
+
+// Guests see prices in the property's currency rather than the dashboard's dollars
+export const formatStayPrice = (value: number, currency: string | null) =>
+  new Intl.NumberFormat(undefined, { style: 'currency', currency: currency || 'USD' }).format(value);
+
+// Public page where guests book a property directly
+export const getBookingPageUrl = (propertyId: string) => `${window.location.origin}/book/${propertyId}`;
+
+// The edge function answers errors with { error }; surface that message
+// rather than the generic non-2xx one from the client
+const invokeBookingEngine = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('booking-engine', { body });
+  if (error) {
+    const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+};
+
+export const fetchPublicProperty = (propertyId: string) =>
+  invokeBookingEngine<PublicPropertyDetails>({ action: 'property', property_id: propertyId });
+
+export const searchStay = async ({ propertyId, checkIn, checkOut, guests }: StaySearch) => {
+  const data = await invokeBookingEngine<{ offers: StayOffer[] }>({
+    action: 'search',
+    property_id: propertyId,
+    check_in: checkIn,
+    check_out: checkOut,
+    guests,
+  });
+  return data.offers;
+};
+
+export const bookStay = (request: BookingRequest) =>
+  invokeBookingEngine<BookingConfirmation>({
+    action: 'book',
+    property_id: request.propertyId,
+    check_in: request.checkIn,
+    check_out: request.checkOut,
+    guests: request.guests,
+    room_type: request.roomType,
+    guest_name: request.guestName,
+    guest_email: request.guestEmail,
+    guest_phone: request.guestPhone || undefined,
+    notes: request.notes || undefined,
+    form_token: request.formToken,
+    captcha_token: request.captchaToken,
+    website: request.website || undefined,
+  });
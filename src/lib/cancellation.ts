@@ -0,0 +1,79 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { formatAmount } from '@/lib/invoices';
+
+export type CancellationPolicy = Database['public']['Tables']['cancellation_policies']['Row'];
+export type CancellationPolicyTier = Database['public']['Tables']['cancellation_policy_tiers']['Row'];
+
+export type CancellationPolicyWithTiers = CancellationPolicy & {
+  cancellation_policy_tiers: CancellationPolicyTier[];
+};
+
+export const PENALTY_TYPES: Record<string, string> = {
+  percentage: 'Percentage of the stay',
+  nights: 'Number of nights',
+  flat: 'Flat amount',
+};
+
+// Tiers in the order they take effect as arrival gets closer; the tier
+// without a window applies at any time and comes first
+export const sortTiers = (tiers: CancellationPolicyTier[]) =>
+  [...tiers].sort((a, b) => (b.days_before ?? Infinity) - (a.days_before ?? Infinity));
+
+const describePenalty = (tier: Pick<CancellationPolicyTier, 'penalty_type' | 'penalty_value'>, currency: string) => {
+  const value = Number(tier.penalty_value);
+  switch (tier.penalty_type) {
+    case 'percentage':
+      return `${value}% of the stay`;
+    case 'nights':
+      return `${value} ${value === 1 ? 'night' : 'nights'}`;
+    default:
+      return formatAmount(value, currency);
+  }
+};
+
+export const describeTier = (
+  tier: Pick<CancellationPolicyTier, 'days_before' | 'penalty_type' | 'penalty_value'>,
+  currency: string,
+) =>
+  tier.days_before == null
+    ? `${describePenalty(tier, currency)} at any time`
+    : `${describePenalty(tier, currency)} within ${tier.days_before} ${tier.days_before === 1 ? 'day' : 'days'} of arrival`;
+
+export const describePolicy = (policy: CancellationPolicyWithTiers, currency: string) =>
+  policy.cancellation_policy_tiers.length === 0
+    ? 'Free cancellation'
+    : sortTiers(policy.cancellation_policy_tiers).map(tier => describeTier(tier, currency)).join(', ');
+
+export const fetchCancellationPolicies = async (propertyId: string): Promise<CancellationPolicyWithTiers[]> => {
+  const { data, error } = await supabase
+    .from('cancellation_policies')
+    .select('*, cancellation_policy_tiers (*)')
+    .eq('property_id', propertyId)
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// What cancelling today would cost, without changing anything
+export const previewCancellationPenalty = async (reservationId: string) => {
+  const { data, error } = await supabase.rpc('cancellation_penalty', {
+    p_reservation_id: reservationId,
+  });
+
+  if (error) throw error;
+  return Number(data ?? 0);
+};
+
+// Returns the penalty posted to the folio
+export const cancelReservation = async (reservationId: string, reason: string, waivePenalty = false) => {
+  const { data, error } = await supabase.rpc('cancel_reservation', {
+    p_reservation_id: reservationId,
+    p_reason: reason,
+    p_waive_penalty: waivePenalty,
+  });
+
+  if (error) throw error;
+  return Number(data ?? 0);
+};
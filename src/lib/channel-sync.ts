@@ -0,0 +1,29 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export const CHANNELS = [
+  { value: 'airbnb', label: 'Airbnb' },
+  { value: 'booking.com', label: 'Booking.com' },
+  { value: 'other', label: 'Other' },
+];
+
+export interface SyncChange {
+  uid: string;
+  action: 'created' | 'updated' | 'cancelled' | 'skipped' | 'ignored';
+  check_in: string;
+  check_out: string;
+  reason?: string;
+}
+
+// Signed, public ICS URL for a room. Channels poll it to block booked dates.
+export const getRoomExportUrl = async (roomId: string): Promise<string> => {
+  const { data, error } = await supabase.functions.invoke('ical-export', { body: { room_id: roomId } });
+  if (error) throw error;
+  return data.url;
+};
+
+// Runs an import for one feed right away instead of waiting for the schedule
+export const syncChannelFeed = async (feedId: string) => {
+  const { data, error } = await supabase.functions.invoke('ical-import', { body: { feed_id: feedId } });
+  if (error) throw error;
+  return data.results?.[0] as { status: string; error: string | null; changes: number } | undefined;
+};
@@ -0,0 +1,155 @@
+import { addMonths, differenceInCalendarDays, format, max, min, parseISO, startOfMonth } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { formatAmount } from '@/lib/invoices';
+
+export type TaxRule = Database['public']['Tables']['tax_rules']['Row'];
+
+export const TAX_CALCULATIONS: Record<string, string> = {
+  flat: 'Flat amount',
+  percentage: 'Percentage of room rate',
+};
+
+export const TAX_BASES: Record<string, string> = {
+  per_person: 'Per person per night',
+  per_room: 'Per room per night',
+};
+
+export const describeTaxRule = (rule: TaxRule, currency: string) => {
+  const parts = [
+    rule.calculation === 'percentage'
+      ? `${Number(rule.amount)}% of the nightly rate`
+      : `${formatAmount(Number(rule.amount), currency)} ${rule.basis === 'per_person' ? 'per person' : 'per room'} per night`,
+  ];
+  if (rule.exempt_under_age) parts.push(`under ${rule.exempt_under_age} exempt`);
+  if (rule.max_nights) parts.push(`first ${rule.max_nights} nights only`);
+  return parts.join(', ');
+};
+
+// "4, 11" -> [4, 11]; anything that is not a whole number is dropped
+export const parseChildAges = (value: string) =>
+  value
+    .split(/[,\s]+/)
+    .filter(Boolean)
+    .map(part => Number(part))
+    .filter(age => Number.isInteger(age) && age >= 0);
+
+export const formatChildAges = (ages: number[] | null | undefined) => (ages || []).join(', ');
+
+export interface MunicipalReportRow {
+  reservationId: string;
+  guestName: string;
+  nationality: string | null;
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  guests: number;
+  personNights: number;
+  exemptPersonNights: number;
+  taxablePersonNights: number;
+  tax: number;
+}
+
+// One row per stay with nights in the month. Taxable person-nights come from
+// the per-person charges on the folio, so exemptions and night caps applied
+// by the rules show up as exempt person-nights.
+export const fetchMunicipalReport = async (propertyId: string, month: Date): Promise<MunicipalReportRow[]> => {
+  const from = startOfMonth(month);
+  const to = addMonths(from, 1);
+  const fromStr = format(from, 'yyyy-MM-dd');
+  const toStr = format(to, 'yyyy-MM-dd');
+
+  const [{ data: stays, error: staysError }, { data: charges, error: chargesError }] = await Promise.all([
+    supabase
+      .from('reservations')
+      .select('id, guest_name, check_in, check_out, guests_count, status, guests ( nationality )')
+      .eq('property_id', propertyId)
+      .lt('check_in', toStr)
+      .gt('check_out', fromStr)
+      .neq('status', 'cancelled')
+      .order('check_in'),
+    supabase
+      .from('folio_items')
+      .select('reservation_id, quantity, amount, tax_rules!inner ( basis, calculation )')
+      .eq('property_id', propertyId)
+      .neq('status', 'void')
+      .gte('service_date', fromStr)
+      .lt('service_date', toStr),
+  ]);
+
+  if (staysError) throw staysError;
+  if (chargesError) throw chargesError;
+
+  return (stays || []).map(stay => {
+    const stayCharges = (charges || []).filter(charge => charge.reservation_id === stay.id);
+    const nights = differenceInCalendarDays(
+      min([parseISO(stay.check_out), to]),
+      max([parseISO(stay.check_in), from]),
+    );
+    const guests = stay.guests_count || 1;
+    const personNights = guests * nights;
+    const taxablePersonNights = stayCharges
+      .filter(charge => charge.tax_rules.basis === 'per_person' && charge.tax_rules.calculation === 'flat')
+      .reduce((sum, charge) => sum + Number(charge.quantity), 0);
+
+    return {
+      reservationId: stay.id,
+      guestName: stay.guest_name,
+      nationality: stay.guests?.nationality ?? null,
+      checkIn: stay.check_in,
+      checkOut: stay.check_out,
+      nights,
+      guests,
+      personNights,
+      exemptPersonNights: Math.max(0, personNights - taxablePersonNights),
+      taxablePersonNights,
+      tax: stayCharges.reduce((sum, charge) => sum + Number(charge.amount ?? 0), 0),
+    };
+  });
+};
+
+export const summarizeMunicipalReport = (rows: MunicipalReportRow[]) =>
+  rows.reduce(
+    (totals, row) => ({
+      stays: totals.stays + 1,
+      nights: totals.nights + row.nights,
+      personNights: totals.personNights + row.personNights,
+      exemptPersonNights: totals.exemptPersonNights + row.exemptPersonNights,
+      taxablePersonNights: totals.taxablePersonNights + row.taxablePersonNights,
+      tax: totals.tax + row.tax,
+    }),
+    { stays: 0, nights: 0, personNights: 0, exemptPersonNights: 0, taxablePersonNights: 0, tax: 0 },
+  );
+
+const csvField = (value: string) => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const municipalReportCsv = (rows: MunicipalReportRow[]) => {
+  const totals = summarizeMunicipalReport(rows);
+  return [
+    ['Guest', 'Nationality', 'Check-in', 'Check-out', 'Nights in month', 'Guests', 'Person-nights', 'Exempt person-nights', 'Taxable person-nights', 'Tax'],
+    ...rows.map(row => [
+      row.guestName,
+      row.nationality ?? '',
+      row.checkIn,
+      row.checkOut,
+      row.nights.toString(),
+      row.guests.toString(),
+      row.personNights.toString(),
+      row.exemptPersonNights.toString(),
+      row.taxablePersonNights.toString(),
+      row.tax.toFixed(2),
+    ]),
+    [
+      'Total',
+      '',
+      '',
+      '',
+      totals.nights.toString(),
+      '',
+      totals.personNights.toString(),
+      totals.exemptPersonNights.toString(),
+      totals.taxablePersonNights.toString(),
+      totals.tax.toFixed(2),
+    ],
+  ].map(row => row.map(csvField).join(',')).join('\n');
+};
@@ -0,0 +1,124 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { fetchAllRows } from '@/lib/pagination';
+
+export type FolioItem = Database['public']['Tables']['folio_items']['Row'];
+export type Payment = Database['public']['Tables']['payments']['Row'];
+export type ReservationBalance = Database['public']['Views']['reservation_balances']['Row'];
+
+export const FOLIO_ITEM_TYPES: Record<string, string> = {
+  room: 'Accommodation',
+  extra: 'Extra',
+  fee: 'Fee',
+  tax: 'Tax',
+  discount: 'Discount',
+  adjustment: 'Adjustment',
+};
+
+// Room nights are generated from the reservation and cannot be added by hand
+export const MANUAL_ITEM_TYPES = ['extra', 'fee', 'tax', 'discount', 'adjustment'];
+
+export const FOLIO_STATUSES: Record<string, { label: string; className: string }> = {
+  pending: { label: 'Pending', className: 'bg-yellow-100 text-yellow-800 border-yellow-300' },
+  posted: { label: 'Posted', className: 'bg-green-100 text-green-800 border-green-300' },
+  void: { label: 'Void', className: 'bg-gray-100 text-gray-500 border-gray-300 line-through' },
+};
+
+export const PAYMENT_TYPES: Record<string, string> = {
+  deposit: 'Deposit',
+  payment: 'Payment',
+  refund: 'Refund',
+};
+
+export const PAYMENT_METHODS: Record<string, string> = {
+  cash: 'Cash',
+  card: 'Card',
+  bank_transfer: 'Bank transfer',
+  online: 'Online',
+  voucher: 'Voucher',
+  other: 'Other',
+};
+
+// Refunds are stored as positive amounts and count against the amount paid
+export const signedPaymentAmount = (payment: Pick<Payment, 'amount' | 'payment_type'>) =>
+  payment.payment_type === 'refund' ? -Number(payment.amount) : Number(payment.amount);
+
+export const formatMoney = (value: number | null | undefined) =>
+  `${Number(value ?? 0) < 0 ? '-' : ''}$${Math.abs(Number(value ?? 0)).toLocaleString(undefined, {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  })}`;
+
+export const hasOutstandingBalance = (balance: ReservationBalance | null | undefined) =>
+  Number(balance?.balance ?? 0) > 0.005;
+
+// Balances keyed by reservation id; fetched in chunks to keep URLs short
+export const fetchBalances = async (reservationIds: string[]) => {
+  const balances: Record<string, ReservationBalance> = {};
+  const chunkSize = 100;
+
+  for (let i = 0; i < reservationIds.length; i += chunkSize) {
+    const { data, error } = await supabase
+      .from('reservation_balances')
+      .select('*')
+      .in('reservation_id', reservationIds.slice(i, i + chunkSize));
+
+    if (error) throw error;
+    (data || []).forEach(row => {
+      if (row.reservation_id) balances[row.reservation_id] = row;
+    });
+  }
+
+  return balances;
+};
+
+export const fetchFolio = async (reservationId: string) => {
+  const [{ data: items, error: itemsError }, { data: payments, error: paymentsError }] = await Promise.all([
+    supabase
+      .from('folio_items')
+      .select('*')
+      .eq('reservation_id', reservationId)
+      .order('service_date')
+      .order('created_at'),
+    supabase
+      .from('payments')
+      .select('*')
+      .eq('reservation_id', reservationId)
+      .order('paid_at')
+      .order('created_at'),
+  ]);
+
+  if (itemsError) throw itemsError;
+  if (paymentsError) throw paymentsError;
+  return { items: items || [], payments: payments || [] };
+};
+
+export const summarizeFolio = (items: FolioItem[], payments: Payment[]) => {
+  const charges = items
+    .filter(item => item.status !== 'void')
+    .reduce((sum, item) => sum + Number(item.amount ?? 0), 0);
+  const posted = items
+    .filter(item => item.status === 'posted')
+    .reduce((sum, item) => sum + Number(item.amount ?? 0), 0);
+  const paid = payments.reduce((sum, payment) => sum + signedPaymentAmount(payment), 0);
+  return { charges, posted, paid, balance: charges - paid };
+};
+
+// Revenue recognised from posted charges in [from, to); taxes are collected
+// on behalf of the authorities and are left out
+export const fetchPostedRevenue = async (from: string, to: string, propertyId?: string) => {
+  const items = await fetchAllRows((start, end) => {
+    let query = supabase
+      .from('folio_items')
+      .select('amount')
+      .eq('status', 'posted')
+      .neq('item_type', 'tax')
+      .gte('service_date', from)
+      .lt('service_date', to);
+
+    if (propertyId) query = query.eq('property_id', propertyId);
+    return query.order('id').range(start, end);
+  });
+
+  return items.reduce((sum, item) => sum + Number(item.amount ?? 0), 0);
+};
@@ -0,0 +1,33 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type GuestReview = Database['public']['Tables']['guest_reviews']['Row'];
+export type GuestReviewInput = Pick<GuestReview, 'property_id' | 'reservation_id' | 'rating' | 'comment' | 'reviewer_name' | 'source' | 'reviewed_at'>;
+
+export const REVIEW_SOURCES: Record<string, string> = {
+  direct: 'Direct',
+  airbnb: 'Airbnb',
+  'booking.com': 'Booking.com',
+  google: 'Google',
+  other: 'Other',
+};
+
+export const fetchReservationReview = async (reservationId: string): Promise<GuestReview | null> => {
+  const { data, error } = await supabase
+    .from('guest_reviews')
+    .select('*')
+    .eq('reservation_id', reservationId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+};
+
+// A stay has at most one review; saving again replaces it
+export const saveGuestReview = async (review: GuestReviewInput) => {
+  const { error } = await supabase
+    .from('guest_reviews')
+    .upsert(review, { onConflict: 'reservation_id' });
+
+  if (error) throw error;
+};
@@ -0,0 +1,71 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type Guest = Database['public']['Tables']['guests']['Row'];
+
+export const GUEST_TAGS: { value: string; label: string; className: string }[] = [
+  { value: 'vip', label: 'VIP', className: 'bg-amber-100 text-amber-800 border-amber-300' },
+  { value: 'returning', label: 'Returning', className: 'bg-emerald-100 text-emerald-800 border-emerald-300' },
+  { value: 'corporate', label: 'Corporate', className: 'bg-blue-100 text-blue-800 border-blue-300' },
+  { value: 'blacklist', label: 'Blacklist', className: 'bg-red-100 text-red-800 border-red-300' },
+];
+
+export const DOCUMENT_TYPES: Record<string, string> = {
+  passport: 'Passport',
+  id_card: 'ID card',
+  driving_license: 'Driving license',
+  other: 'Other',
+};
+
+export const getGuestTag = (value: string) =>
+  GUEST_TAGS.find(tag => tag.value === value) ?? { value, label: value, className: 'bg-gray-100 text-gray-800 border-gray-300' };
+
+export const isBlacklisted = (guest: Pick<Guest, 'tags'> | null | undefined) =>
+  !!guest?.tags.includes('blacklist');
+
+export const isVip = (guest: Pick<Guest, 'tags'> | null | undefined) =>
+  !!guest?.tags.includes('vip');
+
+// PostgREST `or` filters use commas and parentheses as syntax
+const sanitizeSearch = (term: string) => term.replace(/[,()*%]/g, ' ').trim();
+
+// Matches on name, email or phone for the reservation form's autocomplete
+export const searchGuests = async (term: string, limit = 8) => {
+  const query = sanitizeSearch(term);
+  if (query.length < 2) return [];
+
+  const { data, error } = await supabase
+    .from('guests')
+    .select('*')
+    .or(`full_name.ilike.%${query}%,email.ilike.%${query}%,phone.ilike.%${query}%`)
+    .order('last_stay_at', { ascending: false, nullsFirst: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export interface GuestStay {
+  id: string;
+  check_in: string;
+  check_out: string;
+  status: string | null;
+  total_price: number;
+  guests_count: number | null;
+  source: string | null;
+  notes: string | null;
+  properties: { name: string } | null;
+  rooms: { room_number: string } | null;
+}
+
+// Every reservation of the guest that the current user may see, newest first
+export const fetchGuestStays = async (guestId: string): Promise<GuestStay[]> => {
+  const { data, error } = await supabase
+    .from('reservations')
+    .select('id, check_in, check_out, status, total_price, guests_count, source, notes, properties ( name ), rooms ( room_number )')
+    .eq('guest_id', guestId)
+    .order('check_in', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
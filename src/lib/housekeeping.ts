@@ -0,0 +1,104 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type HousekeepingStatus = Database['public']['Enums']['housekeeping_status'];
+
+export interface HousekeepingStatusInfo {
+  value: HousekeepingStatus;
+  label: string;
+  color: string;
+  description: string;
+}
+
+export const HOUSEKEEPING_STATUSES: HousekeepingStatusInfo[] = [
+  { value: 'dirty', label: 'Dirty', color: 'bg-red-500', description: 'Vacated, needs a full turnover' },
+  { value: 'needs_cleaning', label: 'Needs Cleaning', color: 'bg-amber-500', description: 'Occupied, due for a stayover service' },
+  { value: 'occupied', label: 'Occupied', color: 'bg-blue-500', description: 'Guest in house' },
+  { value: 'clean', label: 'Clean', color: 'bg-emerald-500', description: 'Ready for arrival' },
+  { value: 'maintenance', label: 'Maintenance', color: 'bg-gray-500', description: 'Out of service' },
+];
+
+export const getHousekeepingStatus = (status: HousekeepingStatus) =>
+  HOUSEKEEPING_STATUSES.find(s => s.value === status) ?? HOUSEKEEPING_STATUSES[0];
+
+// Rooms housekeeping still has to visit
+export const needsHousekeeping = (status: HousekeepingStatus) =>
+  status === 'dirty' || status === 'needs_cleaning';
+
+export const HOUSEKEEPING_REASON_LABELS: Record<string, string> = {
+  manual: 'Set manually',
+  check_in: 'Guest checked in',
+  check_out: 'Guest checked out',
+  housekeeping_task: 'Housekeeping task completed',
+};
+
+// Status changes go through set_room_status so that housekeepers can update
+// a room without edit rights on it and every change lands in the history.
+export const setRoomStatus = async (roomId: string, status: HousekeepingStatus, note?: string) => {
+  const { error } = await supabase.rpc('set_room_status', {
+    p_room_id: roomId,
+    p_status: status,
+    ...(note ? { p_note: note } : {}),
+  });
+  if (error) throw error;
+};
+
+export type HousekeepingTaskType = 'departure' | 'stayover' | 'arrival_prep';
+export type HousekeepingTaskStatus = 'pending' | 'in_progress' | 'done';
+
+export const HOUSEKEEPING_TASK_TYPES: Record<HousekeepingTaskType, string> = {
+  departure: 'Departure clean',
+  stayover: 'Stayover refresh',
+  arrival_prep: 'Arrival prep',
+};
+
+export const HOUSEKEEPING_TASK_COLUMNS: { value: HousekeepingTaskStatus; label: string }[] = [
+  { value: 'pending', label: 'To Do' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'done', label: 'Done' },
+];
+
+export interface HousekeepingTaskOrder {
+  is_turnover: boolean;
+  priority: number;
+  due_by: string | null;
+}
+
+// Same-day turnovers first, then by deadline (HH:MM:SS compares as text),
+// then by the priority assigned when the task was generated.
+export const compareHousekeepingTasks = (a: HousekeepingTaskOrder, b: HousekeepingTaskOrder) => {
+  if (a.is_turnover !== b.is_turnover) return a.is_turnover ? -1 : 1;
+  if (a.due_by !== b.due_by) {
+    if (!a.due_by) return 1;
+    if (!b.due_by) return -1;
+    return a.due_by < b.due_by ? -1 : 1;
+  }
+  return a.priority - b.priority;
+};
+
+export const generateHousekeepingTasks = async (date: string, propertyId?: string) => {
+  const { data, error } = await supabase.rpc('refresh_housekeeping_tasks', {
+    p_date: date,
+    ...(propertyId ? { p_property_id: propertyId } : {}),
+  });
+  if (error) throw error;
+  return data;
+};
+
+export const claimHousekeepingTask = async (taskId: string) => {
+  const { error } = await supabase.rpc('claim_housekeeping_task', { p_task_id: taskId });
+  if (error) throw error;
+};
+
+export const releaseHousekeepingTask = async (taskId: string) => {
+  const { error } = await supabase.rpc('release_housekeeping_task', { p_task_id: taskId });
+  if (error) throw error;
+};
+
+export const completeHousekeepingTask = async (taskId: string, notes?: string) => {
+  const { error } = await supabase.rpc('complete_housekeeping_task', {
+    p_task_id: taskId,
+    ...(notes ? { p_notes: notes } : {}),
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,283 @@
+import { jsPDF } from 'jspdf';
+import { format, parseISO } from 'date-fns';
+import dejaVuSansBoldUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans-Bold.ttf?url';
+import dejaVuSansUrl from 'dejavu-fonts-ttf/ttf/DejaVuSans.ttf?url';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type Invoice = Database['public']['Tables']['invoices']['Row'];
+export type InvoiceLine = Database['public']['Tables']['invoice_lines']['Row'];
+export type InvoiceSeries = Database['public']['Tables']['invoice_series']['Row'];
+export type InvoiceSettings = Database['public']['Tables']['invoice_settings']['Row'];
+
+export const INVOICE_DOCUMENT_TYPES: Record<string, string> = {
+  invoice: 'Invoice',
+  credit_note: 'Credit note',
+};
+
+// Number formats offered for documents. The one in the invoicing settings is
+// copied onto each invoice so reprints never depend on the viewer's browser.
+export const INVOICE_LOCALES: Record<string, string> = {
+  'en-US': 'English (US) — 1,234.50',
+  'en-GB': 'English (UK) — 1,234.50',
+  'cs-CZ': 'Czech — 1 234,50',
+  'sk-SK': 'Slovak — 1 234,50',
+  'de-DE': 'German — 1.234,50',
+  'pl-PL': 'Polish — 1 234,50',
+};
+
+// Without a locale the amount is formatted for the viewer, which is fine on
+// screen but not on documents
+export const formatAmount = (amount: number, currency: string, locale?: string) => {
+  try {
+    return new Intl.NumberFormat(locale, { style: 'currency', currency }).format(amount);
+  } catch {
+    // Unknown currency codes fall back to a plain number
+    return `${amount.toFixed(2)} ${currency}`;
+  }
+};
+
+// Mirrors next_invoice_number() so settings can show what comes next
+export const previewSeriesNumber = (series: Pick<InvoiceSeries, 'prefix' | 'padding' | 'reset_yearly' | 'number_year' | 'next_number'>, date = new Date()) => {
+  const year = date.getFullYear();
+  const number = series.reset_yearly && series.number_year !== null && series.number_year !== year
+    ? 1
+    : series.next_number;
+  return `${series.prefix}${series.reset_yearly ? year : ''}${String(number).padStart(series.padding, '0')}`;
+};
+
+export interface VatBreakdownRow {
+  rate: number;
+  net: number;
+  vat: number;
+  total: number;
+}
+
+export const vatBreakdown = (lines: InvoiceLine[]): VatBreakdownRow[] => {
+  const byRate = new Map<number, VatBreakdownRow>();
+  lines.forEach(line => {
+    const rate = Number(line.vat_rate);
+    const row = byRate.get(rate) ?? { rate, net: 0, vat: 0, total: 0 };
+    row.net += Number(line.net_amount);
+    row.vat += Number(line.vat_amount);
+    row.total += Number(line.total_amount);
+    byRate.set(rate, row);
+  });
+  return [...byRate.values()].sort((a, b) => b.rate - a.rate);
+};
+
+export const fetchInvoiceLines = async (invoiceId: string) => {
+  const { data, error } = await supabase
+    .from('invoice_lines')
+    .select('*')
+    .eq('invoice_id', invoiceId)
+    .order('position');
+
+  if (error) throw error;
+  return data || [];
+};
+
+export interface InvoiceBuyer {
+  name?: string;
+  address?: string;
+  taxId?: string;
+  vatId?: string;
+  email?: string;
+}
+
+export const issueInvoice = async (reservationId: string, buyer: InvoiceBuyer, seriesId?: string, notes?: string) => {
+  const { data, error } = await supabase.rpc('issue_invoice', {
+    p_reservation_id: reservationId,
+    p_series_id: seriesId,
+    p_buyer_name: buyer.name,
+    p_buyer_address: buyer.address,
+    p_buyer_tax_id: buyer.taxId,
+    p_buyer_vat_id: buyer.vatId,
+    p_buyer_email: buyer.email,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+export const issueCreditNote = async (invoiceId: string, reason?: string) => {
+  const { data, error } = await supabase.rpc('issue_credit_note', {
+    p_invoice_id: invoiceId,
+    p_reason: reason,
+  });
+
+  if (error) throw error;
+  return data;
+};
+
+const formatDate = (value: string) => format(parseISO(value), 'MMM d, yyyy');
+
+const partyLines = (name: string, address: string | null, taxId: string | null, vatId: string | null, email: string | null) => [
+  name,
+  ...(address ? address.split('\n') : []),
+  ...(taxId ? [`Company ID: ${taxId}`] : []),
+  ...(vatId ? [`VAT ID: ${vatId}`] : []),
+  ...(email ? [email] : []),
+];
+
+// jsPDF's built-in fonts only cover Latin-1, which mangles names like
+// "Dvořák" and symbols like "Kč". DejaVu Sans is embedded instead; the files
+// are fetched once, on the first document.
+const PDF_FONT = 'DejaVuSans';
+
+let pdfFonts: Promise<{ normal: string; bold: string }> | null = null;
+
+const fetchFontBase64 = async (url: string) => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error('Could not load the invoice font');
+  const bytes = new Uint8Array(await response.arrayBuffer());
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const loadPdfFonts = () => {
+  if (!pdfFonts) {
+    pdfFonts = Promise.all([fetchFontBase64(dejaVuSansUrl), fetchFontBase64(dejaVuSansBoldUrl)])
+      .then(([normal, bold]) => ({ normal, bold }))
+      .catch(error => {
+        // Let the next download try again
+        pdfFonts = null;
+        throw error;
+      });
+  }
+  return pdfFonts;
+};
+
+// Lays out an A4 document from the archived invoice alone, so reprints always
+// match what was issued
+export const renderInvoicePdf = async (invoice: Invoice, lines: InvoiceLine[], creditedNumber?: string) => {
+  const fonts = await loadPdfFonts();
+  const doc = new jsPDF({ unit: 'mm', format: 'a4' });
+  doc.addFileToVFS('DejaVuSans.ttf', fonts.normal);
+  doc.addFileToVFS('DejaVuSans-Bold.ttf', fonts.bold);
+  doc.addFont('DejaVuSans.ttf', PDF_FONT, 'normal');
+  doc.addFont('DejaVuSans-Bold.ttf', PDF_FONT, 'bold');
+
+  const money = (value: number) => formatAmount(Number(value), invoice.currency, invoice.locale);
+  const left = 15;
+  const right = 195;
+  let y = 20;
+
+  doc.setFont(PDF_FONT, 'bold');
+  doc.setFontSize(18);
+  doc.text(`${INVOICE_DOCUMENT_TYPES[invoice.document_type] ?? 'Invoice'} ${invoice.invoice_number}`, left, y);
+
+  doc.setFont(PDF_FONT, 'normal');
+  doc.setFontSize(9);
+  const dates = [
+    `Issued: ${formatDate(invoice.issue_date)}`,
+    `Date of supply: ${formatDate(invoice.supply_date)}`,
+    ...(invoice.document_type === 'invoice' ? [`Due: ${formatDate(invoice.due_date)}`] : []),
+    ...(creditedNumber ? [`Corrects invoice: ${creditedNumber}`] : []),
+  ];
+  doc.text(dates, right, y - 5, { align: 'right' });
+
+  y += 12;
+  doc.setFont(PDF_FONT, 'bold');
+  doc.setFontSize(10);
+  doc.text('Supplier', left, y);
+  doc.text('Customer', 110, y);
+  doc.setFont(PDF_FONT, 'normal');
+  doc.setFontSize(9);
+  const seller = partyLines(invoice.seller_name, invoice.seller_address, invoice.seller_tax_id, invoice.seller_vat_id, invoice.seller_email);
+  if (!invoice.vat_payer) seller.push('Not registered for VAT');
+  const buyer = partyLines(invoice.buyer_name, invoice.buyer_address, invoice.buyer_tax_id, invoice.buyer_vat_id, invoice.buyer_email);
+  doc.text(seller, left, y + 5);
+  doc.text(buyer, 110, y + 5);
+  y += 5 + Math.max(seller.length, buyer.length) * 4.5 + 4;
+
+  if (invoice.bank_account && invoice.document_type === 'invoice') {
+    doc.text(`Bank account: ${invoice.bank_account}    Reference: ${invoice.invoice_number}`, left, y);
+    y += 8;
+  }
+
+  const columns = [
+    { label: 'Description', x: left, align: 'left' as const },
+    { label: 'Qty', x: 112, align: 'right' as const },
+    { label: 'Unit price', x: 135, align: 'right' as const },
+    { label: 'VAT %', x: 152, align: 'right' as const },
+    { label: 'Total', x: right, align: 'right' as const },
+  ];
+
+  doc.setFont(PDF_FONT, 'bold');
+  columns.forEach(column => doc.text(column.label, column.x, y, { align: column.align }));
+  doc.line(left, y + 2, right, y + 2);
+  doc.setFont(PDF_FONT, 'normal');
+  y += 7;
+
+  lines.forEach(line => {
+    if (y > 265) {
+      doc.addPage();
+      y = 20;
+    }
+    const description = doc.splitTextToSize(line.description, 90) as string[];
+    doc.text(description, left, y);
+    doc.text(String(Number(line.quantity)), 112, y, { align: 'right' });
+    doc.text(money(line.unit_price), 135, y, { align: 'right' });
+    doc.text(`${Number(line.vat_rate)}`, 152, y, { align: 'right' });
+    doc.text(money(line.total_amount), right, y, { align: 'right' });
+    y += description.length * 4.5 + 1.5;
+  });
+
+  doc.line(left, y - 2, right, y - 2);
+  y += 4;
+
+  if (invoice.vat_payer) {
+    doc.setFont(PDF_FONT, 'bold');
+    doc.text('VAT rate', 120, y, { align: 'right' });
+    doc.text('Net', 145, y, { align: 'right' });
+    doc.text('VAT', 170, y, { align: 'right' });
+    doc.text('Total', right, y, { align: 'right' });
+    doc.setFont(PDF_FONT, 'normal');
+    y += 5;
+    vatBreakdown(lines).forEach(row => {
+      doc.text(`${row.rate}%`, 120, y, { align: 'right' });
+      doc.text(money(row.net), 145, y, { align: 'right' });
+      doc.text(money(row.vat), 170, y, { align: 'right' });
+      doc.text(money(row.total), right, y, { align: 'right' });
+      y += 5;
+    });
+    y += 2;
+  }
+
+  doc.setFont(PDF_FONT, 'bold');
+  doc.setFontSize(12);
+  doc.text(`Total ${money(invoice.total)}`, right, y + 3, { align: 'right' });
+  doc.setFont(PDF_FONT, 'normal');
+  doc.setFontSize(9);
+  y += 14;
+
+  const footer = [invoice.notes, invoice.footer_note].filter((text): text is string => !!text);
+  footer.forEach(text => {
+    const wrapped = doc.splitTextToSize(text, right - left) as string[];
+    doc.text(wrapped, left, y);
+    y += wrapped.length * 4.5 + 2;
+  });
+
+  return doc;
+};
+
+export const downloadInvoicePdf = async (invoice: Invoice) => {
+  const lines = await fetchInvoiceLines(invoice.id);
+  let creditedNumber: string | undefined;
+
+  if (invoice.credited_invoice_id) {
+    const { data } = await supabase
+      .from('invoices')
+      .select('invoice_number')
+      .eq('id', invoice.credited_invoice_id)
+      .maybeSingle();
+    creditedNumber = data?.invoice_number;
+  }
+
+  (await renderInvoicePdf(invoice, lines, creditedNumber)).save(`${invoice.invoice_number}.pdf`);
+};
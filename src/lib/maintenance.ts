@@ -0,0 +1,119 @@
+import { supabase } from '@/integrations/supabase/client';
+import { StayRange, isNightInStay, staysOverlap } from '@/lib/reservations';
+
+export const MAINTENANCE_PHOTOS_BUCKET = 'maintenance-photos';
+
+export type MaintenanceCategory = 'plumbing' | 'electrical' | 'hvac' | 'appliance' | 'furniture' | 'structural' | 'other';
+export type MaintenancePriority = 'low' | 'medium' | 'high' | 'urgent';
+export type MaintenanceStatus = 'open' | 'in_progress' | 'on_hold' | 'resolved' | 'closed';
+
+export const MAINTENANCE_CATEGORIES: Record<MaintenanceCategory, string> = {
+  plumbing: 'Plumbing',
+  electrical: 'Electrical',
+  hvac: 'Heating & A/C',
+  appliance: 'Appliance',
+  furniture: 'Furniture',
+  structural: 'Structural',
+  other: 'Other',
+};
+
+export const MAINTENANCE_PRIORITIES: { value: MaintenancePriority; label: string; variant: 'secondary' | 'outline' | 'default' | 'destructive' }[] = [
+  { value: 'low', label: 'Low', variant: 'secondary' },
+  { value: 'medium', label: 'Medium', variant: 'outline' },
+  { value: 'high', label: 'High', variant: 'default' },
+  { value: 'urgent', label: 'Urgent', variant: 'destructive' },
+];
+
+export const MAINTENANCE_STATUSES: { value: MaintenanceStatus; label: string }[] = [
+  { value: 'open', label: 'Open' },
+  { value: 'in_progress', label: 'In Progress' },
+  { value: 'on_hold', label: 'On Hold' },
+  { value: 'resolved', label: 'Resolved' },
+  { value: 'closed', label: 'Closed' },
+];
+
+export const getMaintenancePriority = (priority: string) =>
+  MAINTENANCE_PRIORITIES.find(p => p.value === priority) ?? MAINTENANCE_PRIORITIES[1];
+
+export const getMaintenanceStatusLabel = (status: string) =>
+  MAINTENANCE_STATUSES.find(s => s.value === status)?.label ?? status;
+
+export const isOpenTicket = (ticket: { status: string }) =>
+  ticket.status !== 'resolved' && ticket.status !== 'closed';
+
+export interface OutOfOrderBlock {
+  id: string;
+  room_id: string | null;
+  title: string;
+  status: string;
+  out_of_order_from: string | null;
+  out_of_order_to: string | null;
+}
+
+// Blocks use the reservation convention: the room is unavailable for the
+// nights in [from, to). Resolved and closed tickets release the room.
+const toStay = (block: OutOfOrderBlock): StayRange | null =>
+  block.room_id && block.out_of_order_from && block.out_of_order_to && isOpenTicket(block)
+    ? { room_id: block.room_id, check_in: block.out_of_order_from, check_out: block.out_of_order_to }
+    : null;
+
+export const isRoomOutOfOrder = (block: OutOfOrderBlock, roomId: string, dateStr: string) => {
+  const stay = toStay(block);
+  return !!stay && stay.room_id === roomId && isNightInStay(stay, dateStr);
+};
+
+// Finds a loaded block that keeps `candidate` out of its room
+export const findOutOfOrderConflict = <T extends OutOfOrderBlock>(candidate: StayRange, blocks: T[]): T | null => {
+  if (!candidate.room_id || candidate.status === 'cancelled') return null;
+
+  return blocks.find(block => {
+    const stay = toStay(block);
+    return !!stay && stay.room_id === candidate.room_id && staysOverlap(stay, candidate);
+  }) || null;
+};
+
+export const describeOutOfOrder = (block: OutOfOrderBlock) =>
+  `The room is out of order from ${block.out_of_order_from} to ${block.out_of_order_to} (${block.title}).`;
+
+// Active out-of-order blocks touching [from, to)
+export const fetchOutOfOrderBlocks = async (propertyIds: string[], from: string, to: string) => {
+  if (propertyIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('maintenance_tickets')
+    .select('id, room_id, title, status, out_of_order_from, out_of_order_to')
+    .in('property_id', propertyIds)
+    .not('out_of_order_from', 'is', null)
+    .not('status', 'in', '(resolved,closed)')
+    .lt('out_of_order_from', to)
+    .gt('out_of_order_to', from);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const uploadTicketPhoto = async (propertyId: string, ticketId: string, file: File) => {
+  const fileExt = file.name.split('.').pop();
+  const filePath = `${propertyId}/${ticketId}/${Date.now()}-${Math.random().toString(36).slice(2)}.${fileExt}`;
+
+  const { error } = await supabase.storage
+    .from(MAINTENANCE_PHOTOS_BUCKET)
+    .upload(filePath, file);
+
+  if (error) throw error;
+  return filePath;
+};
+
+// The bucket is private, so photos are shown through short-lived signed URLs
+export const getTicketPhotoUrls = async (paths: string[]) => {
+  if (paths.length === 0) return {};
+
+  const { data, error } = await supabase.storage
+    .from(MAINTENANCE_PHOTOS_BUCKET)
+    .createSignedUrls(paths, 60 * 60);
+
+  if (error) throw error;
+  return Object.fromEntries(
+    (data || []).filter(entry => entry.signedUrl).map(entry => [entry.path, entry.signedUrl])
+  ) as Record<string, string>;
+};
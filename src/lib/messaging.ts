@@ -0,0 +1,159 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type MessageTemplate = Database['public']['Tables']['message_templates']['Row'];
+export type MessageLogEntry = Database['public']['Tables']['message_log']['Row'];
+export type MessageAutomation = Database['public']['Tables']['message_automations']['Row'];
+export type ScheduledMessage = Database['public']['Tables']['scheduled_messages']['Row'];
+
+export type MessageEvent = 'confirmation' | 'pre_arrival' | 'check_in_instructions' | 'post_stay' | 'cancellation';
+
+export const MESSAGE_EVENTS: { value: MessageEvent; label: string; description: string }[] = [
+  { value: 'confirmation', label: 'Booking confirmation', description: 'Sent when a reservation is created' },
+  { value: 'pre_arrival', label: 'Pre-arrival', description: 'A reminder a few days before arrival' },
+  { value: 'check_in_instructions', label: 'Check-in instructions', description: 'How to get in on the day of arrival' },
+  { value: 'post_stay', label: 'Post-stay thank-you', description: 'Sent after departure' },
+  { value: 'cancellation', label: 'Cancellation', description: 'Sent when a reservation is cancelled' },
+];
+
+// The send log also holds the owner's notices about new bookings
+export const messageEventLabel = (event: string) =>
+  event === 'owner_new_booking'
+    ? 'New booking notice to owner'
+    : MESSAGE_EVENTS.find(e => e.value === event)?.label ?? event;
+
+export type AutomationAnchor = 'check_in' | 'check_out' | 'message';
+
+export const AUTOMATION_ANCHORS: { value: AutomationAnchor; label: string }[] = [
+  { value: 'check_in', label: 'Check-in' },
+  { value: 'check_out', label: 'Check-out' },
+  { value: 'message', label: 'Another message is sent' },
+];
+
+const formatDays = (days: number) => `${days} ${days === 1 ? 'day' : 'days'}`;
+
+// e.g. "3 days before check-in at 10:00", "On check-out day at check-out time"
+export const describeAutomation = (automation: Pick<MessageAutomation, 'anchor' | 'anchor_event' | 'offset_days' | 'send_time'>) => {
+  const at = automation.send_time ? ` at ${automation.send_time.slice(0, 5)}` : '';
+
+  if (automation.anchor === 'message') {
+    const after = `after ${messageEventLabel(automation.anchor_event ?? '')} is sent`;
+    return automation.offset_days === 0
+      ? `Right ${after}${at}`
+      : `${formatDays(automation.offset_days)} ${after}${at}`;
+  }
+
+  const anchor = automation.anchor === 'check_in' ? 'check-in' : 'check-out';
+  const time = at || ` at ${anchor} time`;
+  if (automation.offset_days === 0) return `On ${anchor} day${time}`;
+
+  const direction = automation.offset_days < 0 ? 'before' : 'after';
+  return `${formatDays(Math.abs(automation.offset_days))} ${direction} ${anchor}${time}`;
+};
+
+// Placeholders filled in by the send-notification function, with the sample
+// values used for previews
+export const TEMPLATE_PLACEHOLDERS: { key: string; description: string; sample: string }[] = [
+  { key: 'guest_name', description: 'Guest full name', sample: 'Anna Novak' },
+  { key: 'guest_first_name', description: 'Guest first name', sample: 'Anna' },
+  { key: 'property_name', description: 'Property name', sample: 'Riverside Apartments' },
+  { key: 'property_address', description: 'Address, city and country', sample: '12 Mill Lane, Prague, Czech Republic' },
+  { key: 'check_in', description: 'Arrival date', sample: 'Fri, 14 Aug 2026' },
+  { key: 'check_out', description: 'Departure date', sample: 'Mon, 17 Aug 2026' },
+  { key: 'check_in_time', description: 'Check-in from', sample: '15:00' },
+  { key: 'check_out_time', description: 'Check-out by', sample: '11:00' },
+  { key: 'nights', description: 'Number of nights', sample: '3' },
+  { key: 'guests', description: 'Number of guests', sample: '2' },
+  { key: 'room_number', description: 'Assigned room', sample: '204' },
+  { key: 'confirmation_code', description: 'Booking confirmation code', sample: 'K7QM2XPD' },
+  { key: 'total_price', description: 'Total price', sample: '€420.00' },
+  { key: 'precheckin_url', description: 'Link to the online check-in', sample: `${window.location.origin}/checkin/…` },
+];
+
+const SAMPLE_VALUES = Object.fromEntries(TEMPLATE_PLACEHOLDERS.map(p => [p.key, p.sample]));
+
+// Same substitution as the edge function; unknown placeholders stay visible
+export const renderTemplate = (template: string, values: Record<string, string> = SAMPLE_VALUES) =>
+  template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+
+export const unknownPlaceholders = (template: string) =>
+  [...template.matchAll(/\{\{\s*([a-z_]+)\s*\}\}/g)]
+    .map(match => match[1])
+    .filter(key => !(key in SAMPLE_VALUES));
+
+export const fetchMessageTemplates = async (propertyId: string) => {
+  const { data, error } = await supabase
+    .from('message_templates')
+    .select('*')
+    .eq('property_id', propertyId);
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchMessageLog = async (reservationId: string) => {
+  const { data, error } = await supabase
+    .from('message_log')
+    .select('*')
+    .eq('reservation_id', reservationId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+export const fetchMessageAutomations = async (propertyId: string) => {
+  const { data, error } = await supabase
+    .from('message_automations')
+    .select('*')
+    .eq('property_id', propertyId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Planned sends still to go out for the given reservations, soonest first
+export const fetchUpcomingMessages = async (reservationIds: string[]) => {
+  if (reservationIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('scheduled_messages')
+    .select('*')
+    .in('reservation_id', reservationIds)
+    .eq('status', 'scheduled')
+    .order('send_at');
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Opting out cancels the stay's planned sends; opting back in plans them again
+export const setMessagesOptOut = async (reservationId: string, optOut: boolean) => {
+  const { error } = await supabase
+    .from('reservations')
+    .update({ messages_opt_out: optOut })
+    .eq('id', reservationId);
+
+  if (error) throw error;
+};
+
+export interface SendResult {
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+}
+
+// Emails the guest the property's template for the event. A skipped message
+// (no guest email, template turned off) is not an error.
+export const sendReservationMessage = async (reservationId: string, event: MessageEvent): Promise<SendResult> => {
+  const { data, error } = await supabase.functions.invoke('send-notification', {
+    body: { reservation_id: reservationId, event },
+  });
+
+  if (error) {
+    const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    if (details?.status === 'failed') return details;
+    throw new Error(details?.error || error.message);
+  }
+  return data as SendResult;
+};
@@ -0,0 +1,19 @@
+import type { PostgrestError } from '@supabase/supabase-js';
+
+// PostgREST answers with at most 1000 rows, so report queries fetch page by
+// page until a short page comes back. The query has to be ordered for the
+// pages to line up.
+export const PAGE_SIZE = 1000;
+
+export const fetchAllRows = async <T>(
+  page: (from: number, to: number) => PromiseLike<{ data: T[] | null; error: PostgrestError | null }>,
+) => {
+  const rows: T[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await page(from, from + PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) return rows;
+  }
+};
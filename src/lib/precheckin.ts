@@ -0,0 +1,143 @@
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type GuestRegistration = Database['public']['Tables']['guest_registrations']['Row'];
+
+export const DOCUMENTS_BUCKET = 'guest-documents';
+
+export const ACCEPTED_DOCUMENT_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf'];
+export const MAX_DOCUMENT_SIZE = 10 * 1024 * 1024;
+
+// full_name is put together from the surname and given names when saved
+export interface Companion {
+  full_name: string;
+  surname: string;
+  given_names: string;
+  date_of_birth: string;
+  nationality: string;
+  document_type?: string;
+  document_number?: string;
+}
+
+export interface PrecheckinStay {
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+  guests_count: number | null;
+  confirmation_code: string;
+  pre_checked_in_at: string | null;
+}
+
+export interface PrecheckinProperty {
+  name: string;
+  address: string | null;
+  city: string | null;
+  country: string | null;
+  check_in_time: string | null;
+  check_out_time: string | null;
+  house_rules: string | null;
+}
+
+export interface PrecheckinDetails {
+  stay: PrecheckinStay;
+  property: PrecheckinProperty;
+  registration: Partial<Pick<GuestRegistration,
+    'surname' | 'given_names' | 'date_of_birth' | 'nationality' | 'address' | 'document_type' | 'document_number' |
+    'document_expiry' | 'arrival_time' | 'house_rules_accepted_at' | 'submitted_at'>> & {
+    companions?: Companion[];
+    has_document_photo: boolean;
+  };
+  closed_reason: null;
+}
+
+// Once the stay is cancelled, checked in or over the link only tells why
+export interface PrecheckinClosed {
+  closed_reason: string;
+}
+
+export interface PrecheckinSubmission {
+  surname: string;
+  givenNames: string;
+  dateOfBirth: string;
+  nationality: string;
+  address: string;
+  documentType: string;
+  documentNumber: string;
+  documentExpiry?: string;
+  documentPhotoPath?: string;
+  companions: Companion[];
+  arrivalTime?: string;
+  acceptHouseRules: boolean;
+}
+
+// The edge function answers errors with { error }; surface that message
+// rather than the generic non-2xx one from the client
+const invokeGuestCheckin = async <T>(body: Record<string, unknown>): Promise<T> => {
+  const { data, error } = await supabase.functions.invoke('guest-checkin', { body });
+  if (error) {
+    const details = await (error as { context?: Response }).context?.json?.().catch(() => null);
+    throw new Error(details?.error || error.message);
+  }
+  return data as T;
+};
+
+export const fetchPrecheckin = (token: string) =>
+  invokeGuestCheckin<PrecheckinDetails | PrecheckinClosed>({ action: 'load', token });
+
+// Uploads straight to storage through a signed URL and returns the stored
+// path to send with the form
+export const uploadDocumentPhoto = async (token: string, file: File) => {
+  const { path, upload_token } = await invokeGuestCheckin<{ path: string; upload_token: string }>({
+    action: 'upload_url',
+    token,
+    content_type: file.type,
+  });
+
+  const { error } = await supabase.storage
+    .from(DOCUMENTS_BUCKET)
+    .uploadToSignedUrl(path, upload_token, file, { contentType: file.type });
+
+  if (error) throw error;
+  return path;
+};
+
+export const submitPrecheckin = (token: string, submission: PrecheckinSubmission) =>
+  invokeGuestCheckin<{ pre_checked_in_at: string }>({
+    action: 'submit',
+    token,
+    surname: submission.surname,
+    given_names: submission.givenNames,
+    date_of_birth: submission.dateOfBirth,
+    nationality: submission.nationality,
+    address: submission.address,
+    document_type: submission.documentType,
+    document_number: submission.documentNumber,
+    document_expiry: submission.documentExpiry || undefined,
+    document_photo_path: submission.documentPhotoPath,
+    companions: submission.companions.map(companion => ({
+      ...companion,
+      document_type: companion.document_type || undefined,
+      document_number: companion.document_number || undefined,
+    })),
+    arrival_time: submission.arrivalTime || undefined,
+    accept_house_rules: submission.acceptHouseRules,
+  });
+
+export const fetchGuestRegistrations = async (reservationIds: string[]) => {
+  if (reservationIds.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from('guest_registrations')
+    .select('*')
+    .in('reservation_id', reservationIds);
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Staff open the ID photo through a short-lived link; the bucket is private
+export const getDocumentPhotoUrl = async (path: string) => {
+  const { data, error } = await supabase.storage.from(DOCUMENTS_BUCKET).createSignedUrl(path, 60 * 5);
+  if (error) throw error;
+  return data.signedUrl;
+};
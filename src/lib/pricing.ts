@@ -0,0 +1,60 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export interface AppliedPricingRule {
+  rule_id: string;
+  rule_name: string;
+  rule_type: string;
+  price_adjustment: number;
+  is_percentage: boolean;
+}
+
+export interface NightlyRate {
+  night: string;
+  base_price: number;
+  price: number;
+  occupancy: number;
+  applied_rules: AppliedPricingRule[];
+}
+
+export interface RateQuery {
+  propertyId: string;
+  roomId?: string | null;
+  ratePlanId?: string | null;
+  checkIn: string;
+  checkOut: string;
+}
+
+// Resolves the price of every night in [checkIn, checkOut) on the server,
+// applying the property's active pricing rules in stage order
+// (seasonal → event → weekend → occupancy) and then the rate plan. A price
+// set for the night in the rate grid replaces the base price and rules.
+// Stays that break a stay restriction are rejected with its message.
+export const resolveNightlyRates = async ({ propertyId, roomId, ratePlanId, checkIn, checkOut }: RateQuery): Promise<NightlyRate[]> => {
+  const { data, error } = await supabase.rpc('resolve_nightly_rates', {
+    p_property_id: propertyId,
+    p_check_in: checkIn,
+    p_check_out: checkOut,
+    ...(roomId ? { p_room_id: roomId } : {}),
+    ...(ratePlanId ? { p_rate_plan_id: ratePlanId } : {}),
+  });
+
+  if (error) throw error;
+
+  return (data || []).map(rate => ({
+    night: rate.night,
+    base_price: Number(rate.base_price),
+    price: Number(rate.price),
+    occupancy: Number(rate.occupancy),
+    applied_rules: (rate.applied_rules as unknown as AppliedPricingRule[]) || [],
+  }));
+};
+
+export const sumNightlyRates = (rates: NightlyRate[]) =>
+  Math.round(rates.reduce((sum, rate) => sum + rate.price, 0) * 100) / 100;
+
+export const formatRuleAdjustment = (rule: AppliedPricingRule) => {
+  if (rule.rule_type === 'override') return `= ${rule.price_adjustment}`;
+  const sign = rule.price_adjustment >= 0 ? '+' : '−';
+  const value = Math.abs(rule.price_adjustment);
+  return rule.is_percentage ? `${sign}${value}%` : `${sign}${value}`;
+};
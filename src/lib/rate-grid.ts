@@ -0,0 +1,72 @@
+import { addDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+
+export type RateGridCell = Database['public']['Functions']['rate_grid']['Returns'][number];
+
+export type RateChangeMode = 'set' | 'percent' | 'clear';
+
+// A rectangle of cells picked in the grid; nights are inclusive
+export interface RateGridSelection {
+  roomTypes: string[];
+  from: string;
+  to: string;
+}
+
+export const RATE_CHANGE_MODES: Record<RateChangeMode, string> = {
+  set: 'Set price',
+  percent: 'Change by %',
+  clear: 'Clear overrides',
+};
+
+export const rateGridKey = (roomType: string, night: string) => `${roomType}|${night}`;
+
+// Cells keyed by room type and night so the grid can look them up directly
+export const indexRateGrid = (cells: RateGridCell[]) =>
+  new Map(cells.map(cell => [rateGridKey(cell.room_type, cell.night), cell]));
+
+export const rateGridRoomTypes = (cells: RateGridCell[]) =>
+  Array.from(new Set(cells.map(cell => cell.room_type)));
+
+// Short labels for the restrictions on a cell, in the order they are shown
+export const cellRestrictions = (cell: RateGridCell) => {
+  const labels: string[] = [];
+  if (cell.stop_sell) labels.push('Stop');
+  if (cell.closed_to_arrival) labels.push('CTA');
+  if (cell.closed_to_departure) labels.push('CTD');
+  if (cell.min_stay) labels.push(`Min ${cell.min_stay}`);
+  if (cell.max_stay) labels.push(`Max ${cell.max_stay}`);
+  return labels;
+};
+
+// The grid asks for nights from `from` up to, not including, `to`
+export const fetchRateGrid = async (propertyId: string, from: string, to: string): Promise<RateGridCell[]> => {
+  const { data, error } = await supabase.rpc('rate_grid', {
+    p_property_id: propertyId,
+    p_from: from,
+    p_to: to,
+  });
+
+  if (error) throw error;
+  return (data || []).map(cell => ({ ...cell, price: Number(cell.price) }));
+};
+
+// Saves the change as per-night overrides and returns how many nights changed
+export const applyRateChange = async (
+  propertyId: string,
+  selection: RateGridSelection,
+  mode: RateChangeMode,
+  value?: number,
+) => {
+  const { data, error } = await supabase.rpc('apply_rate_change', {
+    p_property_id: propertyId,
+    p_room_types: selection.roomTypes,
+    p_from: selection.from,
+    p_to: format(addDays(parseISO(selection.to), 1), 'yyyy-MM-dd'),
+    p_mode: mode,
+    ...(mode === 'clear' ? {} : { p_value: value }),
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+};
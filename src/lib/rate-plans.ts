@@ -0,0 +1,123 @@
+import { format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { formatAmount } from '@/lib/invoices';
+
+export type RatePlan = Database['public']['Tables']['rate_plans']['Row'];
+export type StayRestriction = Database['public']['Tables']['stay_restrictions']['Row'];
+
+export interface RestrictionViolation {
+  restriction: string;
+  restriction_date: string;
+  message: string;
+}
+
+export interface StayQuery {
+  propertyId: string;
+  roomId?: string | null;
+  ratePlanId?: string | null;
+  checkIn: string;
+  checkOut: string;
+}
+
+export const RESTRICTION_LABELS: Record<string, string> = {
+  stop_sell: 'Stop-sell',
+  closed_to_arrival: 'Closed to arrival',
+  closed_to_departure: 'Closed to departure',
+  min_stay: 'Min stay',
+  max_stay: 'Max stay',
+};
+
+export const formatPlanAdjustment = (plan: Pick<RatePlan, 'price_adjustment' | 'is_percentage'>, currency: string) => {
+  const value = Number(plan.price_adjustment);
+  if (value === 0) return 'same price';
+  const sign = value > 0 ? '+' : '−';
+  return plan.is_percentage ? `${sign}${Math.abs(value)}%` : `${sign}${formatAmount(Math.abs(value), currency)}`;
+};
+
+// "Breakfast included: Standard +15%"; plans without a parent are priced
+// from the base rate and pricing rules
+export const describeRatePlan = (plan: RatePlan, plans: RatePlan[], currency: string) => {
+  const parent = plans.find(p => p.id === plan.parent_rate_plan_id);
+  return `${parent ? parent.name : 'Base rate'} ${formatPlanAdjustment(plan, currency)}`;
+};
+
+// Plans that can be sold for a room type; with no room chosen every plan is
+// offered
+export const plansForRoomType = (plans: RatePlan[], roomType: string | null | undefined) =>
+  plans.filter(plan => plan.is_active && (!roomType || !plan.room_type || plan.room_type === roomType));
+
+export const describeRestriction = (restriction: StayRestriction) => {
+  const parts: string[] = [];
+  if (restriction.stop_sell) parts.push('Stop-sell');
+  if (restriction.closed_to_arrival) parts.push('Closed to arrival');
+  if (restriction.closed_to_departure) parts.push('Closed to departure');
+  if (restriction.min_stay) parts.push(`Min ${restriction.min_stay} nights`);
+  if (restriction.max_stay) parts.push(`Max ${restriction.max_stay} nights`);
+  return parts.join(', ') || 'No restriction';
+};
+
+export const formatRestrictionDates = (restriction: Pick<StayRestriction, 'start_date' | 'end_date'>) =>
+  restriction.start_date === restriction.end_date
+    ? format(parseISO(restriction.start_date), 'MMM d, yyyy')
+    : `${format(parseISO(restriction.start_date), 'MMM d')} – ${format(parseISO(restriction.end_date), 'MMM d, yyyy')}`;
+
+export const fetchRatePlans = async (propertyId?: string) => {
+  let query = supabase.from('rate_plans').select('*').order('name');
+  if (propertyId) query = query.eq('property_id', propertyId);
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data || [];
+};
+
+// Every restriction the stay breaks; an empty list means it can be booked.
+// Staff forms check them here and the booking engine through the rate
+// resolver. iCal imports are exempt on purpose: the channel has already sold
+// the stay, and refusing it would only hide the booking.
+export const checkStayRestrictions = async ({ propertyId, roomId, ratePlanId, checkIn, checkOut }: StayQuery) => {
+  const { data, error } = await supabase.rpc('check_stay_restrictions', {
+    p_property_id: propertyId,
+    p_check_in: checkIn,
+    p_check_out: checkOut,
+    ...(roomId ? { p_room_id: roomId } : {}),
+    ...(ratePlanId ? { p_rate_plan_id: ratePlanId } : {}),
+  });
+
+  if (error) throw error;
+  return (data || []) as RestrictionViolation[];
+};
+
+export const describeViolations = (violations: RestrictionViolation[]) =>
+  violations.map(violation => violation.message).join('. ');
+
+export interface RestrictedStay {
+  property_id: string;
+  room_id?: string | null;
+  rate_plan_id?: string | null;
+  check_in: string;
+  check_out: string;
+  status?: string | null;
+}
+
+// Restrictions stop new stays and changes to dates, room or rate plan. An
+// existing reservation can still be edited otherwise after a restriction is
+// added over its dates.
+export const fetchRestrictionViolations = async (candidate: RestrictedStay, original?: RestrictedStay | null) => {
+  if (candidate.status === 'cancelled' || !candidate.check_in || !candidate.check_out) return [];
+
+  const unchanged = !!original
+    && original.check_in === candidate.check_in
+    && original.check_out === candidate.check_out
+    && (original.room_id || null) === (candidate.room_id || null)
+    && (original.rate_plan_id || null) === (candidate.rate_plan_id || null);
+  if (unchanged) return [];
+
+  return checkStayRestrictions({
+    propertyId: candidate.property_id,
+    roomId: candidate.room_id,
+    ratePlanId: candidate.rate_plan_id,
+    checkIn: candidate.check_in,
+    checkOut: candidate.check_out,
+  });
+};
@@ -0,0 +1,240 @@
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { resolveNightlyRates, sumNightlyRates } from '@/lib/pricing';
+import { describeViolations, fetchRestrictionViolations } from '@/lib/rate-plans';
+
+// Name of the exclusion constraint that keeps a room from being double-booked
+export const ROOM_OVERLAP_CONSTRAINT = 'reservations_room_no_overlap';
+
+export interface StayRange {
+  id?: string;
+  room_id?: string | null;
+  check_in: string;
+  check_out: string;
+  status?: string | null;
+}
+
+export interface RoomConflict {
+  id: string;
+  guest_name: string;
+  check_in: string;
+  check_out: string;
+}
+
+// Stays occupy the nights in [check_in, check_out), so a check-out and a
+// check-in on the same day do not overlap. ISO dates compare as strings.
+export const staysOverlap = (a: StayRange, b: StayRange) =>
+  a.check_in < b.check_out && b.check_in < a.check_out;
+
+export const isNightInStay = (stay: StayRange, dateStr: string) =>
+  stay.check_in <= dateStr && dateStr < stay.check_out;
+
+export const blocksRoom = (stay: StayRange) =>
+  !!stay.room_id && stay.status !== 'cancelled';
+
+// Finds an already loaded reservation that would collide with `candidate`
+export const findRoomConflict = <T extends StayRange>(candidate: StayRange, reservations: T[]): T | null => {
+  if (!blocksRoom(candidate)) return null;
+
+  return reservations.find(reservation =>
+    reservation.id !== candidate.id &&
+    reservation.room_id === candidate.room_id &&
+    blocksRoom(reservation) &&
+    staysOverlap(reservation, candidate)
+  ) || null;
+};
+
+// Asks the database for a reservation that already holds the room for any
+// night of the requested stay. The exclusion constraint remains the source of
+// truth; this only lets the forms explain the conflict before submitting.
+export const fetchRoomConflict = async (candidate: StayRange): Promise<RoomConflict | null> => {
+  if (!blocksRoom(candidate) || !candidate.check_in || !candidate.check_out) return null;
+
+  let query = supabase
+    .from('reservations')
+    .select('id, guest_name, check_in, check_out')
+    .eq('room_id', candidate.room_id!)
+    .neq('status', 'cancelled')
+    .lt('check_in', candidate.check_out)
+    .gt('check_out', candidate.check_in)
+    .limit(1);
+
+  if (candidate.id) {
+    query = query.neq('id', candidate.id);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+  return data?.[0] || null;
+};
+
+export const describeRoomConflict = (conflict: RoomConflict) =>
+  `The room is already booked by ${conflict.guest_name} from ${conflict.check_in} to ${conflict.check_out}.`;
+
+// Translates database errors raised by reservation writes into messages
+// that make sense to front desk staff.
+export const getReservationErrorMessage = (error: { code?: string; message?: string } | null): string => {
+  const message = error?.message || '';
+
+  if (error?.code === '23P01' || message.includes(ROOM_OVERLAP_CONSTRAINT)) {
+    return 'This room is already booked for some of the selected nights. Choose another room or different dates.';
+  }
+  if (message.includes('reservations_dates_check')) {
+    return 'Check-out date must be after the check-in date.';
+  }
+
+  return message || 'Something went wrong while saving the reservation.';
+};
+
+export type StayDragMode = 'move' | 'resize-start' | 'resize-end';
+
+// A stay that can be moved on the room chart
+export interface MovableStay extends StayRange {
+  id: string;
+  property_id: string;
+  rate_plan_id?: string | null;
+  total_price?: number | null;
+}
+
+export const shiftDate = (dateStr: string, days: number) =>
+  format(addDays(parseISO(dateStr), days), 'yyyy-MM-dd');
+
+// New dates for a stay dragged by `days`. Moving keeps the length of stay;
+// resizing moves one edge and always leaves at least one night.
+export const dragStayDates = (stay: StayRange, mode: StayDragMode, days: number) => {
+  switch (mode) {
+    case 'move':
+      return { check_in: shiftDate(stay.check_in, days), check_out: shiftDate(stay.check_out, days) };
+    case 'resize-start': {
+      const checkIn = shiftDate(stay.check_in, days);
+      return { check_in: checkIn < stay.check_out ? checkIn : shiftDate(stay.check_out, -1), check_out: stay.check_out };
+    }
+    case 'resize-end': {
+      const checkOut = shiftDate(stay.check_out, days);
+      return { check_in: stay.check_in, check_out: checkOut > stay.check_in ? checkOut : shiftDate(stay.check_in, 1) };
+    }
+  }
+};
+
+const countNights = (stay: StayRange) =>
+  differenceInCalendarDays(parseISO(stay.check_out), parseISO(stay.check_in));
+
+// Saves a new room or dates for a stay after checking them against the
+// database, and returns the total it was saved with. A stay that gains or
+// loses nights is priced again for its new dates; a move keeps the agreed
+// total. Undoing a change passes `checkRestrictions: false` so the previous
+// stay, total included, can always be restored if the room is still free.
+export const saveStayChange = async (
+  original: MovableStay,
+  candidate: MovableStay,
+  { checkRestrictions = true }: { checkRestrictions?: boolean } = {},
+) => {
+  const conflict = await fetchRoomConflict(candidate);
+  if (conflict) throw new Error(describeRoomConflict(conflict));
+
+  if (checkRestrictions) {
+    const violations = await fetchRestrictionViolations(candidate, original);
+    if (violations.length > 0) throw new Error(describeViolations(violations));
+  }
+
+  let totalPrice = candidate.total_price ?? null;
+  if (checkRestrictions && countNights(candidate) !== countNights(original)) {
+    totalPrice = sumNightlyRates(await resolveNightlyRates({
+      propertyId: candidate.property_id,
+      roomId: candidate.room_id,
+      ratePlanId: candidate.rate_plan_id,
+      checkIn: candidate.check_in,
+      checkOut: candidate.check_out,
+    }));
+  }
+
+  const { error } = await supabase
+    .from('reservations')
+    .update({
+      room_id: candidate.room_id ?? null,
+      check_in: candidate.check_in,
+      check_out: candidate.check_out,
+      ...(totalPrice !== null ? { total_price: totalPrice } : {}),
+    })
+    .eq('id', candidate.id);
+
+  if (error) throw new Error(getReservationErrorMessage(error));
+  return totalPrice;
+};
+
+export const RESERVATION_STATUSES: Record<string, string> = {
+  pending: 'Pending',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked In',
+  checked_out: 'Checked Out',
+  cancelled: 'Cancelled',
+};
+
+// Mirrors validate_reservation_status in the database. Cancelling is offered
+// here but goes through the cancellation dialog.
+const STATUS_TRANSITIONS: Record<string, string[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['pending', 'checked_in', 'cancelled'],
+  checked_in: ['confirmed', 'checked_out'],
+  checked_out: ['checked_in'],
+  cancelled: [],
+};
+
+// Statuses a reservation form may offer: the current one and the moves
+// allowed from it. New reservations start as pending or confirmed.
+export const statusOptions = (current?: string | null) =>
+  current ? [current, ...(STATUS_TRANSITIONS[current] ?? [])] : ['confirmed', 'pending'];
+
+// Arrival and departure days are dates at the property, not in the browser
+export const propertyToday = (timezone: string) =>
+  new Date().toLocaleDateString('en-CA', { timeZone: timezone });
+
+export const propertyTimeNow = (timezone: string) =>
+  new Date().toLocaleTimeString('en-GB', { timeZone: timezone, hour: '2-digit', minute: '2-digit', hour12: false });
+
+// "A12, A13" -> ['A12', 'A13']
+export const parseKeyCards = (value: string) =>
+  value.split(',').map(card => card.trim()).filter(Boolean);
+
+// Assigns the room and key cards and checks the guest in in one step
+export const checkInReservation = async (
+  reservationId: string,
+  { roomId, keyCards, earlyFee }: { roomId?: string; keyCards?: string[]; earlyFee?: number } = {},
+) => {
+  const { error } = await supabase.rpc('check_in_reservation', {
+    p_reservation_id: reservationId,
+    p_room_id: roomId,
+    p_key_cards: keyCards,
+    p_early_fee: earlyFee || 0,
+  });
+  if (error) throw new Error(getReservationErrorMessage(error));
+};
+
+// Fails while the folio has an open balance unless `allowBalance` is set;
+// returns the balance left on the folio
+export const checkOutReservation = async (reservationId: string, allowBalance = false) => {
+  const { data, error } = await supabase.rpc('check_out_reservation', {
+    p_reservation_id: reservationId,
+    p_allow_balance: allowBalance,
+  });
+  if (error) throw new Error(getReservationErrorMessage(error));
+  return Number(data ?? 0);
+};
+
+export const arrangeLateCheckOut = async (reservationId: string, until: string, fee?: number) => {
+  const { error } = await supabase.rpc('arrange_late_check_out', {
+    p_reservation_id: reservationId,
+    p_until: until,
+    p_fee: fee || 0,
+  });
+  if (error) throw error;
+};
+
+export const updateKeyCards = async (reservationId: string, keyCards: string[]) => {
+  const { error } = await supabase
+    .from('reservations')
+    .update({ key_cards: keyCards })
+    .eq('id', reservationId);
+
+  if (error) throw error;
+};
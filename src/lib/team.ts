@@ -0,0 +1,83 @@
+import { supabase } from '@/integrations/supabase/client';
+
+export type Capability = 'view_reservations' | 'edit_reservations' | 'edit_pricing' | 'housekeeping';
+
+export interface PropertyGrant {
+  property_id: string;
+  can_view_reservations: boolean;
+  can_edit_reservations: boolean;
+  can_edit_pricing: boolean;
+  can_housekeeping: boolean;
+}
+
+export type GrantFlag = Exclude<keyof PropertyGrant, 'property_id'>;
+
+export const CAPABILITY_FLAGS: { flag: GrantFlag; label: string; description: string }[] = [
+  { flag: 'can_view_reservations', label: 'View reservations', description: 'Calendar, reservations and guest details' },
+  { flag: 'can_edit_reservations', label: 'Edit reservations', description: 'Create, change and cancel reservations' },
+  { flag: 'can_edit_pricing', label: 'Edit pricing', description: 'Pricing rules and rate changes' },
+  { flag: 'can_housekeeping', label: 'Housekeeping', description: 'Cleaning tasks and room status' },
+];
+
+export const GRANT_PRESETS: { value: string; label: string; flags: Record<GrantFlag, boolean> }[] = [
+  {
+    value: 'front_desk',
+    label: 'Front desk',
+    flags: { can_view_reservations: true, can_edit_reservations: true, can_edit_pricing: false, can_housekeeping: true },
+  },
+  {
+    value: 'manager',
+    label: 'Manager',
+    flags: { can_view_reservations: true, can_edit_reservations: true, can_edit_pricing: true, can_housekeeping: true },
+  },
+  {
+    value: 'housekeeping',
+    label: 'Housekeeping only',
+    flags: { can_view_reservations: false, can_edit_reservations: false, can_edit_pricing: false, can_housekeeping: true },
+  },
+  {
+    value: 'read_only',
+    label: 'Read only',
+    flags: { can_view_reservations: true, can_edit_reservations: false, can_edit_pricing: false, can_housekeeping: false },
+  },
+];
+
+// Mirrors has_property_capability(): editing reservations implies viewing them
+export const grantAllows = (grant: Omit<PropertyGrant, 'property_id'>, capability: Capability) => {
+  switch (capability) {
+    case 'view_reservations':
+      return grant.can_view_reservations || grant.can_edit_reservations;
+    case 'edit_reservations':
+      return grant.can_edit_reservations;
+    case 'edit_pricing':
+      return grant.can_edit_pricing;
+    case 'housekeeping':
+      return grant.can_housekeeping;
+  }
+};
+
+export const describeGrant = (grant: Omit<PropertyGrant, 'property_id'>) => {
+  const preset = GRANT_PRESETS.find(p =>
+    CAPABILITY_FLAGS.every(({ flag }) => p.flags[flag] === grant[flag])
+  );
+  if (preset) return preset.label;
+
+  const labels = CAPABILITY_FLAGS.filter(({ flag }) => grant[flag]).map(({ label }) => label);
+  return labels.length > 0 ? labels.join(', ') : 'No access';
+};
+
+export type InvitationStatus = 'email_sent' | 'pending_sign_in';
+
+// Sends the invitation through the invite-staff edge function, which is allowed
+// to create accounts. Existing users accept on their next sign-in.
+export const inviteStaff = async (invitation: { email: string; full_name?: string; access: PropertyGrant[] }) => {
+  const { data, error } = await supabase.functions.invoke('invite-staff', { body: invitation });
+  if (error) throw error;
+  return data as { invitation_id: string; expires_at: string; status: InvitationStatus };
+};
+
+export const acceptPendingInvitations = async () => {
+  const { data, error } = await supabase.rpc('accept_pending_invitations');
+  if (error) throw error;
+  return data;
+};
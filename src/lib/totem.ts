@@ -0,0 +1,241 @@
+import { addDays, format, parseISO, subDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { summarize } from '@/lib/analytics';
+
+// Same raw counts as a property_metric_snapshots row, so live figures and
+// stored history go through one scoring path
+export interface TotemCounts {
+  rooms_available: number;
+  room_nights_sold: number;
+  room_revenue: number;
+  review_count: number;
+  rating_sum: number;
+}
+
+export interface TotemMetrics {
+  date: string;
+  occupancyRate: number;
+  // Null until the property has reviews in the last 90 days
+  guestSatisfaction: number | null;
+  revenuePerRoom: number;
+  overallScore: number;
+}
+
+export const REVIEW_WINDOW_DAYS = 90;
+
+const emptyCounts = (): TotemCounts => ({
+  rooms_available: 0,
+  room_nights_sold: 0,
+  room_revenue: 0,
+  review_count: 0,
+  rating_sum: 0,
+});
+
+// Occupancy, satisfaction and revenue each score 0–100; revenue per available
+// room scores one point per 2 units of currency. Missing parts are skipped.
+export const toTotemMetrics = (date: string, counts: TotemCounts): TotemMetrics => {
+  const occupancyRate = counts.rooms_available > 0
+    ? Math.min(100, Math.round((counts.room_nights_sold / counts.rooms_available) * 100))
+    : 0;
+  const revenuePerRoom = counts.rooms_available > 0
+    ? Math.round(Number(counts.room_revenue) / counts.rooms_available)
+    : 0;
+  const guestSatisfaction = counts.review_count > 0
+    ? Math.round((counts.rating_sum / counts.review_count / 5) * 100)
+    : null;
+
+  const parts = [occupancyRate, Math.min(100, revenuePerRoom / 2)];
+  if (guestSatisfaction !== null) parts.push(guestSatisfaction);
+
+  return {
+    date,
+    occupancyRate,
+    guestSatisfaction,
+    revenuePerRoom,
+    overallScore: Math.round(parts.reduce((sum, part) => sum + part, 0) / parts.length),
+  };
+};
+
+const addCounts = (a: TotemCounts, b: TotemCounts): TotemCounts => ({
+  rooms_available: a.rooms_available + b.rooms_available,
+  room_nights_sold: a.room_nights_sold + b.room_nights_sold,
+  room_revenue: Number(a.room_revenue) + Number(b.room_revenue),
+  review_count: a.review_count + b.review_count,
+  rating_sum: a.rating_sum + b.rating_sum,
+});
+
+// One point per night; several properties are summed before scoring
+export const historyFromSnapshots = (snapshots: (TotemCounts & { snapshot_date: string })[]): TotemMetrics[] => {
+  const byDate = new Map<string, TotemCounts>();
+  snapshots.forEach(snapshot => {
+    byDate.set(snapshot.snapshot_date, addCounts(byDate.get(snapshot.snapshot_date) ?? emptyCounts(), snapshot));
+  });
+
+  return [...byDate.keys()].sort().map(date => toTotemMetrics(date, byDate.get(date)!));
+};
+
+// Tonight's figures, computed the same way capture_property_metrics() will
+// record them tomorrow
+const fetchCurrentCounts = async (propertyId: string, today: string): Promise<TotemCounts> => {
+  const tonight = { from: today, to: format(addDays(parseISO(today), 1), 'yyyy-MM-dd') };
+  const reviewsFrom = format(subDays(parseISO(today), REVIEW_WINDOW_DAYS - 1), 'yyyy-MM-dd');
+
+  let propertiesQuery = supabase.from('properties').select('id').eq('is_active', true);
+  let roomsQuery = supabase.from('rooms').select('id, property_id, room_type').eq('is_active', true);
+  let reservationsQuery = supabase
+    .from('reservations')
+    .select('id, property_id, room_id, check_in, check_out, total_price, status, source, created_at')
+    .lte('check_in', today)
+    .gt('check_out', today);
+  const blocksQuery = supabase
+    .from('maintenance_tickets')
+    .select('room_id, out_of_order_from, out_of_order_to, resolved_at')
+    .not('room_id', 'is', null)
+    .lte('out_of_order_from', today)
+    .gt('out_of_order_to', today);
+  let reviewsQuery = supabase.from('guest_reviews').select('rating').gte('reviewed_at', reviewsFrom).lte('reviewed_at', today);
+
+  if (propertyId !== 'all') {
+    propertiesQuery = propertiesQuery.eq('id', propertyId);
+    roomsQuery = roomsQuery.eq('property_id', propertyId);
+    reservationsQuery = reservationsQuery.eq('property_id', propertyId);
+    reviewsQuery = reviewsQuery.eq('property_id', propertyId);
+  }
+
+  const [properties, rooms, reservations, blocks, reviews] = await Promise.all([
+    propertiesQuery, roomsQuery, reservationsQuery, blocksQuery, reviewsQuery,
+  ]);
+  for (const result of [properties, rooms, reservations, blocks, reviews]) {
+    if (result.error) throw result.error;
+  }
+
+  const kpis = summarize(reservations.data || [], {
+    propertyIds: (properties.data || []).map(p => p.id),
+    rooms: rooms.data || [],
+    blocks: blocks.data || [],
+  }, tonight);
+
+  return {
+    rooms_available: kpis.roomNightsAvailable,
+    room_nights_sold: kpis.roomNightsSold,
+    room_revenue: kpis.revenue,
+    review_count: (reviews.data || []).length,
+    rating_sum: (reviews.data || []).reduce((sum, review) => sum + review.rating, 0),
+  };
+};
+
+export const fetchTotemData = async (propertyId: string, days = 30) => {
+  const today = format(new Date(), 'yyyy-MM-dd');
+
+  let snapshotsQuery = supabase
+    .from('property_metric_snapshots')
+    .select('snapshot_date, rooms_available, room_nights_sold, room_revenue, review_count, rating_sum')
+    .gte('snapshot_date', format(subDays(new Date(), days), 'yyyy-MM-dd'))
+    .lt('snapshot_date', today)
+    .order('snapshot_date');
+
+  if (propertyId !== 'all') {
+    snapshotsQuery = snapshotsQuery.eq('property_id', propertyId);
+  }
+
+  const [{ data: snapshots, error }, counts] = await Promise.all([
+    snapshotsQuery,
+    fetchCurrentCounts(propertyId, today),
+  ]);
+  if (error) throw error;
+
+  return {
+    current: toTotemMetrics(today, counts),
+    history: historyFromSnapshots(snapshots || []),
+  };
+};
+
+export const totemCsv = (history: TotemMetrics[]) =>
+  [
+    ['Datum', 'Obsazenost (%)', 'Spokojenost (%)', 'Výnos/pokoj', 'Celkové skóre'],
+    ...history.map(day => [
+      day.date,
+      day.occupancyRate.toString(),
+      day.guestSatisfaction?.toString() ?? '',
+      day.revenuePerRoom.toString(),
+      day.overallScore.toString(),
+    ]),
+  ].map(row => row.join(',')).join('\n');
+
+const PNG_WIDTH = 800;
+const PNG_HEIGHT = 420;
+
+// Draws the score history as a chart image. Output depends only on the data,
+// so the same history always exports the same picture.
+export const renderTotemPng = (title: string, current: TotemMetrics, history: TotemMetrics[]) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = PNG_WIDTH;
+  canvas.height = PNG_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas is not supported in this browser');
+
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, PNG_WIDTH, PNG_HEIGHT);
+
+  ctx.fillStyle = '#111827';
+  ctx.font = 'bold 22px sans-serif';
+  ctx.fillText(`Shaman Totem – ${title}`, 32, 44);
+  ctx.font = '14px sans-serif';
+  ctx.fillStyle = '#4b5563';
+  ctx.fillText(
+    `${current.date}: skóre ${current.overallScore}%, obsazenost ${current.occupancyRate}%, ` +
+    `spokojenost ${current.guestSatisfaction ?? '–'}${current.guestSatisfaction !== null ? '%' : ''}, ` +
+    `výnos/pokoj ${current.revenuePerRoom}`,
+    32, 72
+  );
+
+  const chart = { left: 56, top: 100, width: PNG_WIDTH - 88, height: PNG_HEIGHT - 160 };
+  const y = (value: number) => chart.top + chart.height - (value / 100) * chart.height;
+  const x = (index: number) =>
+    chart.left + (history.length > 1 ? (index / (history.length - 1)) * chart.width : chart.width / 2);
+
+  ctx.strokeStyle = '#e5e7eb';
+  ctx.fillStyle = '#6b7280';
+  ctx.font = '12px sans-serif';
+  ctx.lineWidth = 1;
+  [0, 25, 50, 75, 100].forEach(tick => {
+    ctx.beginPath();
+    ctx.moveTo(chart.left, y(tick));
+    ctx.lineTo(chart.left + chart.width, y(tick));
+    ctx.stroke();
+    ctx.fillText(`${tick}%`, 16, y(tick) + 4);
+  });
+
+  const series: { key: 'overallScore' | 'occupancyRate'; color: string; label: string }[] = [
+    { key: 'occupancyRate', color: '#0e9aa7', label: 'Obsazenost' },
+    { key: 'overallScore', color: '#1f8f4e', label: 'Celkové skóre' },
+  ];
+
+  series.forEach(({ key, color }) => {
+    ctx.strokeStyle = color;
+    ctx.lineWidth = key === 'overallScore' ? 3 : 2;
+    ctx.beginPath();
+    history.forEach((day, index) => {
+      if (index === 0) ctx.moveTo(x(index), y(day[key]));
+      else ctx.lineTo(x(index), y(day[key]));
+    });
+    ctx.stroke();
+  });
+
+  ctx.fillStyle = '#6b7280';
+  history.forEach((day, index) => {
+    if (index % 5 === 0 || index === history.length - 1) {
+      ctx.fillText(format(parseISO(day.date), 'd.M.'), x(index) - 12, chart.top + chart.height + 20);
+    }
+  });
+
+  series.forEach(({ color, label }, index) => {
+    const left = chart.left + index * 160;
+    ctx.fillStyle = color;
+    ctx.fillRect(left, PNG_HEIGHT - 26, 14, 4);
+    ctx.fillStyle = '#374151';
+    ctx.fillText(label, left + 20, PNG_HEIGHT - 20);
+  });
+
+  return canvas.toDataURL('image/png');
+};
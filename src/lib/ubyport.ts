@@ -0,0 +1,304 @@
+import { differenceInYears, format, parseISO } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { Database } from '@/integrations/supabase/types';
+import { Companion } from '@/lib/precheckin';
+
+export type RegistrationBatch = Database['public']['Tables']['police_registration_batches']['Row'];
+
+export interface UbyportProperty {
+  name: string;
+  address: string | null;
+  city: string | null;
+  ubyport_idub: string | null;
+  ubyport_abbreviation: string | null;
+  ubyport_contact: string | null;
+}
+
+// ISO 3166-1 alpha-2 to alpha-3. Nationalities are entered either way; the
+// file needs the three-letter code.
+const ALPHA3: Record<string, string> = {
+  AD: 'AND', AE: 'ARE', AF: 'AFG', AG: 'ATG', AL: 'ALB', AM: 'ARM', AO: 'AGO', AR: 'ARG', AT: 'AUT', AU: 'AUS',
+  AZ: 'AZE', BA: 'BIH', BB: 'BRB', BD: 'BGD', BE: 'BEL', BF: 'BFA', BG: 'BGR', BH: 'BHR', BI: 'BDI', BJ: 'BEN',
+  BN: 'BRN', BO: 'BOL', BR: 'BRA', BS: 'BHS', BT: 'BTN', BW: 'BWA', BY: 'BLR', BZ: 'BLZ', CA: 'CAN', CD: 'COD',
+  CF: 'CAF', CG: 'COG', CH: 'CHE', CI: 'CIV', CL: 'CHL', CM: 'CMR', CN: 'CHN', CO: 'COL', CR: 'CRI', CU: 'CUB',
+  CV: 'CPV', CY: 'CYP', CZ: 'CZE', DE: 'DEU', DJ: 'DJI', DK: 'DNK', DM: 'DMA', DO: 'DOM', DZ: 'DZA', EC: 'ECU',
+  EE: 'EST', EG: 'EGY', ER: 'ERI', ES: 'ESP', ET: 'ETH', FI: 'FIN', FJ: 'FJI', FM: 'FSM', FR: 'FRA', GA: 'GAB',
+  GB: 'GBR', GD: 'GRD', GE: 'GEO', GH: 'GHA', GM: 'GMB', GN: 'GIN', GQ: 'GNQ', GR: 'GRC', GT: 'GTM', GW: 'GNB',
+  GY: 'GUY', HK: 'HKG', HN: 'HND', HR: 'HRV', HT: 'HTI', HU: 'HUN', ID: 'IDN', IE: 'IRL', IL: 'ISR', IN: 'IND',
+  IQ: 'IRQ', IR: 'IRN', IS: 'ISL', IT: 'ITA', JM: 'JAM', JO: 'JOR', JP: 'JPN', KE: 'KEN', KG: 'KGZ', KH: 'KHM',
+  KI: 'KIR', KM: 'COM', KN: 'KNA', KP: 'PRK', KR: 'KOR', KW: 'KWT', KZ: 'KAZ', LA: 'LAO', LB: 'LBN', LC: 'LCA',
+  LI: 'LIE', LK: 'LKA', LR: 'LBR', LS: 'LSO', LT: 'LTU', LU: 'LUX', LV: 'LVA', LY: 'LBY', MA: 'MAR', MC: 'MCO',
+  MD: 'MDA', ME: 'MNE', MG: 'MDG', MH: 'MHL', MK: 'MKD', ML: 'MLI', MM: 'MMR', MN: 'MNG', MO: 'MAC', MR: 'MRT',
+  MT: 'MLT', MU: 'MUS', MV: 'MDV', MW: 'MWI', MX: 'MEX', MY: 'MYS', MZ: 'MOZ', NA: 'NAM', NE: 'NER', NG: 'NGA',
+  NI: 'NIC', NL: 'NLD', NO: 'NOR', NP: 'NPL', NR: 'NRU', NZ: 'NZL', OM: 'OMN', PA: 'PAN', PE: 'PER', PG: 'PNG',
+  PH: 'PHL', PK: 'PAK', PL: 'POL', PS: 'PSE', PT: 'PRT', PW: 'PLW', PY: 'PRY', QA: 'QAT', RO: 'ROU', RS: 'SRB',
+  RU: 'RUS', RW: 'RWA', SA: 'SAU', SB: 'SLB', SC: 'SYC', SD: 'SDN', SE: 'SWE', SG: 'SGP', SI: 'SVN', SK: 'SVK',
+  SL: 'SLE', SM: 'SMR', SN: 'SEN', SO: 'SOM', SR: 'SUR', SS: 'SSD', ST: 'STP', SV: 'SLV', SY: 'SYR', SZ: 'SWZ',
+  TD: 'TCD', TG: 'TGO', TH: 'THA', TJ: 'TJK', TL: 'TLS', TM: 'TKM', TN: 'TUN', TO: 'TON', TR: 'TUR', TT: 'TTO',
+  TV: 'TUV', TW: 'TWN', TZ: 'TZA', UA: 'UKR', UG: 'UGA', US: 'USA', UY: 'URY', UZ: 'UZB', VA: 'VAT', VC: 'VCT',
+  VE: 'VEN', VN: 'VNM', VU: 'VUT', WS: 'WSM', XK: 'XKX', YE: 'YEM', ZA: 'ZAF', ZM: 'ZMB', ZW: 'ZWE',
+};
+
+const KNOWN_ALPHA3 = new Set(Object.values(ALPHA3));
+
+// Czech citizens are not reported
+const DOMESTIC = 'CZE';
+
+// Guests from this age must give a travel document number
+const DOCUMENT_REQUIRED_FROM_AGE = 15;
+
+// Purpose of stay from the Ubyport code list: tourism
+const STAY_PURPOSE = '10';
+
+// Null when the code is neither a known alpha-2 nor alpha-3 code
+export const toAlpha3 = (nationality: string | null | undefined) => {
+  const code = nationality?.trim().toUpperCase() ?? '';
+  if (code.length === 2) return ALPHA3[code] ?? null;
+  return KNOWN_ALPHA3.has(code) ? code : null;
+};
+
+export interface UbyportGuest {
+  key: string;
+  reservationId: string;
+  companion: boolean;
+  fullName: string;
+  surname: string | null;
+  givenNames: string | null;
+  dateOfBirth: string | null;
+  nationality: string | null;
+  documentNumber: string | null;
+  residence: string | null;
+  checkIn: string;
+  checkOut: string;
+  errors: string[];
+  // The batch the stay was already exported in, if any
+  batch: Pick<RegistrationBatch, 'id' | 'file_name' | 'status'> | null;
+}
+
+// Ubyport wants the surname and given names in separate fields. People
+// entered before those were asked for apart fall back to the last word of
+// the full name as the surname, which staff should check.
+const nameParts = (guest: Pick<UbyportGuest, 'fullName' | 'surname' | 'givenNames'>) => {
+  if (guest.surname && guest.givenNames) return { givenNames: guest.givenNames, surname: guest.surname };
+  const parts = guest.fullName.trim().split(/\s+/);
+  return { givenNames: parts.slice(0, -1).join(' '), surname: parts[parts.length - 1] ?? '' };
+};
+
+const validateGuest = (guest: Omit<UbyportGuest, 'errors' | 'batch' | 'key'>) => {
+  const errors: string[] = [];
+  const { givenNames } = nameParts(guest);
+
+  if (!givenNames) errors.push('Surname and given names missing');
+  if (!guest.nationality) {
+    errors.push('Nationality missing');
+  } else if (!toAlpha3(guest.nationality)) {
+    errors.push(`Unknown nationality code "${guest.nationality}"`);
+  }
+  if (!guest.dateOfBirth) {
+    errors.push('Date of birth missing');
+  } else if (guest.dateOfBirth >= guest.checkIn) {
+    errors.push('Date of birth must be before arrival');
+  }
+
+  const adult = !guest.dateOfBirth
+    || differenceInYears(parseISO(guest.checkIn), parseISO(guest.dateOfBirth)) >= DOCUMENT_REQUIRED_FROM_AGE;
+  if (adult && !guest.documentNumber) errors.push('Travel document number missing');
+  if (!guest.residence) errors.push('Home address missing');
+
+  return errors;
+};
+
+// Foreign guests of stays arriving in the period, one row per person.
+// Registration data from the online check-in wins over the guest profile;
+// companions share the main guest's home address.
+export const fetchUbyportGuests = async (propertyId: string, from: string, to: string): Promise<UbyportGuest[]> => {
+  const [{ data: stays, error: staysError }, { data: batches, error: batchesError }] = await Promise.all([
+    supabase
+      .from('reservations')
+      .select(`
+        id, guest_name, check_in, check_out, status,
+        guests ( full_name, surname, given_names, date_of_birth, nationality, address, document_number ),
+        guest_registrations ( full_name, surname, given_names, date_of_birth, nationality, address, document_number, companions )
+      `)
+      .eq('property_id', propertyId)
+      .gte('check_in', from)
+      .lte('check_in', to)
+      .not('status', 'in', '(cancelled,pending)')
+      .order('check_in'),
+    supabase
+      .from('police_registration_batches')
+      .select('id, file_name, status, reservation_ids')
+      .eq('property_id', propertyId),
+  ]);
+
+  if (staysError) throw staysError;
+  if (batchesError) throw batchesError;
+
+  const batchFor = (reservationId: string) => {
+    const batch = (batches || []).find(b => b.reservation_ids.includes(reservationId));
+    return batch ? { id: batch.id, file_name: batch.file_name, status: batch.status } : null;
+  };
+
+  return (stays || []).flatMap(stay => {
+    const registration = stay.guest_registrations;
+    const profile = stay.guests;
+    const residence = registration?.address ?? profile?.address ?? null;
+
+    const people = [
+      {
+        fullName: registration?.full_name ?? profile?.full_name ?? stay.guest_name,
+        surname: registration?.surname ?? profile?.surname ?? null,
+        givenNames: registration?.given_names ?? profile?.given_names ?? null,
+        dateOfBirth: registration?.date_of_birth ?? profile?.date_of_birth ?? null,
+        nationality: registration?.nationality ?? profile?.nationality ?? null,
+        documentNumber: registration?.document_number ?? profile?.document_number ?? null,
+        companion: false,
+      },
+      ...((registration?.companions ?? []) as unknown as Companion[]).map(companion => ({
+        fullName: companion.full_name,
+        surname: companion.surname || null,
+        givenNames: companion.given_names || null,
+        dateOfBirth: companion.date_of_birth || null,
+        nationality: companion.nationality || null,
+        documentNumber: companion.document_number || null,
+        companion: true,
+      })),
+    ];
+
+    return people
+      .filter(person => toAlpha3(person.nationality) !== DOMESTIC)
+      .map((person, index) => {
+        const guest = {
+          ...person,
+          reservationId: stay.id,
+          residence,
+          checkIn: stay.check_in,
+          checkOut: stay.check_out,
+        };
+        return { ...guest, key: `${stay.id}:${index}`, errors: validateGuest(guest), batch: batchFor(stay.id) };
+      });
+  });
+};
+
+// Settings the file header cannot do without
+export const ubyportSettingsErrors = (property: UbyportProperty) => {
+  const errors: string[] = [];
+  if (!property.ubyport_idub) errors.push('Ubyport facility ID (IDUB) is not set');
+  if (!property.ubyport_abbreviation) errors.push('Ubyport facility abbreviation is not set');
+  return errors;
+};
+
+// Stays are exported whole: one guest with errors holds back the stay, so a
+// batch never reports part of a party
+export const exportableGuests = (guests: UbyportGuest[]) => {
+  const blocked = new Set(guests.filter(g => g.errors.length > 0).map(g => g.reservationId));
+  return guests.filter(g => !g.batch && !blocked.has(g.reservationId));
+};
+
+const unlDate = (date: string) => format(parseISO(date), 'dd.MM.yyyy');
+
+// Field separators and line breaks cannot appear inside a value
+const unlField = (value: string | null | undefined) => (value ?? '').replace(/[|\r\n]+/g, ' ').trim();
+
+const unlLine = (fields: (string | null | undefined)[]) => `${fields.map(unlField).join('|')}|`;
+
+// Ubyport UNL file: an "A" record describing the facility, then one "U"
+// record per guest. Dates are DD.MM.YYYY.
+export const buildUnlFile = (property: UbyportProperty, guests: UbyportGuest[], createdAt = new Date()) =>
+  [
+    unlLine([
+      'A',
+      '1',
+      property.ubyport_idub,
+      property.ubyport_abbreviation,
+      property.name,
+      property.ubyport_contact,
+      property.city,
+      property.address,
+      format(createdAt, 'dd.MM.yyyy HH:mm'),
+    ]),
+    ...guests.map(guest => {
+      const { givenNames, surname } = nameParts(guest);
+      return unlLine([
+        'U',
+        unlDate(guest.checkIn),
+        unlDate(guest.checkOut),
+        surname,
+        givenNames,
+        guest.dateOfBirth ? unlDate(guest.dateOfBirth) : '',
+        toAlpha3(guest.nationality),
+        guest.residence,
+        guest.documentNumber,
+        '',
+        STAY_PURPOSE,
+        '',
+      ]);
+    }),
+  ].join('\r\n') + '\r\n';
+
+export const fetchRegistrationBatches = async (propertyId: string) => {
+  const { data, error } = await supabase
+    .from('police_registration_batches')
+    .select('*')
+    .eq('property_id', propertyId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+};
+
+// Builds the file for the exportable guests and keeps it as a batch
+export const createRegistrationBatch = async (
+  propertyId: string,
+  property: UbyportProperty,
+  from: string,
+  to: string,
+  guests: UbyportGuest[],
+) => {
+  const { data, error } = await supabase
+    .from('police_registration_batches')
+    .insert({
+      property_id: propertyId,
+      period_start: from,
+      period_end: to,
+      file_name: `ubyport-${property.ubyport_idub}-${from}-${to}.unl`,
+      content: buildUnlFile(property, guests),
+      guest_count: guests.length,
+      reservation_ids: Array.from(new Set(guests.map(g => g.reservationId))),
+    })
+    .select('*')
+    .single();
+
+  if (error) throw error;
+  return data;
+};
+
+export const markBatchSubmitted = async (batchId: string, userId: string) => {
+  const { error } = await supabase
+    .from('police_registration_batches')
+    .update({ status: 'submitted', submitted_at: new Date().toISOString(), submitted_by: userId })
+    .eq('id', batchId);
+
+  if (error) throw error;
+};
+
+// Only batches that were never submitted; their stays become exportable again
+export const deleteRegistrationBatch = async (batchId: string) => {
+  const { error } = await supabase
+    .from('police_registration_batches')
+    .delete()
+    .eq('id', batchId)
+    .eq('status', 'generated');
+
+  if (error) throw error;
+};
+
+export const downloadBatch = (batch: Pick<RegistrationBatch, 'content' | 'file_name'>) => {
+  const blob = new Blob([batch.content], { type: 'text/plain;charset=utf-8' });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = batch.file_name;
+  a.click();
+  URL.revokeObjectURL(url);
+};
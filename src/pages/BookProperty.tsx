@@ -0,0 +1,453 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Badge } from '@/components/ui/badge';
+import { useToast } from '@/components/ui/use-toast';
+import { CheckCircle, Clock, MapPin, Search, Users } from 'lucide-react';
+import { addDays, differenceInCalendarDays, format, parseISO } from 'date-fns';
+import TurnstileChallenge from '@/components/booking/TurnstileChallenge';
+import {
+  BookingConfirmation,
+  PublicPropertyDetails,
+  StayOffer,
+  bookStay,
+  fetchPublicProperty,
+  formatStayPrice,
+  searchStay,
+} from '@/lib/booking-engine';
+
+const emptyGuest = { guest_name: '', guest_email: '', guest_phone: '', notes: '', website: '' };
+
+const BookProperty: React.FC = () => {
+  const { propertyId = '' } = useParams();
+  const { toast } = useToast();
+  const [details, setDetails] = useState<PublicPropertyDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [activePhoto, setActivePhoto] = useState(0);
+  const [search, setSearch] = useState(() => ({
+    check_in: format(new Date(), 'yyyy-MM-dd'),
+    check_out: format(addDays(new Date(), 1), 'yyyy-MM-dd'),
+    guests: 2,
+  }));
+  const [offers, setOffers] = useState<StayOffer[] | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [selectedOffer, setSelectedOffer] = useState<StayOffer | null>(null);
+  const [guest, setGuest] = useState(emptyGuest);
+  const [captchaToken, setCaptchaToken] = useState('');
+  const [captchaKey, setCaptchaKey] = useState(0);
+  const [booking, setBooking] = useState(false);
+  const [confirmation, setConfirmation] = useState<BookingConfirmation | null>(null);
+
+  useEffect(() => {
+    fetchDetails();
+  }, [propertyId]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const fetchDetails = async () => {
+    try {
+      setDetails(await fetchPublicProperty(propertyId));
+    } catch (error) {
+      setLoadError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The offers belong to the dates they were searched for
+  const updateSearch = (changes: Partial<typeof search>) => {
+    setSearch({ ...search, ...changes });
+    setOffers(null);
+    setSelectedOffer(null);
+  };
+
+  const handleSearch = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    try {
+      setSearching(true);
+      setSelectedOffer(null);
+      setOffers(await searchStay({
+        propertyId,
+        checkIn: search.check_in,
+        checkOut: search.check_out,
+        guests: search.guests,
+      }));
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  const handleBook = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedOffer || !details) return;
+
+    try {
+      setBooking(true);
+      setConfirmation(await bookStay({
+        propertyId,
+        checkIn: search.check_in,
+        checkOut: search.check_out,
+        guests: search.guests,
+        roomType: selectedOffer.room_type,
+        guestName: guest.guest_name,
+        guestEmail: guest.guest_email,
+        guestPhone: guest.guest_phone,
+        notes: guest.notes,
+        formToken: details.form_token,
+        captchaToken,
+        website: guest.website,
+      }));
+    } catch (error) {
+      showError(error);
+      // Both tokens are used up by the attempt; fetch fresh ones for a retry
+      setCaptchaToken('');
+      setCaptchaKey(key => key + 1);
+      fetchPublicProperty(propertyId).then(setDetails).catch(showError);
+    } finally {
+      setBooking(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="glass-card max-w-md">
+          <CardHeader>
+            <CardTitle>Booking not available</CardTitle>
+            <CardDescription>{loadError || 'This property does not take direct bookings.'}</CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { property, photos, room_types: roomTypes } = details;
+  const nights = differenceInCalendarDays(parseISO(search.check_out), parseISO(search.check_in));
+  const price = (value: number) => formatStayPrice(value, property.currency);
+
+  if (confirmation) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="glass-card max-w-md w-full">
+          <CardHeader className="text-center">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-2" />
+            <CardTitle>Booking request received</CardTitle>
+            <CardDescription>
+              {property.name} will confirm your stay by email. Quote your confirmation code when you contact them.
+              {confirmation.hold_expires_at && ` The room is held for you until ${format(parseISO(confirmation.hold_expires_at), 'MMM d, HH:mm')}.`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="rounded-lg bg-muted p-4 text-center">
+              <div className="text-muted-foreground">Confirmation code</div>
+              <div className="text-2xl font-bold tracking-widest">{confirmation.confirmation_code}</div>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Room</span>
+              <span className="capitalize">{confirmation.room_type}</span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Dates</span>
+              <span>
+                {format(parseISO(confirmation.check_in), 'MMM d')} – {format(parseISO(confirmation.check_out), 'MMM d, yyyy')}
+              </span>
+            </div>
+            <div className="flex justify-between font-medium">
+              <span className="text-muted-foreground">Total</span>
+              <span>{formatStayPrice(Number(confirmation.total_price), confirmation.currency)}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-5xl mx-auto p-4 md:p-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gradient">{property.name}</h1>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mt-1">
+            {(property.city || property.country) && (
+              <div className="flex items-center">
+                <MapPin className="h-4 w-4 mr-1" />
+                {[property.address, property.city, property.country].filter(Boolean).join(', ')}
+              </div>
+            )}
+            {property.star_rating && (
+              <div className="flex">
+                {Array.from({ length: property.star_rating }).map((_, i) => (
+                  <span key={i} className="text-yellow-400">★</span>
+                ))}
+              </div>
+            )}
+            {(property.check_in_time || property.check_out_time) && (
+              <div className="flex items-center">
+                <Clock className="h-4 w-4 mr-1" />
+                Check-in {property.check_in_time?.slice(0, 5) ?? '—'} · Check-out {property.check_out_time?.slice(0, 5) ?? '—'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {photos.length > 0 && (
+          <div className="space-y-2">
+            <img
+              src={photos[activePhoto]?.url}
+              alt={photos[activePhoto]?.alt_text || property.name}
+              className="w-full h-72 md:h-96 object-cover rounded-lg"
+            />
+            {photos.length > 1 && (
+              <div className="flex gap-2 overflow-x-auto">
+                {photos.map((photo, index) => (
+                  <button
+                    key={photo.url}
+                    type="button"
+                    onClick={() => setActivePhoto(index)}
+                    className={`flex-shrink-0 rounded-md overflow-hidden border-2 ${index === activePhoto ? 'border-primary' : 'border-transparent'}`}
+                  >
+                    <img src={photo.url} alt={photo.alt_text || ''} className="h-16 w-24 object-cover" />
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <div className="grid gap-6 md:grid-cols-3">
+          <div className="md:col-span-2 space-y-4">
+            {property.description && (
+              <p className="text-muted-foreground whitespace-pre-line">{property.description}</p>
+            )}
+            {property.amenities && property.amenities.length > 0 && (
+              <div className="flex flex-wrap gap-2">
+                {property.amenities.map(amenity => (
+                  <Badge key={amenity} variant="secondary">{amenity}</Badge>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <Card className="glass-card border-0">
+            <CardHeader>
+              <CardTitle>Check availability</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleSearch} className="space-y-3">
+                <div className="space-y-2">
+                  <Label htmlFor="check_in">Arrival</Label>
+                  <Input
+                    id="check_in"
+                    type="date"
+                    min={format(new Date(), 'yyyy-MM-dd')}
+                    value={search.check_in}
+                    onChange={(e) => updateSearch({ check_in: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="check_out">Departure</Label>
+                  <Input
+                    id="check_out"
+                    type="date"
+                    min={search.check_in}
+                    value={search.check_out}
+                    onChange={(e) => updateSearch({ check_out: e.target.value })}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="guests">Guests</Label>
+                  <Input
+                    id="guests"
+                    type="number"
+                    min="1"
+                    max="50"
+                    value={search.guests}
+                    onChange={(e) => updateSearch({ guests: parseInt(e.target.value) || 1 })}
+                    required
+                  />
+                </div>
+                <Button type="submit" className="w-full" disabled={searching || nights <= 0}>
+                  <Search className="h-4 w-4 mr-2" />
+                  {searching ? 'Searching...' : 'Search'}
+                </Button>
+              </form>
+            </CardContent>
+          </Card>
+        </div>
+
+        {offers && (
+          <div className="space-y-4">
+            <h2 className="text-xl font-semibold">
+              {nights} night{nights === 1 ? '' : 's'}, {format(parseISO(search.check_in), 'MMM d')} – {format(parseISO(search.check_out), 'MMM d, yyyy')}
+            </h2>
+            {offers.length === 0 && (
+              <p className="text-muted-foreground">Nothing is available for these dates. Try other dates or fewer guests.</p>
+            )}
+            {offers.map(offer => {
+              const roomType = roomTypes.find(type => type.room_type === offer.room_type);
+              const available = offer.available_units > 0 && offer.total !== null;
+
+              return (
+                <Card key={offer.room_type} className={`glass-card border-0 ${selectedOffer?.room_type === offer.room_type ? 'ring-2 ring-primary' : ''}`}>
+                  <CardContent className="p-4 flex flex-col md:flex-row md:items-center justify-between gap-4">
+                    <div className="space-y-1">
+                      <div className="font-semibold capitalize">{offer.room_type}</div>
+                      {roomType?.description && (
+                        <p className="text-sm text-muted-foreground">{roomType.description}</p>
+                      )}
+                      <div className="flex flex-wrap items-center gap-3 text-xs text-muted-foreground">
+                        {roomType?.max_guests && (
+                          <span className="flex items-center">
+                            <Users className="h-3 w-3 mr-1" />
+                            Up to {roomType.max_guests} guests
+                          </span>
+                        )}
+                        {roomType?.size_sqm && <span>{roomType.size_sqm} m²</span>}
+                        {available && offer.available_units <= 3 && (
+                          <span className="text-orange-600">Only {offer.available_units} left</span>
+                        )}
+                      </div>
+                      {available && (
+                        <div className="flex flex-wrap gap-1 pt-1">
+                          {offer.nights.map(rate => (
+                            <Badge key={rate.night} variant="outline" className="text-[10px]">
+                              {format(parseISO(rate.night), 'EEE d')}: {price(rate.price)}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                    </div>
+                    {available ? (
+                      <div className="text-right space-y-2 flex-shrink-0">
+                        <div className="text-2xl font-bold">{price(offer.total!)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {price(offer.total! / Math.max(nights, 1))} per night on average
+                        </div>
+                        <Button onClick={() => setSelectedOffer(offer)}>Select</Button>
+                      </div>
+                    ) : (
+                      <p className="text-sm text-muted-foreground md:text-right md:max-w-xs">
+                        {offer.unavailable_reason || 'Not available for these dates'}
+                      </p>
+                    )}
+                  </CardContent>
+                </Card>
+              );
+            })}
+          </div>
+        )}
+
+        {selectedOffer && (
+          <Card className="glass-card border-0">
+            <CardHeader>
+              <CardTitle>Your details</CardTitle>
+              <CardDescription>
+                <span className="capitalize">{selectedOffer.room_type}</span> for {price(selectedOffer.total!)}.
+                The property confirms the booking by email.
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <form onSubmit={handleBook} className="space-y-4">
+                <div className="grid gap-4 md:grid-cols-2">
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_name">Full name *</Label>
+                    <Input
+                      id="guest_name"
+                      value={guest.guest_name}
+                      onChange={(e) => setGuest({ ...guest, guest_name: e.target.value })}
+                      autoComplete="name"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_email">Email *</Label>
+                    <Input
+                      id="guest_email"
+                      type="email"
+                      value={guest.guest_email}
+                      onChange={(e) => setGuest({ ...guest, guest_email: e.target.value })}
+                      autoComplete="email"
+                      required
+                    />
+                  </div>
+                  <div className="space-y-2">
+                    <Label htmlFor="guest_phone">Phone</Label>
+                    <Input
+                      id="guest_phone"
+                      type="tel"
+                      value={guest.guest_phone}
+                      onChange={(e) => setGuest({ ...guest, guest_phone: e.target.value })}
+                      autoComplete="tel"
+                    />
+                  </div>
+                </div>
+                {/* Left empty by people; see the booking-engine function */}
+                <div className="absolute -left-[9999px]" aria-hidden="true">
+                  <label htmlFor="website">Website</label>
+                  <input
+                    id="website"
+                    tabIndex={-1}
+                    autoComplete="off"
+                    value={guest.website}
+                    onChange={(e) => setGuest({ ...guest, website: e.target.value })}
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="notes">Requests</Label>
+                  <Textarea
+                    id="notes"
+                    value={guest.notes}
+                    onChange={(e) => setGuest({ ...guest, notes: e.target.value })}
+                    placeholder="Arrival time, special requests..."
+                    rows={3}
+                  />
+                </div>
+                {details.turnstile_site_key && (
+                  <TurnstileChallenge
+                    key={captchaKey}
+                    siteKey={details.turnstile_site_key}
+                    onToken={setCaptchaToken}
+                    onError={showError}
+                  />
+                )}
+                <div className="flex justify-end space-x-2">
+                  <Button type="button" variant="outline" onClick={() => setSelectedOffer(null)}>
+                    Back
+                  </Button>
+                  <Button type="submit" disabled={booking || !captchaToken}>
+                    {booking ? 'Booking...' : 'Request booking'}
+                  </Button>
+                </div>
+              </form>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default BookProperty;
@@ -9,6 +9,19 @@ import ReservationManagement from '@/components/reservations/ReservationManageme
 import AIPricingSuggestions from '@/components/pricing/AIPricingSuggestions';
 import AccommodationComparison from '@/components/market/AccommodationComparison';
 import GanttChart from '@/components/reservations/GanttChart';
+import RoomsGanttChart from '@/components/rooms/RoomsGanttChart';
+import FrontDesk from '@/components/frontdesk/FrontDesk';
+import HousekeepingPage from '@/components/housekeeping/HousekeepingPage';
+import MaintenanceTickets from '@/components/maintenance/MaintenanceTickets';
+import TeamManagement from '@/components/team/TeamManagement';
+import AnalyticsDashboard from '@/components/analytics/AnalyticsDashboard';
+import GuestDirectory from '@/components/guests/GuestDirectory';
+import InvoiceArchive from '@/components/invoices/InvoiceArchive';
+import CityTax from '@/components/tax/CityTax';
+import PoliceRegistration from '@/components/police/PoliceRegistration';
+import RatePlans from '@/components/pricing/RatePlans';
+import RateGrid from '@/components/pricing/RateGrid';
+import MessageTemplates from '@/components/messaging/MessageTemplates';
 
 const Dashboard: React.FC = () => {
   const [currentPage, setCurrentPage] = useState('dashboard');
@@ -61,20 +74,42 @@ const Dashboard: React.FC = () => {
     switch (currentPage) {
       case 'dashboard':
         return renderWithErrorBoundary(<DashboardOverview />, 'DashboardOverview');
+      case 'front-desk':
+        return renderWithErrorBoundary(<FrontDesk />, 'FrontDesk');
       case 'rooms':
         return renderWithErrorBoundary(<RoomsGanttChart />, 'RoomsGanttChart');
+      case 'housekeeping':
+        return renderWithErrorBoundary(<HousekeepingPage />, 'HousekeepingPage');
+      case 'maintenance':
+        return renderWithErrorBoundary(<MaintenanceTickets />, 'MaintenanceTickets');
       case 'properties':
         return renderWithErrorBoundary(<PropertyManagement />, 'PropertyManagement');
       case 'calendar':
         return renderWithErrorBoundary(<ReservationCalendar />, 'ReservationCalendar');
+      case 'reservations':
+        return renderWithErrorBoundary(<ReservationManagement />, 'ReservationManagement');
+      case 'guests':
+        return renderWithErrorBoundary(<GuestDirectory />, 'GuestDirectory');
+      case 'invoices':
+        return renderWithErrorBoundary(<InvoiceArchive />, 'InvoiceArchive');
+      case 'city-tax':
+        return renderWithErrorBoundary(<CityTax />, 'CityTax');
+      case 'police':
+        return renderWithErrorBoundary(<PoliceRegistration />, 'PoliceRegistration');
+      case 'messages':
+        return renderWithErrorBoundary(<MessageTemplates />, 'MessageTemplates');
+      case 'rate-grid':
+        return renderWithErrorBoundary(<RateGrid />, 'RateGrid');
+      case 'rate-plans':
+        return renderWithErrorBoundary(<RatePlans />, 'RatePlans');
       case 'pricing':
         return renderWithErrorBoundary(<AIPricingSuggestions />, 'AIPricingSuggestions');
       case 'market':
         return renderWithErrorBoundary(<AccommodationComparison />, 'AccommodationComparison');
       case 'analytics':
-        return <ComingSoonPanel title="Analytics" description="Detailed revenue and performance analytics" />;
+        return renderWithErrorBoundary(<AnalyticsDashboard />, 'Analytics');
       case 'users':
-        return <ComingSoonPanel title="User Management" description="Manage staff access and permissions" />;
+        return renderWithErrorBoundary(<TeamManagement />, 'TeamManagement');
       case 'settings':
         return <ComingSoonPanel title="Settings" description="Configure your account and platform integrations" />;
       default:
@@ -0,0 +1,499 @@
+import React, { useState, useEffect } from 'react';
+import { useParams } from 'react-router-dom';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/components/ui/use-toast';
+import { CheckCircle, Clock, FileCheck, MapPin, Plus, Trash2, Upload } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import { DOCUMENT_TYPES } from '@/lib/guests';
+import {
+  ACCEPTED_DOCUMENT_TYPES,
+  Companion,
+  MAX_DOCUMENT_SIZE,
+  PrecheckinDetails,
+  fetchPrecheckin,
+  submitPrecheckin,
+  uploadDocumentPhoto,
+} from '@/lib/precheckin';
+
+const emptyForm = {
+  surname: '',
+  given_names: '',
+  date_of_birth: '',
+  nationality: '',
+  address: '',
+  document_type: 'passport',
+  document_number: '',
+  document_expiry: '',
+  arrival_time: '',
+  accept_house_rules: false,
+};
+
+const emptyCompanion: Companion = { full_name: '', surname: '', given_names: '', date_of_birth: '', nationality: '', document_type: '', document_number: '' };
+
+// Public page guests reach from the link in their confirmation email
+const PreCheckIn: React.FC = () => {
+  const { token = '' } = useParams();
+  const { toast } = useToast();
+  const [details, setDetails] = useState<PrecheckinDetails | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [closedReason, setClosedReason] = useState<string | null>(null);
+  const [form, setForm] = useState(emptyForm);
+  const [companions, setCompanions] = useState<Companion[]>([]);
+  const [photo, setPhoto] = useState<File | null>(null);
+  const [submitting, setSubmitting] = useState(false);
+  const [submittedAt, setSubmittedAt] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchDetails();
+  }, [token]);
+
+  const showError = (error: unknown) =>
+    toast({
+      title: "Error",
+      description: (error as Error).message,
+      variant: "destructive",
+    });
+
+  const fetchDetails = async () => {
+    try {
+      const data = await fetchPrecheckin(token);
+      if (!('stay' in data)) {
+        setClosedReason(data.closed_reason);
+        return;
+      }
+      const registration = data.registration;
+      setDetails(data);
+      setForm({
+        surname: registration.surname || '',
+        given_names: registration.given_names || '',
+        date_of_birth: registration.date_of_birth || '',
+        nationality: registration.nationality || '',
+        address: registration.address || '',
+        document_type: registration.document_type || 'passport',
+        document_number: registration.document_number || '',
+        document_expiry: registration.document_expiry || '',
+        arrival_time: registration.arrival_time?.slice(0, 5) || '',
+        accept_house_rules: !!registration.house_rules_accepted_at,
+      });
+      setCompanions(registration.companions || []);
+    } catch (error) {
+      setLoadError((error as Error).message);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handlePhotoChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0] ?? null;
+    if (file && !ACCEPTED_DOCUMENT_TYPES.includes(file.type)) {
+      showError(new Error('Please choose a JPEG, PNG, WebP, HEIC or PDF file'));
+      e.target.value = '';
+      return;
+    }
+    if (file && file.size > MAX_DOCUMENT_SIZE) {
+      showError(new Error('The file must be smaller than 10 MB'));
+      e.target.value = '';
+      return;
+    }
+    setPhoto(file);
+  };
+
+  const updateCompanion = (index: number, changes: Partial<Companion>) => {
+    setCompanions(companions.map((companion, i) => (i === index ? { ...companion, ...changes } : companion)));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!details) return;
+
+    if (!photo && !details.registration.has_document_photo) {
+      showError(new Error('Please upload a photo of your ID document'));
+      return;
+    }
+
+    try {
+      setSubmitting(true);
+      const documentPhotoPath = photo ? await uploadDocumentPhoto(token, photo) : undefined;
+      const result = await submitPrecheckin(token, {
+        surname: form.surname,
+        givenNames: form.given_names,
+        dateOfBirth: form.date_of_birth,
+        nationality: form.nationality.trim().toUpperCase(),
+        address: form.address,
+        documentType: form.document_type,
+        documentNumber: form.document_number,
+        documentExpiry: form.document_expiry,
+        documentPhotoPath,
+        companions: companions.map(companion => ({
+          ...companion,
+          nationality: companion.nationality.trim().toUpperCase(),
+        })),
+        arrivalTime: form.arrival_time,
+        acceptHouseRules: form.accept_house_rules,
+      });
+      setSubmittedAt(result.pre_checked_in_at);
+    } catch (error) {
+      showError(error);
+    } finally {
+      setSubmitting(false);
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="flex min-h-screen items-center justify-center">
+        <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+      </div>
+    );
+  }
+
+  if (!details) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="glass-card max-w-md">
+          <CardHeader>
+            <CardTitle>Online check-in not available</CardTitle>
+            <CardDescription>
+              {closedReason || loadError || 'This check-in link is not valid.'}
+            </CardDescription>
+          </CardHeader>
+        </Card>
+      </div>
+    );
+  }
+
+  const { stay, property } = details;
+
+  if (submittedAt) {
+    return (
+      <div className="flex min-h-screen items-center justify-center p-4">
+        <Card className="glass-card max-w-md w-full">
+          <CardHeader className="text-center">
+            <CheckCircle className="h-12 w-12 text-green-600 mx-auto mb-2" />
+            <CardTitle>You're checked in online</CardTitle>
+            <CardDescription>
+              {property.name} has your details. You can open this link again to change them before you arrive.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-3 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Arrival</span>
+              <span>
+                {format(parseISO(stay.check_in), 'EEE, MMM d')}
+                {form.arrival_time && ` around ${form.arrival_time}`}
+              </span>
+            </div>
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Confirmation code</span>
+              <span className="font-medium tracking-widest">{stay.confirmation_code}</span>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  const extraGuests = Math.max((stay.guests_count ?? 1) - 1, 0);
+
+  return (
+    <div className="min-h-screen bg-background">
+      <div className="max-w-3xl mx-auto p-4 md:p-8 space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold tracking-tight text-gradient">Online check-in</h1>
+          <p className="text-muted-foreground">
+            {property.name} · {format(parseISO(stay.check_in), 'MMM d')} – {format(parseISO(stay.check_out), 'MMM d, yyyy')}
+          </p>
+          <div className="flex flex-wrap items-center gap-4 text-sm text-muted-foreground mt-1">
+            {(property.city || property.country) && (
+              <div className="flex items-center">
+                <MapPin className="h-4 w-4 mr-1" />
+                {[property.address, property.city, property.country].filter(Boolean).join(', ')}
+              </div>
+            )}
+            {property.check_in_time && (
+              <div className="flex items-center">
+                <Clock className="h-4 w-4 mr-1" />
+                Check-in from {property.check_in_time.slice(0, 5)}
+              </div>
+            )}
+          </div>
+          {stay.pre_checked_in_at && (
+            <p className="text-sm text-green-600 mt-2">
+              Submitted on {format(parseISO(stay.pre_checked_in_at), 'MMM d, HH:mm')}. Send the form again to change your details.
+            </p>
+          )}
+        </div>
+
+        <form onSubmit={handleSubmit} className="space-y-6">
+          <Card className="glass-card border-0">
+            <CardHeader>
+              <CardTitle>Your details</CardTitle>
+              <CardDescription>As shown on your ID document. The property needs them to register your stay.</CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-2">
+                <div className="space-y-2">
+                  <Label htmlFor="surname">Surname *</Label>
+                  <Input
+                    id="surname"
+                    value={form.surname}
+                    onChange={(e) => setForm({ ...form, surname: e.target.value })}
+                    autoComplete="family-name"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="given_names">Given names *</Label>
+                  <Input
+                    id="given_names"
+                    value={form.given_names}
+                    onChange={(e) => setForm({ ...form, given_names: e.target.value })}
+                    autoComplete="given-name"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="date_of_birth">Date of birth *</Label>
+                  <Input
+                    id="date_of_birth"
+                    type="date"
+                    value={form.date_of_birth}
+                    onChange={(e) => setForm({ ...form, date_of_birth: e.target.value })}
+                    autoComplete="bday"
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="nationality">Nationality *</Label>
+                  <Input
+                    id="nationality"
+                    value={form.nationality}
+                    onChange={(e) => setForm({ ...form, nationality: e.target.value })}
+                    placeholder="Country code, e.g. CZ"
+                    minLength={2}
+                    maxLength={3}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="arrival_time">Expected arrival time</Label>
+                  <Input
+                    id="arrival_time"
+                    type="time"
+                    value={form.arrival_time}
+                    onChange={(e) => setForm({ ...form, arrival_time: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="address">Home address *</Label>
+                <Input
+                  id="address"
+                  value={form.address}
+                  onChange={(e) => setForm({ ...form, address: e.target.value })}
+                  autoComplete="street-address"
+                  minLength={5}
+                  required
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="glass-card border-0">
+            <CardHeader>
+              <CardTitle>ID document</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid gap-4 md:grid-cols-3">
+                <div className="space-y-2">
+                  <Label>Type *</Label>
+                  <Select value={form.document_type} onValueChange={(value) => setForm({ ...form, document_type: value })}>
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(DOCUMENT_TYPES).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="document_number">Number *</Label>
+                  <Input
+                    id="document_number"
+                    value={form.document_number}
+                    onChange={(e) => setForm({ ...form, document_number: e.target.value })}
+                    minLength={3}
+                    required
+                  />
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="document_expiry">Valid until</Label>
+                  <Input
+                    id="document_expiry"
+                    type="date"
+                    value={form.document_expiry}
+                    onChange={(e) => setForm({ ...form, document_expiry: e.target.value })}
+                  />
+                </div>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="document_photo">Photo of the document {!details.registration.has_document_photo && '*'}</Label>
+                <Input
+                  id="document_photo"
+                  type="file"
+                  accept={ACCEPTED_DOCUMENT_TYPES.join(',')}
+                  capture="environment"
+                  onChange={handlePhotoChange}
+                />
+                {details.registration.has_document_photo && !photo && (
+                  <p className="flex items-center text-xs text-muted-foreground">
+                    <FileCheck className="h-3 w-3 mr-1" />
+                    A photo is already on file. Choose a new one only to replace it.
+                  </p>
+                )}
+              </div>
+            </CardContent>
+          </Card>
+
+          {extraGuests > 0 && (
+            <Card className="glass-card border-0">
+              <CardHeader>
+                <CardTitle>Other guests</CardTitle>
+                <CardDescription>
+                  Your booking is for {stay.guests_count} guests. Add the people travelling with you.
+                </CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {companions.map((companion, index) => (
+                  <div key={index} className="p-4 border border-border rounded-lg space-y-3">
+                    <div className="flex items-center justify-between">
+                      <span className="font-medium">Guest {index + 2}</span>
+                      <Button
+                        type="button"
+                        size="sm"
+                        variant="outline"
+                        onClick={() => setCompanions(companions.filter((_, i) => i !== index))}
+                      >
+                        <Trash2 className="h-3 w-3" />
+                      </Button>
+                    </div>
+                    <div className="grid gap-3 md:grid-cols-3">
+                      <div className="space-y-2">
+                        <Label htmlFor={`companion_surname_${index}`}>Surname *</Label>
+                        <Input
+                          id={`companion_surname_${index}`}
+                          value={companion.surname}
+                          onChange={(e) => updateCompanion(index, { surname: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`companion_given_names_${index}`}>Given names *</Label>
+                        <Input
+                          id={`companion_given_names_${index}`}
+                          value={companion.given_names}
+                          onChange={(e) => updateCompanion(index, { given_names: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`companion_dob_${index}`}>Date of birth *</Label>
+                        <Input
+                          id={`companion_dob_${index}`}
+                          type="date"
+                          value={companion.date_of_birth}
+                          onChange={(e) => updateCompanion(index, { date_of_birth: e.target.value })}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`companion_nationality_${index}`}>Nationality *</Label>
+                        <Input
+                          id={`companion_nationality_${index}`}
+                          value={companion.nationality}
+                          onChange={(e) => updateCompanion(index, { nationality: e.target.value })}
+                          placeholder="e.g. CZ"
+                          minLength={2}
+                          maxLength={3}
+                          required
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label>Document type</Label>
+                        <Select
+                          value={companion.document_type || ''}
+                          onValueChange={(value) => updateCompanion(index, { document_type: value })}
+                        >
+                          <SelectTrigger>
+                            <SelectValue placeholder="None (child)" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {Object.entries(DOCUMENT_TYPES).map(([value, label]) => (
+                              <SelectItem key={value} value={value}>{label}</SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor={`companion_document_${index}`}>Document number</Label>
+                        <Input
+                          id={`companion_document_${index}`}
+                          value={companion.document_number || ''}
+                          onChange={(e) => updateCompanion(index, { document_number: e.target.value })}
+                        />
+                      </div>
+                    </div>
+                  </div>
+                ))}
+                {companions.length < extraGuests && (
+                  <Button type="button" variant="outline" onClick={() => setCompanions([...companions, emptyCompanion])}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    Add guest
+                  </Button>
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {property.house_rules && (
+            <Card className="glass-card border-0">
+              <CardHeader>
+                <CardTitle>House rules</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <p className="text-sm text-muted-foreground whitespace-pre-line">{property.house_rules}</p>
+                <div className="flex items-center space-x-2">
+                  <Checkbox
+                    id="accept_house_rules"
+                    checked={form.accept_house_rules}
+                    onCheckedChange={(checked) => setForm({ ...form, accept_house_rules: checked === true })}
+                  />
+                  <Label htmlFor="accept_house_rules">I have read and accept the house rules *</Label>
+                </div>
+              </CardContent>
+            </Card>
+          )}
+
+          <Button
+            type="submit"
+            className="w-full"
+            disabled={submitting || (!!property.house_rules && !form.accept_house_rules)}
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {submitting ? 'Sending...' : 'Complete check-in'}
+          </Button>
+        </form>
+      </div>
+    </div>
+  );
+};
+
+export default PreCheckIn;
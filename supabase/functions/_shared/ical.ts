@@ -0,0 +1,118 @@
+// Minimal RFC 5545 support for channel calendars: all-day and timed VEVENTs
+// with UID, DTSTART, DTEND, SUMMARY, DESCRIPTION and STATUS.
+
+export interface CalendarEvent {
+  uid: string;
+  start: string; // YYYY-MM-DD, first blocked night
+  end: string; // YYYY-MM-DD, exclusive
+  summary?: string;
+  description?: string;
+  status?: string; // CONFIRMED, TENTATIVE or CANCELLED
+}
+
+// Long lines are folded onto continuation lines starting with a space or tab
+const unfold = (text: string) => text.replace(/\r\n/g, '\n').replace(/\n[ \t]/g, '');
+
+const unescapeText = (value: string) =>
+  value.replace(/\\n/gi, '\n').replace(/\\([,;\\])/g, '$1');
+
+const escapeText = (value: string) =>
+  value.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\n/g, '\\n');
+
+// DATE values (20250101) and DATE-TIME values (20250101T150000Z) both map to
+// the calendar day they fall on; stays are tracked in whole nights.
+const parseDate = (value: string) => {
+  const match = value.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) throw new Error(`Unsupported date value: ${value}`);
+  return `${match[1]}-${match[2]}-${match[3]}`;
+};
+
+const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00Z`);
+  next.setUTCDate(next.getUTCDate() + days);
+  return next.toISOString().split('T')[0];
+};
+
+export const parseCalendar = (text: string): CalendarEvent[] => {
+  const events: CalendarEvent[] = [];
+  let current: Record<string, string> | null = null;
+
+  for (const line of unfold(text).split('\n')) {
+    if (line === 'BEGIN:VEVENT') {
+      current = {};
+      continue;
+    }
+
+    if (line === 'END:VEVENT') {
+      if (current?.UID && current.DTSTART) {
+        const start = parseDate(current.DTSTART);
+        // Events without DTEND last a single day
+        const end = current.DTEND ? parseDate(current.DTEND) : addDays(start, 1);
+        events.push({
+          uid: current.UID,
+          start,
+          end: end > start ? end : addDays(start, 1),
+          summary: current.SUMMARY ? unescapeText(current.SUMMARY) : undefined,
+          description: current.DESCRIPTION ? unescapeText(current.DESCRIPTION) : undefined,
+          status: current.STATUS?.toUpperCase(),
+        });
+      }
+      current = null;
+      continue;
+    }
+
+    if (!current) continue;
+
+    const separator = line.indexOf(':');
+    if (separator === -1) continue;
+
+    // Drop parameters such as DTSTART;VALUE=DATE
+    const name = line.slice(0, separator).split(';')[0].toUpperCase();
+    current[name] = line.slice(separator + 1).trim();
+  }
+
+  return events;
+};
+
+const formatDate = (date: string) => date.replace(/-/g, '');
+
+const formatTimestamp = (date: Date) =>
+  date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+
+// Lines longer than 75 octets have to be folded
+const fold = (line: string) => {
+  const parts: string[] = [];
+  for (let i = 0; i < line.length; i += 74) {
+    parts.push((i === 0 ? '' : ' ') + line.slice(i, i + 74));
+  }
+  return parts.join('\r\n');
+};
+
+export const buildCalendar = (name: string, events: CalendarEvent[]) => {
+  const stamp = formatTimestamp(new Date());
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Room Bloom//Channel Sync//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(name)}`,
+  ];
+
+  for (const event of events) {
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:${event.uid}`,
+      `DTSTAMP:${stamp}`,
+      `DTSTART;VALUE=DATE:${formatDate(event.start)}`,
+      `DTEND;VALUE=DATE:${formatDate(event.end)}`,
+      `SUMMARY:${escapeText(event.summary || 'Not available')}`,
+    );
+    if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+    if (event.status) lines.push(`STATUS:${event.status}`);
+    lines.push('END:VEVENT');
+  }
+
+  lines.push('END:VCALENDAR');
+  return lines.map(fold).join('\r\n') + '\r\n';
+};
@@ -0,0 +1,79 @@
+import { SMTPClient } from 'https://deno.land/x/denomailer@1.6.0/mod.ts';
+
+// Outbound email. The transport is picked with MAIL_TRANSPORT:
+//   smtp (default)  SMTP_HOST, SMTP_PORT, SMTP_USERNAME, SMTP_PASSWORD and
+//                   SMTP_TLS ('true' for implicit TLS). For local development
+//                   point it at the SMTP sink that ships with `supabase start`
+//                   (SMTP_HOST=host.docker.internal, SMTP_PORT=54325).
+//   log             Writes messages to the function log instead of sending.
+// The sender address comes from MAIL_FROM.
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  replyTo?: string;
+}
+
+export interface MailTransport {
+  send(message: MailMessage): Promise<void>;
+}
+
+const getSender = () => {
+  const from = Deno.env.get('MAIL_FROM');
+  if (!from) throw new Error('MAIL_FROM not configured');
+  return from;
+};
+
+const smtpTransport = (): MailTransport => {
+  const hostname = Deno.env.get('SMTP_HOST');
+  if (!hostname) throw new Error('SMTP_HOST not configured');
+
+  const username = Deno.env.get('SMTP_USERNAME');
+  const tls = Deno.env.get('SMTP_TLS') === 'true';
+
+  return {
+    async send(message) {
+      const client = new SMTPClient({
+        connection: {
+          hostname,
+          port: Number(Deno.env.get('SMTP_PORT') || (tls ? 465 : 587)),
+          tls,
+          auth: username ? { username, password: Deno.env.get('SMTP_PASSWORD') ?? '' } : undefined,
+        },
+        // Local sinks speak plain SMTP without STARTTLS
+        debug: { allowUnsecure: !tls, noStartTLS: !tls && !username },
+      });
+
+      try {
+        await client.send({
+          from: getSender(),
+          to: message.to,
+          replyTo: message.replyTo,
+          subject: message.subject,
+          content: message.text,
+        });
+      } finally {
+        await client.close();
+      }
+    },
+  };
+};
+
+const logTransport = (): MailTransport => ({
+  async send(message) {
+    console.log(`Mail to ${message.to}: ${message.subject}\n\n${message.text}`);
+  },
+});
+
+export const getMailTransport = (): MailTransport => {
+  const transport = Deno.env.get('MAIL_TRANSPORT') || 'smtp';
+  switch (transport) {
+    case 'smtp':
+      return smtpTransport();
+    case 'log':
+      return logTransport();
+    default:
+      throw new Error(`Unknown MAIL_TRANSPORT: ${transport}`);
+  }
+};
@@ -0,0 +1,196 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { getMailTransport, type MailMessage } from './mail.ts';
+import { getPrecheckinUrl } from './precheckin.ts';
+
+export const MESSAGE_EVENTS = ['confirmation', 'pre_arrival', 'check_in_instructions', 'post_stay', 'cancellation'] as const;
+
+export type MessageEvent = typeof MESSAGE_EVENTS[number];
+
+export interface SendResult {
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+  log_id?: string;
+}
+
+interface MessageReservation {
+  id: string;
+  property_id: string;
+  guest_name: string;
+  guest_email: string | null;
+  check_in: string;
+  check_out: string;
+  guests_count: number | null;
+  total_price: number;
+  confirmation_code: string;
+  source: string | null;
+  rooms: { room_number: string } | null;
+  properties: {
+    name: string;
+    address: string | null;
+    city: string | null;
+    country: string | null;
+    currency: string | null;
+    check_in_time: string | null;
+    check_out_time: string | null;
+    owner_id: string;
+  };
+}
+
+const RESERVATION_FIELDS = `
+  id, property_id, guest_name, guest_email, check_in, check_out, guests_count, total_price, confirmation_code, source,
+  rooms(room_number),
+  properties(name, address, city, country, currency, check_in_time, check_out_time, owner_id)
+`;
+
+const formatDate = (date: string) =>
+  new Date(`${date}T00:00:00Z`).toLocaleDateString('en-GB', {
+    weekday: 'short',
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  });
+
+const formatPrice = (value: number, currency: string | null) =>
+  new Intl.NumberFormat('en-GB', { style: 'currency', currency: currency || 'USD' }).format(value);
+
+// Placeholders a template can use, e.g. {{guest_name}}
+export const templateValues = (reservation: MessageReservation): Record<string, string> => {
+  const property = reservation.properties;
+  const nights = Math.round((Date.parse(reservation.check_out) - Date.parse(reservation.check_in)) / 86_400_000);
+
+  return {
+    guest_name: reservation.guest_name,
+    guest_first_name: reservation.guest_name.split(' ')[0],
+    property_name: property.name,
+    property_address: [property.address, property.city, property.country].filter(Boolean).join(', '),
+    check_in: formatDate(reservation.check_in),
+    check_out: formatDate(reservation.check_out),
+    check_in_time: property.check_in_time?.slice(0, 5) ?? '',
+    check_out_time: property.check_out_time?.slice(0, 5) ?? '',
+    nights: String(nights),
+    guests: String(reservation.guests_count ?? 1),
+    room_number: reservation.rooms?.room_number ?? '',
+    confirmation_code: reservation.confirmation_code,
+    total_price: formatPrice(Number(reservation.total_price), property.currency),
+  };
+};
+
+// Unknown placeholders are left as written so a typo shows up in the email
+export const renderTemplate = (template: string, values: Record<string, string>) =>
+  template.replace(/\{\{\s*([a-z_]+)\s*\}\}/g, (match, key: string) => values[key] ?? match);
+
+const loadReservation = async (admin: SupabaseClient, reservationId: string) => {
+  const { data, error } = await admin
+    .from('reservations')
+    .select(RESERVATION_FIELDS)
+    .eq('id', reservationId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as MessageReservation | null;
+};
+
+const getOwnerEmail = async (admin: SupabaseClient, ownerId: string) => {
+  const { data } = await admin.auth.admin.getUserById(ownerId);
+  return data.user?.email ?? null;
+};
+
+// Sends the message and records the outcome in message_log
+const deliver = async (
+  admin: SupabaseClient,
+  reservation: MessageReservation,
+  event: string,
+  message: MailMessage,
+  options: { templateId?: string; sentBy?: string | null },
+): Promise<SendResult> => {
+  let error: string | null = null;
+  try {
+    await getMailTransport().send(message);
+  } catch (sendError) {
+    console.error(`Failed to send ${event} email for reservation ${reservation.id}:`, sendError);
+    error = sendError instanceof Error ? sendError.message : 'Could not send email';
+  }
+
+  const { data: log } = await admin
+    .from('message_log')
+    .insert({
+      property_id: reservation.property_id,
+      reservation_id: reservation.id,
+      event,
+      template_id: options.templateId ?? null,
+      recipient: message.to,
+      subject: message.subject,
+      body: message.text,
+      status: error ? 'failed' : 'sent',
+      error,
+      sent_by: options.sentBy ?? null,
+    })
+    .select('id')
+    .single();
+
+  return error ? { status: 'failed', error, log_id: log?.id } : { status: 'sent', log_id: log?.id };
+};
+
+// Emails the guest the property's template for `event`. Reservations without
+// a guest email and inactive templates are skipped rather than failed.
+export const sendReservationMessage = async (
+  admin: SupabaseClient,
+  reservationId: string,
+  event: MessageEvent,
+  options: { sentBy?: string | null } = {},
+): Promise<SendResult> => {
+  const reservation = await loadReservation(admin, reservationId);
+  if (!reservation) return { status: 'skipped', error: 'Reservation not found' };
+  if (!reservation.guest_email) return { status: 'skipped', error: 'The guest has no email address' };
+
+  const { data: template, error } = await admin
+    .from('message_templates')
+    .select('id, subject, body, is_active')
+    .eq('property_id', reservation.property_id)
+    .eq('event', event)
+    .maybeSingle();
+  if (error) throw error;
+  if (!template?.is_active) return { status: 'skipped', error: 'The template for this message is turned off' };
+
+  const values = templateValues(reservation);
+  // Only signed for templates that link to the online check-in
+  if (`${template.subject} ${template.body}`.includes('precheckin_url')) {
+    values.precheckin_url = await getPrecheckinUrl(reservation.id, reservation.check_out);
+  }
+
+  return deliver(admin, reservation, event, {
+    to: reservation.guest_email,
+    subject: renderTemplate(template.subject, values),
+    text: renderTemplate(template.body, values),
+    replyTo: await getOwnerEmail(admin, reservation.properties.owner_id) ?? undefined,
+  }, { templateId: template.id, sentBy: options.sentBy });
+};
+
+// Tells the owner about a booking that arrived without them, from a channel
+// or the public booking page
+export const notifyOwnerOfBooking = async (admin: SupabaseClient, reservationId: string): Promise<SendResult> => {
+  const reservation = await loadReservation(admin, reservationId);
+  if (!reservation) return { status: 'skipped', error: 'Reservation not found' };
+
+  const ownerEmail = await getOwnerEmail(admin, reservation.properties.owner_id);
+  if (!ownerEmail) return { status: 'skipped', error: 'The owner has no email address' };
+
+  const values = templateValues(reservation);
+  const source = reservation.source || 'direct';
+
+  return deliver(admin, reservation, 'owner_new_booking', {
+    to: ownerEmail,
+    subject: `New ${source} booking at ${values.property_name}: ${values.check_in}`,
+    text: [
+      `${values.guest_name} booked ${values.property_name} through ${source}.`,
+      '',
+      `Confirmation code: ${values.confirmation_code}`,
+      `Arrival: ${values.check_in}`,
+      `Departure: ${values.check_out} (${values.nights} nights)`,
+      values.room_number ? `Room: ${values.room_number}` : null,
+      `Guests: ${values.guests}`,
+      `Total: ${values.total_price}`,
+    ].filter(line => line !== null).join('\n'),
+    replyTo: reservation.guest_email ?? undefined,
+  }, {});
+};
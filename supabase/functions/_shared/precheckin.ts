@@ -0,0 +1,35 @@
+import { sign, verify } from './signing.ts';
+
+// Guests reach the online check-in page through a link that carries the
+// reservation id, the day the link stops working and their signature, so no
+// login is needed and the link cannot be changed to open another guest's
+// stay or to last longer.
+
+// Links work until this many days after check-out
+const LINK_VALID_DAYS = 7;
+
+const payload = (reservationId: string, expiresOn: string) => `precheckin:${reservationId}:${expiresOn}`;
+
+const addDays = (date: string, days: number) =>
+  new Date(Date.parse(date) + days * 86_400_000).toISOString().split('T')[0];
+
+export const getPrecheckinToken = async (reservationId: string, checkOut: string) => {
+  const expiresOn = addDays(checkOut, LINK_VALID_DAYS);
+  return `${reservationId}.${expiresOn}.${await sign(payload(reservationId, expiresOn))}`;
+};
+
+// The reservation id the token was issued for, or null when it was tampered
+// with or has expired
+export const readPrecheckinToken = async (token: string) => {
+  const [reservationId, expiresOn, signature] = token.split('.');
+  if (!reservationId || !/^\d{4}-\d{2}-\d{2}$/.test(expiresOn ?? '') || !signature) return null;
+  if (expiresOn < new Date().toISOString().split('T')[0]) return null;
+  return (await verify(payload(reservationId, expiresOn), signature)) ? reservationId : null;
+};
+
+// The page lives in the web app, whose address the edge runtime cannot infer
+export const getPrecheckinUrl = async (reservationId: string, checkOut: string) => {
+  const siteUrl = Deno.env.get('PUBLIC_SITE_URL');
+  if (!siteUrl) throw new Error('PUBLIC_SITE_URL not configured');
+  return `${siteUrl.replace(/\/$/, '')}/checkin/${await getPrecheckinToken(reservationId, checkOut)}`;
+};
@@ -0,0 +1,34 @@
+import type { SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { sign } from './signing.ts';
+
+// The caller's address as reported by the edge proxy. Cloudflare in front of
+// the functions overwrites cf-connecting-ip; clients can send their own
+// x-forwarded-for, so only its last hop, appended by the proxy, is trusted.
+export const clientAddress = (req: Request) =>
+  req.headers.get('cf-connecting-ip')
+  || req.headers.get('x-forwarded-for')?.split(',').pop()?.trim()
+  || 'unknown';
+
+// Counts a request for `action` against the caller and tells whether it is
+// still within `limit` requests per `windowSeconds`. Addresses are stored as
+// HMACs so the table never holds raw IPs. A failed check refuses the request.
+export const allowRequest = async (
+  admin: SupabaseClient,
+  req: Request,
+  action: string,
+  limit: number,
+  windowSeconds: number,
+) => {
+  const bucket = `${action}:${await sign(`rate-limit:${clientAddress(req)}`)}`;
+  const { data, error } = await admin.rpc('hit_rate_limit', {
+    p_bucket: bucket,
+    p_limit: limit,
+    p_window_seconds: windowSeconds,
+  });
+
+  if (error) {
+    console.error('Rate limit check failed:', error);
+    return false;
+  }
+  return data === true;
+};
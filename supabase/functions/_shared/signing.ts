@@ -0,0 +1,33 @@
+// HMAC-SHA256 signatures for public links (e.g. iCal export URLs). The secret
+// never leaves the edge runtime, so a link cannot be forged for another room.
+
+const encoder = new TextEncoder();
+
+const importKey = (secret: string) =>
+  crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+
+const toHex = (buffer: ArrayBuffer) =>
+  Array.from(new Uint8Array(buffer), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const getSigningSecret = () => {
+  const secret = Deno.env.get('LINK_SIGNING_SECRET');
+  if (!secret) throw new Error('LINK_SIGNING_SECRET not configured');
+  return secret;
+};
+
+export const sign = async (payload: string, secret = getSigningSecret()) => {
+  const key = await importKey(secret);
+  return toHex(await crypto.subtle.sign('HMAC', key, encoder.encode(payload)));
+};
+
+// Compares in constant time so the signature cannot be guessed byte by byte
+export const verify = async (payload: string, signature: string, secret = getSigningSecret()) => {
+  const expected = await sign(payload, secret);
+  if (expected.length !== signature.length) return false;
+
+  let diff = 0;
+  for (let i = 0; i < expected.length; i++) {
+    diff |= expected.charCodeAt(i) ^ signature.charCodeAt(i);
+  }
+  return diff === 0;
+};
@@ -0,0 +1,31 @@
+import { clientAddress } from './rate-limit.ts';
+
+// Cloudflare Turnstile challenges for public forms. The page renders the
+// widget with TURNSTILE_SITE_KEY and sends back the token it produced; the
+// token is checked here with the secret key and is only good once.
+const SITEVERIFY_URL = 'https://challenges.cloudflare.com/turnstile/v0/siteverify';
+
+export const getTurnstileSiteKey = () => Deno.env.get('TURNSTILE_SITE_KEY') ?? null;
+
+const getTurnstileSecret = () => {
+  const secret = Deno.env.get('TURNSTILE_SECRET_KEY');
+  if (!secret) throw new Error('TURNSTILE_SECRET_KEY not configured');
+  return secret;
+};
+
+// A token that cannot be checked counts as failed
+export const verifyTurnstile = async (req: Request, token: string) => {
+  const body = new FormData();
+  body.append('secret', getTurnstileSecret());
+  body.append('response', token);
+  body.append('remoteip', clientAddress(req));
+
+  try {
+    const response = await fetch(SITEVERIFY_URL, { method: 'POST', body });
+    const result = await response.json();
+    return result.success === true;
+  } catch (error) {
+    console.error('Turnstile verification failed:', error);
+    return false;
+  }
+};
@@ -0,0 +1,138 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { buildMarketResearchPrompt, buildPricingPrompt } from './prompts.ts';
+import { createProvider, ProviderError, type GenerateOptions } from './providers.ts';
+import { outputSchemas, requestSchema, type ModelTask } from './schemas.ts';
+
+// Model calls allowed per user per hour. Cache hits do not count.
+const RATE_LIMIT_PER_HOUR = Number(Deno.env.get('AI_RATE_LIMIT_PER_HOUR') || 30);
+
+const CACHE_TTL_MINUTES: Record<ModelTask, number> = {
+  pricing_suggestions: 6 * 60,
+  market_research: 24 * 60,
+};
+
+const GENERATION_SETTINGS: Record<ModelTask, Pick<GenerateOptions, 'temperature' | 'maxOutputTokens'>> = {
+  pricing_suggestions: { temperature: 0.3, maxOutputTokens: 1024 },
+  market_research: { temperature: 0.4, maxOutputTokens: 2048 },
+};
+
+const sha256 = async (value: string) => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(value));
+  return Array.from(new Uint8Array(digest), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const logRequest = (
+  admin: SupabaseClient,
+  entry: { user_id: string; task: ModelTask; provider: string; cache_hit: boolean; status: string },
+) =>
+  admin.from('ai_request_log').insert(entry).then(({ error }) => {
+    if (error) console.error('Failed to log AI request:', error);
+  });
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request', issues: parsed.error.issues }, 400);
+  }
+
+  const request = parsed.data;
+  const provider = createProvider();
+
+  if (request.task === 'health') {
+    return jsonResponse({ status: 'ok', provider: provider.name, configured: provider.configured });
+  }
+
+  let prompt: string;
+  if (request.task === 'pricing_suggestions') {
+    // Read through the caller's client so RLS decides which properties they may price
+    const { data: property, error } = await userClient
+      .from('properties')
+      .select('id, name, base_price, currency, city, country, property_type')
+      .eq('id', request.property_id)
+      .maybeSingle();
+
+    if (error) return jsonResponse({ error: error.message }, 500);
+    if (!property) return jsonResponse({ error: 'Property not found' }, 404);
+
+    prompt = buildPricingPrompt(property, new Date().toISOString().split('T')[0]);
+  } else {
+    prompt = buildMarketResearchPrompt(request);
+  }
+
+  const task = request.task;
+  const cacheKey = await sha256(`${task}:${prompt}`);
+
+  const { data: cached } = await admin
+    .from('ai_response_cache')
+    .select('response')
+    .eq('cache_key', cacheKey)
+    .gt('expires_at', new Date().toISOString())
+    .maybeSingle();
+
+  if (cached) {
+    await logRequest(admin, { user_id: user.id, task, provider: provider.name, cache_hit: true, status: 'ok' });
+    return jsonResponse({ data: cached.response, cached: true });
+  }
+
+  // Counted and recorded in one locked step, so parallel requests cannot all
+  // slip under the limit. A failed check refuses the request.
+  const { data: allowed, error: limitError } = await admin.rpc('hit_rate_limit', {
+    p_bucket: `ai-pricing:${user.id}`,
+    p_limit: RATE_LIMIT_PER_HOUR,
+    p_window_seconds: 60 * 60,
+  });
+  if (limitError) console.error('Rate limit check failed:', limitError);
+
+  if (allowed !== true) {
+    return jsonResponse(
+      { error: 'Rate limit exceeded. Try again later.' },
+      429,
+      { 'Retry-After': '3600' },
+    );
+  }
+
+  let output: unknown;
+  try {
+    output = await provider.generateJson({ task, prompt, ...GENERATION_SETTINGS[task] });
+  } catch (error) {
+    await logRequest(admin, { user_id: user.id, task, provider: provider.name, cache_hit: false, status: 'provider_error' });
+    const status = error instanceof ProviderError ? error.status : 502;
+    return jsonResponse({ error: error instanceof Error ? error.message : 'Model request failed' }, status);
+  }
+
+  const validated = outputSchemas[task].safeParse(output);
+  if (!validated.success) {
+    console.error('Model output failed validation:', validated.error.issues);
+    await logRequest(admin, { user_id: user.id, task, provider: provider.name, cache_hit: false, status: 'invalid_output' });
+    return jsonResponse({ error: 'Model returned an invalid response' }, 502);
+  }
+
+  const expiresAt = new Date(Date.now() + CACHE_TTL_MINUTES[task] * 60 * 1000).toISOString();
+  const { error: cacheError } = await admin
+    .from('ai_response_cache')
+    .upsert({ cache_key: cacheKey, task, response: validated.data, expires_at: expiresAt });
+  if (cacheError) console.error('Failed to cache AI response:', cacheError);
+
+  await logRequest(admin, { user_id: user.id, task, provider: provider.name, cache_hit: false, status: 'ok' });
+  return jsonResponse({ data: validated.data, cached: false });
+});
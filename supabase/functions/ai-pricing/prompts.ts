@@ -0,0 +1,72 @@
+import type { MarketResearchRequest } from './schemas.ts';
+
+export interface PricingProperty {
+  id: string;
+  name: string;
+  base_price: number;
+  currency: string | null;
+  city: string | null;
+  country: string | null;
+  property_type: string | null;
+}
+
+export const buildPricingPrompt = (property: PricingProperty, today: string) => `
+Property: ${property.name}
+Type: ${property.property_type || 'accommodation'}
+Base Price: ${property.base_price} ${property.currency || 'USD'}
+Location: ${[property.city, property.country].filter(Boolean).join(', ') || 'Unknown'}
+Today: ${today}
+Analyze pricing for the next 14 days considering:
+- Weekend/weekday patterns
+- Seasonal factors
+- Market demand
+- Last-minute opportunities
+Return suggestions only for dates where the price should change.
+
+Respond with a JSON object in this exact format:
+{
+  "suggestions": [
+    {
+      "date": "YYYY-MM-DD",
+      "suggestedPrice": 120,
+      "confidence": 85,
+      "reasoning": "Weekend premium pricing",
+      "factors": ["weekend", "demand"],
+      "impact": "increase"
+    }
+  ]
+}`.trim();
+
+export const buildMarketResearchPrompt = (request: MarketResearchRequest) => `
+Search for accommodations near coordinates ${request.location.lat}, ${request.location.lng} within ${request.radius}km radius.
+Looking for ${request.accommodation_type === 'all' ? 'any type of' : request.accommodation_type} accommodations.
+Check-in: ${request.check_in}
+Check-out: ${request.check_out}
+
+Generate 6-10 realistic accommodations with current market prices in USD. Include various types like hotels, apartments, camps, guesthouses, and hostels. Make prices competitive and realistic for the location.
+
+Respond with a JSON object in this exact format:
+{
+  "accommodations": [
+    {
+      "id": "unique-id",
+      "name": "Hotel Name",
+      "type": "hotel",
+      "rating": 4.2,
+      "reviewCount": 156,
+      "pricePerNight": 95,
+      "currency": "USD",
+      "location": {
+        "address": "123 Main St, City",
+        "distance": 2.3,
+        "coordinates": {"lat": 50.0755, "lng": 14.4378}
+      },
+      "amenities": ["wifi", "parking", "breakfast"],
+      "description": "Comfortable hotel with modern amenities",
+      "availability": {
+        "available": true,
+        "lastUpdated": "2024-01-10T10:00:00Z"
+      }
+    }
+  ]
+}`.trim();
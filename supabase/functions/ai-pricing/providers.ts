@@ -0,0 +1,145 @@
+import type { ModelTask } from './schemas.ts';
+
+export interface GenerateOptions {
+  task: ModelTask;
+  prompt: string;
+  temperature: number;
+  maxOutputTokens: number;
+}
+
+// A model provider turns a prompt into parsed JSON. The handler validates the
+// result, so providers do not need to know the output schemas.
+export interface ModelProvider {
+  name: string;
+  configured: boolean;
+  generateJson(options: GenerateOptions): Promise<unknown>;
+}
+
+export class ProviderError extends Error {
+  constructor(message: string, public status = 502) {
+    super(message);
+    this.name = 'ProviderError';
+  }
+}
+
+const GEMINI_MODEL = 'gemini-1.5-flash';
+
+class GeminiProvider implements ModelProvider {
+  name = 'gemini';
+
+  constructor(private apiKey: string | undefined) {}
+
+  get configured() {
+    return !!this.apiKey;
+  }
+
+  async generateJson({ prompt, temperature, maxOutputTokens }: GenerateOptions): Promise<unknown> {
+    if (!this.apiKey) {
+      throw new ProviderError('GOOGLE_AI_API_KEY not configured', 503);
+    }
+
+    const response = await fetch(
+      `https://generativelanguage.googleapis.com/v1beta/models/${GEMINI_MODEL}:generateContent`,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-goog-api-key': this.apiKey,
+        },
+        body: JSON.stringify({
+          contents: [{ parts: [{ text: prompt }] }],
+          generationConfig: {
+            temperature,
+            maxOutputTokens,
+            topK: 40,
+            topP: 0.95,
+            responseMimeType: 'application/json',
+          },
+        }),
+      },
+    );
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => ({}));
+      console.error('Gemini API error:', response.status, errorData);
+      throw new ProviderError(
+        `Gemini API error: ${response.status}`,
+        response.status === 429 ? 503 : 502,
+      );
+    }
+
+    const data = await response.json();
+    const text: string | undefined = data.candidates?.[0]?.content?.parts?.[0]?.text;
+    if (!text) {
+      throw new ProviderError('Empty response from Gemini');
+    }
+
+    try {
+      return JSON.parse(text.trim().replace(/^```json\s*/, '').replace(/```\s*$/, ''));
+    } catch {
+      throw new ProviderError('Gemini returned malformed JSON');
+    }
+  }
+}
+
+// Deterministic provider for local development and tests. Set AI_STUB_RESPONSE
+// to a JSON document to control exactly what the "model" returns.
+class StubProvider implements ModelProvider {
+  name = 'stub';
+  configured = true;
+
+  constructor(private fixture: string | undefined) {}
+
+  async generateJson({ task }: GenerateOptions): Promise<unknown> {
+    if (this.fixture) {
+      return JSON.parse(this.fixture);
+    }
+
+    if (task === 'pricing_suggestions') {
+      const date = new Date();
+      date.setUTCDate(date.getUTCDate() + 1);
+      return {
+        suggestions: [{
+          date: date.toISOString().split('T')[0],
+          suggestedPrice: 120,
+          confidence: 80,
+          reasoning: 'Stub suggestion',
+          factors: ['demand'],
+          impact: 'increase',
+        }],
+      };
+    }
+
+    return {
+      accommodations: [{
+        id: 'stub-1',
+        name: 'Stub Hotel',
+        type: 'hotel',
+        rating: 4.2,
+        reviewCount: 100,
+        pricePerNight: 90,
+        currency: 'USD',
+        location: {
+          address: '1 Stub Street',
+          distance: 1.5,
+          coordinates: { lat: 50.0755, lng: 14.4378 },
+        },
+        amenities: ['wifi'],
+        description: 'Stub accommodation',
+        availability: { available: true, lastUpdated: new Date().toISOString() },
+      }],
+    };
+  }
+}
+
+// AI_PROVIDER selects the implementation; Gemini is the default.
+export const createProvider = (): ModelProvider => {
+  switch (Deno.env.get('AI_PROVIDER') || 'gemini') {
+    case 'stub':
+      return new StubProvider(Deno.env.get('AI_STUB_RESPONSE'));
+    case 'gemini':
+      return new GeminiProvider(Deno.env.get('GOOGLE_AI_API_KEY'));
+    default:
+      throw new Error(`Unknown AI_PROVIDER: ${Deno.env.get('AI_PROVIDER')}`);
+  }
+};
@@ -0,0 +1,71 @@
+import { z } from 'https://esm.sh/zod@3.25.76';
+
+const isoDate = z.string().regex(/^\d{4}-\d{2}-\d{2}$/, 'Expected a YYYY-MM-DD date');
+
+// Request bodies accepted by the endpoint
+export const requestSchema = z.discriminatedUnion('task', [
+  z.object({
+    task: z.literal('health'),
+  }),
+  z.object({
+    task: z.literal('pricing_suggestions'),
+    property_id: z.string().uuid(),
+  }),
+  z.object({
+    task: z.literal('market_research'),
+    location: z.object({
+      lat: z.number().min(-90).max(90),
+      lng: z.number().min(-180).max(180),
+    }),
+    radius: z.number().positive().max(100),
+    accommodation_type: z.string().max(40),
+    check_in: isoDate,
+    check_out: isoDate,
+  }),
+]);
+
+export type AIRequest = z.infer<typeof requestSchema>;
+export type PricingRequest = Extract<AIRequest, { task: 'pricing_suggestions' }>;
+export type MarketResearchRequest = Extract<AIRequest, { task: 'market_research' }>;
+export type ModelTask = Exclude<AIRequest['task'], 'health'>;
+
+// Model output for pricing suggestions
+export const pricingSuggestionsSchema = z.object({
+  suggestions: z.array(z.object({
+    date: isoDate,
+    suggestedPrice: z.number().nonnegative(),
+    confidence: z.number().min(0).max(100),
+    reasoning: z.string().min(1).max(300),
+    factors: z.array(z.string()).default([]),
+    impact: z.enum(['increase', 'decrease', 'maintain']),
+  })).max(14),
+});
+
+// Model output for nearby accommodation research
+export const marketResearchSchema = z.object({
+  accommodations: z.array(z.object({
+    id: z.string().min(1),
+    name: z.string().min(1),
+    type: z.enum(['hotel', 'camp', 'apartment', 'guesthouse', 'hostel', 'resort']),
+    rating: z.number().min(0).max(5),
+    reviewCount: z.number().int().nonnegative(),
+    pricePerNight: z.number().nonnegative(),
+    currency: z.string().length(3),
+    location: z.object({
+      address: z.string(),
+      distance: z.number().nonnegative(),
+      coordinates: z.object({ lat: z.number(), lng: z.number() }),
+    }),
+    amenities: z.array(z.string()).default([]),
+    description: z.string(),
+    availability: z.object({
+      available: z.boolean(),
+      lastUpdated: z.string(),
+    }),
+  })).max(20),
+});
+
+export const outputSchemas = {
+  pricing_suggestions: pricingSuggestionsSchema,
+  market_research: marketResearchSchema,
+} satisfies Record<ModelTask, z.ZodTypeAny>;
@@ -0,0 +1,343 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { z } from 'https://esm.sh/zod@3.25.76';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { sign, verify } from '../_shared/signing.ts';
+import { allowRequest } from '../_shared/rate-limit.ts';
+import { getTurnstileSiteKey, verifyTurnstile } from '../_shared/turnstile.ts';
+import { notifyOwnerOfBooking, sendReservationMessage } from '../_shared/messages.ts';
+
+const PHOTOS_BUCKET = 'property-photos';
+const MAX_NIGHTS = 30;
+
+// Requests per client address: browsing is generous, bookings are not
+const BROWSE_LIMIT = { limit: 60, windowSeconds: 5 * 60 };
+const BOOK_LIMIT = { limit: 5, windowSeconds: 60 * 60 };
+
+// The booking form carries a signed token from when the page was loaded. A
+// form sent back faster than a person could fill it in, or from a page left
+// open for hours, is refused, and each token books at most once.
+const MIN_FORM_SECONDS = 5;
+const MAX_FORM_SECONDS = 2 * 60 * 60;
+
+// How long a booking request holds its room before it is cancelled unless
+// the property confirms it
+const HOLD_HOURS = 48;
+
+const PROPERTY_FIELDS =
+  'id, name, description, property_type, address, city, country, amenities, star_rating, currency, check_in_time, check_out_time';
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+
+const staySchema = {
+  property_id: z.string().uuid(),
+  check_in: dateSchema,
+  check_out: dateSchema,
+  guests: z.number().int().min(1).max(50),
+};
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('property'), property_id: z.string().uuid() }),
+  z.object({ action: z.literal('search'), ...staySchema }),
+  z.object({
+    action: z.literal('book'),
+    ...staySchema,
+    room_type: z.string().min(1).max(100),
+    guest_name: z.string().trim().min(2).max(120),
+    guest_email: z.string().trim().email().max(254),
+    guest_phone: z.string().trim().max(40).optional(),
+    notes: z.string().trim().max(1000).optional(),
+    form_token: z.string().max(200),
+    captcha_token: z.string().min(1).max(2048),
+    // Hidden from people; bots that fill in every field give themselves away
+    website: z.string().max(500).optional(),
+  }),
+]);
+
+interface Room {
+  id: string;
+  room_number: string;
+  room_type: string;
+  max_guests: number | null;
+}
+
+interface Quote {
+  nights: { night: string; price: number }[];
+  total: number;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+const nightsBetween = (checkIn: string, checkOut: string) =>
+  Math.round((Date.parse(checkOut) - Date.parse(checkIn)) / 86_400_000);
+
+const formTokenPayload = (propertyId: string, issuedAt: number, nonce: string) =>
+  `booking-form:${propertyId}:${issuedAt}:${nonce}`;
+
+const issueFormToken = async (propertyId: string) => {
+  const issuedAt = Math.floor(Date.now() / 1000);
+  const nonce = crypto.randomUUID();
+  return `${issuedAt}.${nonce}.${await sign(formTokenPayload(propertyId, issuedAt, nonce))}`;
+};
+
+// The token's nonce when it is genuine and within its time window
+const checkFormToken = async (propertyId: string, token: string) => {
+  const [issued, nonce, signature] = token.split('.');
+  const issuedAt = Number(issued);
+  if (!Number.isInteger(issuedAt) || !z.string().uuid().safeParse(nonce).success || !signature) return null;
+
+  const age = Math.floor(Date.now() / 1000) - issuedAt;
+  if (age < MIN_FORM_SECONDS || age > MAX_FORM_SECONDS) return null;
+
+  return (await verify(formTokenPayload(propertyId, issuedAt, nonce), signature)) ? nonce : null;
+};
+
+// Records the nonce as used; false when the token has booked before
+const claimFormToken = async (admin: SupabaseClient, nonce: string) => {
+  const { data, error } = await admin.rpc('claim_booking_form_token', { p_nonce: nonce });
+  if (error) {
+    console.error('Failed to claim booking form token:', error);
+    return false;
+  }
+  return data === true;
+};
+
+const validateStay = (checkIn: string, checkOut: string) => {
+  if (checkIn < today()) return 'Arrival cannot be in the past';
+  const nights = nightsBetween(checkIn, checkOut);
+  if (!(nights > 0)) return 'Departure must be after arrival';
+  if (nights > MAX_NIGHTS) return `Stays of more than ${MAX_NIGHTS} nights must be booked with the property`;
+  return null;
+};
+
+// Only active properties whose owner turned on direct booking are public
+const loadProperty = async (admin: SupabaseClient, propertyId: string) => {
+  const { data } = await admin
+    .from('properties')
+    .select(PROPERTY_FIELDS)
+    .eq('id', propertyId)
+    .eq('is_active', true)
+    .eq('direct_booking_enabled', true)
+    .maybeSingle();
+  return data;
+};
+
+// Rooms that fit the party and are neither booked nor out of order for any
+// night of the stay, grouped by room type
+const loadFreeRooms = async (admin: SupabaseClient, propertyId: string, checkIn: string, checkOut: string, guests: number) => {
+  const [roomsResult, reservationsResult, blocksResult] = await Promise.all([
+    admin
+      .from('rooms')
+      .select('id, room_number, room_type, max_guests')
+      .eq('property_id', propertyId)
+      .eq('is_active', true)
+      .not('room_type', 'is', null)
+      .order('room_number'),
+    admin
+      .from('reservations')
+      .select('room_id')
+      .eq('property_id', propertyId)
+      .neq('status', 'cancelled')
+      .not('room_id', 'is', null)
+      .lt('check_in', checkOut)
+      .gt('check_out', checkIn),
+    admin
+      .from('maintenance_tickets')
+      .select('room_id')
+      .eq('property_id', propertyId)
+      .not('room_id', 'is', null)
+      .not('out_of_order_from', 'is', null)
+      .not('status', 'in', '(resolved,closed)')
+      .lt('out_of_order_from', checkOut)
+      .gt('out_of_order_to', checkIn),
+  ]);
+
+  const error = roomsResult.error || reservationsResult.error || blocksResult.error;
+  if (error) throw error;
+
+  const taken = new Set([
+    ...(reservationsResult.data || []).map(r => r.room_id),
+    ...(blocksResult.data || []).map(b => b.room_id),
+  ]);
+
+  const byType = new Map<string, Room[]>();
+  for (const room of (roomsResult.data || []) as Room[]) {
+    if (taken.has(room.id) || (room.max_guests !== null && room.max_guests < guests)) continue;
+    byType.set(room.room_type, [...(byType.get(room.room_type) || []), room]);
+  }
+  return byType;
+};
+
+// Prices the stay for one room with the property's pricing rules and rate
+// grid. Stays that break a stay restriction are rejected with its message.
+const quote = async (admin: SupabaseClient, propertyId: string, roomId: string, checkIn: string, checkOut: string): Promise<Quote> => {
+  const { data, error } = await admin.rpc('resolve_nightly_rates', {
+    p_property_id: propertyId,
+    p_check_in: checkIn,
+    p_check_out: checkOut,
+    p_room_id: roomId,
+  });
+  if (error) throw error;
+
+  const nights = (data || []).map((rate: { night: string; price: number }) => ({ night: rate.night, price: Number(rate.price) }));
+  const total = Math.round(nights.reduce((sum: number, rate: { price: number }) => sum + rate.price, 0) * 100) / 100;
+  return { nights, total };
+};
+
+// POST { action: 'property', property_id }
+//   Public details, photos and room types, plus the token the booking form
+//   sends back and the site key for the Turnstile challenge.
+// POST { action: 'search', property_id, check_in, check_out, guests }
+//   One offer per room type with units left and the price per night.
+// POST { action: 'book', ...search, room_type, guest_name, guest_email, guest_phone?, notes?, form_token, captcha_token }
+//   Creates a pending direct reservation that holds its room for HOLD_HOURS
+//   and returns its confirmation code.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request', issues: parsed.error.issues }, 400);
+  }
+
+  const request = parsed.data;
+  const { limit, windowSeconds } = request.action === 'book' ? BOOK_LIMIT : BROWSE_LIMIT;
+  if (!(await allowRequest(admin, req, `booking-engine:${request.action}`, limit, windowSeconds))) {
+    return jsonResponse({ error: 'Too many requests. Please try again later.' }, 429);
+  }
+
+  const property = await loadProperty(admin, request.property_id);
+  if (!property) {
+    return jsonResponse({ error: 'This property does not take direct bookings' }, 404);
+  }
+
+  if (request.action === 'property') {
+    const [{ data: photos }, { data: rooms }] = await Promise.all([
+      admin
+        .from('property_photos')
+        .select('file_path, alt_text')
+        .eq('property_id', property.id)
+        .order('is_primary', { ascending: false })
+        .order('display_order'),
+      admin
+        .from('rooms')
+        .select('room_type, description, max_guests, size_sqm, amenities')
+        .eq('property_id', property.id)
+        .eq('is_active', true)
+        .not('room_type', 'is', null)
+        .order('room_number'),
+    ]);
+
+    // One entry per room type, described by its first room
+    const roomTypes = new Map<string, unknown>();
+    for (const room of rooms || []) {
+      if (!roomTypes.has(room.room_type)) roomTypes.set(room.room_type, room);
+    }
+
+    return jsonResponse({
+      property,
+      photos: (photos || []).map(photo => ({
+        url: admin.storage.from(PHOTOS_BUCKET).getPublicUrl(photo.file_path).data.publicUrl,
+        alt_text: photo.alt_text,
+      })),
+      room_types: Array.from(roomTypes.values()),
+      form_token: await issueFormToken(property.id),
+      turnstile_site_key: getTurnstileSiteKey(),
+    });
+  }
+
+  const stayError = validateStay(request.check_in, request.check_out);
+  if (stayError) {
+    return jsonResponse({ error: stayError }, 400);
+  }
+
+  let freeRooms: Map<string, Room[]>;
+  try {
+    freeRooms = await loadFreeRooms(admin, property.id, request.check_in, request.check_out, request.guests);
+  } catch (error) {
+    console.error('Failed to load availability:', error);
+    return jsonResponse({ error: 'Could not check availability' }, 500);
+  }
+
+  if (request.action === 'search') {
+    const offers = [];
+    for (const [roomType, rooms] of freeRooms) {
+      try {
+        const { nights, total } = await quote(admin, property.id, rooms[0].id, request.check_in, request.check_out);
+        offers.push({ room_type: roomType, available_units: rooms.length, nights, total });
+      } catch (error) {
+        // Restrictions such as a minimum stay come back as the reason
+        offers.push({ room_type: roomType, available_units: 0, nights: [], total: null, unavailable_reason: (error as Error).message });
+      }
+    }
+    return jsonResponse({ offers });
+  }
+
+  const nonce = request.website ? null : await checkFormToken(property.id, request.form_token);
+  if (!nonce || !(await verifyTurnstile(req, request.captcha_token)) || !(await claimFormToken(admin, nonce))) {
+    return jsonResponse({ error: 'The booking could not be verified. Please reload the page and try again.' }, 403);
+  }
+
+  // Another guest may take a room between the search and this insert; the
+  // room's exclusion constraint catches that and the next free room is tried
+  for (const room of freeRooms.get(request.room_type) || []) {
+    let stayQuote: Quote;
+    try {
+      stayQuote = await quote(admin, property.id, room.id, request.check_in, request.check_out);
+    } catch (error) {
+      return jsonResponse({ error: (error as Error).message }, 409);
+    }
+
+    const { data: reservation, error } = await admin
+      .from('reservations')
+      .insert({
+        property_id: property.id,
+        room_id: room.id,
+        guest_name: request.guest_name,
+        guest_email: request.guest_email.toLowerCase(),
+        guest_phone: request.guest_phone || null,
+        guests_count: request.guests,
+        check_in: request.check_in,
+        check_out: request.check_out,
+        total_price: stayQuote.total,
+        status: 'pending',
+        source: 'direct',
+        notes: request.notes || null,
+        hold_expires_at: new Date(Date.now() + HOLD_HOURS * 60 * 60 * 1000).toISOString(),
+      })
+      .select('id, confirmation_code, check_in, check_out, total_price, hold_expires_at')
+      .single();
+
+    if (error?.code === '23P01') continue;
+    if (error) {
+      console.error('Failed to create direct booking:', error);
+      return jsonResponse({ error: 'Could not complete the booking' }, 500);
+    }
+
+    // The booking stands even when the emails cannot be sent
+    await Promise.all([
+      sendReservationMessage(admin, reservation.id, 'confirmation'),
+      notifyOwnerOfBooking(admin, reservation.id),
+    ]).catch(notifyError => console.error(`Failed to send emails for reservation ${reservation.id}:`, notifyError));
+
+    return jsonResponse({
+      confirmation_code: reservation.confirmation_code,
+      check_in: reservation.check_in,
+      check_out: reservation.check_out,
+      total_price: reservation.total_price,
+      room_type: request.room_type,
+      currency: property.currency,
+      status: 'pending',
+      hold_expires_at: reservation.hold_expires_at,
+    });
+  }
+
+  return jsonResponse({ error: 'No rooms of this type are left for these dates' }, 409);
+});
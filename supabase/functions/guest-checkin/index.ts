@@ -0,0 +1,301 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { z } from 'https://esm.sh/zod@3.25.76';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { allowRequest } from '../_shared/rate-limit.ts';
+import { readPrecheckinToken } from '../_shared/precheckin.ts';
+
+const DOCUMENTS_BUCKET = 'guest-documents';
+
+// Requests per client address
+const LOAD_LIMIT = { limit: 60, windowSeconds: 5 * 60 };
+const WRITE_LIMIT = { limit: 20, windowSeconds: 60 * 60 };
+
+const PHOTO_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/png': 'png',
+  'image/webp': 'webp',
+  'image/heic': 'heic',
+  'application/pdf': 'pdf',
+};
+
+const DOCUMENT_TYPES = ['passport', 'id_card', 'driving_license', 'other'] as const;
+
+const dateSchema = z.string().regex(/^\d{4}-\d{2}-\d{2}$/);
+const nationalitySchema = z.string().trim().toUpperCase().regex(/^[A-Z]{2,3}$/, 'Use the 2 or 3 letter country code');
+
+// Names are taken apart as on the ID document, which police registration
+// needs; the full name is put together from them
+const nameSchema = {
+  surname: z.string().trim().min(1).max(80),
+  given_names: z.string().trim().min(1).max(80),
+};
+
+const fullName = (name: { surname: string; given_names: string }) => `${name.given_names} ${name.surname}`;
+
+const companionSchema = z.object({
+  ...nameSchema,
+  date_of_birth: dateSchema,
+  nationality: nationalitySchema,
+  document_type: z.enum(DOCUMENT_TYPES).optional(),
+  document_number: z.string().trim().max(50).optional(),
+});
+
+const requestSchema = z.discriminatedUnion('action', [
+  z.object({ action: z.literal('load'), token: z.string().max(200) }),
+  z.object({
+    action: z.literal('upload_url'),
+    token: z.string().max(200),
+    content_type: z.enum(Object.keys(PHOTO_EXTENSIONS) as [string, ...string[]]),
+  }),
+  z.object({
+    action: z.literal('submit'),
+    token: z.string().max(200),
+    ...nameSchema,
+    date_of_birth: dateSchema,
+    nationality: nationalitySchema,
+    address: z.string().trim().min(5).max(300),
+    document_type: z.enum(DOCUMENT_TYPES),
+    document_number: z.string().trim().min(3).max(50),
+    document_expiry: dateSchema.optional(),
+    document_photo_path: z.string().max(300).optional(),
+    companions: z.array(companionSchema).max(20),
+    arrival_time: z.string().regex(/^\d{2}:\d{2}$/).optional(),
+    accept_house_rules: z.boolean(),
+  }),
+]);
+
+interface PortalReservation {
+  id: string;
+  property_id: string;
+  guest_id: string | null;
+  guest_name: string;
+  guest_email: string | null;
+  check_in: string;
+  check_out: string;
+  guests_count: number | null;
+  confirmation_code: string;
+  status: string | null;
+  pre_checked_in_at: string | null;
+  properties: {
+    name: string;
+    address: string | null;
+    city: string | null;
+    country: string | null;
+    check_in_time: string | null;
+    check_out_time: string | null;
+    house_rules: string | null;
+    timezone: string;
+  };
+}
+
+// The date at the property, as property_today() works it out in the database.
+// en-CA formats dates as YYYY-MM-DD.
+const propertyToday = (timeZone: string) => {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone }).format(new Date());
+  } catch {
+    // Postgres knows a few zone names that Intl does not
+    return new Date().toISOString().split('T')[0];
+  }
+};
+
+const loadReservation = async (admin: SupabaseClient, reservationId: string) => {
+  const { data, error } = await admin
+    .from('reservations')
+    .select(`
+      id, property_id, guest_id, guest_name, guest_email, check_in, check_out, guests_count, confirmation_code, status, pre_checked_in_at,
+      properties(name, address, city, country, check_in_time, check_out_time, house_rules, timezone)
+    `)
+    .eq('id', reservationId)
+    .maybeSingle();
+  if (error) throw error;
+  return data as PortalReservation | null;
+};
+
+// Guests can fill in the form until they are checked in at the desk
+const closedReason = (reservation: PortalReservation) => {
+  if (reservation.status === 'cancelled') return 'This reservation has been cancelled';
+  if (reservation.status === 'checked_in' || reservation.status === 'checked_out' || reservation.check_out < propertyToday(reservation.properties.timezone)) {
+    return 'Online check-in is closed for this stay';
+  }
+  return null;
+};
+
+// A guest profile is shared by every stay matched to it. Its identity and
+// document details are only shown and updated through a link for a booking
+// made with the profile's own email.
+const isProfileOwner = (reservation: PortalReservation, profileEmail: string | null | undefined) =>
+  !!profileEmail && !!reservation.guest_email
+  && profileEmail.trim().toLowerCase() === reservation.guest_email.trim().toLowerCase();
+
+// Photos are kept per stay, so a path from another reservation is refused
+const documentFolder = (reservation: PortalReservation) => `${reservation.property_id}/${reservation.id}/`;
+
+// POST { action: 'load', token }
+//   The stay, the property's house rules and what the guest already entered,
+//   prefilled from their guest profile on the first visit. Closed stays only
+//   get the reason.
+// POST { action: 'upload_url', token, content_type }
+//   A signed URL the page uploads the ID photo to directly.
+// POST { action: 'submit', token, ...registration }
+//   Saves the registration, copies it to the guest profile when the booking
+//   is theirs and marks the reservation as pre-checked-in.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request', issues: parsed.error.issues }, 400);
+  }
+
+  const request = parsed.data;
+  const { limit, windowSeconds } = request.action === 'load' ? LOAD_LIMIT : WRITE_LIMIT;
+  if (!(await allowRequest(admin, req, `guest-checkin:${request.action}`, limit, windowSeconds))) {
+    return jsonResponse({ error: 'Too many requests. Please try again later.' }, 429);
+  }
+
+  const reservationId = await readPrecheckinToken(request.token);
+  const reservation = reservationId ? await loadReservation(admin, reservationId).catch(() => null) : null;
+  if (!reservation) {
+    return jsonResponse({ error: 'This check-in link is not valid' }, 404);
+  }
+
+  const closed = closedReason(reservation);
+
+  if (request.action === 'load') {
+    if (closed) {
+      return jsonResponse({ closed_reason: closed });
+    }
+
+    const [{ data: registration }, { data: guest }] = await Promise.all([
+      admin
+        .from('guest_registrations')
+        .select('full_name, surname, given_names, date_of_birth, nationality, address, document_type, document_number, document_expiry, document_photo_path, companions, arrival_time, house_rules_accepted_at, submitted_at')
+        .eq('reservation_id', reservation.id)
+        .maybeSingle(),
+      reservation.guest_id
+        ? admin
+          .from('guests')
+          .select('full_name, surname, given_names, email, date_of_birth, nationality, address, document_type, document_number, document_expiry')
+          .eq('id', reservation.guest_id)
+          .maybeSingle()
+        : Promise.resolve({ data: null }),
+    ]);
+
+    const { properties: property, ...stay } = reservation;
+    const { email, ...profile } = guest ?? {};
+    const prefill = registration ?? (isProfileOwner(reservation, email) ? profile : {});
+
+    return jsonResponse({
+      stay: {
+        guest_name: stay.guest_name,
+        check_in: stay.check_in,
+        check_out: stay.check_out,
+        guests_count: stay.guests_count,
+        confirmation_code: stay.confirmation_code,
+        pre_checked_in_at: stay.pre_checked_in_at,
+      },
+      property,
+      registration: {
+        ...prefill,
+        // The guest sees that a photo is on file, not the photo itself
+        document_photo_path: undefined,
+        has_document_photo: !!registration?.document_photo_path,
+      },
+      closed_reason: null,
+    });
+  }
+
+  if (closed) {
+    return jsonResponse({ error: closed }, 409);
+  }
+
+  if (request.action === 'upload_url') {
+    const path = `${documentFolder(reservation)}${crypto.randomUUID()}.${PHOTO_EXTENSIONS[request.content_type]}`;
+    const { data, error } = await admin.storage.from(DOCUMENTS_BUCKET).createSignedUploadUrl(path);
+    if (error) {
+      console.error('Failed to create upload URL:', error);
+      return jsonResponse({ error: 'Could not prepare the upload' }, 500);
+    }
+    return jsonResponse({ path: data.path, upload_token: data.token });
+  }
+
+  const { data: existing } = await admin
+    .from('guest_registrations')
+    .select('document_photo_path')
+    .eq('reservation_id', reservation.id)
+    .maybeSingle();
+
+  const photoPath = request.document_photo_path ?? existing?.document_photo_path ?? null;
+  if (!photoPath) {
+    return jsonResponse({ error: 'Please upload a photo of your ID document' }, 400);
+  }
+  if (!photoPath.startsWith(documentFolder(reservation))) {
+    return jsonResponse({ error: 'Invalid document photo' }, 400);
+  }
+  if (reservation.properties.house_rules && !request.accept_house_rules) {
+    return jsonResponse({ error: 'Please accept the house rules' }, 400);
+  }
+
+  const submittedAt = new Date().toISOString();
+  const details = {
+    surname: request.surname,
+    given_names: request.given_names,
+    date_of_birth: request.date_of_birth,
+    nationality: request.nationality,
+    address: request.address,
+    document_type: request.document_type,
+    document_number: request.document_number,
+    document_expiry: request.document_expiry ?? null,
+  };
+
+  const { error: registrationError } = await admin
+    .from('guest_registrations')
+    .upsert({
+      reservation_id: reservation.id,
+      property_id: reservation.property_id,
+      full_name: fullName(request),
+      ...details,
+      document_photo_path: photoPath,
+      companions: request.companions.map(companion => ({ full_name: fullName(companion), ...companion })),
+      arrival_time: request.arrival_time ?? null,
+      house_rules_accepted_at: request.accept_house_rules ? submittedAt : null,
+      submitted_at: submittedAt,
+    }, { onConflict: 'reservation_id' });
+
+  if (registrationError) {
+    console.error('Failed to save guest registration:', registrationError);
+    return jsonResponse({ error: 'Could not save your details' }, 500);
+  }
+
+  // A replaced photo is not kept around
+  if (existing?.document_photo_path && existing.document_photo_path !== photoPath) {
+    await admin.storage.from(DOCUMENTS_BUCKET).remove([existing.document_photo_path]);
+  }
+
+  const { data: guest } = reservation.guest_id
+    ? await admin.from('guests').select('email').eq('id', reservation.guest_id).maybeSingle()
+    : { data: null };
+
+  const [{ error: reservationError }, { error: guestError }] = await Promise.all([
+    admin.from('reservations').update({ pre_checked_in_at: submittedAt }).eq('id', reservation.id),
+    guest && isProfileOwner(reservation, guest.email)
+      ? admin.from('guests').update(details).eq('id', reservation.guest_id)
+      : Promise.resolve({ error: null }),
+  ]);
+
+  if (reservationError || guestError) {
+    console.error(`Failed to apply registration for reservation ${reservation.id}:`, reservationError || guestError);
+    return jsonResponse({ error: 'Could not save your details' }, 500);
+  }
+
+  return jsonResponse({ pre_checked_in_at: submittedAt });
+});
@@ -0,0 +1,132 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { buildCalendar } from '../_shared/ical.ts';
+import { sign, verify } from '../_shared/signing.ts';
+
+// Blocked dates are published from this many days in the past onwards
+const HISTORY_DAYS = 30;
+
+const signaturePayload = (roomId: string) => `ical-export:${roomId}`;
+
+// GET  ?room=<id>&sig=<hmac>  Public ICS feed for a room, polled by channels.
+// POST { room_id }            Returns the signed feed URL for a room the caller can see.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+
+  if (req.method === 'POST') {
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    const body = await req.json().catch(() => null);
+    if (typeof body?.room_id !== 'string') {
+      return jsonResponse({ error: 'room_id is required' }, 400);
+    }
+
+    const { data: room } = await userClient
+      .from('rooms')
+      .select('id')
+      .eq('id', body.room_id)
+      .maybeSingle();
+
+    if (!room) {
+      return jsonResponse({ error: 'Room not found' }, 404);
+    }
+
+    const url = new URL(`${supabaseUrl}/functions/v1/ical-export`);
+    url.searchParams.set('room', room.id);
+    url.searchParams.set('sig', await sign(signaturePayload(room.id)));
+    return jsonResponse({ url: url.toString() });
+  }
+
+  if (req.method !== 'GET') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const params = new URL(req.url).searchParams;
+  const roomId = params.get('room');
+  const signature = params.get('sig');
+
+  if (!roomId || !signature || !(await verify(signaturePayload(roomId), signature))) {
+    return new Response('Invalid calendar link', { status: 403, headers: corsHeaders });
+  }
+
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: room } = await admin
+    .from('rooms')
+    .select('id, room_number, properties ( name )')
+    .eq('id', roomId)
+    .maybeSingle();
+
+  if (!room) {
+    return new Response('Calendar not found', { status: 404, headers: corsHeaders });
+  }
+
+  const since = new Date();
+  since.setUTCDate(since.getUTCDate() - HISTORY_DAYS);
+
+  const { data: reservations, error } = await admin
+    .from('reservations')
+    .select('id, check_in, check_out')
+    .eq('room_id', roomId)
+    .neq('status', 'cancelled')
+    .gte('check_out', since.toISOString().split('T')[0])
+    .order('check_in');
+
+  if (error) {
+    console.error('Failed to load reservations for export:', error);
+    return new Response('Failed to build calendar', { status: 500, headers: corsHeaders });
+  }
+
+  // Rooms taken out of order by open maintenance tickets cannot be sold either
+  const { data: blocks, error: blocksError } = await admin
+    .from('maintenance_tickets')
+    .select('id, out_of_order_from, out_of_order_to')
+    .eq('room_id', roomId)
+    .not('out_of_order_from', 'is', null)
+    .not('status', 'in', '(resolved,closed)')
+    .gte('out_of_order_to', since.toISOString().split('T')[0]);
+
+  if (blocksError) {
+    console.error('Failed to load out-of-order blocks for export:', blocksError);
+    return new Response('Failed to build calendar', { status: 500, headers: corsHeaders });
+  }
+
+  // Only blocked dates are published; guest details stay private
+  const events = [
+    ...(reservations || []).map(reservation => ({
+      uid: `${reservation.id}@room-bloom`,
+      start: reservation.check_in,
+      end: reservation.check_out,
+      summary: 'Not available',
+    })),
+    ...(blocks || []).map(block => ({
+      uid: `maintenance-${block.id}@room-bloom`,
+      start: block.out_of_order_from,
+      end: block.out_of_order_to,
+      summary: 'Not available',
+    })),
+  ];
+
+  const property = room.properties as { name?: string } | null;
+  const calendarName = [property?.name, `Room ${room.room_number}`].filter(Boolean).join(' – ');
+
+  return new Response(buildCalendar(calendarName, events), {
+    headers: {
+      ...corsHeaders,
+      'Content-Type': 'text/calendar; charset=utf-8',
+      'Content-Disposition': `inline; filename="room-${room.room_number}.ics"`,
+      'Cache-Control': 'no-cache',
+    },
+  });
+});
@@ -0,0 +1,370 @@
+import { createClient, type SupabaseClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { parseCalendar, type CalendarEvent } from '../_shared/ical.ts';
+import { notifyOwnerOfBooking } from '../_shared/messages.ts';
+
+const FETCH_TIMEOUT_MS = 20_000;
+const MAX_FEED_BYTES = 5 * 1024 * 1024;
+const MAX_REDIRECTS = 3;
+// Marks reservations cancelled by the import, as opposed to by staff here
+const CHANNEL_CANCELLATION_REASON = 'Cancelled on the channel';
+
+interface ChannelFeed {
+  id: string;
+  property_id: string;
+  room_id: string;
+  channel: string;
+  url: string;
+}
+
+interface SyncChange {
+  uid: string;
+  // 'ignored': the event was left alone on purpose (see reason), not an error
+  action: 'created' | 'updated' | 'cancelled' | 'skipped' | 'ignored';
+  check_in: string;
+  check_out: string;
+  reason?: string;
+}
+
+interface ImportedReservation {
+  id: string;
+  external_reservation_id: string;
+  check_in: string;
+  check_out: string;
+  status: string | null;
+  cancellation_reason: string | null;
+}
+
+const today = () => new Date().toISOString().split('T')[0];
+
+// The front desk owns a stay once the guest has arrived; its status and dates
+// no longer follow the channel
+const hasArrived = (reservation: ImportedReservation) =>
+  reservation.status === 'checked_in' || reservation.status === 'checked_out';
+
+const parseIPv4 = (address: string) => {
+  const parts = address.split('.');
+  if (parts.length !== 4 || !parts.every(part => /^\d{1,3}$/.test(part) && Number(part) <= 255)) return null;
+  return parts.map(Number);
+};
+
+// Loopback, private, carrier-grade NAT, link-local, multicast and reserved
+// addresses, including IPv4 addresses mapped into IPv6
+const isInternalAddress = (address: string): boolean => {
+  const ipv4 = parseIPv4(address);
+  if (ipv4) {
+    const [a, b] = ipv4;
+    return a === 0 || a === 10 || a === 127 || a >= 224
+      || (a === 100 && b >= 64 && b <= 127)
+      || (a === 169 && b === 254)
+      || (a === 172 && b >= 16 && b <= 31)
+      || (a === 192 && b === 168);
+  }
+
+  const ipv6 = address.toLowerCase();
+  const mapped = ipv6.match(/^::ffff:(\d+\.\d+\.\d+\.\d+)$/);
+  if (mapped) return isInternalAddress(mapped[1]);
+  return ipv6 === '::' || ipv6 === '::1' || /^f[cd]/.test(ipv6) || /^fe[89ab]/.test(ipv6) || ipv6.startsWith('ff');
+};
+
+// Feeds are fetched with the service role on a schedule, so a feed URL must
+// not reach anything but the public internet: https only, and every address
+// the host resolves to has to be public
+const checkFeedUrl = async (url: URL) => {
+  if (url.protocol !== 'https:') throw new Error('Feeds must use https');
+
+  const host = url.hostname.replace(/^\[|\]$/g, '');
+  const literal = parseIPv4(host) || host.includes(':');
+  const addresses = literal
+    ? [host]
+    : (await Promise.all([
+      Deno.resolveDns(host, 'A').catch(() => [] as string[]),
+      Deno.resolveDns(host, 'AAAA').catch(() => [] as string[]),
+    ])).flat();
+
+  if (addresses.length === 0) throw new Error(`Could not resolve ${host}`);
+  if (addresses.some(isInternalAddress)) throw new Error('Feeds cannot point to a private address');
+};
+
+// Reads the body up to MAX_FEED_BYTES and gives up past it
+const readLimited = async (response: Response) => {
+  if (Number(response.headers.get('content-length')) > MAX_FEED_BYTES) {
+    await response.body?.cancel();
+    throw new Error('Feed is larger than 5 MB');
+  }
+
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  const reader = response.body?.getReader();
+  if (!reader) return '';
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.length;
+    if (size > MAX_FEED_BYTES) {
+      await reader.cancel();
+      throw new Error('Feed is larger than 5 MB');
+    }
+    chunks.push(value);
+  }
+
+  const body = new Uint8Array(size);
+  let offset = 0;
+  for (const chunk of chunks) {
+    body.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return new TextDecoder().decode(body);
+};
+
+// Redirects are followed by hand so every hop is checked like the feed URL
+const fetchCalendar = async (feedUrl: string) => {
+  let url = new URL(feedUrl.replace(/^webcal:/i, 'https:'));
+  const signal = AbortSignal.timeout(FETCH_TIMEOUT_MS);
+
+  for (let hop = 0; ; hop++) {
+    await checkFeedUrl(url);
+    const response = await fetch(url, {
+      signal,
+      redirect: 'manual',
+      headers: { Accept: 'text/calendar' },
+    });
+
+    const location = response.headers.get('location');
+    if (response.status >= 300 && response.status < 400 && location) {
+      await response.body?.cancel();
+      if (hop >= MAX_REDIRECTS) throw new Error('Feed redirected too many times');
+      url = new URL(location, url);
+      continue;
+    }
+
+    if (!response.ok) {
+      await response.body?.cancel();
+      throw new Error(`Feed responded with ${response.status}`);
+    }
+    return parseCalendar(await readLimited(response));
+  }
+};
+
+const describeWriteError = (error: { code?: string; message?: string }) =>
+  error.code === '23P01'
+    ? 'Room is already booked for these dates'
+    : error.message || 'Could not save reservation';
+
+// Reconciles one feed with the reservations previously imported from it.
+// Events are matched by UID; events that disappear from the feed or are marked
+// CANCELLED cancel their reservation. Stays that already ended are left alone.
+const syncFeed = async (admin: SupabaseClient, feed: ChannelFeed) => {
+  const { data: log } = await admin
+    .from('channel_sync_logs')
+    .insert({ feed_id: feed.id })
+    .select('id')
+    .single();
+
+  const changes: SyncChange[] = [];
+  const finish = async (status: 'success' | 'partial' | 'failed', error: string | null, eventsCount = 0) => {
+    const count = (action: SyncChange['action']) => changes.filter(change => change.action === action).length;
+
+    if (log) {
+      await admin.from('channel_sync_logs').update({
+        finished_at: new Date().toISOString(),
+        status,
+        events_count: eventsCount,
+        created_count: count('created'),
+        updated_count: count('updated'),
+        cancelled_count: count('cancelled'),
+        skipped_count: count('skipped'),
+        changes,
+        error,
+      }).eq('id', log.id);
+    }
+
+    await admin.from('channel_feeds').update({
+      last_synced_at: new Date().toISOString(),
+      last_status: status,
+      last_error: error,
+    }).eq('id', feed.id);
+
+    return { feed_id: feed.id, status, error, changes: changes.length };
+  };
+
+  let events: CalendarEvent[];
+  try {
+    events = await fetchCalendar(feed.url);
+  } catch (error) {
+    console.error(`Failed to fetch feed ${feed.id}:`, error);
+    return finish('failed', error instanceof Error ? error.message : 'Failed to fetch feed');
+  }
+
+  const { data: existingRows, error: existingError } = await admin
+    .from('reservations')
+    .select('id, external_reservation_id, check_in, check_out, status, cancellation_reason')
+    .eq('channel_feed_id', feed.id)
+    .order('created_at');
+
+  if (existingError) {
+    return finish('failed', existingError.message, events.length);
+  }
+
+  // An event can have several cancelled rows but at most one live one, which
+  // wins; otherwise the latest row does
+  const existing = new Map<string, ImportedReservation>();
+  for (const row of existingRows as ImportedReservation[]) {
+    const kept = existing.get(row.external_reservation_id);
+    if (!kept || kept.status === 'cancelled') existing.set(row.external_reservation_id, row);
+  }
+  const seen = new Set<string>();
+  const cutoff = today();
+
+  for (const event of events) {
+    seen.add(event.uid);
+    if (event.end < cutoff) continue;
+
+    const current = existing.get(event.uid);
+    const range = { check_in: event.start, check_out: event.end };
+
+    if (event.status === 'CANCELLED') {
+      if (!current || current.status === 'cancelled') continue;
+      if (hasArrived(current)) {
+        changes.push({ uid: event.uid, action: 'ignored', ...range, reason: 'Cancelled on the channel after the guest checked in' });
+        continue;
+      }
+
+      const { error } = await admin
+        .from('reservations')
+        .update({ status: 'cancelled', cancellation_reason: CHANNEL_CANCELLATION_REASON })
+        .eq('id', current.id);
+      changes.push(error
+        ? { uid: event.uid, action: 'skipped', ...range, reason: describeWriteError(error) }
+        : { uid: event.uid, action: 'cancelled', ...range });
+      continue;
+    }
+
+    // A stay cancelled here stays cancelled even while the channel still lists it
+    if (current?.status === 'cancelled' && current.cancellation_reason !== CHANNEL_CANCELLATION_REASON) {
+      changes.push({ uid: event.uid, action: 'ignored', ...range, reason: 'Cancelled here but still listed on the channel' });
+      continue;
+    }
+
+    if (current && current.status !== 'cancelled') {
+      if (current.check_in === event.start && current.check_out === event.end) continue;
+      if (hasArrived(current)) {
+        changes.push({ uid: event.uid, action: 'ignored', ...range, reason: 'Dates changed on the channel after the guest checked in' });
+        continue;
+      }
+
+      const { error } = await admin.from('reservations').update(range).eq('id', current.id);
+      changes.push(error
+        ? { uid: event.uid, action: 'skipped', ...range, reason: describeWriteError(error) }
+        : { uid: event.uid, action: 'updated', ...range });
+      continue;
+    }
+
+    // New events, and events listed again after the channel cancelled them:
+    // cancelled reservations are final, so those are booked afresh
+    const relisted = Boolean(current);
+
+    const { data: created, error } = await admin.from('reservations').insert({
+      property_id: feed.property_id,
+      room_id: feed.room_id,
+      channel_feed_id: feed.id,
+      external_reservation_id: event.uid,
+      source: feed.channel,
+      guest_name: event.summary?.trim() || 'Channel booking',
+      notes: event.description || null,
+      status: 'confirmed',
+      total_price: 0,
+      ...range,
+    }).select('id').single();
+    changes.push(error
+      ? { uid: event.uid, action: 'skipped', ...range, reason: describeWriteError(error) }
+      : { uid: event.uid, action: 'created', ...range, ...(relisted && { reason: 'Listed again after the channel cancelled it' }) });
+
+    if (created) {
+      await notifyOwnerOfBooking(admin, created.id).catch(notifyError =>
+        console.error(`Failed to notify owner of reservation ${created.id}:`, notifyError));
+    }
+  }
+
+  // Upcoming stays that are no longer published were cancelled on the channel.
+  // Channels may stop listing a stay once it has started, so arrived ones are left alone.
+  for (const reservation of existing.values()) {
+    if (seen.has(reservation.external_reservation_id)) continue;
+    if (reservation.status === 'cancelled' || hasArrived(reservation) || reservation.check_out < cutoff) continue;
+
+    const range = { check_in: reservation.check_in, check_out: reservation.check_out };
+    const { error } = await admin
+      .from('reservations')
+      .update({ status: 'cancelled', cancellation_reason: CHANNEL_CANCELLATION_REASON })
+      .eq('id', reservation.id);
+    changes.push(error
+      ? { uid: reservation.external_reservation_id, action: 'skipped', ...range, reason: describeWriteError(error) }
+      : { uid: reservation.external_reservation_id, action: 'cancelled', ...range });
+  }
+
+  const skipped = changes.filter(change => change.action === 'skipped').length;
+  return finish(skipped > 0 ? 'partial' : 'success', skipped > 0 ? `${skipped} event(s) could not be imported` : null, events.length);
+};
+
+// POST { feed_id? }
+// Called by the scheduler with the service role key to sync every active
+// feed, or by a signed-in user to sync one of their feeds immediately.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const admin = createClient(supabaseUrl, serviceRoleKey);
+  const authorization = req.headers.get('Authorization') ?? '';
+  const body = await req.json().catch(() => ({}));
+  const feedId = typeof body?.feed_id === 'string' ? body.feed_id : null;
+
+  let feeds: ChannelFeed[];
+
+  if (authorization === `Bearer ${serviceRoleKey}`) {
+    let query = admin
+      .from('channel_feeds')
+      .select('id, property_id, room_id, channel, url')
+      .eq('is_active', true);
+    if (feedId) query = query.eq('id', feedId);
+
+    const { data, error } = await query;
+    if (error) return jsonResponse({ error: error.message }, 500);
+    feeds = data || [];
+  } else {
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } },
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+    if (!feedId) {
+      return jsonResponse({ error: 'feed_id is required' }, 400);
+    }
+
+    // RLS on channel_feeds decides whether the caller may sync this feed
+    const { data: feed } = await userClient
+      .from('channel_feeds')
+      .select('id, property_id, room_id, channel, url')
+      .eq('id', feedId)
+      .maybeSingle();
+
+    if (!feed) return jsonResponse({ error: 'Feed not found' }, 404);
+    feeds = [feed];
+  }
+
+  const results = [];
+  for (const feed of feeds) {
+    results.push(await syncFeed(admin, feed));
+  }
+
+  return jsonResponse({ results });
+});
@@ -0,0 +1,117 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { z } from 'https://esm.sh/zod@3.25.76';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+
+const grantSchema = z.object({
+  property_id: z.string().uuid(),
+  can_view_reservations: z.boolean(),
+  can_edit_reservations: z.boolean(),
+  can_edit_pricing: z.boolean(),
+  can_housekeeping: z.boolean(),
+});
+
+const requestSchema = z.object({
+  email: z.string().email().max(254),
+  full_name: z.string().max(120).optional(),
+  access: z.array(grantSchema).min(1),
+});
+
+// POST { email, full_name?, access: [grant] }
+// Records an invitation to the caller's organization and emails new users a
+// sign-up link. Existing accounts pick the invitation up on their next sign-in.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+    global: { headers: { Authorization: req.headers.get('Authorization') ?? '' } },
+  });
+  const admin = createClient(supabaseUrl, Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!);
+
+  const { data: { user } } = await userClient.auth.getUser();
+  if (!user) {
+    return jsonResponse({ error: 'Not authenticated' }, 401);
+  }
+
+  const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request', issues: parsed.error.issues }, 400);
+  }
+
+  const { full_name, access } = parsed.data;
+  const email = parsed.data.email.trim().toLowerCase();
+
+  if (email === user.email?.toLowerCase()) {
+    return jsonResponse({ error: 'You cannot invite yourself' }, 400);
+  }
+
+  // Only properties the caller owns can be granted
+  const propertyIds = [...new Set(access.map(grant => grant.property_id))];
+  const { data: owned, error: ownedError } = await userClient
+    .from('properties')
+    .select('id')
+    .eq('owner_id', user.id)
+    .in('id', propertyIds);
+
+  if (ownedError) return jsonResponse({ error: ownedError.message }, 500);
+  if ((owned || []).length !== propertyIds.length) {
+    return jsonResponse({ error: 'You can only grant access to properties you own' }, 403);
+  }
+
+  let { data: organization } = await userClient
+    .from('organizations')
+    .select('id')
+    .eq('owner_id', user.id)
+    .maybeSingle();
+
+  if (!organization) {
+    const { data: created, error } = await userClient
+      .from('organizations')
+      .insert({ owner_id: user.id, name: user.user_metadata?.full_name || 'My team' })
+      .select('id')
+      .single();
+
+    if (error) return jsonResponse({ error: error.message }, 500);
+    organization = created;
+  }
+
+  // Re-inviting replaces the pending invitation for the same address
+  await userClient
+    .from('organization_invitations')
+    .delete()
+    .eq('organization_id', organization.id)
+    .ilike('email', email)
+    .is('accepted_at', null);
+
+  const { data: invitation, error: invitationError } = await userClient
+    .from('organization_invitations')
+    .insert({ organization_id: organization.id, email, full_name: full_name || null, access })
+    .select('id, expires_at')
+    .single();
+
+  if (invitationError) return jsonResponse({ error: invitationError.message }, 500);
+
+  const redirectTo = req.headers.get('Origin') ? `${req.headers.get('Origin')}/` : undefined;
+  const { error: inviteError } = await admin.auth.admin.inviteUserByEmail(email, {
+    redirectTo,
+    data: { full_name: full_name || '' },
+  });
+
+  if (inviteError) {
+    // Registered users are not emailed; the invitation waits for their next sign-in
+    if (inviteError.status === 422 || /already (been )?registered/i.test(inviteError.message)) {
+      return jsonResponse({ invitation_id: invitation.id, expires_at: invitation.expires_at, status: 'pending_sign_in' });
+    }
+
+    console.error('Failed to send invitation email:', inviteError);
+    return jsonResponse({ error: 'Invitation saved, but the email could not be sent' }, 502);
+  }
+
+  return jsonResponse({ invitation_id: invitation.id, expires_at: invitation.expires_at, status: 'email_sent' });
+});
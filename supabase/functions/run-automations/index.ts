@@ -0,0 +1,67 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { sendReservationMessage, type MessageEvent, type SendResult } from '../_shared/messages.ts';
+
+const BATCH_SIZE = 100;
+
+interface ScheduledMessage {
+  id: string;
+  reservation_id: string;
+  event: string;
+}
+
+// POST {}
+// Called by the scheduler with the service role key. Refreshes the planned
+// sends for every automation, then sends those that are due and records the
+// outcome on each.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  if (req.headers.get('Authorization') !== `Bearer ${serviceRoleKey}`) {
+    return jsonResponse({ error: 'Not authorized' }, 401);
+  }
+
+  const admin = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+  // Plans follow reservation and automation changes through triggers;
+  // refreshing them first is a cheap safety net before sending
+  const { error: planError } = await admin.rpc('plan_scheduled_messages', {});
+  if (planError) {
+    console.error('Failed to plan scheduled messages:', planError);
+    return jsonResponse({ error: planError.message }, 500);
+  }
+
+  const { data: due, error: claimError } = await admin.rpc('claim_scheduled_messages', { p_limit: BATCH_SIZE });
+  if (claimError) {
+    console.error('Failed to claim scheduled messages:', claimError);
+    return jsonResponse({ error: claimError.message }, 500);
+  }
+
+  const counts = { sent: 0, failed: 0, skipped: 0 };
+
+  for (const message of (due || []) as ScheduledMessage[]) {
+    let result: SendResult;
+    try {
+      result = await sendReservationMessage(admin, message.reservation_id, message.event as MessageEvent);
+    } catch (error) {
+      result = { status: 'failed', error: error instanceof Error ? error.message : 'Could not send message' };
+    }
+
+    counts[result.status]++;
+    await admin.from('scheduled_messages').update({
+      status: result.status,
+      error: result.error ?? null,
+      message_log_id: result.log_id ?? null,
+      processed_at: new Date().toISOString(),
+    }).eq('id', message.id);
+  }
+
+  return jsonResponse({ processed: (due || []).length, ...counts });
+});
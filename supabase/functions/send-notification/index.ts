@@ -0,0 +1,74 @@
+import { createClient } from 'https://esm.sh/@supabase/supabase-js@2.57.2';
+import { z } from 'https://esm.sh/zod@3.25.76';
+import { corsHeaders, jsonResponse } from '../_shared/cors.ts';
+import { MESSAGE_EVENTS, sendReservationMessage } from '../_shared/messages.ts';
+
+const requestSchema = z.object({
+  reservation_id: z.string().uuid(),
+  event: z.enum(MESSAGE_EVENTS),
+});
+
+// POST { reservation_id, event }
+// Emails the guest the property's template for the event and records it in
+// the reservation's message log. Called with the service role key by other
+// functions, or by a signed-in user who can edit the reservation.
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response('ok', { headers: corsHeaders });
+  }
+
+  if (req.method !== 'POST') {
+    return jsonResponse({ error: 'Method not allowed' }, 405);
+  }
+
+  const supabaseUrl = Deno.env.get('SUPABASE_URL')!;
+  const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+  const admin = createClient(supabaseUrl, serviceRoleKey);
+  const authorization = req.headers.get('Authorization') ?? '';
+
+  const parsed = requestSchema.safeParse(await req.json().catch(() => null));
+  if (!parsed.success) {
+    return jsonResponse({ error: 'Invalid request', issues: parsed.error.issues }, 400);
+  }
+
+  const { reservation_id, event } = parsed.data;
+  let sentBy: string | null = null;
+
+  if (authorization !== `Bearer ${serviceRoleKey}`) {
+    const userClient = createClient(supabaseUrl, Deno.env.get('SUPABASE_ANON_KEY')!, {
+      global: { headers: { Authorization: authorization } },
+    });
+
+    const { data: { user } } = await userClient.auth.getUser();
+    if (!user) {
+      return jsonResponse({ error: 'Not authenticated' }, 401);
+    }
+
+    // RLS on reservations decides whether the caller can see it at all
+    const { data: reservation } = await userClient
+      .from('reservations')
+      .select('property_id')
+      .eq('id', reservation_id)
+      .maybeSingle();
+
+    if (!reservation) return jsonResponse({ error: 'Reservation not found' }, 404);
+
+    const { data: canEdit } = await userClient.rpc('has_property_capability', {
+      p_property_id: reservation.property_id,
+      p_capability: 'edit_reservations',
+    });
+    if (!canEdit) {
+      return jsonResponse({ error: 'You cannot send messages for this reservation' }, 403);
+    }
+
+    sentBy = user.id;
+  }
+
+  try {
+    const result = await sendReservationMessage(admin, reservation_id, event, { sentBy });
+    return jsonResponse(result, result.status === 'failed' ? 502 : 200);
+  } catch (error) {
+    console.error('Failed to send notification:', error);
+    return jsonResponse({ error: 'Could not send the message' }, 500);
+  }
+});
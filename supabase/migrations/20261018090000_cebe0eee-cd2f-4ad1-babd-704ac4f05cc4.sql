@@ -0,0 +1,41 @@
+-- Room assignment for reservations
+ALTER TABLE public.reservations
+ADD COLUMN room_id uuid REFERENCES public.rooms(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_reservations_room_id ON public.reservations(room_id);
+
+-- A stay must last at least one night
+ALTER TABLE public.reservations
+ADD CONSTRAINT reservations_dates_check CHECK (check_out > check_in);
+
+-- btree_gist lets the exclusion constraint combine uuid equality with range overlap
+CREATE EXTENSION IF NOT EXISTS btree_gist WITH SCHEMA extensions;
+
+-- Reject overlapping [check_in, check_out) stays in the same room.
+-- Cancelled reservations and reservations without a room are ignored.
+ALTER TABLE public.reservations
+ADD CONSTRAINT reservations_room_no_overlap
+EXCLUDE USING gist (
+  room_id WITH =,
+  daterange(check_in, check_out, '[)') WITH &&
+)
+WHERE (room_id IS NOT NULL AND status IS DISTINCT FROM 'cancelled');
+
+-- Rooms must belong to the reservation's property
+CREATE OR REPLACE FUNCTION public.validate_reservation_room()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.room_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = NEW.room_id AND property_id = NEW.property_id
+  ) THEN
+    RAISE EXCEPTION 'Room % does not belong to property %', NEW.room_id, NEW.property_id
+      USING ERRCODE = '23503';
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reservations_validate_room
+  BEFORE INSERT OR UPDATE OF room_id, property_id ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.validate_reservation_room();
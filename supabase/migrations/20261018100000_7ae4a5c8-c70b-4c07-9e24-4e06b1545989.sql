@@ -0,0 +1,193 @@
+-- Pricing rules can target a single room and carry an explicit priority
+ALTER TABLE public.pricing_rules
+ADD COLUMN room_id uuid REFERENCES public.rooms(id) ON DELETE CASCADE,
+ADD COLUMN priority integer NOT NULL DEFAULT 0;
+
+CREATE INDEX idx_pricing_rules_property_active ON public.pricing_rules(property_id) WHERE is_active;
+
+-- Evaluation order of rule types. Within a stage only one rule applies:
+-- room-specific rules beat property-wide ones, then higher priority wins,
+-- then the most recently updated rule. AI suggestions use 'demand' for
+-- date-specific adjustments, which are evaluated with events.
+CREATE OR REPLACE FUNCTION public.pricing_rule_stage(p_rule_type text)
+RETURNS integer AS $$
+  SELECT CASE p_rule_type
+    WHEN 'seasonal' THEN 1
+    WHEN 'event' THEN 2
+    WHEN 'demand' THEN 2
+    WHEN 'weekend' THEN 3
+    WHEN 'occupancy' THEN 4
+  END;
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+-- Checks a rule's conditions against one night. Every condition present has
+-- to hold:
+--   dates          ["2025-12-24", ...]     exact nights
+--   start_date     "2025-06-01"            first night (inclusive)
+--   end_date       "2025-08-31"            last night (inclusive)
+--   months         [6, 7, 8]               1 = January
+--   days_of_week   [5, 6]                  0 = Sunday; weekend rules default to Friday and Saturday nights
+--   min_occupancy  70                      property occupancy in percent
+--   max_occupancy  40
+CREATE OR REPLACE FUNCTION public.pricing_rule_matches(
+  p_rule_type text,
+  p_conditions jsonb,
+  p_night date,
+  p_occupancy numeric
+)
+RETURNS boolean AS $$
+DECLARE
+  v_conditions jsonb := COALESCE(p_conditions, '{}'::jsonb);
+  v_dow integer := EXTRACT(DOW FROM p_night)::integer;
+BEGIN
+  IF v_conditions ? 'dates' AND NOT (v_conditions->'dates') ? p_night::text THEN
+    RETURN false;
+  END IF;
+
+  IF v_conditions ? 'start_date' AND p_night < (v_conditions->>'start_date')::date THEN
+    RETURN false;
+  END IF;
+
+  IF v_conditions ? 'end_date' AND p_night > (v_conditions->>'end_date')::date THEN
+    RETURN false;
+  END IF;
+
+  IF v_conditions ? 'months'
+    AND NOT (v_conditions->'months') @> jsonb_build_array(EXTRACT(MONTH FROM p_night)::integer) THEN
+    RETURN false;
+  END IF;
+
+  IF v_conditions ? 'days_of_week' THEN
+    IF NOT (v_conditions->'days_of_week') @> jsonb_build_array(v_dow) THEN
+      RETURN false;
+    END IF;
+  ELSIF p_rule_type = 'weekend'
+    AND NOT (v_conditions ?| ARRAY['dates', 'start_date', 'end_date'])
+    AND v_dow NOT IN (5, 6) THEN
+    RETURN false;
+  END IF;
+
+  IF v_conditions ? 'min_occupancy' AND p_occupancy < (v_conditions->>'min_occupancy')::numeric THEN
+    RETURN false;
+  END IF;
+
+  IF v_conditions ? 'max_occupancy' AND p_occupancy > (v_conditions->>'max_occupancy')::numeric THEN
+    RETURN false;
+  END IF;
+
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE SET search_path = public;
+
+-- Share of the property's active rooms that are booked for a night, in percent.
+-- Properties without rooms count as a single unit.
+CREATE OR REPLACE FUNCTION public.property_occupancy(p_property_id uuid, p_night date)
+RETURNS numeric AS $$
+DECLARE
+  v_total integer;
+  v_booked integer;
+BEGIN
+  SELECT count(*) INTO v_total
+  FROM public.rooms
+  WHERE property_id = p_property_id AND is_active;
+
+  IF v_total = 0 THEN
+    RETURN CASE WHEN EXISTS (
+      SELECT 1 FROM public.reservations
+      WHERE property_id = p_property_id
+        AND status IS DISTINCT FROM 'cancelled'
+        AND check_in <= p_night AND check_out > p_night
+    ) THEN 100 ELSE 0 END;
+  END IF;
+
+  SELECT count(DISTINCT room_id) INTO v_booked
+  FROM public.reservations
+  WHERE property_id = p_property_id
+    AND room_id IS NOT NULL
+    AND status IS DISTINCT FROM 'cancelled'
+    AND check_in <= p_night AND check_out > p_night;
+
+  RETURN round(v_booked * 100.0 / v_total, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Nightly rate resolver. Starts from the room's base price (falling back to
+-- the property's) and applies one matching rule per stage in stage order.
+-- Percentage adjustments compound on the running price, fixed adjustments
+-- are added to it. Prices never drop below zero.
+CREATE OR REPLACE FUNCTION public.resolve_nightly_rates(
+  p_property_id uuid,
+  p_check_in date,
+  p_check_out date,
+  p_room_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  night date,
+  base_price numeric,
+  price numeric,
+  occupancy numeric,
+  applied_rules jsonb
+) AS $$
+DECLARE
+  v_base numeric;
+  v_night date;
+  v_price numeric;
+  v_stage integer;
+  v_rule public.pricing_rules%ROWTYPE;
+BEGIN
+  IF p_check_out <= p_check_in THEN
+    RAISE EXCEPTION 'Check-out must be after check-in' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(NULLIF(r.base_price, 0), p.base_price, 0)
+  INTO v_base
+  FROM public.properties p
+  LEFT JOIN public.rooms r ON r.id = p_room_id AND r.property_id = p.id
+  WHERE p.id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % not found', p_property_id USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_night IN
+    SELECT d::date FROM generate_series(p_check_in, p_check_out - 1, interval '1 day') AS d
+  LOOP
+    night := v_night;
+    base_price := v_base;
+    occupancy := public.property_occupancy(p_property_id, v_night);
+    applied_rules := '[]'::jsonb;
+    v_price := v_base;
+
+    FOR v_stage IN 1..4 LOOP
+      SELECT pr.* INTO v_rule
+      FROM public.pricing_rules pr
+      WHERE pr.property_id = p_property_id
+        AND pr.is_active
+        AND (pr.room_id IS NULL OR pr.room_id = p_room_id)
+        AND public.pricing_rule_stage(pr.rule_type) = v_stage
+        AND public.pricing_rule_matches(pr.rule_type, pr.conditions, v_night, occupancy)
+      ORDER BY (pr.room_id IS NOT NULL) DESC, pr.priority DESC, pr.updated_at DESC
+      LIMIT 1;
+
+      CONTINUE WHEN NOT FOUND OR v_rule.price_adjustment IS NULL;
+
+      IF COALESCE(v_rule.is_percentage, true) THEN
+        v_price := v_price * (1 + v_rule.price_adjustment / 100);
+      ELSE
+        v_price := v_price + v_rule.price_adjustment;
+      END IF;
+
+      applied_rules := applied_rules || jsonb_build_object(
+        'rule_id', v_rule.id,
+        'rule_name', v_rule.rule_name,
+        'rule_type', v_rule.rule_type,
+        'price_adjustment', v_rule.price_adjustment,
+        'is_percentage', COALESCE(v_rule.is_percentage, true)
+      );
+    END LOOP;
+
+    price := round(GREATEST(v_price, 0), 2);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
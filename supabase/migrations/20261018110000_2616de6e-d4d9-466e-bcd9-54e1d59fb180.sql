@@ -0,0 +1,32 @@
+-- Requests made to the ai-pricing edge function, kept as usage history. The
+-- per-user rate limit is counted separately through hit_rate_limit.
+CREATE TABLE public.ai_request_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  task text NOT NULL,
+  provider text NOT NULL,
+  cache_hit boolean NOT NULL DEFAULT false,
+  status text NOT NULL DEFAULT 'ok' CHECK (status IN ('ok', 'invalid_output', 'provider_error')),
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_ai_request_log_user_created ON public.ai_request_log(user_id, created_at DESC);
+
+-- Validated model responses keyed by a hash of the task and its input
+CREATE TABLE public.ai_response_cache (
+  cache_key text NOT NULL PRIMARY KEY,
+  task text NOT NULL,
+  response jsonb NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  expires_at timestamp with time zone NOT NULL
+);
+
+CREATE INDEX idx_ai_response_cache_expires ON public.ai_response_cache(expires_at);
+
+-- Both tables are written by the edge function with the service role only.
+-- Users may read their own request history.
+ALTER TABLE public.ai_request_log ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.ai_response_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own AI requests" ON public.ai_request_log
+  FOR SELECT USING (auth.uid() = user_id);
@@ -0,0 +1,96 @@
+-- iCal feeds imported per room from booking channels
+CREATE TABLE public.channel_feeds (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  room_id uuid NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  channel text NOT NULL DEFAULT 'other' CHECK (channel IN ('airbnb', 'booking.com', 'other')),
+  name text,
+  -- Fetched over https; webcal:// links are rewritten to https://
+  url text NOT NULL CHECK (url ~* '^(https|webcal)://'),
+  is_active boolean NOT NULL DEFAULT true,
+  last_synced_at timestamp with time zone,
+  last_status text CHECK (last_status IN ('success', 'partial', 'failed')),
+  last_error text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(room_id, url)
+);
+
+CREATE INDEX idx_channel_feeds_property_id ON public.channel_feeds(property_id);
+
+-- One row per import run. `changes` lists what happened to each event:
+-- [{ "uid": "...", "action": "created" | "updated" | "cancelled" | "skipped" | "ignored", "check_in": "...", "check_out": "...", "reason": "..." }]
+-- "ignored" events were left alone on purpose (e.g. cancelled here but still
+-- listed on the channel) and do not make the run partial.
+CREATE TABLE public.channel_sync_logs (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  feed_id uuid NOT NULL REFERENCES public.channel_feeds(id) ON DELETE CASCADE,
+  started_at timestamp with time zone NOT NULL DEFAULT now(),
+  finished_at timestamp with time zone,
+  status text NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'success', 'partial', 'failed')),
+  events_count integer NOT NULL DEFAULT 0,
+  created_count integer NOT NULL DEFAULT 0,
+  updated_count integer NOT NULL DEFAULT 0,
+  cancelled_count integer NOT NULL DEFAULT 0,
+  skipped_count integer NOT NULL DEFAULT 0,
+  changes jsonb NOT NULL DEFAULT '[]'::jsonb,
+  error text
+);
+
+CREATE INDEX idx_channel_sync_logs_feed_started ON public.channel_sync_logs(feed_id, started_at DESC);
+
+-- Imported reservations remember their feed; the event UID is stored in
+-- external_reservation_id and is unique within a feed.
+ALTER TABLE public.reservations
+ADD COLUMN channel_feed_id uuid REFERENCES public.channel_feeds(id) ON DELETE SET NULL;
+
+CREATE UNIQUE INDEX idx_reservations_feed_external_id
+ON public.reservations(channel_feed_id, external_reservation_id)
+WHERE channel_feed_id IS NOT NULL;
+
+ALTER TABLE public.channel_feeds ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.channel_sync_logs ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Property owners can manage their channel feeds" ON public.channel_feeds
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = channel_feeds.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Property owners can view their sync logs" ON public.channel_sync_logs
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.channel_feeds
+      JOIN public.properties ON properties.id = channel_feeds.property_id
+      WHERE channel_feeds.id = channel_sync_logs.feed_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_channel_feeds_updated_at
+  BEFORE UPDATE ON public.channel_feeds
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Poll every active feed every 15 minutes. The ical-import function syncs all
+-- feeds when called with the service role key, which is read from Vault.
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+CREATE EXTENSION IF NOT EXISTS pg_net WITH SCHEMA extensions;
+
+SELECT cron.schedule(
+  'ical-import',
+  '*/15 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://bxkjgqpmafkjwpxfmera.supabase.co/functions/v1/ical-import',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
@@ -0,0 +1,146 @@
+-- Housekeeping state of a room:
+--   clean           ready for the next arrival
+--   occupied        guest in house
+--   needs_cleaning  occupied room due for a stayover service
+--   dirty           vacated, has to be turned over before the next arrival
+--   maintenance     out of service
+CREATE TYPE public.housekeeping_status AS ENUM ('clean', 'occupied', 'needs_cleaning', 'dirty', 'maintenance');
+
+ALTER TABLE public.rooms
+ADD COLUMN housekeeping_status public.housekeeping_status NOT NULL DEFAULT 'clean',
+ADD COLUMN housekeeping_updated_at timestamp with time zone NOT NULL DEFAULT now();
+
+-- Every status change, whether made by staff or by a check-in/check-out
+CREATE TABLE public.room_status_history (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  room_id uuid NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  from_status public.housekeeping_status,
+  to_status public.housekeeping_status NOT NULL,
+  reason text NOT NULL DEFAULT 'manual' CHECK (reason IN ('manual', 'check_in', 'check_out')),
+  reservation_id uuid REFERENCES public.reservations(id) ON DELETE SET NULL,
+  note text,
+  changed_by uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_room_status_history_room_created ON public.room_status_history(room_id, created_at DESC);
+
+ALTER TABLE public.room_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view status history for their rooms" ON public.room_status_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.rooms
+      JOIN public.properties ON properties.id = rooms.property_id
+      WHERE rooms.id = room_status_history.room_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+-- Records status changes. Callers describe the change through transaction
+-- local settings (app.housekeeping_reason, app.housekeeping_reservation,
+-- app.housekeeping_note); plain updates are logged as manual.
+CREATE OR REPLACE FUNCTION public.log_room_status_change()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.housekeeping_status IS NOT DISTINCT FROM OLD.housekeeping_status THEN
+    RETURN NEW;
+  END IF;
+
+  NEW.housekeeping_updated_at := now();
+
+  INSERT INTO public.room_status_history (room_id, from_status, to_status, reason, reservation_id, note, changed_by)
+  VALUES (
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.housekeeping_status END,
+    NEW.housekeeping_status,
+    COALESCE(NULLIF(current_setting('app.housekeeping_reason', true), ''), 'manual'),
+    NULLIF(current_setting('app.housekeeping_reservation', true), '')::uuid,
+    NULLIF(current_setting('app.housekeeping_note', true), ''),
+    auth.uid()
+  );
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- BEFORE so that housekeeping_updated_at is stamped on the same write; the
+-- history row references the room, which already exists for updates.
+CREATE TRIGGER rooms_log_status_change
+  BEFORE UPDATE OF housekeeping_status ON public.rooms
+  FOR EACH ROW
+  EXECUTE FUNCTION public.log_room_status_change();
+
+-- Sets a room's status manually with an optional note. Only the property's
+-- owner for now; the profile role is self-service and grants nothing.
+CREATE OR REPLACE FUNCTION public.set_room_status(
+  p_room_id uuid,
+  p_status public.housekeeping_status,
+  p_note text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    JOIN public.properties ON properties.id = rooms.property_id
+    WHERE rooms.id = p_room_id
+    AND properties.owner_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Room % not found', p_room_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.housekeeping_reason', 'manual', true);
+  PERFORM set_config('app.housekeeping_reservation', '', true);
+  PERFORM set_config('app.housekeeping_note', COALESCE(p_note, ''), true);
+
+  UPDATE public.rooms SET housekeeping_status = p_status WHERE id = p_room_id;
+
+  PERFORM set_config('app.housekeeping_note', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Checking a guest in marks the room occupied, checking out marks it dirty.
+-- Rooms under maintenance keep their status.
+CREATE OR REPLACE FUNCTION public.apply_reservation_room_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_status public.housekeeping_status;
+  v_reason text;
+BEGIN
+  IF NEW.room_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'checked_in' THEN
+    v_status := 'occupied';
+    v_reason := 'check_in';
+  ELSIF NEW.status = 'checked_out' THEN
+    v_status := 'dirty';
+    v_reason := 'check_out';
+  ELSE
+    RETURN NEW;
+  END IF;
+
+  PERFORM set_config('app.housekeeping_reason', v_reason, true);
+  PERFORM set_config('app.housekeeping_reservation', NEW.id::text, true);
+
+  UPDATE public.rooms
+  SET housekeeping_status = v_status
+  WHERE id = NEW.room_id
+    AND housekeeping_status <> 'maintenance';
+
+  PERFORM set_config('app.housekeeping_reason', '', true);
+  PERFORM set_config('app.housekeeping_reservation', '', true);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reservations_apply_room_status
+  AFTER INSERT OR UPDATE OF status ON public.reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.apply_reservation_room_status();
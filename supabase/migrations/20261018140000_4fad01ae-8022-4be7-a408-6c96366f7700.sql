@@ -0,0 +1,264 @@
+-- Who can operate a property (housekeeping, front desk). Only the owner
+-- until team members can be granted access to specific properties.
+CREATE OR REPLACE FUNCTION public.has_property_access(p_property_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.properties
+    WHERE id = p_property_id
+    AND owner_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Daily cleaning work. One task per room, day and type:
+--   departure     guest leaves, full turnover
+--   stayover      guest stays, refresh service
+--   arrival_prep  room was empty, check it before the guest arrives
+-- not_before/due_by come from the property's check-out/check-in times so
+-- that same-day turnovers can be worked in the right window.
+CREATE TABLE public.housekeeping_tasks (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  room_id uuid NOT NULL REFERENCES public.rooms(id) ON DELETE CASCADE,
+  reservation_id uuid REFERENCES public.reservations(id) ON DELETE SET NULL,
+  task_date date NOT NULL,
+  task_type text NOT NULL CHECK (task_type IN ('departure', 'stayover', 'arrival_prep')),
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'in_progress', 'done')),
+  is_turnover boolean NOT NULL DEFAULT false,
+  priority integer NOT NULL DEFAULT 3,
+  not_before time,
+  due_by time,
+  assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  assignee_name text,
+  started_at timestamp with time zone,
+  completed_at timestamp with time zone,
+  duration_minutes integer,
+  notes text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(room_id, task_date, task_type)
+);
+
+CREATE INDEX idx_housekeeping_tasks_property_date ON public.housekeeping_tasks(property_id, task_date);
+
+ALTER TABLE public.housekeeping_tasks ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view housekeeping tasks for their properties" ON public.housekeeping_tasks
+  FOR SELECT USING (public.has_property_access(property_id));
+
+CREATE POLICY "Owners can manage housekeeping tasks" ON public.housekeeping_tasks
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = housekeeping_tasks.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_housekeeping_tasks_updated_at
+  BEFORE UPDATE ON public.housekeeping_tasks
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Completed tasks are recorded in the room status history too
+ALTER TABLE public.room_status_history
+DROP CONSTRAINT room_status_history_reason_check,
+ADD CONSTRAINT room_status_history_reason_check CHECK (reason IN ('manual', 'check_in', 'check_out', 'housekeeping_task'));
+
+-- Creates the day's tasks from reservations. Safe to run repeatedly: existing
+-- tasks are kept. Priority: 1 same-day turnover, 2 arrival prep, 3 departure,
+-- 4 stayover. Occupied rooms with a stayover task are flagged needs_cleaning.
+-- Runs for every property given none; only the scheduler may call it, users
+-- go through refresh_housekeeping_tasks.
+CREATE OR REPLACE FUNCTION public.generate_housekeeping_tasks(
+  p_date date DEFAULT CURRENT_DATE,
+  p_property_id uuid DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_created integer := 0;
+  v_count integer;
+BEGIN
+  CREATE TEMP TABLE _hk_stays ON COMMIT DROP AS
+  SELECT r.id, r.room_id, r.property_id, r.check_in, r.check_out,
+         p.check_in_time, p.check_out_time
+  FROM public.reservations r
+  JOIN public.properties p ON p.id = r.property_id
+  JOIN public.rooms rm ON rm.id = r.room_id AND rm.is_active
+  WHERE r.room_id IS NOT NULL
+    AND r.status IS DISTINCT FROM 'cancelled'
+    AND r.check_in <= p_date AND r.check_out >= p_date
+    AND (p_property_id IS NULL OR r.property_id = p_property_id);
+
+  -- Departures; a same-day arrival in the room makes it a turnover that has to
+  -- be finished by check-in time
+  INSERT INTO public.housekeeping_tasks
+    (property_id, room_id, reservation_id, task_date, task_type, is_turnover, priority, not_before, due_by)
+  SELECT d.property_id, d.room_id, d.id, p_date, 'departure',
+         a.id IS NOT NULL,
+         CASE WHEN a.id IS NOT NULL THEN 1 ELSE 3 END,
+         d.check_out_time,
+         CASE WHEN a.id IS NOT NULL THEN d.check_in_time END
+  FROM _hk_stays d
+  LEFT JOIN _hk_stays a ON a.room_id = d.room_id AND a.check_in = p_date
+  WHERE d.check_out = p_date
+  ON CONFLICT (room_id, task_date, task_type) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  -- Arrivals into rooms nobody leaves today
+  INSERT INTO public.housekeeping_tasks
+    (property_id, room_id, reservation_id, task_date, task_type, priority, due_by)
+  SELECT a.property_id, a.room_id, a.id, p_date, 'arrival_prep', 2, a.check_in_time
+  FROM _hk_stays a
+  WHERE a.check_in = p_date
+    AND NOT EXISTS (SELECT 1 FROM _hk_stays d WHERE d.room_id = a.room_id AND d.check_out = p_date)
+  ON CONFLICT (room_id, task_date, task_type) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  -- Stayovers
+  INSERT INTO public.housekeeping_tasks
+    (property_id, room_id, reservation_id, task_date, task_type, priority)
+  SELECT s.property_id, s.room_id, s.id, p_date, 'stayover', 4
+  FROM _hk_stays s
+  WHERE s.check_in < p_date AND s.check_out > p_date
+  ON CONFLICT (room_id, task_date, task_type) DO NOTHING;
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  v_created := v_created + v_count;
+
+  IF p_date = CURRENT_DATE THEN
+    UPDATE public.rooms
+    SET housekeeping_status = 'needs_cleaning'
+    WHERE housekeeping_status = 'occupied'
+      AND id IN (SELECT room_id FROM _hk_stays WHERE check_in < p_date AND check_out > p_date);
+  END IF;
+
+  DROP TABLE _hk_stays;
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.generate_housekeeping_tasks(date, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Generates tasks on demand for the properties the caller can access, or
+-- for one of them
+CREATE OR REPLACE FUNCTION public.refresh_housekeeping_tasks(
+  p_date date DEFAULT CURRENT_DATE,
+  p_property_id uuid DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_property_id uuid;
+  v_created integer := 0;
+BEGIN
+  IF p_property_id IS NOT NULL AND NOT public.has_property_access(p_property_id) THEN
+    RAISE EXCEPTION 'Property not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  FOR v_property_id IN
+    SELECT id FROM public.properties
+    WHERE (p_property_id IS NULL OR id = p_property_id)
+      AND public.has_property_access(id)
+  LOOP
+    v_created := v_created + public.generate_housekeeping_tasks(p_date, v_property_id);
+  END LOOP;
+
+  RETURN v_created;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Takes a pending task and starts its timer
+CREATE OR REPLACE FUNCTION public.claim_housekeeping_task(p_task_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_name text;
+BEGIN
+  SELECT COALESCE(full_name, email) INTO v_name
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  UPDATE public.housekeeping_tasks
+  SET status = 'in_progress',
+      assigned_to = auth.uid(),
+      assignee_name = v_name,
+      started_at = now(),
+      completed_at = NULL,
+      duration_minutes = NULL
+  WHERE id = p_task_id
+    AND status = 'pending'
+    AND public.has_property_access(property_id);
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task is no longer available' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Puts a claimed task back on the board
+CREATE OR REPLACE FUNCTION public.release_housekeeping_task(p_task_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.housekeeping_tasks t
+  SET status = 'pending',
+      assigned_to = NULL,
+      assignee_name = NULL,
+      started_at = NULL
+  WHERE t.id = p_task_id
+    AND t.status = 'in_progress'
+    AND (
+      t.assigned_to = auth.uid() OR
+      EXISTS (SELECT 1 FROM public.properties WHERE id = t.property_id AND owner_id = auth.uid())
+    );
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the assignee or the owner can release this task' USING ERRCODE = '42501';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Finishes a task, records the time spent and updates the room: cleaned rooms
+-- become clean, serviced stayovers go back to occupied.
+CREATE OR REPLACE FUNCTION public.complete_housekeeping_task(p_task_id uuid, p_notes text DEFAULT NULL)
+RETURNS void AS $$
+DECLARE
+  v_task public.housekeeping_tasks%ROWTYPE;
+BEGIN
+  UPDATE public.housekeeping_tasks t
+  SET status = 'done',
+      completed_at = now(),
+      duration_minutes = GREATEST(1, round(extract(epoch FROM now() - t.started_at) / 60)::integer),
+      notes = COALESCE(p_notes, t.notes)
+  WHERE t.id = p_task_id
+    AND t.status = 'in_progress'
+    AND (
+      t.assigned_to = auth.uid() OR
+      EXISTS (SELECT 1 FROM public.properties WHERE id = t.property_id AND owner_id = auth.uid())
+    )
+  RETURNING * INTO v_task;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Only the assignee or the owner can complete this task' USING ERRCODE = '42501';
+  END IF;
+
+  PERFORM set_config('app.housekeeping_reason', 'housekeeping_task', true);
+  PERFORM set_config('app.housekeeping_reservation', COALESCE(v_task.reservation_id::text, ''), true);
+
+  IF v_task.task_type = 'stayover' THEN
+    UPDATE public.rooms SET housekeeping_status = 'occupied'
+    WHERE id = v_task.room_id AND housekeeping_status = 'needs_cleaning';
+  ELSE
+    UPDATE public.rooms SET housekeeping_status = 'clean'
+    WHERE id = v_task.room_id AND housekeeping_status IN ('dirty', 'needs_cleaning');
+  END IF;
+
+  PERFORM set_config('app.housekeeping_reason', '', true);
+  PERFORM set_config('app.housekeeping_reservation', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Generate the day's tasks every morning
+SELECT cron.schedule(
+  'generate-housekeeping-tasks',
+  '0 5 * * *',
+  $$ SELECT public.generate_housekeeping_tasks(CURRENT_DATE) $$
+);
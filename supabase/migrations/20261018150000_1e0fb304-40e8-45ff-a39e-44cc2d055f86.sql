@@ -0,0 +1,217 @@
+-- Maintenance tickets. A ticket may take its room out of order for the nights
+-- in [out_of_order_from, out_of_order_to), the same convention as
+-- reservations. The block holds while the ticket is not resolved or closed.
+CREATE TABLE public.maintenance_tickets (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  room_id uuid REFERENCES public.rooms(id) ON DELETE CASCADE,
+  title text NOT NULL,
+  description text,
+  category text NOT NULL DEFAULT 'other' CHECK (category IN ('plumbing', 'electrical', 'hvac', 'appliance', 'furniture', 'structural', 'other')),
+  priority text NOT NULL DEFAULT 'medium' CHECK (priority IN ('low', 'medium', 'high', 'urgent')),
+  status text NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'in_progress', 'on_hold', 'resolved', 'closed')),
+  photos text[] NOT NULL DEFAULT '{}',
+  assigned_to uuid REFERENCES auth.users(id) ON DELETE SET NULL,
+  assignee_name text,
+  reported_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  out_of_order_from date,
+  out_of_order_to date,
+  resolved_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT maintenance_tickets_out_of_order_check CHECK (
+    (out_of_order_from IS NULL AND out_of_order_to IS NULL) OR
+    (room_id IS NOT NULL AND out_of_order_to > out_of_order_from)
+  )
+);
+
+CREATE INDEX idx_maintenance_tickets_property_status ON public.maintenance_tickets(property_id, status);
+CREATE INDEX idx_maintenance_tickets_room_out_of_order ON public.maintenance_tickets(room_id, out_of_order_from)
+  WHERE out_of_order_from IS NOT NULL;
+
+ALTER TABLE public.maintenance_tickets ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view maintenance tickets for their properties" ON public.maintenance_tickets
+  FOR SELECT USING (public.has_property_access(property_id));
+
+CREATE POLICY "Users can report maintenance tickets for their properties" ON public.maintenance_tickets
+  FOR INSERT WITH CHECK (public.has_property_access(property_id));
+
+CREATE POLICY "Users can update maintenance tickets for their properties" ON public.maintenance_tickets
+  FOR UPDATE USING (public.has_property_access(property_id));
+
+CREATE POLICY "Owners can delete maintenance tickets" ON public.maintenance_tickets
+  FOR DELETE USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = maintenance_tickets.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_maintenance_tickets_updated_at
+  BEFORE UPDATE ON public.maintenance_tickets
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Ticket blocks and reservations check each other, so both sides take the
+-- same per-room lock to keep concurrent writes from slipping past the checks.
+CREATE OR REPLACE FUNCTION public.lock_room_calendar(p_room_id uuid)
+RETURNS void AS $$
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext('room_calendar:' || p_room_id::text));
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Rooms must belong to the ticket's property; resolving stamps resolved_at.
+-- An out-of-order range may not cover nights that are already booked.
+CREATE OR REPLACE FUNCTION public.validate_maintenance_ticket()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_conflict record;
+BEGIN
+  IF NEW.room_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE id = NEW.room_id AND property_id = NEW.property_id
+  ) THEN
+    RAISE EXCEPTION 'Room % does not belong to property %', NEW.room_id, NEW.property_id
+      USING ERRCODE = '23503';
+  END IF;
+
+  IF NEW.status IN ('resolved', 'closed') THEN
+    NEW.resolved_at := COALESCE(NEW.resolved_at, now());
+  ELSE
+    NEW.resolved_at := NULL;
+  END IF;
+
+  IF NEW.out_of_order_from IS NOT NULL AND NEW.status NOT IN ('resolved', 'closed') THEN
+    PERFORM public.lock_room_calendar(NEW.room_id);
+
+    SELECT guest_name, check_in, check_out INTO v_conflict
+    FROM public.reservations
+    WHERE room_id = NEW.room_id
+      AND status IS DISTINCT FROM 'cancelled'
+      AND daterange(check_in, check_out, '[)') && daterange(NEW.out_of_order_from, NEW.out_of_order_to, '[)')
+    ORDER BY check_in
+    LIMIT 1;
+
+    IF FOUND THEN
+      RAISE EXCEPTION 'Room is booked by % from % to %; move the reservation before taking the room out of order',
+        v_conflict.guest_name, v_conflict.check_in, v_conflict.check_out;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER maintenance_tickets_validate
+  BEFORE INSERT OR UPDATE ON public.maintenance_tickets
+  FOR EACH ROW EXECUTE FUNCTION public.validate_maintenance_ticket();
+
+-- Reservations may not be placed in a room while it is out of order
+CREATE OR REPLACE FUNCTION public.validate_reservation_out_of_order()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_block record;
+BEGIN
+  IF NEW.room_id IS NULL OR NEW.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  PERFORM public.lock_room_calendar(NEW.room_id);
+
+  SELECT title, out_of_order_from, out_of_order_to INTO v_block
+  FROM public.maintenance_tickets
+  WHERE room_id = NEW.room_id
+    AND out_of_order_from IS NOT NULL
+    AND status NOT IN ('resolved', 'closed')
+    AND daterange(out_of_order_from, out_of_order_to, '[)') && daterange(NEW.check_in, NEW.check_out, '[)')
+  ORDER BY out_of_order_from
+  LIMIT 1;
+
+  IF FOUND THEN
+    RAISE EXCEPTION 'Room is out of order from % to % (%)',
+      v_block.out_of_order_from, v_block.out_of_order_to, v_block.title;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reservations_validate_out_of_order
+  BEFORE INSERT OR UPDATE OF room_id, check_in, check_out, status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.validate_reservation_out_of_order();
+
+-- Rooms that are out of order for a night
+CREATE OR REPLACE FUNCTION public.room_out_of_order(p_room_id uuid, p_night date)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.maintenance_tickets
+    WHERE room_id = p_room_id
+      AND out_of_order_from IS NOT NULL
+      AND status NOT IN ('resolved', 'closed')
+      AND out_of_order_from <= p_night AND out_of_order_to > p_night
+  );
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Out-of-order rooms cannot be sold, so they no longer count towards the
+-- property's capacity for the night.
+CREATE OR REPLACE FUNCTION public.property_occupancy(p_property_id uuid, p_night date)
+RETURNS numeric AS $$
+DECLARE
+  v_total integer;
+  v_booked integer;
+BEGIN
+  SELECT count(*) INTO v_total
+  FROM public.rooms
+  WHERE property_id = p_property_id AND is_active
+    AND NOT public.room_out_of_order(id, p_night);
+
+  IF v_total = 0 THEN
+    RETURN CASE WHEN EXISTS (
+      SELECT 1 FROM public.reservations
+      WHERE property_id = p_property_id
+        AND status IS DISTINCT FROM 'cancelled'
+        AND check_in <= p_night AND check_out > p_night
+    ) THEN 100 ELSE 0 END;
+  END IF;
+
+  SELECT count(DISTINCT room_id) INTO v_booked
+  FROM public.reservations
+  WHERE property_id = p_property_id
+    AND room_id IS NOT NULL
+    AND status IS DISTINCT FROM 'cancelled'
+    AND check_in <= p_night AND check_out > p_night;
+
+  RETURN round(v_booked * 100.0 / v_total, 2);
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Ticket photos, stored as <property_id>/<ticket_id>/<file>
+INSERT INTO storage.buckets (id, name, public)
+VALUES ('maintenance-photos', 'maintenance-photos', false);
+
+CREATE POLICY "Users can upload maintenance photos for their properties"
+ON storage.objects
+FOR INSERT
+WITH CHECK (
+  bucket_id = 'maintenance-photos'
+  AND public.has_property_access(((storage.foldername(name))[1])::uuid)
+);
+
+CREATE POLICY "Users can view maintenance photos for their properties"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'maintenance-photos'
+  AND public.has_property_access(((storage.foldername(name))[1])::uuid)
+);
+
+CREATE POLICY "Users can delete maintenance photos for their properties"
+ON storage.objects
+FOR DELETE
+USING (
+  bucket_id = 'maintenance-photos'
+  AND public.has_property_access(((storage.foldername(name))[1])::uuid)
+);
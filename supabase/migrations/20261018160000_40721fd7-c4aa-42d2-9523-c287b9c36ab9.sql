@@ -0,0 +1,353 @@
+-- Teams. Every owner has one organization; staff join it by accepting an
+-- invitation and only see the properties they were granted, with per-property
+-- capability flags. The profile role no longer grants any access.
+CREATE TABLE public.organizations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  owner_id uuid NOT NULL UNIQUE REFERENCES auth.users(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- Name and email are copied from the profile when the invitation is
+-- accepted, because profiles are only visible to their own user.
+CREATE TABLE public.organization_members (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name text,
+  email text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(organization_id, user_id)
+);
+
+CREATE INDEX idx_organization_members_user_id ON public.organization_members(user_id);
+
+-- Capability flags for one member on one property:
+--   can_view_reservations  reservations, calendar and guest details
+--   can_edit_reservations  create, change and cancel reservations (implies view)
+--   can_edit_pricing       pricing rules
+--   can_housekeeping       housekeeping tasks and room status
+-- A grant with only can_housekeeping is a housekeeping-only account.
+CREATE TABLE public.property_access (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  member_id uuid NOT NULL REFERENCES public.organization_members(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  can_view_reservations boolean NOT NULL DEFAULT true,
+  can_edit_reservations boolean NOT NULL DEFAULT false,
+  can_edit_pricing boolean NOT NULL DEFAULT false,
+  can_housekeeping boolean NOT NULL DEFAULT false,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE(member_id, property_id)
+);
+
+CREATE INDEX idx_property_access_property_id ON public.property_access(property_id);
+
+-- Pending invitations. `access` holds the grants to create on acceptance:
+-- [{ "property_id": "...", "can_view_reservations": true, ... }]
+CREATE TABLE public.organization_invitations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  organization_id uuid NOT NULL REFERENCES public.organizations(id) ON DELETE CASCADE,
+  email text NOT NULL,
+  full_name text,
+  access jsonb NOT NULL DEFAULT '[]'::jsonb,
+  invited_by uuid REFERENCES auth.users(id) ON DELETE SET NULL DEFAULT auth.uid(),
+  accepted_at timestamp with time zone,
+  expires_at timestamp with time zone NOT NULL DEFAULT now() + interval '14 days',
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_organization_invitations_pending
+  ON public.organization_invitations(organization_id, lower(email))
+  WHERE accepted_at IS NULL;
+
+ALTER TABLE public.organizations ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_members ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.property_access ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.organization_invitations ENABLE ROW LEVEL SECURITY;
+
+CREATE TRIGGER update_organizations_updated_at
+  BEFORE UPDATE ON public.organizations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER update_organization_members_updated_at
+  BEFORE UPDATE ON public.organization_members
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER update_property_access_updated_at
+  BEFORE UPDATE ON public.property_access
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Organizations the current user owns. SECURITY DEFINER so that policies on
+-- the team tables can use it without recursing into each other.
+CREATE OR REPLACE FUNCTION public.owns_organization(p_organization_id uuid)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.organizations
+    WHERE id = p_organization_id AND owner_id = auth.uid()
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+CREATE POLICY "Owners and members can view their organization" ON public.organizations
+  FOR SELECT USING (
+    owner_id = auth.uid() OR
+    EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE organization_members.organization_id = organizations.id
+      AND organization_members.user_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can manage their organization" ON public.organizations
+  FOR ALL USING (owner_id = auth.uid())
+  WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Owners and the member can view memberships" ON public.organization_members
+  FOR SELECT USING (user_id = auth.uid() OR public.owns_organization(organization_id));
+
+CREATE POLICY "Owners can manage memberships" ON public.organization_members
+  FOR ALL USING (public.owns_organization(organization_id));
+
+CREATE POLICY "Owners and the member can view property access" ON public.property_access
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.organization_members
+      WHERE organization_members.id = property_access.member_id
+      AND (organization_members.user_id = auth.uid() OR public.owns_organization(organization_members.organization_id))
+    )
+  );
+
+-- Owners can only hand out properties they own
+CREATE POLICY "Owners can manage property access" ON public.property_access
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = property_access.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  )
+  WITH CHECK (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      JOIN public.organizations ON organizations.owner_id = properties.owner_id
+      JOIN public.organization_members ON organization_members.organization_id = organizations.id
+      WHERE properties.id = property_access.property_id
+      AND organization_members.id = property_access.member_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Owners can manage invitations" ON public.organization_invitations
+  FOR ALL USING (public.owns_organization(organization_id))
+  WITH CHECK (public.owns_organization(organization_id));
+
+-- Checks one capability: view_reservations, edit_reservations, edit_pricing
+-- or housekeeping. NULL asks for any grant. Owners hold every capability.
+CREATE OR REPLACE FUNCTION public.has_property_capability(p_property_id uuid, p_capability text)
+RETURNS boolean AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.properties
+    WHERE id = p_property_id AND owner_id = auth.uid()
+  ) OR EXISTS (
+    SELECT 1 FROM public.property_access pa
+    JOIN public.organization_members m ON m.id = pa.member_id
+    JOIN public.organizations o ON o.id = m.organization_id
+    JOIN public.properties p ON p.id = pa.property_id AND p.owner_id = o.owner_id
+    WHERE pa.property_id = p_property_id
+      AND m.user_id = auth.uid()
+      AND CASE p_capability
+        WHEN 'view_reservations' THEN pa.can_view_reservations OR pa.can_edit_reservations
+        WHEN 'edit_reservations' THEN pa.can_edit_reservations
+        WHEN 'edit_pricing' THEN pa.can_edit_pricing
+        WHEN 'housekeeping' THEN pa.can_housekeeping
+        ELSE p_capability IS NULL
+      END
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Owners, or members holding a grant for the property
+CREATE OR REPLACE FUNCTION public.has_property_access(p_property_id uuid)
+RETURNS boolean AS $$
+  SELECT public.has_property_capability(p_property_id, NULL);
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+-- Joins every organization that invited the current user's email and applies
+-- the granted property access. Called by the app after sign-in.
+CREATE OR REPLACE FUNCTION public.accept_pending_invitations()
+RETURNS integer AS $$
+DECLARE
+  v_email text := lower(auth.jwt() ->> 'email');
+  v_invitation public.organization_invitations%ROWTYPE;
+  v_member_id uuid;
+  v_profile public.profiles%ROWTYPE;
+  v_accepted integer := 0;
+BEGIN
+  IF auth.uid() IS NULL OR v_email IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  SELECT * INTO v_profile FROM public.profiles WHERE user_id = auth.uid();
+
+  FOR v_invitation IN
+    SELECT * FROM public.organization_invitations
+    WHERE lower(email) = v_email
+      AND accepted_at IS NULL
+      AND expires_at > now()
+    FOR UPDATE
+  LOOP
+    INSERT INTO public.organization_members (organization_id, user_id, full_name, email)
+    VALUES (
+      v_invitation.organization_id,
+      auth.uid(),
+      COALESCE(NULLIF(v_profile.full_name, ''), v_invitation.full_name),
+      v_email
+    )
+    ON CONFLICT (organization_id, user_id) DO UPDATE SET email = EXCLUDED.email
+    RETURNING id INTO v_member_id;
+
+    INSERT INTO public.property_access
+      (member_id, property_id, can_view_reservations, can_edit_reservations, can_edit_pricing, can_housekeeping)
+    SELECT v_member_id,
+           (grant_row ->> 'property_id')::uuid,
+           COALESCE((grant_row ->> 'can_view_reservations')::boolean, false),
+           COALESCE((grant_row ->> 'can_edit_reservations')::boolean, false),
+           COALESCE((grant_row ->> 'can_edit_pricing')::boolean, false),
+           COALESCE((grant_row ->> 'can_housekeeping')::boolean, false)
+    FROM jsonb_array_elements(v_invitation.access) AS grant_row
+    JOIN public.properties p ON p.id = (grant_row ->> 'property_id')::uuid
+    JOIN public.organizations o ON o.id = v_invitation.organization_id AND o.owner_id = p.owner_id
+    ON CONFLICT (member_id, property_id) DO UPDATE SET
+      can_view_reservations = EXCLUDED.can_view_reservations,
+      can_edit_reservations = EXCLUDED.can_edit_reservations,
+      can_edit_pricing = EXCLUDED.can_edit_pricing,
+      can_housekeeping = EXCLUDED.can_housekeeping;
+
+    UPDATE public.organization_invitations SET accepted_at = now() WHERE id = v_invitation.id;
+    v_accepted := v_accepted + 1;
+  END LOOP;
+
+  -- Invited accounts that do not own anything are staff accounts
+  IF v_accepted > 0 AND NOT EXISTS (SELECT 1 FROM public.properties WHERE owner_id = auth.uid()) THEN
+    UPDATE public.profiles SET role = 'staff' WHERE user_id = auth.uid();
+  END IF;
+
+  RETURN v_accepted;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Existing owners get their organization
+INSERT INTO public.organizations (owner_id, name)
+SELECT DISTINCT ON (properties.owner_id)
+  properties.owner_id,
+  COALESCE(NULLIF(profiles.full_name, ''), 'My team')
+FROM public.properties
+LEFT JOIN public.profiles ON profiles.user_id = properties.owner_id
+ORDER BY properties.owner_id;
+
+-- Properties: owners and granted members only (previously every staff profile)
+DROP POLICY "Users can view their properties" ON public.properties;
+
+CREATE POLICY "Users can view their properties" ON public.properties
+  FOR SELECT USING (public.has_property_access(id));
+
+-- Rooms
+CREATE POLICY "Team members can view rooms" ON public.rooms
+  FOR SELECT USING (public.has_property_access(property_id));
+
+-- Reservations
+DROP POLICY "Users can view reservations for their properties" ON public.reservations;
+DROP POLICY "Users can manage reservations for their properties" ON public.reservations;
+
+CREATE POLICY "Users can view reservations for their properties" ON public.reservations
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Users can create reservations for their properties" ON public.reservations
+  FOR INSERT WITH CHECK (public.has_property_capability(property_id, 'edit_reservations'));
+
+CREATE POLICY "Users can update reservations for their properties" ON public.reservations
+  FOR UPDATE USING (public.has_property_capability(property_id, 'edit_reservations'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_reservations'));
+
+CREATE POLICY "Users can delete reservations for their properties" ON public.reservations
+  FOR DELETE USING (public.has_property_capability(property_id, 'edit_reservations'));
+
+-- Pricing rules: everyone with access can read them (the rate resolver runs
+-- with the caller's rights), only pricing editors can change them
+DROP POLICY "Users can manage pricing rules for their properties" ON public.pricing_rules;
+
+CREATE POLICY "Users can view pricing rules for their properties" ON public.pricing_rules
+  FOR SELECT USING (public.has_property_access(property_id));
+
+CREATE POLICY "Users can manage pricing rules for their properties" ON public.pricing_rules
+  FOR ALL USING (public.has_property_capability(property_id, 'edit_pricing'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_pricing'));
+
+-- Room status history
+DROP POLICY "Users can view status history for their rooms" ON public.room_status_history;
+
+CREATE POLICY "Users can view status history for their rooms" ON public.room_status_history
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.rooms
+      WHERE rooms.id = room_status_history.room_id
+      AND public.has_property_access(rooms.property_id)
+    )
+  );
+
+-- Room status may be set by owners and members with housekeeping rights
+CREATE OR REPLACE FUNCTION public.set_room_status(
+  p_room_id uuid,
+  p_status public.housekeeping_status,
+  p_note text DEFAULT NULL
+)
+RETURNS void AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM public.rooms
+    WHERE rooms.id = p_room_id
+    AND public.has_property_capability(rooms.property_id, 'housekeeping')
+  ) THEN
+    RAISE EXCEPTION 'Room % not found', p_room_id USING ERRCODE = 'P0002';
+  END IF;
+
+  PERFORM set_config('app.housekeeping_reason', 'manual', true);
+  PERFORM set_config('app.housekeeping_reservation', '', true);
+  PERFORM set_config('app.housekeeping_note', COALESCE(p_note, ''), true);
+
+  UPDATE public.rooms SET housekeeping_status = p_status WHERE id = p_room_id;
+
+  PERFORM set_config('app.housekeeping_note', '', true);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only housekeeping staff (and owners) pick up cleaning tasks
+CREATE OR REPLACE FUNCTION public.claim_housekeeping_task(p_task_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_name text;
+BEGIN
+  SELECT COALESCE(full_name, email) INTO v_name
+  FROM public.profiles
+  WHERE user_id = auth.uid();
+
+  UPDATE public.housekeeping_tasks
+  SET status = 'in_progress',
+      assigned_to = auth.uid(),
+      assignee_name = v_name,
+      started_at = now(),
+      completed_at = NULL,
+      duration_minutes = NULL
+  WHERE id = p_task_id
+    AND status = 'pending'
+    AND public.has_property_capability(property_id, 'housekeeping');
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Task is no longer available' USING ERRCODE = 'P0002';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
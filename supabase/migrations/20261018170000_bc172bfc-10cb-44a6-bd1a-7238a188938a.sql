@@ -0,0 +1,126 @@
+-- Guest reviews feed the satisfaction score; daily metric snapshots keep the
+-- property history the dashboard totem is drawn from.
+CREATE TABLE public.guest_reviews (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  reservation_id uuid REFERENCES public.reservations(id) ON DELETE SET NULL,
+  rating integer NOT NULL CHECK (rating BETWEEN 1 AND 5),
+  comment text,
+  reviewer_name text,
+  source text NOT NULL DEFAULT 'direct',
+  reviewed_at date NOT NULL DEFAULT CURRENT_DATE,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_guest_reviews_property_date ON public.guest_reviews(property_id, reviewed_at);
+-- Staff record one review per stay from the reservation list
+CREATE UNIQUE INDEX guest_reviews_reservation_key ON public.guest_reviews(reservation_id);
+
+ALTER TABLE public.guest_reviews ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view guest reviews" ON public.guest_reviews
+  FOR SELECT USING (public.has_property_access(property_id));
+
+CREATE POLICY "Reservation editors can manage guest reviews" ON public.guest_reviews
+  FOR ALL USING (public.has_property_capability(property_id, 'edit_reservations'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_reservations'));
+
+CREATE TRIGGER update_guest_reviews_updated_at
+  BEFORE UPDATE ON public.guest_reviews
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Raw counts for one property and night. Rates and scores are derived from
+-- these on read so that several properties can be summed into one series.
+CREATE TABLE public.property_metric_snapshots (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  snapshot_date date NOT NULL,
+  rooms_available integer NOT NULL DEFAULT 0,
+  room_nights_sold integer NOT NULL DEFAULT 0,
+  room_revenue numeric(12,2) NOT NULL DEFAULT 0,
+  -- Reviews received in the 90 days up to snapshot_date
+  review_count integer NOT NULL DEFAULT 0,
+  rating_sum integer NOT NULL DEFAULT 0,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (property_id, snapshot_date)
+);
+
+ALTER TABLE public.property_metric_snapshots ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view metric snapshots" ON public.property_metric_snapshots
+  FOR SELECT USING (public.has_property_access(property_id));
+
+-- Records the night of p_date for every active property. Re-running a date
+-- overwrites its snapshot, so late changes can be picked up by capturing again.
+-- Scheduler only; the dashboard computes tonight's figures itself.
+CREATE OR REPLACE FUNCTION public.capture_property_metrics(
+  p_date date DEFAULT CURRENT_DATE - 1,
+  p_property_id uuid DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  INSERT INTO public.property_metric_snapshots
+    (property_id, snapshot_date, rooms_available, room_nights_sold, room_revenue, review_count, rating_sum)
+  SELECT p.id, p_date,
+         -- Properties without rooms are sold as a single unit
+         CASE WHEN rm.total = 0 THEN 1 ELSE rm.total - rm.out_of_order END,
+         COALESCE(s.sold, 0),
+         COALESCE(s.revenue, 0),
+         COALESCE(rv.review_count, 0),
+         COALESCE(rv.rating_sum, 0)
+  FROM public.properties p
+  CROSS JOIN LATERAL (
+    SELECT count(*) AS total,
+           count(*) FILTER (WHERE EXISTS (
+             SELECT 1 FROM public.maintenance_tickets t
+             WHERE t.room_id = r.id
+               AND t.out_of_order_from <= p_date AND t.out_of_order_to > p_date
+               AND (t.resolved_at IS NULL OR t.resolved_at::date > p_date)
+           )) AS out_of_order
+    FROM public.rooms r
+    WHERE r.property_id = p.id AND r.is_active
+  ) rm
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS sold,
+           round(sum(res.total_price / GREATEST(res.check_out - res.check_in, 1)), 2) AS revenue
+    FROM public.reservations res
+    WHERE res.property_id = p.id
+      AND res.status IS DISTINCT FROM 'cancelled'
+      AND res.check_in <= p_date AND res.check_out > p_date
+  ) s ON true
+  LEFT JOIN LATERAL (
+    SELECT count(*) AS review_count, sum(g.rating) AS rating_sum
+    FROM public.guest_reviews g
+    WHERE g.property_id = p.id
+      AND g.reviewed_at > p_date - 90 AND g.reviewed_at <= p_date
+  ) rv ON true
+  WHERE p.is_active
+    AND (p_property_id IS NULL OR p.id = p_property_id)
+  ON CONFLICT (property_id, snapshot_date) DO UPDATE
+  SET rooms_available = EXCLUDED.rooms_available,
+      room_nights_sold = EXCLUDED.room_nights_sold,
+      room_revenue = EXCLUDED.room_revenue,
+      review_count = EXCLUDED.review_count,
+      rating_sum = EXCLUDED.rating_sum,
+      created_at = now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.capture_property_metrics(date, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Seed the last 30 nights so the history is not empty on day one
+SELECT public.capture_property_metrics(d::date)
+FROM generate_series(CURRENT_DATE - 30, CURRENT_DATE - 1, interval '1 day') AS d;
+
+SELECT cron.schedule(
+  'capture-property-metrics',
+  '15 0 * * *',
+  $$ SELECT public.capture_property_metrics(CURRENT_DATE - 1) $$
+);
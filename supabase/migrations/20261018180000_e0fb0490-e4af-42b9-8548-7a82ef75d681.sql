@@ -0,0 +1,223 @@
+-- Guest profiles shared by all properties of one owner. Reservations keep
+-- their guest_name/email/phone snapshot and link to the profile.
+CREATE OR REPLACE FUNCTION public.normalize_phone(p_phone text)
+RETURNS text AS $$
+  SELECT NULLIF(regexp_replace(COALESCE(p_phone, ''), '[^0-9+]', '', 'g'), '');
+$$ LANGUAGE sql IMMUTABLE SET search_path = public;
+
+CREATE TABLE public.guests (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  -- Owner of the properties the guest stayed at
+  owner_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  full_name text NOT NULL,
+  email text,
+  phone text,
+  phone_normalized text GENERATED ALWAYS AS (public.normalize_phone(phone)) STORED,
+  tags text[] NOT NULL DEFAULT '{}',
+  preferences text,
+  notes text,
+  date_of_birth date,
+  nationality text,
+  address text,
+  document_type text CHECK (document_type IN ('passport', 'id_card', 'driving_license', 'other')),
+  document_number text,
+  document_expiry date,
+  total_stays integer NOT NULL DEFAULT 0,
+  total_nights integer NOT NULL DEFAULT 0,
+  total_revenue numeric(12,2) NOT NULL DEFAULT 0,
+  first_stay_at date,
+  last_stay_at date,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+-- One profile per email and per phone number within an owner's guest book
+CREATE UNIQUE INDEX guests_owner_email_key ON public.guests(owner_id, lower(email)) WHERE email IS NOT NULL;
+CREATE UNIQUE INDEX guests_owner_phone_key ON public.guests(owner_id, phone_normalized) WHERE phone_normalized IS NOT NULL;
+CREATE INDEX idx_guests_owner_name ON public.guests(owner_id, full_name);
+
+ALTER TABLE public.reservations
+ADD COLUMN guest_id uuid REFERENCES public.guests(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_reservations_guest_id ON public.reservations(guest_id);
+
+-- Owners see their whole guest book; team members only see guests with a
+-- reservation at a property where they hold the capability.
+CREATE OR REPLACE FUNCTION public.has_guest_access(p_guest_id uuid, p_owner_id uuid, p_capability text)
+RETURNS boolean AS $$
+  SELECT p_owner_id = auth.uid() OR EXISTS (
+    SELECT 1 FROM public.reservations
+    WHERE guest_id = p_guest_id
+      AND public.has_property_capability(property_id, p_capability)
+  );
+$$ LANGUAGE sql STABLE SECURITY DEFINER SET search_path = public;
+
+ALTER TABLE public.guests ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Team members can view guests" ON public.guests
+  FOR SELECT USING (public.has_guest_access(id, owner_id, 'view_reservations'));
+
+-- Team members' guests are created from their reservations (resolve_guest)
+CREATE POLICY "Owners can create guests" ON public.guests
+  FOR INSERT WITH CHECK (owner_id = auth.uid());
+
+CREATE POLICY "Reservation editors can update guests" ON public.guests
+  FOR UPDATE USING (public.has_guest_access(id, owner_id, 'edit_reservations'));
+
+CREATE POLICY "Owners can delete guests" ON public.guests
+  FOR DELETE USING (owner_id = auth.uid());
+
+CREATE TRIGGER update_guests_updated_at
+  BEFORE UPDATE ON public.guests
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Finds the owner's guest by email, then by phone, or creates one. Missing
+-- contact details on a matched profile are filled in from the reservation.
+CREATE OR REPLACE FUNCTION public.resolve_guest(
+  p_owner_id uuid,
+  p_name text,
+  p_email text,
+  p_phone text
+)
+RETURNS uuid AS $$
+DECLARE
+  v_email text := NULLIF(lower(trim(p_email)), '');
+  v_phone text := public.normalize_phone(p_phone);
+  v_guest_id uuid;
+BEGIN
+  IF v_email IS NOT NULL THEN
+    SELECT id INTO v_guest_id FROM public.guests
+    WHERE owner_id = p_owner_id AND lower(email) = v_email;
+  END IF;
+
+  IF v_guest_id IS NULL AND v_phone IS NOT NULL THEN
+    SELECT id INTO v_guest_id FROM public.guests
+    WHERE owner_id = p_owner_id AND phone_normalized = v_phone;
+  END IF;
+
+  IF v_guest_id IS NULL THEN
+    INSERT INTO public.guests (owner_id, full_name, email, phone)
+    VALUES (p_owner_id, COALESCE(NULLIF(trim(p_name), ''), 'Guest'), v_email, NULLIF(trim(p_phone), ''))
+    RETURNING id INTO v_guest_id;
+  ELSE
+    UPDATE public.guests SET email = v_email
+    WHERE id = v_guest_id AND email IS NULL AND v_email IS NOT NULL;
+
+    -- A profile matched by email may lack a phone that another profile holds
+    UPDATE public.guests SET phone = trim(p_phone)
+    WHERE id = v_guest_id AND phone IS NULL AND v_phone IS NOT NULL
+      AND NOT EXISTS (
+        SELECT 1 FROM public.guests
+        WHERE owner_id = p_owner_id AND phone_normalized = v_phone
+      );
+  END IF;
+
+  RETURN v_guest_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Only the reservation triggers below may create guests on someone's behalf
+REVOKE EXECUTE ON FUNCTION public.resolve_guest(uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+
+-- Links new reservations to a guest profile. The link is kept when contact
+-- details are edited later, so fixing a typo never moves a stay to another
+-- profile; choosing a different guest is how a reservation is relinked. An
+-- explicitly chosen guest must belong to the same owner and, for staff, be
+-- one they can see.
+CREATE OR REPLACE FUNCTION public.link_reservation_guest()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_owner_id uuid;
+BEGIN
+  SELECT owner_id INTO v_owner_id FROM public.properties WHERE id = NEW.property_id;
+
+  IF NEW.guest_id IS NOT NULL THEN
+    IF (TG_OP = 'INSERT' OR NEW.guest_id IS DISTINCT FROM OLD.guest_id) AND NOT EXISTS (
+      SELECT 1 FROM public.guests
+      WHERE id = NEW.guest_id AND owner_id = v_owner_id
+        -- Edge functions and the scheduler write without a signed-in user
+        AND (auth.uid() IS NULL OR public.has_guest_access(id, owner_id, 'view_reservations'))
+    ) THEN
+      RAISE EXCEPTION 'Guest % does not belong to the owner of property %', NEW.guest_id, NEW.property_id
+        USING ERRCODE = '23503';
+    END IF;
+    RETURN NEW;
+  END IF;
+
+  IF TG_OP = 'INSERT' THEN
+    NEW.guest_id := public.resolve_guest(v_owner_id, NEW.guest_name, NEW.guest_email, NEW.guest_phone);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reservations_link_guest
+  BEFORE INSERT OR UPDATE OF guest_id ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.link_reservation_guest();
+
+-- Lifetime stats count every reservation that was not cancelled
+CREATE OR REPLACE FUNCTION public.refresh_guest_stats(p_guest_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE public.guests g
+  SET total_stays = s.stays,
+      total_nights = s.nights,
+      total_revenue = s.revenue,
+      first_stay_at = s.first_stay,
+      last_stay_at = s.last_stay
+  FROM (
+    SELECT count(*) AS stays,
+           COALESCE(sum(check_out - check_in), 0) AS nights,
+           COALESCE(sum(total_price), 0) AS revenue,
+           min(check_in) AS first_stay,
+           max(check_in) AS last_stay
+    FROM public.reservations
+    WHERE guest_id = p_guest_id
+      AND status IS DISTINCT FROM 'cancelled'
+  ) s
+  WHERE g.id = p_guest_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.update_guest_stats()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'DELETE' OR (TG_OP = 'UPDATE' AND OLD.guest_id IS DISTINCT FROM NEW.guest_id) THEN
+    IF OLD.guest_id IS NOT NULL THEN
+      PERFORM public.refresh_guest_stats(OLD.guest_id);
+    END IF;
+  END IF;
+
+  IF TG_OP <> 'DELETE' AND NEW.guest_id IS NOT NULL THEN
+    PERFORM public.refresh_guest_stats(NEW.guest_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reservations_update_guest_stats
+  AFTER INSERT OR DELETE OR UPDATE OF guest_id, status, total_price, check_in, check_out ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.update_guest_stats();
+
+-- Build guest profiles for existing reservations, oldest first so the first
+-- booking's name is kept
+DO $$
+DECLARE
+  r record;
+BEGIN
+  FOR r IN
+    SELECT res.id, res.guest_name, res.guest_email, res.guest_phone, prop.owner_id
+    FROM public.reservations res
+    JOIN public.properties prop ON prop.id = res.property_id
+    WHERE res.guest_id IS NULL
+    ORDER BY res.created_at
+  LOOP
+    UPDATE public.reservations
+    SET guest_id = public.resolve_guest(r.owner_id, r.guest_name, r.guest_email, r.guest_phone)
+    WHERE id = r.id;
+  END LOOP;
+END;
+$$;
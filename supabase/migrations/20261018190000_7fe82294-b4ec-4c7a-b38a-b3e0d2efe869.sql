@@ -0,0 +1,283 @@
+-- Per-reservation folio: charges posted to the guest's account and the
+-- payments received against it.
+CREATE TABLE public.folio_items (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reservation_id uuid NOT NULL REFERENCES public.reservations(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  item_type text NOT NULL CHECK (item_type IN ('room', 'extra', 'fee', 'tax', 'discount', 'adjustment')),
+  description text NOT NULL,
+  service_date date NOT NULL DEFAULT CURRENT_DATE,
+  quantity numeric(10,2) NOT NULL DEFAULT 1 CHECK (quantity > 0),
+  unit_price numeric(12,2) NOT NULL,
+  amount numeric(12,2) GENERATED ALWAYS AS (round(quantity * unit_price, 2)) STORED,
+  -- Room nights wait as pending until the night has passed; everything else
+  -- is posted when entered. Posted items can only be voided.
+  status text NOT NULL DEFAULT 'posted' CHECK (status IN ('pending', 'posted', 'void')),
+  posted_at timestamp with time zone DEFAULT now(),
+  voided_at timestamp with time zone,
+  void_reason text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT folio_items_discount_check CHECK (item_type <> 'discount' OR unit_price <= 0)
+);
+
+CREATE INDEX idx_folio_items_reservation ON public.folio_items(reservation_id);
+CREATE INDEX idx_folio_items_property_date ON public.folio_items(property_id, service_date) WHERE status = 'posted';
+
+CREATE TABLE public.payments (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reservation_id uuid NOT NULL REFERENCES public.reservations(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  payment_type text NOT NULL DEFAULT 'payment' CHECK (payment_type IN ('deposit', 'payment', 'refund')),
+  method text NOT NULL CHECK (method IN ('cash', 'card', 'bank_transfer', 'online', 'voucher', 'other')),
+  -- Always positive; refunds reduce the amount paid
+  amount numeric(12,2) NOT NULL CHECK (amount > 0),
+  paid_at date NOT NULL DEFAULT CURRENT_DATE,
+  reference text,
+  notes text,
+  recorded_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_payments_reservation ON public.payments(reservation_id);
+
+ALTER TABLE public.folio_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view folio items" ON public.folio_items
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Reservation editors can manage folio items" ON public.folio_items
+  FOR ALL USING (public.has_property_capability(property_id, 'edit_reservations'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_reservations'));
+
+CREATE POLICY "Reservation viewers can view payments" ON public.payments
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Reservation editors can manage payments" ON public.payments
+  FOR ALL USING (public.has_property_capability(property_id, 'edit_reservations'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_reservations'));
+
+CREATE TRIGGER update_folio_items_updated_at
+  BEFORE UPDATE ON public.folio_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER update_payments_updated_at
+  BEFORE UPDATE ON public.payments
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Ledger rows always belong to their reservation's property
+CREATE OR REPLACE FUNCTION public.set_ledger_property()
+RETURNS TRIGGER AS $$
+BEGIN
+  SELECT property_id INTO NEW.property_id
+  FROM public.reservations
+  WHERE id = NEW.reservation_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER folio_items_set_property
+  BEFORE INSERT OR UPDATE OF reservation_id ON public.folio_items
+  FOR EACH ROW EXECUTE FUNCTION public.set_ledger_property();
+
+CREATE TRIGGER payments_set_property
+  BEFORE INSERT OR UPDATE OF reservation_id ON public.payments
+  FOR EACH ROW EXECUTE FUNCTION public.set_ledger_property();
+
+-- Posted charges are immutable apart from voiding them. Deleting the whole
+-- reservation still removes its folio.
+CREATE OR REPLACE FUNCTION public.protect_posted_folio_items()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'pending' THEN
+    IF TG_OP = 'UPDATE' AND NEW.status = 'posted' THEN
+      NEW.posted_at := now();
+    END IF;
+    RETURN COALESCE(NEW, OLD);
+  END IF;
+
+  IF TG_OP = 'DELETE' THEN
+    IF NOT EXISTS (SELECT 1 FROM public.reservations WHERE id = OLD.reservation_id) THEN
+      RETURN OLD;
+    END IF;
+    RAISE EXCEPTION 'Posted folio items cannot be deleted; void them instead';
+  END IF;
+
+  IF OLD.status = 'posted' AND NEW.status = 'void'
+     AND NEW.item_type = OLD.item_type
+     AND NEW.quantity = OLD.quantity
+     AND NEW.unit_price = OLD.unit_price
+     AND NEW.service_date = OLD.service_date THEN
+    NEW.voided_at := now();
+    RETURN NEW;
+  END IF;
+
+  IF OLD.status = 'posted' AND NEW.status = 'posted'
+     AND NEW.item_type = OLD.item_type
+     AND NEW.quantity = OLD.quantity
+     AND NEW.unit_price = OLD.unit_price
+     AND NEW.service_date = OLD.service_date THEN
+    -- Description fixes are allowed
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Posted folio items cannot be changed; void them instead';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER folio_items_protect_posted
+  BEFORE UPDATE OR DELETE ON public.folio_items
+  FOR EACH ROW EXECUTE FUNCTION public.protect_posted_folio_items();
+
+-- Keeps the pending room-night charges in line with the reservation. Nights
+-- already posted stay as they are and the rest of total_price is spread over
+-- the remaining nights. Checking out posts everything still pending.
+CREATE OR REPLACE FUNCTION public.sync_room_charges(p_reservation_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+  v_remaining numeric(12,2);
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id;
+
+  DELETE FROM public.folio_items
+  WHERE reservation_id = p_reservation_id
+    AND item_type = 'room'
+    AND status = 'pending';
+
+  IF v_reservation.id IS NULL OR v_reservation.status = 'cancelled' THEN
+    RETURN;
+  END IF;
+
+  SELECT v_reservation.total_price - COALESCE(sum(amount), 0) INTO v_remaining
+  FROM public.folio_items
+  WHERE reservation_id = p_reservation_id AND item_type = 'room' AND status = 'posted';
+
+  -- The last open night absorbs the rounding difference
+  INSERT INTO public.folio_items
+    (reservation_id, property_id, item_type, description, service_date, unit_price, status, posted_at)
+  SELECT p_reservation_id, v_reservation.property_id, 'room', 'Accommodation', o.night,
+         CASE WHEN o.n = o.nights
+           THEN v_remaining - round(v_remaining / o.nights, 2) * (o.nights - 1)
+           ELSE round(v_remaining / o.nights, 2)
+         END,
+         'pending', NULL
+  FROM (
+    SELECT d::date AS night,
+           row_number() OVER (ORDER BY d) AS n,
+           count(*) OVER () AS nights
+    FROM generate_series(v_reservation.check_in, v_reservation.check_out - 1, interval '1 day') AS d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.folio_items f
+      WHERE f.reservation_id = p_reservation_id
+        AND f.item_type = 'room'
+        AND f.status = 'posted'
+        AND f.service_date = d::date
+    )
+  ) o;
+
+  IF v_reservation.status = 'checked_out' THEN
+    UPDATE public.folio_items
+    SET status = 'posted'
+    WHERE reservation_id = p_reservation_id AND status = 'pending';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.sync_room_charges(uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.sync_reservation_folio()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.sync_room_charges(NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reservations_sync_folio
+  AFTER INSERT OR UPDATE OF check_in, check_out, total_price, status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.sync_reservation_folio();
+
+-- Night audit: posts pending charges for nights up to p_date, for every
+-- property given none. Scheduler only; see run_night_audit.
+CREATE OR REPLACE FUNCTION public.post_folio_charges(
+  p_date date DEFAULT CURRENT_DATE - 1,
+  p_property_id uuid DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.folio_items f
+  SET status = 'posted'
+  FROM public.reservations r
+  WHERE r.id = f.reservation_id
+    AND f.status = 'pending'
+    AND f.service_date <= p_date
+    AND r.status IS DISTINCT FROM 'cancelled'
+    AND (p_property_id IS NULL OR f.property_id = p_property_id);
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.post_folio_charges(date, uuid) FROM PUBLIC, anon, authenticated;
+
+-- Manual night audit for one property. Only nights that have passed can be
+-- posted, since posted charges can no longer change.
+CREATE OR REPLACE FUNCTION public.run_night_audit(
+  p_property_id uuid,
+  p_date date DEFAULT CURRENT_DATE - 1
+)
+RETURNS integer AS $$
+BEGIN
+  IF NOT public.has_property_capability(p_property_id, 'edit_reservations') THEN
+    RAISE EXCEPTION 'Property not found' USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_date >= CURRENT_DATE THEN
+    RAISE EXCEPTION 'Only nights that have passed can be posted' USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN public.post_folio_charges(p_date, p_property_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Charges count unless voided, whether already posted or still pending
+CREATE VIEW public.reservation_balances WITH (security_invoker = true) AS
+SELECT r.id AS reservation_id,
+       r.property_id,
+       COALESCE(f.charges, 0)::numeric(12,2) AS charges,
+       COALESCE(f.posted_charges, 0)::numeric(12,2) AS posted_charges,
+       COALESCE(p.paid, 0)::numeric(12,2) AS paid,
+       (COALESCE(f.charges, 0) - COALESCE(p.paid, 0))::numeric(12,2) AS balance
+FROM public.reservations r
+LEFT JOIN (
+  SELECT reservation_id,
+         sum(amount) FILTER (WHERE status <> 'void') AS charges,
+         sum(amount) FILTER (WHERE status = 'posted') AS posted_charges
+  FROM public.folio_items
+  GROUP BY reservation_id
+) f ON f.reservation_id = r.id
+LEFT JOIN (
+  SELECT reservation_id,
+         sum(CASE WHEN payment_type = 'refund' THEN -amount ELSE amount END) AS paid
+  FROM public.payments
+  GROUP BY reservation_id
+) p ON p.reservation_id = r.id;
+
+-- Open folios for existing reservations and post the nights already past
+SELECT public.sync_room_charges(id) FROM public.reservations;
+SELECT public.post_folio_charges(CURRENT_DATE - 1);
+
+SELECT cron.schedule(
+  'post-folio-charges',
+  '30 0 * * *',
+  $$ SELECT public.post_folio_charges(CURRENT_DATE - 1) $$
+);
@@ -0,0 +1,459 @@
+-- Invoicing: per-property seller details and VAT rates, numbering series and
+-- an archive of issued documents that can no longer be changed.
+CREATE TABLE public.invoice_settings (
+  property_id uuid NOT NULL PRIMARY KEY REFERENCES public.properties(id) ON DELETE CASCADE,
+  seller_name text NOT NULL,
+  seller_address text,
+  seller_tax_id text,
+  seller_vat_id text,
+  seller_email text,
+  bank_account text,
+  vat_payer boolean NOT NULL DEFAULT true,
+  -- Folio amounts include VAT; these rates split them into net and VAT
+  accommodation_vat_rate numeric(5,2) NOT NULL DEFAULT 0 CHECK (accommodation_vat_rate >= 0),
+  default_vat_rate numeric(5,2) NOT NULL DEFAULT 0 CHECK (default_vat_rate >= 0),
+  payment_terms_days integer NOT NULL DEFAULT 14 CHECK (payment_terms_days >= 0),
+  footer_note text,
+  -- Number format of amounts on documents, e.g. cs-CZ for "1 234,50 Kč"
+  locale text NOT NULL DEFAULT 'en-US',
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE TABLE public.invoice_series (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  document_type text NOT NULL DEFAULT 'invoice' CHECK (document_type IN ('invoice', 'credit_note')),
+  prefix text NOT NULL DEFAULT '',
+  padding integer NOT NULL DEFAULT 4 CHECK (padding BETWEEN 1 AND 10),
+  -- Yearly series put the year after the prefix and restart at 1 each year
+  reset_yearly boolean NOT NULL DEFAULT true,
+  number_year integer,
+  next_number integer NOT NULL DEFAULT 1 CHECK (next_number > 0),
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_invoice_series_default
+  ON public.invoice_series(property_id, document_type) WHERE is_default;
+
+CREATE TABLE public.invoices (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE RESTRICT,
+  reservation_id uuid REFERENCES public.reservations(id) ON DELETE SET NULL,
+  series_id uuid NOT NULL REFERENCES public.invoice_series(id) ON DELETE RESTRICT,
+  document_type text NOT NULL CHECK (document_type IN ('invoice', 'credit_note')),
+  invoice_number text NOT NULL,
+  -- Credit notes point at the invoice they cancel
+  credited_invoice_id uuid REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  issue_date date NOT NULL,
+  supply_date date NOT NULL,
+  due_date date NOT NULL,
+  currency text NOT NULL,
+  locale text NOT NULL,
+  seller_name text NOT NULL,
+  seller_address text,
+  seller_tax_id text,
+  seller_vat_id text,
+  seller_email text,
+  bank_account text,
+  vat_payer boolean NOT NULL,
+  buyer_name text NOT NULL,
+  buyer_address text,
+  buyer_tax_id text,
+  buyer_vat_id text,
+  buyer_email text,
+  subtotal numeric(12,2) NOT NULL,
+  vat_total numeric(12,2) NOT NULL,
+  total numeric(12,2) NOT NULL,
+  notes text,
+  footer_note text,
+  issued_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  UNIQUE (property_id, invoice_number)
+);
+
+CREATE INDEX idx_invoices_reservation ON public.invoices(reservation_id);
+CREATE INDEX idx_invoices_property_date ON public.invoices(property_id, issue_date);
+CREATE INDEX idx_invoices_series_date ON public.invoices(series_id, issue_date);
+
+CREATE TABLE public.invoice_lines (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  invoice_id uuid NOT NULL REFERENCES public.invoices(id) ON DELETE RESTRICT,
+  position integer NOT NULL,
+  item_type text NOT NULL,
+  description text NOT NULL,
+  quantity numeric(10,2) NOT NULL,
+  unit_price numeric(12,2) NOT NULL,
+  vat_rate numeric(5,2) NOT NULL,
+  net_amount numeric(12,2) NOT NULL,
+  vat_amount numeric(12,2) NOT NULL,
+  total_amount numeric(12,2) NOT NULL,
+  UNIQUE (invoice_id, position)
+);
+
+ALTER TABLE public.invoice_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_series ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoices ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.invoice_lines ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view invoice settings" ON public.invoice_settings
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Property owners can manage invoice settings" ON public.invoice_settings
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = invoice_settings.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reservation viewers can view invoice series" ON public.invoice_series
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Property owners can manage invoice series" ON public.invoice_series
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = invoice_series.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+-- Invoices are only written by issue_invoice() and issue_credit_note()
+CREATE POLICY "Reservation viewers can view invoices" ON public.invoices
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Reservation viewers can view invoice lines" ON public.invoice_lines
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.invoices
+      WHERE invoices.id = invoice_lines.invoice_id
+      AND public.has_property_capability(invoices.property_id, 'view_reservations')
+    )
+  );
+
+CREATE TRIGGER update_invoice_settings_updated_at
+  BEFORE UPDATE ON public.invoice_settings
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER update_invoice_series_updated_at
+  BEFORE UPDATE ON public.invoice_series
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Issued documents are final. The only change allowed is losing the link to
+-- a reservation that has been deleted.
+CREATE OR REPLACE FUNCTION public.protect_issued_invoices()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND TG_TABLE_NAME = 'invoices'
+     AND OLD.reservation_id IS NOT NULL AND NEW.reservation_id IS NULL
+     AND (to_jsonb(NEW) - 'reservation_id') = (to_jsonb(OLD) - 'reservation_id') THEN
+    RETURN NEW;
+  END IF;
+
+  RAISE EXCEPTION 'Issued invoices cannot be changed or deleted; issue a credit note instead';
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER invoices_protect_issued
+  BEFORE UPDATE OR DELETE ON public.invoices
+  FOR EACH ROW EXECUTE FUNCTION public.protect_issued_invoices();
+
+CREATE TRIGGER invoice_lines_protect_issued
+  BEFORE UPDATE OR DELETE ON public.invoice_lines
+  FOR EACH ROW EXECUTE FUNCTION public.protect_issued_invoices();
+
+-- Takes the next number of a series, locking it so concurrent issues never
+-- share a number
+CREATE OR REPLACE FUNCTION public.next_invoice_number(p_series_id uuid, p_issue_date date)
+RETURNS text AS $$
+DECLARE
+  v_series public.invoice_series%ROWTYPE;
+  v_year integer := extract(year FROM p_issue_date)::integer;
+  v_number integer;
+  v_last_issued date;
+BEGIN
+  SELECT * INTO v_series FROM public.invoice_series WHERE id = p_series_id FOR UPDATE;
+
+  IF v_series.id IS NULL OR NOT v_series.is_active THEN
+    RAISE EXCEPTION 'Invoice series not found or inactive';
+  END IF;
+
+  -- Numbers follow the order of issue dates, so a document cannot be dated
+  -- before the last one in its series
+  SELECT max(issue_date) INTO v_last_issued FROM public.invoices WHERE series_id = p_series_id;
+  IF p_issue_date < v_last_issued THEN
+    RAISE EXCEPTION 'Series % last issued a document on %; later documents cannot be dated earlier',
+      v_series.name, v_last_issued
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- Yearly numbers are only kept for the current year; a document dated in
+  -- an earlier one would repeat a number already used
+  IF v_series.reset_yearly AND v_series.number_year > v_year THEN
+    RAISE EXCEPTION 'Series % has moved on to %; documents can no longer be dated in %',
+      v_series.name, v_series.number_year, v_year
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  -- A new series continues from next_number, e.g. when moving from another system
+  v_number := v_series.next_number;
+  IF v_series.reset_yearly AND v_series.number_year <> v_year THEN
+    v_number := 1;
+  END IF;
+
+  UPDATE public.invoice_series
+  SET next_number = v_number + 1,
+      number_year = v_year
+  WHERE id = p_series_id;
+
+  RETURN v_series.prefix
+    || CASE WHEN v_series.reset_yearly THEN v_year::text ELSE '' END
+    || lpad(v_number::text, v_series.padding, '0');
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.next_invoice_number(uuid, date) FROM PUBLIC, anon, authenticated;
+
+-- Invoice lines for everything on a folio that is not voided. Identical
+-- charges are grouped into one line, e.g. nights sold at the same rate.
+CREATE OR REPLACE FUNCTION public.folio_invoice_lines(
+  p_reservation_id uuid,
+  p_vat_payer boolean,
+  p_accommodation_vat_rate numeric,
+  p_default_vat_rate numeric
+)
+RETURNS TABLE (
+  line_position integer,
+  item_type text,
+  description text,
+  quantity numeric,
+  unit_price numeric,
+  vat_rate numeric,
+  net_amount numeric,
+  vat_amount numeric,
+  total_amount numeric
+) AS $$
+  SELECT (row_number() OVER (ORDER BY l.first_date, l.item_type, l.description))::integer,
+         l.item_type, l.description, l.quantity, l.unit_price, l.vat_rate,
+         round(l.total * 100 / (100 + l.vat_rate), 2),
+         l.total - round(l.total * 100 / (100 + l.vat_rate), 2),
+         l.total
+  FROM (
+    SELECT f.item_type, f.description, f.unit_price,
+           sum(f.quantity) AS quantity,
+           sum(f.amount) AS total,
+           min(f.service_date) AS first_date,
+           CASE
+             WHEN NOT p_vat_payer OR f.item_type = 'tax' THEN 0
+             WHEN f.item_type = 'room' THEN p_accommodation_vat_rate
+             ELSE p_default_vat_rate
+           END AS vat_rate
+    FROM public.folio_items f
+    WHERE f.reservation_id = p_reservation_id AND f.status <> 'void'
+    GROUP BY f.item_type, f.description, f.unit_price
+  ) l;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Issues an invoice for the reservation's folio
+CREATE OR REPLACE FUNCTION public.issue_invoice(
+  p_reservation_id uuid,
+  p_series_id uuid DEFAULT NULL,
+  p_buyer_name text DEFAULT NULL,
+  p_buyer_address text DEFAULT NULL,
+  p_buyer_tax_id text DEFAULT NULL,
+  p_buyer_vat_id text DEFAULT NULL,
+  p_buyer_email text DEFAULT NULL,
+  p_notes text DEFAULT NULL,
+  p_issue_date date DEFAULT CURRENT_DATE
+)
+RETURNS uuid AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+  v_settings public.invoice_settings%ROWTYPE;
+  v_series_id uuid := p_series_id;
+  v_invoice_id uuid;
+  v_subtotal numeric(12,2);
+  v_vat_total numeric(12,2);
+  v_total numeric(12,2);
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id;
+
+  IF v_reservation.id IS NULL
+     OR NOT public.has_property_capability(v_reservation.property_id, 'edit_reservations') THEN
+    RAISE EXCEPTION 'Reservation not found';
+  END IF;
+
+  SELECT * INTO v_settings FROM public.invoice_settings WHERE property_id = v_reservation.property_id;
+  IF v_settings.property_id IS NULL THEN
+    RAISE EXCEPTION 'Set up invoicing details for this property first';
+  END IF;
+
+  IF v_series_id IS NULL THEN
+    SELECT id INTO v_series_id FROM public.invoice_series
+    WHERE property_id = v_reservation.property_id AND document_type = 'invoice' AND is_default AND is_active;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.invoice_series
+    WHERE id = v_series_id AND property_id = v_reservation.property_id AND document_type = 'invoice'
+  ) THEN
+    RAISE EXCEPTION 'Choose an invoice numbering series for this property';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.invoices i
+    WHERE i.reservation_id = p_reservation_id
+      AND i.document_type = 'invoice'
+      AND NOT EXISTS (SELECT 1 FROM public.invoices c WHERE c.credited_invoice_id = i.id)
+  ) THEN
+    RAISE EXCEPTION 'This reservation already has an invoice; issue a credit note before invoicing again';
+  END IF;
+
+  SELECT sum(net_amount), sum(vat_amount), sum(total_amount)
+  INTO v_subtotal, v_vat_total, v_total
+  FROM public.folio_invoice_lines(p_reservation_id, v_settings.vat_payer,
+    v_settings.accommodation_vat_rate, v_settings.default_vat_rate);
+
+  IF v_total IS NULL THEN
+    RAISE EXCEPTION 'The folio has no charges to invoice';
+  END IF;
+
+  INSERT INTO public.invoices (
+    property_id, reservation_id, series_id, document_type, invoice_number,
+    issue_date, supply_date, due_date, currency, locale,
+    seller_name, seller_address, seller_tax_id, seller_vat_id, seller_email, bank_account, vat_payer,
+    buyer_name, buyer_address, buyer_tax_id, buyer_vat_id, buyer_email,
+    subtotal, vat_total, total, notes, footer_note
+  )
+  SELECT v_reservation.property_id, p_reservation_id, v_series_id, 'invoice',
+         public.next_invoice_number(v_series_id, p_issue_date),
+         p_issue_date, LEAST(v_reservation.check_out, p_issue_date),
+         p_issue_date + v_settings.payment_terms_days,
+         COALESCE(p.currency, 'USD'), v_settings.locale,
+         v_settings.seller_name, v_settings.seller_address, v_settings.seller_tax_id,
+         v_settings.seller_vat_id, v_settings.seller_email, v_settings.bank_account, v_settings.vat_payer,
+         COALESCE(NULLIF(p_buyer_name, ''), v_reservation.guest_name),
+         COALESCE(NULLIF(p_buyer_address, ''), g.address),
+         NULLIF(p_buyer_tax_id, ''), NULLIF(p_buyer_vat_id, ''),
+         COALESCE(NULLIF(p_buyer_email, ''), v_reservation.guest_email),
+         v_subtotal, v_vat_total, v_total, NULLIF(p_notes, ''), v_settings.footer_note
+  FROM public.properties p
+  LEFT JOIN public.guests g ON g.id = v_reservation.guest_id
+  WHERE p.id = v_reservation.property_id
+  RETURNING id INTO v_invoice_id;
+
+  INSERT INTO public.invoice_lines
+    (invoice_id, position, item_type, description, quantity, unit_price, vat_rate, net_amount, vat_amount, total_amount)
+  SELECT v_invoice_id, l.line_position, l.item_type, l.description, l.quantity, l.unit_price,
+         l.vat_rate, l.net_amount, l.vat_amount, l.total_amount
+  FROM public.folio_invoice_lines(p_reservation_id, v_settings.vat_payer,
+    v_settings.accommodation_vat_rate, v_settings.default_vat_rate) l;
+
+  RETURN v_invoice_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancels an invoice in full with a credit note from the property's default
+-- credit note series
+CREATE OR REPLACE FUNCTION public.issue_credit_note(
+  p_invoice_id uuid,
+  p_reason text DEFAULT NULL,
+  p_issue_date date DEFAULT CURRENT_DATE
+)
+RETURNS uuid AS $$
+DECLARE
+  v_invoice public.invoices%ROWTYPE;
+  v_series_id uuid;
+  v_credit_note_id uuid;
+BEGIN
+  SELECT * INTO v_invoice FROM public.invoices WHERE id = p_invoice_id;
+
+  IF v_invoice.id IS NULL
+     OR NOT public.has_property_capability(v_invoice.property_id, 'edit_reservations') THEN
+    RAISE EXCEPTION 'Invoice not found';
+  END IF;
+
+  IF v_invoice.document_type <> 'invoice' THEN
+    RAISE EXCEPTION 'Only invoices can be credited';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.invoices WHERE credited_invoice_id = p_invoice_id) THEN
+    RAISE EXCEPTION 'Invoice % has already been credited', v_invoice.invoice_number;
+  END IF;
+
+  SELECT id INTO v_series_id FROM public.invoice_series
+  WHERE property_id = v_invoice.property_id AND document_type = 'credit_note' AND is_default AND is_active;
+
+  IF v_series_id IS NULL THEN
+    RAISE EXCEPTION 'Set up a default credit note series for this property first';
+  END IF;
+
+  INSERT INTO public.invoices (
+    property_id, reservation_id, series_id, document_type, invoice_number, credited_invoice_id,
+    issue_date, supply_date, due_date, currency, locale,
+    seller_name, seller_address, seller_tax_id, seller_vat_id, seller_email, bank_account, vat_payer,
+    buyer_name, buyer_address, buyer_tax_id, buyer_vat_id, buyer_email,
+    subtotal, vat_total, total, notes, footer_note
+  )
+  VALUES (
+    v_invoice.property_id, v_invoice.reservation_id, v_series_id, 'credit_note',
+    public.next_invoice_number(v_series_id, p_issue_date), p_invoice_id,
+    p_issue_date, p_issue_date, p_issue_date, v_invoice.currency, v_invoice.locale,
+    v_invoice.seller_name, v_invoice.seller_address, v_invoice.seller_tax_id,
+    v_invoice.seller_vat_id, v_invoice.seller_email, v_invoice.bank_account, v_invoice.vat_payer,
+    v_invoice.buyer_name, v_invoice.buyer_address, v_invoice.buyer_tax_id,
+    v_invoice.buyer_vat_id, v_invoice.buyer_email,
+    -v_invoice.subtotal, -v_invoice.vat_total, -v_invoice.total,
+    COALESCE(NULLIF(p_reason, ''), 'Cancels invoice ' || v_invoice.invoice_number),
+    v_invoice.footer_note
+  )
+  RETURNING id INTO v_credit_note_id;
+
+  INSERT INTO public.invoice_lines
+    (invoice_id, position, item_type, description, quantity, unit_price, vat_rate, net_amount, vat_amount, total_amount)
+  SELECT v_credit_note_id, position, item_type, description, -quantity, unit_price, vat_rate,
+         -net_amount, -vat_amount, -total_amount
+  FROM public.invoice_lines
+  WHERE invoice_id = p_invoice_id;
+
+  RETURN v_credit_note_id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Default series, so a property only needs its seller details to invoice
+CREATE OR REPLACE FUNCTION public.seed_invoice_series(p_property_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.invoice_series WHERE property_id = p_property_id) THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.invoice_series (property_id, name, document_type, prefix, is_default)
+  VALUES
+    (p_property_id, 'Invoices', 'invoice', 'INV', true),
+    (p_property_id, 'Credit notes', 'credit_note', 'CN', true);
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.properties_seed_invoice_series()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.seed_invoice_series(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER properties_seed_invoice_series
+  AFTER INSERT ON public.properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.properties_seed_invoice_series();
+
+SELECT public.seed_invoice_series(id) FROM public.properties;
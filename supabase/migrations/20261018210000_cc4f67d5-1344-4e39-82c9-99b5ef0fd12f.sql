@@ -0,0 +1,218 @@
+-- Local accommodation fees (city or tourist tax) charged to the folio from
+-- per-property rules.
+CREATE TABLE public.tax_rules (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  -- Flat rules charge `amount` per night; percentage rules charge `amount`
+  -- percent of the night's accommodation charge
+  calculation text NOT NULL DEFAULT 'flat' CHECK (calculation IN ('flat', 'percentage')),
+  basis text NOT NULL DEFAULT 'per_person' CHECK (basis IN ('per_person', 'per_room')),
+  amount numeric(12,2) NOT NULL CHECK (amount >= 0),
+  -- Guests younger than this are exempt
+  exempt_under_age integer CHECK (exempt_under_age > 0),
+  -- Only the first max_nights nights of a stay are taxed
+  max_nights integer CHECK (max_nights > 0),
+  valid_from date,
+  valid_to date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT tax_rules_validity_check CHECK (valid_to IS NULL OR valid_from IS NULL OR valid_to >= valid_from)
+);
+
+CREATE INDEX idx_tax_rules_property ON public.tax_rules(property_id) WHERE is_active;
+
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view tax rules" ON public.tax_rules
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Property owners can manage tax rules" ON public.tax_rules
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = tax_rules.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_tax_rules_updated_at
+  BEFORE UPDATE ON public.tax_rules
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Ages of the children included in guests_count, for age exemptions
+ALTER TABLE public.reservations
+  ADD COLUMN child_ages integer[] NOT NULL DEFAULT '{}';
+
+ALTER TABLE public.reservations
+  ADD CONSTRAINT reservations_child_ages_check
+  CHECK (cardinality(child_ages) <= COALESCE(guests_count, 1) AND 0 <= ALL (child_ages));
+
+ALTER TABLE public.folio_items
+  ADD COLUMN tax_rule_id uuid REFERENCES public.tax_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_folio_items_tax_rule ON public.folio_items(tax_rule_id) WHERE tax_rule_id IS NOT NULL;
+
+-- Replaces the reservation's pending tax charges with one line per rule and
+-- night. Nights already posted keep the tax they were posted with. Runs from
+-- the folio sync only; users go through recalculate_city_tax.
+CREATE OR REPLACE FUNCTION public.calculate_city_tax(p_reservation_id uuid)
+RETURNS numeric AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+  v_total numeric(12,2);
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id;
+
+  DELETE FROM public.folio_items
+  WHERE reservation_id = p_reservation_id
+    AND tax_rule_id IS NOT NULL
+    AND status = 'pending';
+
+  IF v_reservation.id IS NULL OR v_reservation.status = 'cancelled' THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO public.folio_items
+    (reservation_id, property_id, item_type, description, service_date, quantity, unit_price, status, posted_at, tax_rule_id)
+  SELECT p_reservation_id, v_reservation.property_id, 'tax', t.name, n.night,
+         CASE WHEN t.calculation = 'flat' AND t.basis = 'per_person' THEN liable.persons ELSE 1 END,
+         CASE WHEN t.calculation = 'flat' THEN t.amount
+           ELSE round(COALESCE(room.amount, 0) * t.amount / 100, 2)
+         END,
+         'pending', NULL, t.id
+  FROM public.tax_rules t
+  CROSS JOIN LATERAL (
+    SELECT d::date AS night, row_number() OVER (ORDER BY d) AS night_number
+    FROM generate_series(v_reservation.check_in, v_reservation.check_out - 1, interval '1 day') AS d
+  ) n
+  CROSS JOIN LATERAL (
+    SELECT COALESCE(v_reservation.guests_count, 1) - (
+      SELECT count(*) FROM unnest(v_reservation.child_ages) AS age
+      WHERE t.exempt_under_age IS NOT NULL AND age < t.exempt_under_age
+    ) AS persons
+  ) liable
+  LEFT JOIN LATERAL (
+    SELECT sum(f.amount) AS amount
+    FROM public.folio_items f
+    WHERE f.reservation_id = p_reservation_id
+      AND f.item_type = 'room'
+      AND f.status <> 'void'
+      AND f.service_date = n.night
+  ) room ON true
+  WHERE t.property_id = v_reservation.property_id
+    AND t.is_active
+    AND (t.valid_from IS NULL OR n.night >= t.valid_from)
+    AND (t.valid_to IS NULL OR n.night <= t.valid_to)
+    AND (t.max_nights IS NULL OR n.night_number <= t.max_nights)
+    AND (t.basis = 'per_room' OR t.calculation = 'percentage' OR liable.persons > 0)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.folio_items f
+      WHERE f.reservation_id = p_reservation_id
+        AND f.tax_rule_id = t.id
+        AND f.status = 'posted'
+        AND f.service_date = n.night
+    );
+
+  SELECT COALESCE(sum(amount), 0) INTO v_total
+  FROM public.folio_items
+  WHERE reservation_id = p_reservation_id AND tax_rule_id IS NOT NULL AND status <> 'void';
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_city_tax(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Re-applies the rules to stays that have not ended yet, after a rule change
+CREATE OR REPLACE FUNCTION public.recalculate_city_tax(p_property_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_reservation_id uuid;
+  v_count integer := 0;
+BEGIN
+  IF NOT public.has_property_capability(p_property_id, 'edit_reservations') THEN
+    RAISE EXCEPTION 'Property not found';
+  END IF;
+
+  FOR v_reservation_id IN
+    SELECT id FROM public.reservations
+    WHERE property_id = p_property_id
+      AND check_out > CURRENT_DATE
+      AND status IS DISTINCT FROM 'cancelled'
+      AND status IS DISTINCT FROM 'checked_out'
+  LOOP
+    PERFORM public.calculate_city_tax(v_reservation_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.recalculate_city_tax(uuid) FROM PUBLIC, anon;
+
+-- Room charges now recalculate the tax as well, before checkout posts
+-- everything that is still pending
+CREATE OR REPLACE FUNCTION public.sync_room_charges(p_reservation_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+  v_remaining numeric(12,2);
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id;
+
+  DELETE FROM public.folio_items
+  WHERE reservation_id = p_reservation_id
+    AND item_type = 'room'
+    AND status = 'pending';
+
+  IF v_reservation.id IS NULL OR v_reservation.status = 'cancelled' THEN
+    PERFORM public.calculate_city_tax(p_reservation_id);
+    RETURN;
+  END IF;
+
+  SELECT v_reservation.total_price - COALESCE(sum(amount), 0) INTO v_remaining
+  FROM public.folio_items
+  WHERE reservation_id = p_reservation_id AND item_type = 'room' AND status = 'posted';
+
+  -- The last open night absorbs the rounding difference
+  INSERT INTO public.folio_items
+    (reservation_id, property_id, item_type, description, service_date, unit_price, status, posted_at)
+  SELECT p_reservation_id, v_reservation.property_id, 'room', 'Accommodation', o.night,
+         CASE WHEN o.n = o.nights
+           THEN v_remaining - round(v_remaining / o.nights, 2) * (o.nights - 1)
+           ELSE round(v_remaining / o.nights, 2)
+         END,
+         'pending', NULL
+  FROM (
+    SELECT d::date AS night,
+           row_number() OVER (ORDER BY d) AS n,
+           count(*) OVER () AS nights
+    FROM generate_series(v_reservation.check_in, v_reservation.check_out - 1, interval '1 day') AS d
+    WHERE NOT EXISTS (
+      SELECT 1 FROM public.folio_items f
+      WHERE f.reservation_id = p_reservation_id
+        AND f.item_type = 'room'
+        AND f.status = 'posted'
+        AND f.service_date = d::date
+    )
+  ) o;
+
+  PERFORM public.calculate_city_tax(p_reservation_id);
+
+  IF v_reservation.status = 'checked_out' THEN
+    UPDATE public.folio_items
+    SET status = 'posted'
+    WHERE reservation_id = p_reservation_id AND status = 'pending';
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+DROP TRIGGER reservations_sync_folio ON public.reservations;
+
+CREATE TRIGGER reservations_sync_folio
+  AFTER INSERT OR UPDATE OF check_in, check_out, total_price, status, guests_count, child_ages ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.sync_reservation_folio();
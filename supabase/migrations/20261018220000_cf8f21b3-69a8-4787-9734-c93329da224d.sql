@@ -0,0 +1,252 @@
+-- Named cancellation policies with tiered penalties before arrival
+CREATE TABLE public.cancellation_policies (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  description text,
+  -- New reservations without a policy get the property's default one
+  is_default boolean NOT NULL DEFAULT false,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX idx_cancellation_policies_default
+  ON public.cancellation_policies(property_id) WHERE is_default;
+
+-- A tier applies when the guest cancels fewer than days_before days before
+-- check-in; a tier without days_before applies at any time. The tier closest
+-- to arrival wins.
+CREATE TABLE public.cancellation_policy_tiers (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  policy_id uuid NOT NULL REFERENCES public.cancellation_policies(id) ON DELETE CASCADE,
+  days_before integer CHECK (days_before >= 0),
+  penalty_type text NOT NULL CHECK (penalty_type IN ('percentage', 'nights', 'flat')),
+  penalty_value numeric(12,2) NOT NULL CHECK (penalty_value >= 0),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT cancellation_policy_tiers_percentage_check CHECK (penalty_type <> 'percentage' OR penalty_value <= 100)
+);
+
+CREATE INDEX idx_cancellation_policy_tiers_policy ON public.cancellation_policy_tiers(policy_id);
+
+ALTER TABLE public.cancellation_policies ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cancellation_policy_tiers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view cancellation policies" ON public.cancellation_policies
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Property owners can manage cancellation policies" ON public.cancellation_policies
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = cancellation_policies.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE POLICY "Reservation viewers can view cancellation policy tiers" ON public.cancellation_policy_tiers
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.cancellation_policies
+      WHERE cancellation_policies.id = cancellation_policy_tiers.policy_id
+      AND public.has_property_capability(cancellation_policies.property_id, 'view_reservations')
+    )
+  );
+
+CREATE POLICY "Property owners can manage cancellation policy tiers" ON public.cancellation_policy_tiers
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.cancellation_policies
+      JOIN public.properties ON properties.id = cancellation_policies.property_id
+      WHERE cancellation_policies.id = cancellation_policy_tiers.policy_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_cancellation_policies_updated_at
+  BEFORE UPDATE ON public.cancellation_policies
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+ALTER TABLE public.reservations
+  ADD COLUMN cancellation_policy_id uuid REFERENCES public.cancellation_policies(id) ON DELETE SET NULL,
+  ADD COLUMN cancelled_at timestamp with time zone,
+  ADD COLUMN cancellation_reason text,
+  ADD COLUMN cancellation_penalty numeric(12,2);
+
+CREATE INDEX idx_reservations_cancelled_at ON public.reservations(property_id, cancelled_at) WHERE cancelled_at IS NOT NULL;
+
+-- New reservations take the property's default policy, and any change to
+-- cancelled is timestamped, including ones made outside cancel_reservation()
+CREATE OR REPLACE FUNCTION public.apply_reservation_cancellation_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.cancellation_policy_id IS NULL THEN
+    SELECT id INTO NEW.cancellation_policy_id
+    FROM public.cancellation_policies
+    WHERE property_id = NEW.property_id AND is_default AND is_active;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'cancelled') THEN
+    NEW.cancelled_at := COALESCE(NEW.cancelled_at, now());
+  ELSIF NEW.status IS DISTINCT FROM 'cancelled' THEN
+    NEW.cancelled_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reservations_apply_cancellation_fields
+  BEFORE INSERT OR UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.apply_reservation_cancellation_fields();
+
+-- What cancelling on p_date would cost under the reservation's policy
+CREATE OR REPLACE FUNCTION public.cancellation_penalty(
+  p_reservation_id uuid,
+  p_date date DEFAULT CURRENT_DATE
+)
+RETURNS numeric AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+  v_tier public.cancellation_policy_tiers%ROWTYPE;
+  v_nights integer;
+  v_penalty numeric(12,2);
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id;
+
+  IF v_reservation.id IS NULL
+     OR NOT public.has_property_capability(v_reservation.property_id, 'view_reservations') THEN
+    RAISE EXCEPTION 'Reservation not found';
+  END IF;
+
+  SELECT t.* INTO v_tier
+  FROM public.cancellation_policy_tiers t
+  WHERE t.policy_id = v_reservation.cancellation_policy_id
+    AND (t.days_before IS NULL OR v_reservation.check_in - p_date < t.days_before)
+  ORDER BY t.days_before NULLS LAST
+  LIMIT 1;
+
+  IF v_tier.id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  v_nights := GREATEST(v_reservation.check_out - v_reservation.check_in, 1);
+
+  v_penalty := CASE v_tier.penalty_type
+    WHEN 'percentage' THEN v_reservation.total_price * v_tier.penalty_value / 100
+    WHEN 'nights' THEN v_reservation.total_price / v_nights * LEAST(v_tier.penalty_value, v_nights)
+    ELSE v_tier.penalty_value
+  END;
+
+  RETURN round(LEAST(v_penalty, v_reservation.total_price), 2);
+END;
+$$ LANGUAGE plpgsql STABLE SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.cancellation_penalty(uuid, date) FROM PUBLIC, anon;
+
+-- Cancels the reservation and posts the penalty to its folio. Pending nights
+-- and taxes are dropped by the folio sync when the status changes.
+CREATE OR REPLACE FUNCTION public.cancel_reservation(
+  p_reservation_id uuid,
+  p_reason text DEFAULT NULL,
+  p_waive_penalty boolean DEFAULT false
+)
+RETURNS numeric AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+  v_policy_name text;
+  v_penalty numeric(12,2) := 0;
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id FOR UPDATE;
+
+  IF v_reservation.id IS NULL
+     OR NOT public.has_property_capability(v_reservation.property_id, 'edit_reservations') THEN
+    RAISE EXCEPTION 'Reservation not found';
+  END IF;
+
+  IF v_reservation.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Reservation is already cancelled';
+  END IF;
+
+  IF v_reservation.status IN ('checked_in', 'checked_out') THEN
+    RAISE EXCEPTION 'Guests who have arrived cannot be cancelled; shorten the stay instead';
+  END IF;
+
+  IF NOT p_waive_penalty THEN
+    v_penalty := public.cancellation_penalty(p_reservation_id);
+  END IF;
+
+  UPDATE public.reservations
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      cancellation_reason = NULLIF(p_reason, ''),
+      cancellation_penalty = v_penalty
+  WHERE id = p_reservation_id;
+
+  IF v_penalty > 0 THEN
+    SELECT name INTO v_policy_name
+    FROM public.cancellation_policies
+    WHERE id = v_reservation.cancellation_policy_id;
+
+    INSERT INTO public.folio_items
+      (reservation_id, property_id, item_type, description, service_date, unit_price)
+    VALUES (
+      p_reservation_id, v_reservation.property_id, 'fee',
+      'Cancellation fee' || COALESCE(' (' || v_policy_name || ')', ''),
+      CURRENT_DATE, v_penalty
+    );
+  END IF;
+
+  RETURN v_penalty;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Cancellations made before this change keep their last update as the time
+UPDATE public.reservations
+SET cancelled_at = updated_at
+WHERE status = 'cancelled';
+
+-- Common policies to start from. Flexible is the default until the owner
+-- picks another one.
+CREATE OR REPLACE FUNCTION public.seed_cancellation_policies(p_property_id uuid)
+RETURNS void AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.cancellation_policies WHERE property_id = p_property_id) THEN
+    RETURN;
+  END IF;
+
+  WITH policies AS (
+    INSERT INTO public.cancellation_policies (property_id, name, description, is_default)
+    VALUES
+      (p_property_id, 'Flexible', 'Free cancellation until the day before arrival', true),
+      (p_property_id, 'Moderate', 'Free cancellation until 5 days before arrival', false),
+      (p_property_id, 'Non-refundable', 'The full stay is charged on cancellation', false)
+    RETURNING id, name
+  )
+  INSERT INTO public.cancellation_policy_tiers (policy_id, days_before, penalty_type, penalty_value)
+  SELECT p.id, t.days_before, t.penalty_type, t.penalty_value
+  FROM policies p
+  JOIN (VALUES
+    ('Flexible', 1, 'nights', 1),
+    ('Moderate', 5, 'percentage', 50),
+    ('Moderate', 1, 'percentage', 100),
+    ('Non-refundable', NULL, 'percentage', 100)
+  ) AS t(policy_name, days_before, penalty_type, penalty_value) ON t.policy_name = p.name;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.properties_seed_cancellation_policies()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.seed_cancellation_policies(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER properties_seed_cancellation_policies
+  AFTER INSERT ON public.properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.properties_seed_cancellation_policies();
+
+SELECT public.seed_cancellation_policies(id) FROM public.properties;
@@ -0,0 +1,347 @@
+-- Rate plans sell the same rooms under different terms. A plan is priced
+-- from its parent plan, or from the resolved base rate when it has none, with
+-- its own adjustment on top.
+CREATE TABLE public.rate_plans (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  -- Matches rooms.room_type; NULL offers the plan for every room type
+  room_type text,
+  name text NOT NULL,
+  description text,
+  parent_rate_plan_id uuid REFERENCES public.rate_plans(id) ON DELETE RESTRICT,
+  price_adjustment numeric(12,2) NOT NULL DEFAULT 0,
+  is_percentage boolean NOT NULL DEFAULT true,
+  cancellation_policy_id uuid REFERENCES public.cancellation_policies(id) ON DELETE SET NULL,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT rate_plans_parent_check CHECK (parent_rate_plan_id IS DISTINCT FROM id)
+);
+
+CREATE INDEX idx_rate_plans_property ON public.rate_plans(property_id) WHERE is_active;
+
+-- Per-date rules on what can be sold. A restriction covers the nights from
+-- start_date to end_date inclusive and can be narrowed to a room type or a
+-- rate plan. Length of stay is checked against the arrival date.
+CREATE TABLE public.stay_restrictions (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  room_type text,
+  rate_plan_id uuid REFERENCES public.rate_plans(id) ON DELETE CASCADE,
+  start_date date NOT NULL,
+  end_date date NOT NULL,
+  min_stay integer CHECK (min_stay > 0),
+  max_stay integer CHECK (max_stay > 0),
+  closed_to_arrival boolean NOT NULL DEFAULT false,
+  closed_to_departure boolean NOT NULL DEFAULT false,
+  stop_sell boolean NOT NULL DEFAULT false,
+  note text,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT stay_restrictions_dates_check CHECK (end_date >= start_date),
+  CONSTRAINT stay_restrictions_stay_check CHECK (max_stay IS NULL OR min_stay IS NULL OR max_stay >= min_stay)
+);
+
+CREATE INDEX idx_stay_restrictions_property_dates ON public.stay_restrictions(property_id, start_date, end_date);
+
+ALTER TABLE public.rate_plans ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stay_restrictions ENABLE ROW LEVEL SECURITY;
+
+-- Same split as pricing rules: everyone with access reads them for quotes,
+-- only pricing editors change them
+CREATE POLICY "Users can view rate plans for their properties" ON public.rate_plans
+  FOR SELECT USING (public.has_property_access(property_id));
+
+CREATE POLICY "Users can manage rate plans for their properties" ON public.rate_plans
+  FOR ALL USING (public.has_property_capability(property_id, 'edit_pricing'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_pricing'));
+
+CREATE POLICY "Users can view stay restrictions for their properties" ON public.stay_restrictions
+  FOR SELECT USING (public.has_property_access(property_id));
+
+CREATE POLICY "Users can manage stay restrictions for their properties" ON public.stay_restrictions
+  FOR ALL USING (public.has_property_capability(property_id, 'edit_pricing'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_pricing'));
+
+CREATE TRIGGER update_rate_plans_updated_at
+  BEFORE UPDATE ON public.rate_plans
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+CREATE TRIGGER update_stay_restrictions_updated_at
+  BEFORE UPDATE ON public.stay_restrictions
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- A derived plan stays within its parent's property and room type, and the
+-- chain of parents cannot loop back to the plan itself
+CREATE OR REPLACE FUNCTION public.validate_rate_plan()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_parent public.rate_plans%ROWTYPE;
+BEGIN
+  IF NEW.parent_rate_plan_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_parent FROM public.rate_plans WHERE id = NEW.parent_rate_plan_id;
+
+  IF v_parent.property_id IS DISTINCT FROM NEW.property_id THEN
+    RAISE EXCEPTION 'The parent rate belongs to another property';
+  END IF;
+
+  IF v_parent.room_type IS NOT NULL AND v_parent.room_type IS DISTINCT FROM NEW.room_type THEN
+    RAISE EXCEPTION 'The parent rate is only offered for %', v_parent.room_type;
+  END IF;
+
+  IF EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_rate_plan_id FROM public.rate_plans WHERE id = NEW.parent_rate_plan_id
+      UNION
+      SELECT p.id, p.parent_rate_plan_id
+      FROM public.rate_plans p
+      JOIN ancestors a ON p.id = a.parent_rate_plan_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A rate cannot be derived from itself';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER rate_plans_validate
+  BEFORE INSERT OR UPDATE OF property_id, room_type, parent_rate_plan_id ON public.rate_plans
+  FOR EACH ROW EXECUTE FUNCTION public.validate_rate_plan();
+
+ALTER TABLE public.reservations
+  ADD COLUMN rate_plan_id uuid REFERENCES public.rate_plans(id) ON DELETE SET NULL;
+
+-- Reservations take the cancellation policy of their rate plan before
+-- falling back to the property default
+CREATE OR REPLACE FUNCTION public.apply_reservation_cancellation_fields()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.cancellation_policy_id IS NULL THEN
+    SELECT COALESCE(
+      (SELECT cp.id
+       FROM public.rate_plans rp
+       JOIN public.cancellation_policies cp ON cp.id = rp.cancellation_policy_id
+       WHERE rp.id = NEW.rate_plan_id AND cp.is_active),
+      (SELECT id
+       FROM public.cancellation_policies
+       WHERE property_id = NEW.property_id AND is_default AND is_active)
+    ) INTO NEW.cancellation_policy_id;
+  END IF;
+
+  IF NEW.status = 'cancelled' AND (TG_OP = 'INSERT' OR OLD.status IS DISTINCT FROM 'cancelled') THEN
+    NEW.cancelled_at := COALESCE(NEW.cancelled_at, now());
+  ELSIF NEW.status IS DISTINCT FROM 'cancelled' THEN
+    NEW.cancelled_at := NULL;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+-- Lists every restriction a stay breaks, one row each. Room type and rate
+-- plan restrictions only apply when the stay has that room or plan.
+-- There is no reservation trigger on purpose: stays imported from iCal feeds
+-- were already sold on the channel and must land even when they break one.
+CREATE OR REPLACE FUNCTION public.check_stay_restrictions(
+  p_property_id uuid,
+  p_check_in date,
+  p_check_out date,
+  p_room_id uuid DEFAULT NULL,
+  p_rate_plan_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  restriction text,
+  restriction_date date,
+  message text
+) AS $$
+DECLARE
+  v_room_type text;
+  v_nights integer := p_check_out - p_check_in;
+BEGIN
+  SELECT r.room_type INTO v_room_type FROM public.rooms r WHERE r.id = p_room_id;
+
+  RETURN QUERY
+  WITH applicable AS (
+    SELECT s.*
+    FROM public.stay_restrictions s
+    WHERE s.property_id = p_property_id
+      AND (s.room_type IS NULL OR s.room_type = v_room_type)
+      AND (s.rate_plan_id IS NULL OR s.rate_plan_id = p_rate_plan_id)
+      AND s.start_date <= p_check_out
+      AND s.end_date >= p_check_in
+  )
+  SELECT 'stop_sell', d::date, format('Closed for sale on %s', to_char(d, 'Mon FMDD, YYYY'))
+  FROM generate_series(p_check_in, p_check_out - 1, interval '1 day') AS d
+  WHERE EXISTS (
+    SELECT 1 FROM applicable a WHERE a.stop_sell AND d::date BETWEEN a.start_date AND a.end_date
+  )
+  UNION ALL
+  SELECT 'closed_to_arrival', p_check_in, format('No arrivals on %s', to_char(p_check_in, 'Mon FMDD, YYYY'))
+  WHERE EXISTS (
+    SELECT 1 FROM applicable a WHERE a.closed_to_arrival AND p_check_in BETWEEN a.start_date AND a.end_date
+  )
+  UNION ALL
+  SELECT 'closed_to_departure', p_check_out, format('No departures on %s', to_char(p_check_out, 'Mon FMDD, YYYY'))
+  WHERE EXISTS (
+    SELECT 1 FROM applicable a WHERE a.closed_to_departure AND p_check_out BETWEEN a.start_date AND a.end_date
+  )
+  UNION ALL
+  SELECT 'min_stay', p_check_in,
+         format('Stays arriving on %s need at least %s nights', to_char(p_check_in, 'Mon FMDD, YYYY'), m.min_stay)
+  FROM (
+    SELECT max(a.min_stay) AS min_stay FROM applicable a WHERE p_check_in BETWEEN a.start_date AND a.end_date
+  ) m
+  WHERE m.min_stay > v_nights
+  UNION ALL
+  SELECT 'max_stay', p_check_in,
+         format('Stays arriving on %s can be at most %s nights', to_char(p_check_in, 'Mon FMDD, YYYY'), m.max_stay)
+  FROM (
+    SELECT min(a.max_stay) AS max_stay FROM applicable a WHERE p_check_in BETWEEN a.start_date AND a.end_date
+  ) m
+  WHERE m.max_stay < v_nights;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- The resolver now takes a rate plan, whose adjustments are applied after
+-- the pricing rules from the root plan down, and refuses stays that break a
+-- restriction
+DROP FUNCTION public.resolve_nightly_rates(uuid, date, date, uuid);
+
+CREATE OR REPLACE FUNCTION public.resolve_nightly_rates(
+  p_property_id uuid,
+  p_check_in date,
+  p_check_out date,
+  p_room_id uuid DEFAULT NULL,
+  p_rate_plan_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  night date,
+  base_price numeric,
+  price numeric,
+  occupancy numeric,
+  applied_rules jsonb
+) AS $$
+DECLARE
+  v_base numeric;
+  v_night date;
+  v_price numeric;
+  v_stage integer;
+  v_rule public.pricing_rules%ROWTYPE;
+  v_restriction text;
+  v_plan_adjustments jsonb := '[]'::jsonb;
+  v_adjustment jsonb;
+BEGIN
+  IF p_check_out <= p_check_in THEN
+    RAISE EXCEPTION 'Check-out must be after check-in' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(NULLIF(r.base_price, 0), p.base_price, 0)
+  INTO v_base
+  FROM public.properties p
+  LEFT JOIN public.rooms r ON r.id = p_room_id AND r.property_id = p.id
+  WHERE p.id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % not found', p_property_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_rate_plan_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.rate_plans rp
+      LEFT JOIN public.rooms r ON r.id = p_room_id
+      WHERE rp.id = p_rate_plan_id
+        AND rp.property_id = p_property_id
+        AND rp.is_active
+        AND (rp.room_type IS NULL OR p_room_id IS NULL OR rp.room_type = r.room_type)
+    ) THEN
+      RAISE EXCEPTION 'This rate is not offered for the selected room' USING ERRCODE = '22023';
+    END IF;
+
+    WITH RECURSIVE chain AS (
+      SELECT rp.id, rp.name, rp.parent_rate_plan_id, rp.price_adjustment, rp.is_percentage, 0 AS depth
+      FROM public.rate_plans rp
+      WHERE rp.id = p_rate_plan_id
+      UNION ALL
+      SELECT parent.id, parent.name, parent.parent_rate_plan_id, parent.price_adjustment, parent.is_percentage, chain.depth + 1
+      FROM public.rate_plans parent
+      JOIN chain ON parent.id = chain.parent_rate_plan_id
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'rule_id', chain.id,
+      'rule_name', chain.name,
+      'rule_type', 'rate_plan',
+      'price_adjustment', chain.price_adjustment,
+      'is_percentage', chain.is_percentage
+    ) ORDER BY chain.depth DESC), '[]'::jsonb)
+    INTO v_plan_adjustments
+    FROM chain
+    WHERE chain.price_adjustment <> 0;
+  END IF;
+
+  SELECT c.message INTO v_restriction
+  FROM public.check_stay_restrictions(p_property_id, p_check_in, p_check_out, p_room_id, p_rate_plan_id) c
+  LIMIT 1;
+
+  IF v_restriction IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_restriction USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_night IN
+    SELECT d::date FROM generate_series(p_check_in, p_check_out - 1, interval '1 day') AS d
+  LOOP
+    night := v_night;
+    base_price := v_base;
+    occupancy := public.property_occupancy(p_property_id, v_night);
+    applied_rules := '[]'::jsonb;
+    v_price := v_base;
+
+    FOR v_stage IN 1..4 LOOP
+      SELECT pr.* INTO v_rule
+      FROM public.pricing_rules pr
+      WHERE pr.property_id = p_property_id
+        AND pr.is_active
+        AND (pr.room_id IS NULL OR pr.room_id = p_room_id)
+        AND public.pricing_rule_stage(pr.rule_type) = v_stage
+        AND public.pricing_rule_matches(pr.rule_type, pr.conditions, v_night, occupancy)
+      ORDER BY (pr.room_id IS NOT NULL) DESC, pr.priority DESC, pr.updated_at DESC
+      LIMIT 1;
+
+      CONTINUE WHEN NOT FOUND OR v_rule.price_adjustment IS NULL;
+
+      IF COALESCE(v_rule.is_percentage, true) THEN
+        v_price := v_price * (1 + v_rule.price_adjustment / 100);
+      ELSE
+        v_price := v_price + v_rule.price_adjustment;
+      END IF;
+
+      applied_rules := applied_rules || jsonb_build_object(
+        'rule_id', v_rule.id,
+        'rule_name', v_rule.rule_name,
+        'rule_type', v_rule.rule_type,
+        'price_adjustment', v_rule.price_adjustment,
+        'is_percentage', COALESCE(v_rule.is_percentage, true)
+      );
+    END LOOP;
+
+    FOR v_adjustment IN SELECT value FROM jsonb_array_elements(v_plan_adjustments) LOOP
+      IF (v_adjustment->>'is_percentage')::boolean THEN
+        v_price := v_price * (1 + (v_adjustment->>'price_adjustment')::numeric / 100);
+      ELSE
+        v_price := v_price + (v_adjustment->>'price_adjustment')::numeric;
+      END IF;
+
+      applied_rules := applied_rules || v_adjustment;
+    END LOOP;
+
+    price := round(GREATEST(v_price, 0), 2);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
@@ -0,0 +1,357 @@
+-- Prices set for a room type on a given night from the rate grid. An override
+-- replaces the base price and pricing rules for that night; rate plans are
+-- still applied on top of it.
+CREATE TABLE public.rate_overrides (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  -- Matches rooms.room_type
+  room_type text NOT NULL,
+  night date NOT NULL,
+  price numeric(12,2) NOT NULL CHECK (price >= 0),
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT rate_overrides_night_key UNIQUE (property_id, room_type, night)
+);
+
+ALTER TABLE public.rate_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view rate overrides for their properties" ON public.rate_overrides
+  FOR SELECT USING (public.has_property_access(property_id));
+
+CREATE POLICY "Users can manage rate overrides for their properties" ON public.rate_overrides
+  FOR ALL USING (public.has_property_capability(property_id, 'edit_pricing'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_pricing'));
+
+CREATE TRIGGER update_rate_overrides_updated_at
+  BEFORE UPDATE ON public.rate_overrides
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Price of a single night before rate plans: the override for the room type
+-- when there is one, otherwise the base price with at most one pricing rule
+-- per stage. Shared by the resolver and the rate grid.
+CREATE OR REPLACE FUNCTION public.resolve_night_price(
+  p_property_id uuid,
+  p_night date,
+  p_base numeric,
+  p_occupancy numeric,
+  p_room_id uuid DEFAULT NULL,
+  p_room_type text DEFAULT NULL,
+  OUT price numeric,
+  OUT applied_rules jsonb
+) AS $$
+DECLARE
+  v_override public.rate_overrides%ROWTYPE;
+  v_stage integer;
+  v_rule public.pricing_rules%ROWTYPE;
+BEGIN
+  applied_rules := '[]'::jsonb;
+
+  SELECT o.* INTO v_override
+  FROM public.rate_overrides o
+  WHERE o.property_id = p_property_id
+    AND o.room_type = p_room_type
+    AND o.night = p_night;
+
+  IF FOUND THEN
+    price := v_override.price;
+    applied_rules := jsonb_build_array(jsonb_build_object(
+      'rule_id', v_override.id,
+      'rule_name', 'Rate grid',
+      'rule_type', 'override',
+      'price_adjustment', v_override.price,
+      'is_percentage', false
+    ));
+    RETURN;
+  END IF;
+
+  price := p_base;
+
+  FOR v_stage IN 1..4 LOOP
+    SELECT pr.* INTO v_rule
+    FROM public.pricing_rules pr
+    WHERE pr.property_id = p_property_id
+      AND pr.is_active
+      AND (pr.room_id IS NULL OR pr.room_id = p_room_id)
+      AND public.pricing_rule_stage(pr.rule_type) = v_stage
+      AND public.pricing_rule_matches(pr.rule_type, pr.conditions, p_night, p_occupancy)
+    ORDER BY (pr.room_id IS NOT NULL) DESC, pr.priority DESC, pr.updated_at DESC
+    LIMIT 1;
+
+    CONTINUE WHEN NOT FOUND OR v_rule.price_adjustment IS NULL;
+
+    IF COALESCE(v_rule.is_percentage, true) THEN
+      price := price * (1 + v_rule.price_adjustment / 100);
+    ELSE
+      price := price + v_rule.price_adjustment;
+    END IF;
+
+    applied_rules := applied_rules || jsonb_build_object(
+      'rule_id', v_rule.id,
+      'rule_name', v_rule.rule_name,
+      'rule_type', v_rule.rule_type,
+      'price_adjustment', v_rule.price_adjustment,
+      'is_percentage', COALESCE(v_rule.is_percentage, true)
+    );
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Same resolver as before, with each night priced by resolve_night_price so
+-- that overrides from the rate grid are honoured
+CREATE OR REPLACE FUNCTION public.resolve_nightly_rates(
+  p_property_id uuid,
+  p_check_in date,
+  p_check_out date,
+  p_room_id uuid DEFAULT NULL,
+  p_rate_plan_id uuid DEFAULT NULL
+)
+RETURNS TABLE (
+  night date,
+  base_price numeric,
+  price numeric,
+  occupancy numeric,
+  applied_rules jsonb
+) AS $$
+DECLARE
+  v_base numeric;
+  v_room_type text;
+  v_night date;
+  v_price numeric;
+  v_restriction text;
+  v_plan_adjustments jsonb := '[]'::jsonb;
+  v_adjustment jsonb;
+BEGIN
+  IF p_check_out <= p_check_in THEN
+    RAISE EXCEPTION 'Check-out must be after check-in' USING ERRCODE = '22023';
+  END IF;
+
+  SELECT COALESCE(NULLIF(r.base_price, 0), p.base_price, 0), r.room_type
+  INTO v_base, v_room_type
+  FROM public.properties p
+  LEFT JOIN public.rooms r ON r.id = p_room_id AND r.property_id = p.id
+  WHERE p.id = p_property_id;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Property % not found', p_property_id USING ERRCODE = 'P0002';
+  END IF;
+
+  IF p_rate_plan_id IS NOT NULL THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM public.rate_plans rp
+      LEFT JOIN public.rooms r ON r.id = p_room_id
+      WHERE rp.id = p_rate_plan_id
+        AND rp.property_id = p_property_id
+        AND rp.is_active
+        AND (rp.room_type IS NULL OR p_room_id IS NULL OR rp.room_type = r.room_type)
+    ) THEN
+      RAISE EXCEPTION 'This rate is not offered for the selected room' USING ERRCODE = '22023';
+    END IF;
+
+    WITH RECURSIVE chain AS (
+      SELECT rp.id, rp.name, rp.parent_rate_plan_id, rp.price_adjustment, rp.is_percentage, 0 AS depth
+      FROM public.rate_plans rp
+      WHERE rp.id = p_rate_plan_id
+      UNION ALL
+      SELECT parent.id, parent.name, parent.parent_rate_plan_id, parent.price_adjustment, parent.is_percentage, chain.depth + 1
+      FROM public.rate_plans parent
+      JOIN chain ON parent.id = chain.parent_rate_plan_id
+    )
+    SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'rule_id', chain.id,
+      'rule_name', chain.name,
+      'rule_type', 'rate_plan',
+      'price_adjustment', chain.price_adjustment,
+      'is_percentage', chain.is_percentage
+    ) ORDER BY chain.depth DESC), '[]'::jsonb)
+    INTO v_plan_adjustments
+    FROM chain
+    WHERE chain.price_adjustment <> 0;
+  END IF;
+
+  SELECT c.message INTO v_restriction
+  FROM public.check_stay_restrictions(p_property_id, p_check_in, p_check_out, p_room_id, p_rate_plan_id) c
+  LIMIT 1;
+
+  IF v_restriction IS NOT NULL THEN
+    RAISE EXCEPTION '%', v_restriction USING ERRCODE = 'P0001';
+  END IF;
+
+  FOR v_night IN
+    SELECT d::date FROM generate_series(p_check_in, p_check_out - 1, interval '1 day') AS d
+  LOOP
+    night := v_night;
+    base_price := v_base;
+    occupancy := public.property_occupancy(p_property_id, v_night);
+
+    SELECT n.price, n.applied_rules INTO v_price, applied_rules
+    FROM public.resolve_night_price(p_property_id, v_night, v_base, occupancy, p_room_id, v_room_type) n;
+
+    FOR v_adjustment IN SELECT value FROM jsonb_array_elements(v_plan_adjustments) LOOP
+      IF (v_adjustment->>'is_percentage')::boolean THEN
+        v_price := v_price * (1 + (v_adjustment->>'price_adjustment')::numeric / 100);
+      ELSE
+        v_price := v_price + (v_adjustment->>'price_adjustment')::numeric;
+      END IF;
+
+      applied_rules := applied_rules || v_adjustment;
+    END LOOP;
+
+    price := round(GREATEST(v_price, 0), 2);
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- One row per room type and night from p_from up to, not including, p_to:
+-- units left to sell, the base rate and the restrictions that apply to every
+-- rate plan. The rate is priced from the cheapest room of the type; rooms
+-- without a room type are left out.
+CREATE OR REPLACE FUNCTION public.rate_grid(p_property_id uuid, p_from date, p_to date)
+RETURNS TABLE (
+  room_type text,
+  night date,
+  total_units integer,
+  booked_units integer,
+  out_of_order_units integer,
+  available_units integer,
+  price numeric,
+  is_override boolean,
+  min_stay integer,
+  max_stay integer,
+  closed_to_arrival boolean,
+  closed_to_departure boolean,
+  stop_sell boolean
+) AS $$
+DECLARE
+  v_night date;
+  v_occupancy numeric;
+  v_type record;
+  v_rules jsonb;
+BEGIN
+  IF p_to <= p_from THEN
+    RAISE EXCEPTION 'The end date must be after the start date' USING ERRCODE = '22023';
+  END IF;
+
+  IF p_to - p_from > 93 THEN
+    RAISE EXCEPTION 'The rate grid covers at most 93 nights' USING ERRCODE = '22023';
+  END IF;
+
+  FOR v_night IN
+    SELECT d::date FROM generate_series(p_from, p_to - 1, interval '1 day') AS d
+  LOOP
+    v_occupancy := public.property_occupancy(p_property_id, v_night);
+
+    FOR v_type IN
+      SELECT
+        t.room_type,
+        COALESCE(min(NULLIF(t.base_price, 0)), max(t.property_price), 0) AS base,
+        count(*)::integer AS units,
+        count(*) FILTER (WHERE t.booked)::integer AS booked,
+        count(*) FILTER (WHERE t.out_of_order AND NOT t.booked)::integer AS out_of_order
+      FROM (
+        SELECT
+          r.room_type,
+          r.base_price,
+          p.base_price AS property_price,
+          public.room_out_of_order(r.id, v_night) AS out_of_order,
+          EXISTS (
+            SELECT 1 FROM public.reservations res
+            WHERE res.room_id = r.id
+              AND res.status IS DISTINCT FROM 'cancelled'
+              AND res.check_in <= v_night AND res.check_out > v_night
+          ) AS booked
+        FROM public.rooms r
+        JOIN public.properties p ON p.id = r.property_id
+        WHERE r.property_id = p_property_id
+          AND r.is_active
+          AND r.room_type IS NOT NULL
+      ) t
+      GROUP BY t.room_type
+      ORDER BY t.room_type
+    LOOP
+      room_type := v_type.room_type;
+      night := v_night;
+      total_units := v_type.units;
+      booked_units := v_type.booked;
+      out_of_order_units := v_type.out_of_order;
+      available_units := GREATEST(v_type.units - v_type.booked - v_type.out_of_order, 0);
+
+      SELECT n.price, n.applied_rules INTO price, v_rules
+      FROM public.resolve_night_price(p_property_id, v_night, v_type.base, v_occupancy, NULL, v_type.room_type) n;
+
+      price := round(GREATEST(price, 0), 2);
+      is_override := v_rules @> '[{"rule_type": "override"}]'::jsonb;
+
+      SELECT
+        max(s.min_stay),
+        min(s.max_stay),
+        COALESCE(bool_or(s.closed_to_arrival), false),
+        COALESCE(bool_or(s.closed_to_departure), false),
+        COALESCE(bool_or(s.stop_sell), false)
+      INTO min_stay, max_stay, closed_to_arrival, closed_to_departure, stop_sell
+      FROM public.stay_restrictions s
+      WHERE s.property_id = p_property_id
+        AND s.rate_plan_id IS NULL
+        AND (s.room_type IS NULL OR s.room_type = v_type.room_type)
+        AND v_night BETWEEN s.start_date AND s.end_date;
+
+      RETURN NEXT;
+    END LOOP;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE SET search_path = public;
+
+-- Bulk edit from the rate grid over the nights from p_from up to, not
+-- including, p_to. 'set' stores p_value as the price, 'percent' changes the
+-- rate currently shown by p_value percent and 'clear' removes the overrides
+-- so the pricing rules apply again. Returns the number of nights changed.
+CREATE OR REPLACE FUNCTION public.apply_rate_change(
+  p_property_id uuid,
+  p_room_types text[],
+  p_from date,
+  p_to date,
+  p_mode text,
+  p_value numeric DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  IF NOT public.has_property_capability(p_property_id, 'edit_pricing') THEN
+    RAISE EXCEPTION 'You are not allowed to change rates for this property' USING ERRCODE = '42501';
+  END IF;
+
+  IF p_mode = 'clear' THEN
+    DELETE FROM public.rate_overrides
+    WHERE property_id = p_property_id
+      AND room_type = ANY(p_room_types)
+      AND night >= p_from AND night < p_to;
+
+    GET DIAGNOSTICS v_count = ROW_COUNT;
+    RETURN v_count;
+  END IF;
+
+  IF p_mode NOT IN ('set', 'percent') THEN
+    RAISE EXCEPTION 'Unknown rate change %', p_mode USING ERRCODE = '22023';
+  END IF;
+
+  IF p_value IS NULL OR (p_mode = 'set' AND p_value < 0) THEN
+    RAISE EXCEPTION 'Enter a valid amount' USING ERRCODE = '22023';
+  END IF;
+
+  INSERT INTO public.rate_overrides (property_id, room_type, night, price)
+  SELECT
+    p_property_id,
+    g.room_type,
+    g.night,
+    round(GREATEST(CASE WHEN p_mode = 'set' THEN p_value ELSE g.price * (1 + p_value / 100) END, 0), 2)
+  FROM public.rate_grid(p_property_id, p_from, p_to) g
+  WHERE g.room_type = ANY(p_room_types)
+  ON CONFLICT (property_id, room_type, night) DO UPDATE SET price = EXCLUDED.price;
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
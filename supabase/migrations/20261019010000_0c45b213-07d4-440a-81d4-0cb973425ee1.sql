@@ -0,0 +1,156 @@
+-- Direct bookings: owners opt a property in to the public booking page,
+-- which is served by the booking-engine edge function
+ALTER TABLE public.properties
+  ADD COLUMN direct_booking_enabled boolean NOT NULL DEFAULT false;
+
+-- Short code guests quote when they contact the property. Built from random
+-- bytes over an alphabet without look-alike characters (no 0/O, 1/I).
+CREATE OR REPLACE FUNCTION public.generate_confirmation_code()
+RETURNS text AS $$
+DECLARE
+  v_alphabet constant text := 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+  v_bytes bytea;
+  v_code text;
+  v_index integer;
+BEGIN
+  LOOP
+    -- Bytes 6 and 8 of a v4 uuid carry the version and variant bits
+    v_bytes := uuid_send(gen_random_uuid());
+    v_code := '';
+    FOREACH v_index IN ARRAY ARRAY[0, 1, 2, 3, 4, 5, 10, 11] LOOP
+      v_code := v_code || substr(v_alphabet, 1 + get_byte(v_bytes, v_index) % 32, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM public.reservations WHERE confirmation_code = v_code);
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+ALTER TABLE public.reservations ADD COLUMN confirmation_code text;
+
+UPDATE public.reservations
+SET confirmation_code = public.generate_confirmation_code()
+WHERE confirmation_code IS NULL;
+
+ALTER TABLE public.reservations
+  ALTER COLUMN confirmation_code SET DEFAULT public.generate_confirmation_code(),
+  ALTER COLUMN confirmation_code SET NOT NULL;
+
+CREATE UNIQUE INDEX idx_reservations_confirmation_code ON public.reservations(confirmation_code);
+
+-- Requests to public endpoints, counted per bucket (an action plus a hashed
+-- client address). Only the edge functions touch it, through hit_rate_limit.
+CREATE TABLE public.rate_limit_hits (
+  id bigint GENERATED ALWAYS AS IDENTITY PRIMARY KEY,
+  bucket text NOT NULL,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_rate_limit_hits_bucket ON public.rate_limit_hits(bucket, created_at);
+
+ALTER TABLE public.rate_limit_hits ENABLE ROW LEVEL SECURITY;
+
+-- Records a hit and returns false once the bucket already has p_limit hits
+-- within the last p_window_seconds. Hits that fell out of the window are
+-- pruned on the way.
+CREATE OR REPLACE FUNCTION public.hit_rate_limit(p_bucket text, p_limit integer, p_window_seconds integer)
+RETURNS boolean AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  PERFORM pg_advisory_xact_lock(hashtext(p_bucket));
+
+  DELETE FROM public.rate_limit_hits
+  WHERE bucket = p_bucket
+    AND created_at < now() - make_interval(secs => p_window_seconds);
+
+  SELECT count(*) INTO v_count
+  FROM public.rate_limit_hits
+  WHERE bucket = p_bucket;
+
+  IF v_count >= p_limit THEN
+    RETURN false;
+  END IF;
+
+  INSERT INTO public.rate_limit_hits (bucket) VALUES (p_bucket);
+  RETURN true;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.hit_rate_limit(text, integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Booking form tokens that have been used, so a token only books once. Kept
+-- for a day, well past the point where the form refuses an old token anyway.
+CREATE TABLE public.booking_form_tokens (
+  nonce uuid PRIMARY KEY,
+  used_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_booking_form_tokens_used_at ON public.booking_form_tokens(used_at);
+
+ALTER TABLE public.booking_form_tokens ENABLE ROW LEVEL SECURITY;
+
+-- Marks a form token as used and tells whether it was still unused
+CREATE OR REPLACE FUNCTION public.claim_booking_form_token(p_nonce uuid)
+RETURNS boolean AS $$
+BEGIN
+  DELETE FROM public.booking_form_tokens WHERE used_at < now() - interval '1 day';
+
+  INSERT INTO public.booking_form_tokens (nonce) VALUES (p_nonce)
+  ON CONFLICT (nonce) DO NOTHING;
+
+  RETURN FOUND;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_booking_form_token(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Requests from the booking page hold their room until the property confirms
+-- them. Holds that run out are cancelled so the room goes back on sale.
+ALTER TABLE public.reservations ADD COLUMN hold_expires_at timestamp with time zone;
+
+CREATE INDEX idx_reservations_hold_expires_at ON public.reservations(hold_expires_at)
+  WHERE status = 'pending' AND hold_expires_at IS NOT NULL;
+
+-- Confirming or cancelling a request ends its hold for good, so a stay put
+-- back to pending later is not cancelled by an old hold
+CREATE OR REPLACE FUNCTION public.clear_reservation_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status IS DISTINCT FROM 'pending' THEN
+    NEW.hold_expires_at := NULL;
+  END IF;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reservations_clear_hold
+  BEFORE UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.clear_reservation_hold();
+
+CREATE OR REPLACE FUNCTION public.expire_pending_direct_bookings()
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE public.reservations
+  SET status = 'cancelled',
+      cancellation_reason = 'Not confirmed by the property in time'
+  WHERE status = 'pending'
+    AND hold_expires_at < now();
+
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Scheduler only
+REVOKE EXECUTE ON FUNCTION public.expire_pending_direct_bookings() FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'expire-pending-direct-bookings',
+  '0 * * * *',
+  $$ SELECT public.expire_pending_direct_bookings() $$
+);
@@ -0,0 +1,101 @@
+-- Guest emails sent for a reservation event. Bodies use {{placeholders}}
+-- filled in by the send-notification function.
+CREATE TABLE public.message_templates (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  event text NOT NULL CHECK (event IN ('confirmation', 'pre_arrival', 'check_in_instructions', 'post_stay', 'cancellation')),
+  subject text NOT NULL,
+  body text NOT NULL,
+  -- Inactive templates are never sent
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT message_templates_event_key UNIQUE (property_id, event)
+);
+
+ALTER TABLE public.message_templates ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view message templates" ON public.message_templates
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Property owners can manage message templates" ON public.message_templates
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = message_templates.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_message_templates_updated_at
+  BEFORE UPDATE ON public.message_templates
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Starting wording for every event; owners edit it per property
+CREATE OR REPLACE FUNCTION public.seed_message_templates(p_property_id uuid)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.message_templates (property_id, event, subject, body)
+  SELECT p_property_id, t.event, t.subject, t.body
+  FROM (VALUES
+    ('confirmation',
+     'Your stay at {{property_name}} is booked',
+     E'Dear {{guest_name}},\n\nThank you for your booking. We look forward to welcoming you.\n\nConfirmation code: {{confirmation_code}}\nArrival: {{check_in}} from {{check_in_time}}\nDeparture: {{check_out}} by {{check_out_time}}\nGuests: {{guests}}\nTotal: {{total_price}}\n\n{{property_name}}\n{{property_address}}'),
+    ('pre_arrival',
+     'See you soon at {{property_name}}',
+     E'Dear {{guest_name}},\n\nYour stay starts on {{check_in}}. Check-in opens at {{check_in_time}}.\n\nReply to this email if you have any requests before you arrive.\n\n{{property_name}}\n{{property_address}}'),
+    ('check_in_instructions',
+     'Check-in instructions for {{property_name}}',
+     E'Dear {{guest_name}},\n\nCheck-in is from {{check_in_time}} on {{check_in}}. Your room is {{room_number}}.\n\nThe address is {{property_address}}.\n\nHave a pleasant stay,\n{{property_name}}'),
+    ('post_stay',
+     'Thank you for staying at {{property_name}}',
+     E'Dear {{guest_name}},\n\nThank you for staying with us. We hope you enjoyed your visit and would be glad to welcome you again.\n\n{{property_name}}'),
+    ('cancellation',
+     'Your booking at {{property_name}} is cancelled',
+     E'Dear {{guest_name}},\n\nYour booking {{confirmation_code}} for {{check_in}} to {{check_out}} has been cancelled.\n\nIf this was a mistake, reply to this email.\n\n{{property_name}}')
+  ) AS t(event, subject, body)
+  ON CONFLICT (property_id, event) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE OR REPLACE FUNCTION public.properties_seed_message_templates()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.seed_message_templates(NEW.id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER properties_seed_message_templates
+  AFTER INSERT ON public.properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.properties_seed_message_templates();
+
+SELECT public.seed_message_templates(id) FROM public.properties;
+
+-- Every email sent (or attempted) about a reservation, including the notices
+-- owners get about new channel bookings. Written by the edge functions only.
+CREATE TABLE public.message_log (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  reservation_id uuid REFERENCES public.reservations(id) ON DELETE CASCADE,
+  -- A template event, or 'owner_new_booking'
+  event text NOT NULL,
+  template_id uuid REFERENCES public.message_templates(id) ON DELETE SET NULL,
+  recipient text NOT NULL,
+  subject text NOT NULL,
+  body text NOT NULL,
+  status text NOT NULL CHECK (status IN ('sent', 'failed')),
+  error text,
+  sent_by uuid,
+  created_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_message_log_reservation ON public.message_log(reservation_id, created_at);
+CREATE INDEX idx_message_log_property ON public.message_log(property_id, created_at);
+
+ALTER TABLE public.message_log ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view the message log" ON public.message_log
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
@@ -0,0 +1,258 @@
+-- Local time zone of a property, so automated messages go out at the
+-- property's wall-clock time. Invalid zone names are rejected.
+ALTER TABLE public.properties
+  ADD COLUMN timezone text NOT NULL DEFAULT 'UTC'
+  CHECK (pg_catalog.timezone(timezone, '2000-01-01 00:00:00+00'::timestamptz) IS NOT NULL);
+
+-- Guests who asked not to receive automated messages for this stay
+ALTER TABLE public.reservations
+  ADD COLUMN messages_opt_out boolean NOT NULL DEFAULT false;
+
+-- Rules that send a template relative to the stay or to an earlier message:
+--   check_in / check_out  offset_days from that date, at send_time or else
+--                         the property's check-in/check-out time
+--   message               offset_days after anchor_event was sent, at
+--                         send_time when set or else the same time of day
+CREATE TABLE public.message_automations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  event text NOT NULL CHECK (event IN ('confirmation', 'pre_arrival', 'check_in_instructions', 'post_stay', 'cancellation')),
+  anchor text NOT NULL CHECK (anchor IN ('check_in', 'check_out', 'message')),
+  anchor_event text CHECK (anchor_event IN ('confirmation', 'pre_arrival', 'check_in_instructions', 'post_stay', 'cancellation')),
+  offset_days integer NOT NULL DEFAULT 0 CHECK (offset_days BETWEEN -90 AND 90),
+  send_time time,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT message_automations_anchor_event_check CHECK ((anchor = 'message') = (anchor_event IS NOT NULL)),
+  -- A message can only follow an earlier one
+  CONSTRAINT message_automations_message_offset_check CHECK (anchor <> 'message' OR offset_days >= 0)
+);
+
+ALTER TABLE public.message_automations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view message automations" ON public.message_automations
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Property owners can manage message automations" ON public.message_automations
+  FOR ALL USING (
+    EXISTS (
+      SELECT 1 FROM public.properties
+      WHERE properties.id = message_automations.property_id
+      AND properties.owner_id = auth.uid()
+    )
+  );
+
+CREATE TRIGGER update_message_automations_updated_at
+  BEFORE UPDATE ON public.message_automations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- One planned send per automation and reservation. Kept up to date by
+-- plan_scheduled_messages and worked off by the run-automations function.
+CREATE TABLE public.scheduled_messages (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  automation_id uuid NOT NULL REFERENCES public.message_automations(id) ON DELETE CASCADE,
+  reservation_id uuid NOT NULL REFERENCES public.reservations(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  event text NOT NULL,
+  send_at timestamp with time zone NOT NULL,
+  status text NOT NULL DEFAULT 'scheduled' CHECK (status IN ('scheduled', 'sending', 'sent', 'failed', 'skipped', 'cancelled')),
+  message_log_id uuid REFERENCES public.message_log(id) ON DELETE SET NULL,
+  error text,
+  processed_at timestamp with time zone,
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT scheduled_messages_automation_reservation_key UNIQUE (automation_id, reservation_id)
+);
+
+CREATE INDEX idx_scheduled_messages_due ON public.scheduled_messages(send_at) WHERE status = 'scheduled';
+CREATE INDEX idx_scheduled_messages_reservation ON public.scheduled_messages(reservation_id, send_at);
+
+ALTER TABLE public.scheduled_messages ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view scheduled messages" ON public.scheduled_messages
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE TRIGGER update_scheduled_messages_updated_at
+  BEFORE UPDATE ON public.scheduled_messages
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- Brings the planned sends in line with the automations and reservations,
+-- for one reservation, one property or everything. Sends that are due in
+-- the future are (re)scheduled; sends for cancelled or opted-out stays and
+-- inactive automations are cancelled. Sends already made are left alone.
+CREATE OR REPLACE FUNCTION public.plan_scheduled_messages(p_property_id uuid DEFAULT NULL, p_reservation_id uuid DEFAULT NULL)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  WITH planned AS (
+    SELECT a.id AS automation_id, r.id AS reservation_id, r.property_id, a.event,
+      CASE a.anchor
+        WHEN 'check_in' THEN
+          ((r.check_in + a.offset_days) + COALESCE(a.send_time, p.check_in_time, '09:00'::time)) AT TIME ZONE p.timezone
+        WHEN 'check_out' THEN
+          ((r.check_out + a.offset_days) + COALESCE(a.send_time, p.check_out_time, '09:00'::time)) AT TIME ZONE p.timezone
+        ELSE
+          CASE WHEN a.send_time IS NULL
+            THEN m.sent_at + make_interval(days => a.offset_days)
+            ELSE (((m.sent_at AT TIME ZONE p.timezone)::date + a.offset_days) + a.send_time) AT TIME ZONE p.timezone
+          END
+      END AS send_at
+    FROM public.message_automations a
+    JOIN public.properties p ON p.id = a.property_id
+    JOIN public.reservations r ON r.property_id = a.property_id
+    LEFT JOIN LATERAL (
+      SELECT min(l.created_at) AS sent_at
+      FROM public.message_log l
+      WHERE l.reservation_id = r.id
+        AND l.event = a.anchor_event
+        AND l.status = 'sent'
+    ) m ON a.anchor = 'message'
+    WHERE a.is_active
+      AND COALESCE(r.status, 'confirmed') NOT IN ('cancelled', 'no_show')
+      AND NOT r.messages_opt_out
+      AND r.guest_email IS NOT NULL
+      AND r.check_out >= CURRENT_DATE - 90
+      AND (p_property_id IS NULL OR a.property_id = p_property_id)
+      AND (p_reservation_id IS NULL OR r.id = p_reservation_id)
+  ),
+  -- Plans that no longer apply, or whose new time has already passed. Due
+  -- plans whose time did not change stay for the job to send.
+  cancelled AS (
+    UPDATE public.scheduled_messages sm
+    SET status = 'cancelled'
+    WHERE sm.status = 'scheduled'
+      AND (p_property_id IS NULL OR sm.property_id = p_property_id)
+      AND (p_reservation_id IS NULL OR sm.reservation_id = p_reservation_id)
+      AND NOT EXISTS (
+        SELECT 1 FROM planned pm
+        WHERE pm.automation_id = sm.automation_id
+          AND pm.reservation_id = sm.reservation_id
+          AND (pm.send_at >= now() OR pm.send_at = sm.send_at)
+      )
+    RETURNING sm.id
+  ),
+  upserted AS (
+    INSERT INTO public.scheduled_messages (automation_id, reservation_id, property_id, event, send_at)
+    SELECT automation_id, reservation_id, property_id, event, send_at
+    FROM planned
+    WHERE send_at >= now()
+    ON CONFLICT (automation_id, reservation_id) DO UPDATE
+    SET send_at = EXCLUDED.send_at,
+        event = EXCLUDED.event,
+        status = 'scheduled',
+        error = NULL
+    WHERE scheduled_messages.status IN ('scheduled', 'cancelled')
+      AND (scheduled_messages.send_at, scheduled_messages.event, scheduled_messages.status)
+        IS DISTINCT FROM (EXCLUDED.send_at, EXCLUDED.event, 'scheduled')
+    RETURNING 1
+  )
+  SELECT (SELECT count(*) FROM upserted) + (SELECT count(*) FROM cancelled) INTO v_count;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.plan_scheduled_messages(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION public.reservations_plan_scheduled_messages()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.plan_scheduled_messages(NULL, NEW.id);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER reservations_plan_scheduled_messages
+  AFTER INSERT OR UPDATE OF check_in, check_out, status, guest_email, messages_opt_out ON public.reservations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.reservations_plan_scheduled_messages();
+
+CREATE OR REPLACE FUNCTION public.property_settings_plan_scheduled_messages()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.plan_scheduled_messages(NEW.property_id, NULL);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER message_automations_plan_scheduled_messages
+  AFTER INSERT OR UPDATE ON public.message_automations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.property_settings_plan_scheduled_messages();
+
+CREATE OR REPLACE FUNCTION public.properties_plan_scheduled_messages()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM public.plan_scheduled_messages(NEW.id, NULL);
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER properties_plan_scheduled_messages
+  AFTER UPDATE OF timezone, check_in_time, check_out_time ON public.properties
+  FOR EACH ROW
+  EXECUTE FUNCTION public.properties_plan_scheduled_messages();
+
+-- Messages that follow another one are planned as soon as it is sent
+CREATE OR REPLACE FUNCTION public.message_log_plan_scheduled_messages()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'sent' AND NEW.reservation_id IS NOT NULL THEN
+    PERFORM public.plan_scheduled_messages(NULL, NEW.reservation_id);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+CREATE TRIGGER message_log_plan_scheduled_messages
+  AFTER INSERT ON public.message_log
+  FOR EACH ROW
+  EXECUTE FUNCTION public.message_log_plan_scheduled_messages();
+
+-- Hands out up to p_limit due sends and marks them as being sent, so that
+-- overlapping runs never pick the same one. Sends missed by more than a day
+-- (the job was down) are skipped instead of arriving late.
+CREATE OR REPLACE FUNCTION public.claim_scheduled_messages(p_limit integer DEFAULT 100)
+RETURNS SETOF public.scheduled_messages AS $$
+BEGIN
+  UPDATE public.scheduled_messages
+  SET status = 'skipped', error = 'Missed its send time', processed_at = now()
+  WHERE status = 'scheduled'
+    AND send_at < now() - interval '1 day';
+
+  RETURN QUERY
+  UPDATE public.scheduled_messages sm
+  SET status = 'sending'
+  WHERE sm.id IN (
+    SELECT id FROM public.scheduled_messages
+    WHERE status = 'scheduled'
+      AND send_at <= now()
+    ORDER BY send_at
+    LIMIT p_limit
+    FOR UPDATE SKIP LOCKED
+  )
+  RETURNING sm.*;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+REVOKE EXECUTE ON FUNCTION public.claim_scheduled_messages(integer) FROM PUBLIC, anon, authenticated;
+
+SELECT cron.schedule(
+  'run-automations',
+  '*/10 * * * *',
+  $$
+  SELECT net.http_post(
+    url := 'https://bxkjgqpmafkjwpxfmera.supabase.co/functions/v1/run-automations',
+    headers := jsonb_build_object(
+      'Content-Type', 'application/json',
+      'Authorization', 'Bearer ' || (SELECT decrypted_secret FROM vault.decrypted_secrets WHERE name = 'service_role_key')
+    ),
+    body := '{}'::jsonb
+  );
+  $$
+);
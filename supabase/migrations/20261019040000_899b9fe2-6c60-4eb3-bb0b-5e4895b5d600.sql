@@ -0,0 +1,99 @@
+-- Online pre-check-in: guests fill in their registration from a signed link
+-- before arrival, served by the guest-checkin edge function
+ALTER TABLE public.properties
+  ADD COLUMN house_rules text;
+
+-- Set when the guest submits the online registration
+ALTER TABLE public.reservations
+  ADD COLUMN pre_checked_in_at timestamp with time zone;
+
+CREATE TABLE public.guest_registrations (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  reservation_id uuid NOT NULL UNIQUE REFERENCES public.reservations(id) ON DELETE CASCADE,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  full_name text NOT NULL,
+  date_of_birth date,
+  nationality text,
+  address text,
+  document_type text,
+  document_number text,
+  document_expiry date,
+  -- Path in the guest-documents bucket
+  document_photo_path text,
+  -- [{ full_name, date_of_birth, nationality, document_type, document_number }]
+  companions jsonb NOT NULL DEFAULT '[]'::jsonb,
+  arrival_time time,
+  house_rules_accepted_at timestamp with time zone,
+  submitted_at timestamp with time zone NOT NULL DEFAULT now(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now()
+);
+
+CREATE INDEX idx_guest_registrations_property ON public.guest_registrations(property_id);
+
+ALTER TABLE public.guest_registrations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view guest registrations" ON public.guest_registrations
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE TRIGGER update_guest_registrations_updated_at
+  BEFORE UPDATE ON public.guest_registrations
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
+
+-- ID photos, stored as <property_id>/<reservation_id>/<file>. Guests upload
+-- through signed upload URLs from the edge function; staff can only read.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES (
+  'guest-documents',
+  'guest-documents',
+  false,
+  10485760,
+  ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'application/pdf']
+);
+
+CREATE POLICY "Reservation viewers can view guest documents"
+ON storage.objects
+FOR SELECT
+USING (
+  bucket_id = 'guest-documents'
+  AND public.has_property_capability(((storage.foldername(name))[1])::uuid, 'view_reservations')
+);
+
+-- Link guests to the online check-in from the confirmation. Templates the
+-- owner already changed are left as they are.
+CREATE OR REPLACE FUNCTION public.seed_message_templates(p_property_id uuid)
+RETURNS void AS $$
+BEGIN
+  INSERT INTO public.message_templates (property_id, event, subject, body)
+  SELECT p_property_id, t.event, t.subject, t.body
+  FROM (VALUES
+    ('confirmation',
+     'Your stay at {{property_name}} is booked',
+     E'Dear {{guest_name}},\n\nThank you for your booking. We look forward to welcoming you.\n\nConfirmation code: {{confirmation_code}}\nArrival: {{check_in}} from {{check_in_time}}\nDeparture: {{check_out}} by {{check_out_time}}\nGuests: {{guests}}\nTotal: {{total_price}}\n\nSave time at arrival by checking in online:\n{{precheckin_url}}\n\n{{property_name}}\n{{property_address}}'),
+    ('pre_arrival',
+     'See you soon at {{property_name}}',
+     E'Dear {{guest_name}},\n\nYour stay starts on {{check_in}}. Check-in opens at {{check_in_time}}.\n\nIf you have not done so yet, check in online before you arrive:\n{{precheckin_url}}\n\nReply to this email if you have any requests before you arrive.\n\n{{property_name}}\n{{property_address}}'),
+    ('check_in_instructions',
+     'Check-in instructions for {{property_name}}',
+     E'Dear {{guest_name}},\n\nCheck-in is from {{check_in_time}} on {{check_in}}. Your room is {{room_number}}.\n\nThe address is {{property_address}}.\n\nHave a pleasant stay,\n{{property_name}}'),
+    ('post_stay',
+     'Thank you for staying at {{property_name}}',
+     E'Dear {{guest_name}},\n\nThank you for staying with us. We hope you enjoyed your visit and would be glad to welcome you again.\n\n{{property_name}}'),
+    ('cancellation',
+     'Your booking at {{property_name}} is cancelled',
+     E'Dear {{guest_name}},\n\nYour booking {{confirmation_code}} for {{check_in}} to {{check_out}} has been cancelled.\n\nIf this was a mistake, reply to this email.\n\n{{property_name}}')
+  ) AS t(event, subject, body)
+  ON CONFLICT (property_id, event) DO NOTHING;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+UPDATE public.message_templates
+SET body = E'Dear {{guest_name}},\n\nThank you for your booking. We look forward to welcoming you.\n\nConfirmation code: {{confirmation_code}}\nArrival: {{check_in}} from {{check_in_time}}\nDeparture: {{check_out}} by {{check_out_time}}\nGuests: {{guests}}\nTotal: {{total_price}}\n\nSave time at arrival by checking in online:\n{{precheckin_url}}\n\n{{property_name}}\n{{property_address}}'
+WHERE event = 'confirmation'
+  AND body = E'Dear {{guest_name}},\n\nThank you for your booking. We look forward to welcoming you.\n\nConfirmation code: {{confirmation_code}}\nArrival: {{check_in}} from {{check_in_time}}\nDeparture: {{check_out}} by {{check_out_time}}\nGuests: {{guests}}\nTotal: {{total_price}}\n\n{{property_name}}\n{{property_address}}';
+
+UPDATE public.message_templates
+SET body = E'Dear {{guest_name}},\n\nYour stay starts on {{check_in}}. Check-in opens at {{check_in_time}}.\n\nIf you have not done so yet, check in online before you arrive:\n{{precheckin_url}}\n\nReply to this email if you have any requests before you arrive.\n\n{{property_name}}\n{{property_address}}'
+WHERE event = 'pre_arrival'
+  AND body = E'Dear {{guest_name}},\n\nYour stay starts on {{check_in}}. Check-in opens at {{check_in_time}}.\n\nReply to this email if you have any requests before you arrive.\n\n{{property_name}}\n{{property_address}}';
@@ -0,0 +1,63 @@
+-- Foreign guest registration for the Czech police (Ubyport). Properties get
+-- the identifiers the police assigned to them; each exported file is kept as
+-- a batch so staff can see what was reported and when.
+ALTER TABLE public.properties
+  ADD COLUMN ubyport_idub text,
+  ADD COLUMN ubyport_abbreviation text,
+  ADD COLUMN ubyport_contact text;
+
+ALTER TABLE public.properties
+  ADD CONSTRAINT properties_ubyport_idub_check CHECK (ubyport_idub ~ '^[0-9]{1,12}$'),
+  ADD CONSTRAINT properties_ubyport_abbreviation_check CHECK (char_length(ubyport_abbreviation) <= 5);
+
+-- The file has the surname and given names in separate fields, and a full
+-- name cannot be split reliably. Guests enter them apart in the online
+-- check-in and staff in the guest profile; companions carry surname and
+-- given_names in their JSON.
+ALTER TABLE public.guests
+  ADD COLUMN surname text,
+  ADD COLUMN given_names text;
+
+ALTER TABLE public.guest_registrations
+  ADD COLUMN surname text,
+  ADD COLUMN given_names text;
+
+CREATE TABLE public.police_registration_batches (
+  id uuid NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  property_id uuid NOT NULL REFERENCES public.properties(id) ON DELETE CASCADE,
+  -- Stays arriving in [period_start, period_end]
+  period_start date NOT NULL,
+  period_end date NOT NULL,
+  file_name text NOT NULL,
+  -- The file as generated, so it can be downloaded again
+  content text NOT NULL,
+  guest_count integer NOT NULL CHECK (guest_count > 0),
+  reservation_ids uuid[] NOT NULL DEFAULT '{}',
+  -- 'generated' until staff confirm the file was accepted by Ubyport
+  status text NOT NULL DEFAULT 'generated' CHECK (status IN ('generated', 'submitted')),
+  submitted_at timestamp with time zone,
+  submitted_by uuid,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamp with time zone NOT NULL DEFAULT now(),
+  updated_at timestamp with time zone NOT NULL DEFAULT now(),
+  CONSTRAINT police_registration_batches_period_check CHECK (period_end >= period_start)
+);
+
+CREATE INDEX idx_police_registration_batches_property
+  ON public.police_registration_batches(property_id, created_at DESC);
+CREATE INDEX idx_police_registration_batches_reservations
+  ON public.police_registration_batches USING gin (reservation_ids);
+
+ALTER TABLE public.police_registration_batches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Reservation viewers can view police registration batches" ON public.police_registration_batches
+  FOR SELECT USING (public.has_property_capability(property_id, 'view_reservations'));
+
+CREATE POLICY "Reservation editors can manage police registration batches" ON public.police_registration_batches
+  FOR ALL USING (public.has_property_capability(property_id, 'edit_reservations'))
+  WITH CHECK (public.has_property_capability(property_id, 'edit_reservations'));
+
+CREATE TRIGGER update_police_registration_batches_updated_at
+  BEFORE UPDATE ON public.police_registration_batches
+  FOR EACH ROW
+  EXECUTE FUNCTION public.handle_updated_at();
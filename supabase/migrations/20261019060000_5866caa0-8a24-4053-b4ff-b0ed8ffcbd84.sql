@@ -0,0 +1,200 @@
+-- Front desk: arrival and departure times, key cards and agreed late
+-- check-outs on the reservation, validated status transitions, and the
+-- check-in / check-out actions used by the front desk screen.
+ALTER TABLE public.reservations
+  ADD COLUMN checked_in_at timestamp with time zone,
+  ADD COLUMN checked_out_at timestamp with time zone,
+  ADD COLUMN key_cards text[] NOT NULL DEFAULT '{}',
+  -- Check-out time agreed with the guest, when later than the property's
+  ADD COLUMN late_check_out_until time;
+
+-- The date at the property, which is what arrival and departure days mean
+CREATE OR REPLACE FUNCTION public.property_today(p_property_id uuid)
+RETURNS date AS $$
+  SELECT (now() AT TIME ZONE timezone)::date
+  FROM public.properties
+  WHERE id = p_property_id;
+$$ LANGUAGE sql STABLE SET search_path = public;
+
+-- Allowed moves between reservation statuses. Cancelling goes through
+-- cancel_reservation, which refuses guests who have arrived; a cancelled
+-- reservation is final. Checking in and out can be undone one step.
+CREATE OR REPLACE FUNCTION public.validate_reservation_status()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_from text := COALESCE(OLD.status, 'confirmed');
+  v_to text := COALESCE(NEW.status, 'confirmed');
+  v_today date;
+BEGIN
+  IF v_from = v_to THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT (
+    (v_from = 'pending' AND v_to IN ('confirmed', 'cancelled'))
+    OR (v_from = 'confirmed' AND v_to IN ('pending', 'checked_in', 'cancelled'))
+    OR (v_from = 'checked_in' AND v_to IN ('confirmed', 'checked_out'))
+    OR (v_from = 'checked_out' AND v_to = 'checked_in')
+  ) THEN
+    RAISE EXCEPTION 'A % reservation cannot be changed to %',
+      replace(v_from, '_', ' '), replace(v_to, '_', ' ')
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  IF v_to = 'checked_in' AND v_from <> 'checked_out' THEN
+    IF NEW.room_id IS NULL THEN
+      RAISE EXCEPTION 'Assign a room before checking the guest in'
+        USING ERRCODE = 'check_violation';
+    END IF;
+
+    v_today := public.property_today(NEW.property_id);
+    IF NEW.check_in > v_today THEN
+      RAISE EXCEPTION 'The guest is not due until %', NEW.check_in
+        USING ERRCODE = 'check_violation';
+    END IF;
+    IF NEW.check_out <= v_today THEN
+      RAISE EXCEPTION 'The stay ended on %; change the dates before checking in', NEW.check_out
+        USING ERRCODE = 'check_violation';
+    END IF;
+  END IF;
+
+  CASE v_to
+    WHEN 'checked_in' THEN
+      NEW.checked_in_at := COALESCE(NEW.checked_in_at, now());
+      NEW.checked_out_at := NULL;
+    WHEN 'checked_out' THEN
+      NEW.checked_out_at := now();
+    WHEN 'confirmed' THEN
+      NEW.checked_in_at := NULL;
+    ELSE
+      NULL;
+  END CASE;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SET search_path = public;
+
+CREATE TRIGGER reservations_validate_status
+  BEFORE UPDATE OF status ON public.reservations
+  FOR EACH ROW EXECUTE FUNCTION public.validate_reservation_status();
+
+-- Since cancelling is final, the iCal import books an event the channel lists
+-- again after cancelling it as a new reservation. Only live reservations need
+-- to be unique per event.
+DROP INDEX IF EXISTS public.idx_reservations_feed_external_id;
+CREATE UNIQUE INDEX idx_reservations_feed_external_id
+ON public.reservations(channel_feed_id, external_reservation_id)
+WHERE channel_feed_id IS NOT NULL AND status IS DISTINCT FROM 'cancelled';
+
+-- Checks the guest in, assigning the room and key cards in the same step.
+-- An early check-in fee is posted to the folio when given.
+CREATE OR REPLACE FUNCTION public.check_in_reservation(
+  p_reservation_id uuid,
+  p_room_id uuid DEFAULT NULL,
+  p_key_cards text[] DEFAULT NULL,
+  p_early_fee numeric DEFAULT 0
+)
+RETURNS void AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id FOR UPDATE;
+
+  IF v_reservation.id IS NULL
+     OR NOT public.has_property_capability(v_reservation.property_id, 'edit_reservations') THEN
+    RAISE EXCEPTION 'Reservation not found';
+  END IF;
+
+  IF v_reservation.status = 'checked_in' THEN
+    RAISE EXCEPTION 'The guest is already checked in';
+  END IF;
+
+  UPDATE public.reservations
+  SET room_id = COALESCE(p_room_id, room_id),
+      key_cards = COALESCE(p_key_cards, key_cards),
+      status = 'checked_in'
+  WHERE id = p_reservation_id;
+
+  IF COALESCE(p_early_fee, 0) > 0 THEN
+    INSERT INTO public.folio_items
+      (reservation_id, property_id, item_type, description, service_date, unit_price)
+    VALUES (
+      p_reservation_id, v_reservation.property_id, 'fee', 'Early check-in',
+      v_reservation.check_in, round(p_early_fee, 2)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Agrees a later check-out with the guest and posts its fee, if any
+CREATE OR REPLACE FUNCTION public.arrange_late_check_out(
+  p_reservation_id uuid,
+  p_until time,
+  p_fee numeric DEFAULT 0
+)
+RETURNS void AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id FOR UPDATE;
+
+  IF v_reservation.id IS NULL
+     OR NOT public.has_property_capability(v_reservation.property_id, 'edit_reservations') THEN
+    RAISE EXCEPTION 'Reservation not found';
+  END IF;
+
+  IF v_reservation.status NOT IN ('pending', 'confirmed', 'checked_in') THEN
+    RAISE EXCEPTION 'Late check-out can only be arranged before the guest leaves';
+  END IF;
+
+  UPDATE public.reservations
+  SET late_check_out_until = p_until
+  WHERE id = p_reservation_id;
+
+  IF COALESCE(p_fee, 0) > 0 THEN
+    INSERT INTO public.folio_items
+      (reservation_id, property_id, item_type, description, service_date, unit_price)
+    VALUES (
+      p_reservation_id, v_reservation.property_id, 'fee',
+      'Late check-out until ' || to_char(p_until, 'HH24:MI'),
+      v_reservation.check_out, round(p_fee, 2)
+    );
+  END IF;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;
+
+-- Checks the guest out. The status change posts the remaining nights, so the
+-- balance is only known afterwards; an open balance rolls the check-out back
+-- unless the front desk chose to bill it later.
+CREATE OR REPLACE FUNCTION public.check_out_reservation(
+  p_reservation_id uuid,
+  p_allow_balance boolean DEFAULT false
+)
+RETURNS numeric AS $$
+DECLARE
+  v_reservation public.reservations%ROWTYPE;
+  v_balance numeric(12,2);
+BEGIN
+  SELECT * INTO v_reservation FROM public.reservations WHERE id = p_reservation_id FOR UPDATE;
+
+  IF v_reservation.id IS NULL
+     OR NOT public.has_property_capability(v_reservation.property_id, 'edit_reservations') THEN
+    RAISE EXCEPTION 'Reservation not found';
+  END IF;
+
+  UPDATE public.reservations
+  SET status = 'checked_out'
+  WHERE id = p_reservation_id;
+
+  SELECT balance INTO v_balance
+  FROM public.reservation_balances
+  WHERE reservation_id = p_reservation_id;
+
+  IF COALESCE(v_balance, 0) > 0.005 AND NOT p_allow_balance THEN
+    RAISE EXCEPTION 'The folio has an open balance of %; settle it before check-out', v_balance
+      USING ERRCODE = 'check_violation';
+  END IF;
+
+  RETURN COALESCE(v_balance, 0);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER SET search_path = public;